@@ -1,10 +1,38 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Upload, Image as ImageIcon, Play, RotateCcw, Zap, StopCircle, Camera, Video, Layers, MapPin, Database, LocateFixed, Film, Loader2, AlertCircle, X, ScanEye, Home, ChevronLeft, LayoutDashboard, History as HistoryIcon, Download, ArrowRight } from 'lucide-react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Upload, Image as ImageIcon, Play, RotateCcw, Zap, StopCircle, Camera, Video, Layers, MapPin, Database, LocateFixed, Film, Loader2, AlertCircle, X, ScanEye, Home, ChevronLeft, LayoutDashboard, History as HistoryIcon, ArrowRight, Crosshair, Shapes, LayoutGrid, Radio } from 'lucide-react';
 import { AgentPipeline } from './components/AgentPipeline';
 import { ResultsDashboard } from './components/ResultsDashboard';
-import { analyzeTrafficImage, analyzeTrafficFast, getLocationContext } from './services/geminiService';
-import { ObjectTracker } from './services/trackingService';
-import { AgentStatus, FullAnalysisResult, HistoryItem, LocationContextData, Violation } from './types';
+import { ProviderSettings } from './components/ProviderSettings';
+import { CalibrationOverlay, CalibrationPanel } from './components/CalibrationEditor';
+import { EMPTY_ZONE_DRAFT, minZonePoints, ZoneDraft, ZoneOverlay, ZonePanel } from './components/ZoneEditor';
+import { CameraWall } from './components/CameraWall';
+import { CameraSnapshot } from './components/CameraTile';
+import { StreamHealthBadge } from './components/StreamHealthBadge';
+import { VideoTimeline } from './components/VideoTimeline';
+import { SamplingPanel } from './components/SamplingPanel';
+import { getLocationContext } from './services/geminiService';
+import { PipelineError, runAgentPipeline, TrackingOutput } from './services/agentOrchestrator';
+import { PerceptionOutput } from './services/perceptionAgent';
+import { createVisionProvider, loadProviderConfig, saveProviderConfig, setVisionProvider, VisionProviderConfig } from './services/visionProvider';
+import { CameraSession } from './services/cameraSession';
+import { CapturedFrame, captureFrame } from './services/frameCapture';
+import { StreamFormat, StreamHealth, StreamSource, validateStreamUrl } from './services/streamSource';
+import { AdaptiveSampler, AdaptiveSamplingOptions, loadAdaptiveSamplingOptions, SAMPLER_TICK_MS, SamplerStats, saveAdaptiveSamplingOptions } from './services/adaptiveSampler';
+import { createFrameSignature } from './services/frameDifference';
+import { OverlayAnimator } from './services/overlayAnimator';
+import { loadVideoJobOptions, saveVideoJobOptions, VideoJob, VideoJobOptions, VideoJobProgress } from './services/videoJob';
+import { createCameraProfile, deleteCameraProfile, loadCameraProfiles, upsertCameraProfile } from './services/cameraProfiles';
+import { isLineZone } from './services/geometry';
+import { containRect, MediaSize, mediaNaturalSize } from './services/mediaFit';
+import { exportAnalyses, ExportFormat } from './services/exportService';
+import { ExportMenu } from './components/ExportMenu';
+import { AnalysisDatabase } from './components/AnalysisDatabase';
+import { importAnalysisBundle, ImportResult } from './services/importService';
+import { drawAnnotations } from './services/annotationRenderer';
+import { getRequestScheduler, isAbortError } from './services/requestScheduler';
+import { RequestQueueStatus } from './components/RequestQueueStatus';
+import { AnalysisPage, AnalysisQuery, applyRetention, DEFAULT_ANALYSIS_QUERY, deleteAnalyses, getAnalysesByIds, getAnalysisPage, loadAnalysisTrace, loadRetentionPolicy, loadThumbnailDataUrl, migrateLegacyHistory, releaseThumbnails, RetentionPolicy, saveAnalysis, saveRetentionPolicy } from './services/analysisDatabase';
+import { AgentId, AgentStageState, AgentStatus, AgentTrace, CalibrationPoint, CameraCalibration, CameraProfile, CameraSource, DetectionItem, FullAnalysisResult, HistoryItem, LocationContextData, OriginDestinationAnalysis, SignalPhase, TrackTrajectory, TurningMovementCount, Zone } from './types';
 
 // Robust Simulation Data with Diverse Scenarios
 const SIMULATION_SCENARIOS = [
@@ -18,6 +46,17 @@ const SIMULATION_SCENARIOS = [
   { url: "https://images.unsplash.com/photo-1494522855154-9297ac14b55f?q=80&w=1000", label: "Scenario 8: Tunnel Surveillance" }
 ];
 
+const HISTORY_PAGE_SIZE = 20;
+
+// Recent positions drawn behind each tracked object
+const TRAIL_LENGTH = 20;
+
+const STAGE_STATUS: Record<AgentId, AgentStatus> = {
+  perception: AgentStatus.VISION_SCANNING,
+  analytics: AgentStatus.DATA_ANALYSIS,
+  reporting: AgentStatus.REPORT_GENERATION,
+};
+
 const ErrorBanner = ({ message, onDismiss }: { message: string, onDismiss: () => void }) => (
   <div className="bg-brand-red/10 border border-brand-red/40 rounded-lg p-4 mb-6 flex items-start gap-3 animate-fadeIn backdrop-blur-md">
     <AlertCircle className="w-5 h-5 text-brand-red shrink-0 mt-0.5" />
@@ -29,28 +68,66 @@ const ErrorBanner = ({ message, onDismiss }: { message: string, onDismiss: () =>
   </div>
 );
 
-type ViewState = 'home' | 'monitor' | 'history';
+type ViewState = 'home' | 'monitor' | 'wall' | 'history';
 
 export default function App() {
   const [activeView, setActiveView] = useState<ViewState>('home');
   const [lastView, setLastView] = useState<ViewState>('home');
   const [status, setStatus] = useState<AgentStatus>(AgentStatus.IDLE);
+  const [agentStages, setAgentStages] = useState<AgentStageState[]>([]);
+  const [agentTrace, setAgentTrace] = useState<AgentTrace | null>(null); // Trace of `result`, or of the run that failed
   
   // Media State
   const [image, setImage] = useState<string | null>(null);
+  const [analyzedFrame, setAnalyzedFrame] = useState<string | null>(null); // Source frame of `result`, for reports
   const [result, setResult] = useState<FullAnalysisResult | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [historyPage, setHistoryPage] = useState<AnalysisPage>({ items: [], total: 0, storedTotal: 0, page: 0, pageSize: HISTORY_PAGE_SIZE });
+  const [historyQuery, setHistoryQuery] = useState<AnalysisQuery>(DEFAULT_ANALYSIS_QUERY);
+  const [comparisonItems, setComparisonItems] = useState<HistoryItem[]>([]);
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [retentionPolicy, setRetentionPolicy] = useState<RetentionPolicy>(loadRetentionPolicy);
+  const [providerConfig, setProviderConfig] = useState<VisionProviderConfig>(loadProviderConfig);
+  const [cameraProfiles, setCameraProfiles] = useState<CameraProfile[]>(loadCameraProfiles);
+  const [cameraProfile, setCameraProfile] = useState<CameraProfile>(() => cameraProfiles[0]); // The monitor's camera
+  
+  // Calibration State
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [calibrationPoints, setCalibrationPoints] = useState<CalibrationPoint[]>([]);
+  const [zoneDraft, setZoneDraft] = useState<ZoneDraft | null>(null);
+  const [mediaSize, setMediaSize] = useState<MediaSize | null>(null); // Monitor media's intrinsic size, for the overlays
+  const mediaSizeRef = useRef<MediaSize | null>(null); // Same, for the render loop
   
   // Active Modes
   const [isSimulating, setIsSimulating] = useState(false);
   const [simulationStep, setSimulationStep] = useState(0);
   const [isCameraActive, setIsCameraActive] = useState(false);
-  const [processingVideo, setProcessingVideo] = useState(false);
+  const [streamConfig, setStreamConfig] = useState<{ url: string; format: StreamFormat } | null>(null); // Active network stream
+  const [streamDraft, setStreamDraft] = useState<{ url: string; format: StreamFormat }>({ url: '', format: 'mjpeg' });
+  const [streamHealth, setStreamHealth] = useState<StreamHealth | null>(null);
+  const [isVideoActive, setIsVideoActive] = useState(false);
+  const [samplingOptions, setSamplingOptions] = useState<AdaptiveSamplingOptions>(loadAdaptiveSamplingOptions); // Camera, stream and wall tiles
+  const [samplerStats, setSamplerStats] = useState<SamplerStats | null>(null);
   
   // Video State
-  const [videoProgress, setVideoProgress] = useState(0);
-  const [videoSessionData, setVideoSessionData] = useState<FullAnalysisResult[]>([]);
+  const [videoJobProgress, setVideoJobProgress] = useState<VideoJobProgress | null>(null);
+  const [videoJobOptions, setVideoJobOptions] = useState<VideoJobOptions>(loadVideoJobOptions);
+  const [selectedMediaTime, setSelectedMediaTime] = useState<number | null>(null); // ms; null follows the scan
+  const [videoSessionData, setVideoSessionData] = useState<FullAnalysisResult[]>([]); // Sorted by mediaTime
+  const [movementCounts, setMovementCounts] = useState<TurningMovementCount[]>([]);
+  const [trajectories, setTrajectories] = useState<TrackTrajectory[]>([]);
+  const [signalPhases, setSignalPhases] = useState<SignalPhase[]>([]);
+  const [originDestination, setOriginDestination] = useState<OriginDestinationAnalysis | undefined>(undefined);
+
+  // Camera Wall State: tiles keep running in the background once the wall has been opened
+  const [isWallOpen, setIsWallOpen] = useState(false);
+  const [focusedCameraId, setFocusedCameraId] = useState<string | null>(null);
+  const [wallSnapshots, setWallSnapshots] = useState<Record<string, CameraSnapshot>>({});
+  const wallCameras = useMemo(() => cameraProfiles.filter(p => p.source), [cameraProfiles]);
+  const focusedCamera = wallCameras.find(c => c.id === focusedCameraId);
+  const focusedSnapshot = focusedCameraId ? wallSnapshots[focusedCameraId] : undefined;
+  const focusedRunning = focusedSnapshot?.stages.find(s => s.status === 'running');
+  const focusedStatus = focusedRunning ? STAGE_STATUS[focusedRunning.agent] : focusedSnapshot?.status === 'error' ? AgentStatus.ERROR : focusedSnapshot?.result ? AgentStatus.COMPLETE : AgentStatus.IDLE;
   
   // Refs
   const simulationRef = useRef<boolean>(false);
@@ -59,29 +136,42 @@ export default function App() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
   const [cameraStream, setCameraStream] = useState<MediaStream | null>(null);
-  const videoProcessingRef = useRef<boolean>(false);
-  const trackerRef = useRef<ObjectTracker>(new ObjectTracker());
+  const streamVideoRef = useRef<HTMLVideoElement>(null);
+  const streamImgRef = useRef<HTMLImageElement>(null);
+  const streamRef = useRef<StreamSource | null>(null);
+  const videoJobRef = useRef<VideoJob | null>(null);
+  const selectedMediaTimeRef = useRef<number | null>(null);
+  const abortControllerRef = useRef<AbortController>(new AbortController()); // Aborted by Stop; cancels queued and in-flight model calls
+  const sessionRef = useRef<CameraSession>(new CameraSession()); // Trackers and agent history of the monitor's source
+  const samplerRef = useRef<AdaptiveSampler>(new AdaptiveSampler(samplingOptions));
+  const overlayAnimatorRef = useRef<OverlayAnimator>(new OverlayAnimator());
+  const liveOverlayRef = useRef<boolean>(false); // The render loop owns the overlay
+  // Read from processing loops, which hold stale closures
+  const historyPageRef = useRef<number>(0);
+  const historyQueryRef = useRef<AnalysisQuery>(DEFAULT_ANALYSIS_QUERY);
+  const locationContextRef = useRef<LocationContextData | undefined>(undefined);
 
-  const isMonitorActive = !!(image || isSimulating || isCameraActive || processingVideo);
+  const isMonitorActive = !!(image || isSimulating || isCameraActive || isVideoActive || streamConfig);
 
   useEffect(() => {
-    const saved = localStorage.getItem('multi_ai_agent_history');
-    if (saved) {
-      try { setHistory(JSON.parse(saved)); } catch (e) { console.error(e); }
-    }
+    migrateLegacyHistory()
+      .catch(e => console.error("History migration failed", e))
+      .then(() => refreshHistory(0));
   }, []);
 
   useEffect(() => {
-    if (history.length > 0) localStorage.setItem('multi_ai_agent_history', JSON.stringify(history));
-  }, [history]);
+    sessionRef.current.applyProfile(cameraProfile);
+    setOriginDestination(sessionRef.current.getOriginDestination()); // Zone edits re-resolve the flows
+  }, [cameraProfile]);
 
   useEffect(() => {
-    if (result && image && activeView === 'monitor' && !isCameraActive && !processingVideo && !isSimulating) {
+    if (result && image && activeView === 'monitor' && !isCameraActive && !isVideoActive && !isSimulating && !streamConfig) {
         setTimeout(() => { if (result.detections) drawDetections(result.detections); }, 100);
     }
   }, [result, image, activeView]);
 
   const navigateTo = (view: ViewState) => {
+    if (view === 'wall') setIsWallOpen(true);
     setLastView(activeView);
     setActiveView(view);
   };
@@ -91,11 +181,183 @@ export default function App() {
     setActiveView('home');
   };
 
-  const handleLoadHistoryItem = (item: HistoryItem) => {
+  const handleProviderSave = (config: VisionProviderConfig) => {
+    try {
+      setVisionProvider(createVisionProvider(config));
+      saveProviderConfig(config);
+      setProviderConfig(config);
+      setError(null);
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  const handleMediaLoad = (e: React.SyntheticEvent<HTMLVideoElement | HTMLImageElement>) => {
+    mediaSizeRef.current = mediaNaturalSize(e.currentTarget);
+    setMediaSize(mediaSizeRef.current);
+  };
+
+  const startCalibration = () => {
+    setZoneDraft(null);
+    setCalibrationPoints(cameraProfile.calibration?.points || []);
+    setIsCalibrating(true);
+  };
+
+  const startZoneEditing = () => {
+    setIsCalibrating(false);
+    setZoneDraft({ ...EMPTY_ZONE_DRAFT });
+  };
+
+  const handleZoneCommit = (zone: Zone) => {
+    updateCameraProfile({ ...cameraProfile, zones: [...(cameraProfile.zones || []), zone] });
+    setZoneDraft(prev => prev ? { ...prev, label: '', points: [], approachSide: undefined } : null);
+  };
+
+  const handleZoneDelete = (zoneId: string) => {
+    updateCameraProfile({ ...cameraProfile, zones: (cameraProfile.zones || []).filter(z => z.id !== zoneId) });
+  };
+
+  const updateCameraProfile = (profile: CameraProfile) => {
+    setCameraProfiles(upsertCameraProfile(profile));
+    if (profile.id === cameraProfile.id) setCameraProfile(profile);
+  };
+
+  const selectMonitorProfile = (id: string) => {
+    const profile = cameraProfiles.find(p => p.id === id);
+    if (!profile) return;
+    setIsCalibrating(false);
+    setZoneDraft(null);
+    setCameraProfile(profile);
+  };
+
+  // --- CAMERA WALL ---
+  const handleAddCamera = (name: string, source: CameraSource) => {
+    const profile = createCameraProfile(name, source);
+    setCameraProfiles(upsertCameraProfile(profile));
+    setFocusedCameraId(profile.id);
+  };
+
+  const handleRemoveCamera = (id: string) => {
+    const remaining = deleteCameraProfile(id);
+    setCameraProfiles(remaining);
+    setWallSnapshots(({ [id]: _removed, ...rest }) => rest);
+    if (focusedCameraId === id) setFocusedCameraId(null);
+    if (cameraProfile.id === id) setCameraProfile(remaining[0]);
+  };
+
+  const handleCameraSnapshot = (snapshot: CameraSnapshot) => {
+    setWallSnapshots(prev => ({ ...prev, [snapshot.cameraId]: snapshot }));
+  };
+
+  const handleCalibrationSave = (calibration: CameraCalibration) => {
+    updateCameraProfile({ ...cameraProfile, calibration });
+    setIsCalibrating(false);
+  };
+
+  const handleCalibrationClear = () => {
+    const { calibration, ...rest } = cameraProfile;
+    updateCameraProfile(rest);
+    setCalibrationPoints([]);
+    setIsCalibrating(false);
+  };
+
+  // --- ANALYSIS DATABASE ---
+  const refreshHistory = async (page: number, query: AnalysisQuery = historyQueryRef.current) => {
+    try {
+      const next = await getAnalysisPage(page, HISTORY_PAGE_SIZE, query);
+      // Step back when deletions emptied the requested page
+      if (next.items.length === 0 && page > 0 && next.total > 0) return refreshHistory(Math.ceil(next.total / HISTORY_PAGE_SIZE) - 1, query);
+      historyPageRef.current = next.page;
+      setHistoryPage(prev => {
+        releaseThumbnails(prev.items);
+        return next;
+      });
+    } catch (e) {
+      console.error("Analysis database unavailable", e);
+    }
+  };
+
+  const handleHistoryQueryChange = (query: AnalysisQuery) => {
+    historyQueryRef.current = query;
+    setHistoryQuery(query);
+    refreshHistory(0, query);
+  };
+
+  const handleDeleteHistoryItems = async (ids: string[]) => {
+    try {
+      await deleteAnalyses(ids);
+      setComparisonItems(prev => prev.filter(i => !ids.includes(i.id)));
+      refreshHistory(historyPageRef.current);
+    } catch (e: any) {
+      setError(`Delete failed: ${e.message}`);
+    }
+  };
+
+  const handleExportHistoryItems = async (ids: string[], format: ExportFormat) => {
+    try {
+      exportAnalyses(format, 'selection', await getAnalysesByIds(ids));
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  /** Exports the running video session with its per-track data, or the current single result. */
+  const handleExportCurrent = (format: ExportFormat) => {
+    try {
+      if (videoSessionData.length > 0) {
+        exportAnalyses(format, 'session', videoSessionData, {
+          trajectories: sessionRef.current.getTrajectories(),
+          movementCounts,
+          signalPhases,
+          originDestination: sessionRef.current.getOriginDestination(),
+        });
+      } else if (result) {
+        exportAnalyses(format, 'analysis', [result]);
+      }
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  const handleImportHistoryFile = async (file: File) => {
+    try {
+      setImportResult(await importAnalysisBundle(await file.text()));
+      refreshHistory(0);
+    } catch (e: any) {
+      setError(`Import failed: ${e.message}`);
+    }
+  };
+
+  const handleCompareHistoryItems = async (ids: string[]) => {
+    try {
+      setComparisonItems(await getAnalysesByIds(ids));
+    } catch (e: any) {
+      setError(`Comparison failed: ${e.message}`);
+    }
+  };
+
+  const handleRetentionChange = async (policy: RetentionPolicy) => {
+    setRetentionPolicy(policy);
+    saveRetentionPolicy(policy);
+    try {
+      await applyRetention(policy);
+      refreshHistory(historyPageRef.current);
+    } catch (e: any) {
+      setError(`Retention failed: ${e.message}`);
+    }
+  };
+
+  const handleLoadHistoryItem = async (item: HistoryItem) => {
     stopAllModes();
+    // Page thumbnails are object URLs revoked on the next page load; keep a data URI instead
+    const thumbnail = (await loadThumbnailDataUrl(item.id).catch(() => null)) || item.thumbnail;
+    // Page records leave the trace in its own store
+    const trace = item.trace || (await loadAnalysisTrace(item.id).catch(() => null));
     setTimeout(() => {
-        setImage(item.thumbnail);
-        setResult(item);
+        setImage(thumbnail);
+        setAnalyzedFrame(thumbnail);
+        setResult(trace ? { ...item, trace } : item);
+        setAgentTrace(trace);
         setStatus(AgentStatus.COMPLETE);
         navigateTo('monitor');
         window.scrollTo({ top: 0, behavior: 'smooth' });
@@ -130,94 +392,148 @@ export default function App() {
     navigateTo('monitor');
   };
 
-  const handleVideoUpload = (file: File) => {
+  const handleVideoUpload = async (file: File) => {
     const url = URL.createObjectURL(file);
     setImage(null);
-    setProcessingVideo(true);
-    videoProcessingRef.current = true;
+    setIsVideoActive(true);
     setVideoSessionData([]);
-    trackerRef.current.reset();
+    setSelectedMediaTime(null);
+    selectedMediaTimeRef.current = null;
+    sessionRef.current.reset();
+    setMovementCounts([]);
+    setTrajectories([]);
+    setOriginDestination(undefined);
+    setSignalPhases([]);
     setError(null);
-    
-    if (videoRef.current) {
-      videoRef.current.src = url;
-      videoRef.current.load();
-      videoRef.current.onloadedmetadata = () => {
-        processVideoSequence();
-      };
-      videoRef.current.onerror = () => {
-        setError("Failed to load video file.");
-        setProcessingVideo(false);
-      };
+
+    const job = new VideoJob(url, {
+      track: (perception, ts) => mirrorSession(sessionRef.current.track(perception, ts)),
+      resetTracking: () => sessionRef.current.restartTracking(),
+      uncertainty: (ts) => sessionRef.current.tracker.getUncertainty(ts),
+      history: () => sessionRef.current.getHistory(),
+      locationContext: () => locationContextRef.current,
+      onResult: handleVideoResult,
+      onStages: (stages) => {
+        setAgentStages(stages);
+        const running = stages.find(s => s.status === 'running');
+        if (running) setStatus(STAGE_STATUS[running.agent]);
+      },
+      onProgress: (progress) => {
+        setVideoJobProgress(progress);
+        if (progress.state === 'done') {
+          setTrajectories(sessionRef.current.getTrajectories());
+          setOriginDestination(sessionRef.current.getOriginDestination());
+          setStatus(AgentStatus.COMPLETE);
+        }
+      },
+    }, videoJobOptions);
+    videoJobRef.current = job;
+
+    // The visible video only shows selected moments; the job samples its own copy
+    if (videoRef.current) videoRef.current.src = url;
+    try {
+      await job.load();
+    } catch (e: any) {
+      if (videoJobRef.current !== job) return;
+      setError(e.message);
+      setIsVideoActive(false);
+      return;
     }
+    if (videoJobRef.current === job) job.start();
   };
 
-  const processVideoSequence = async () => {
-    if (!videoRef.current || !videoProcessingRef.current) return;
-    const video = videoRef.current;
-    
-    // Process every 0.5s of video
-    const INTERVAL = 0.5;
-    let currentTime = 0;
-
-    const loop = async () => {
-      if (!videoProcessingRef.current || currentTime > video.duration) {
-        setProcessingVideo(false);
-        setStatus(AgentStatus.COMPLETE);
-        clearOverlay();
-        return;
-      }
+  /** Results arrive out of media-time order; they are kept sorted and shown as they land unless a moment is selected. */
+  const handleVideoResult = (videoResult: FullAnalysisResult, frame: CapturedFrame) => {
+    const frameUri = `data:${frame.mime};base64,${frame.data}`;
+    sessionRef.current.recordResult(videoResult);
+    setVideoSessionData(prev => [...prev.filter(r => r.mediaTime !== videoResult.mediaTime), videoResult].sort((a, b) => a.mediaTime! - b.mediaTime!));
+    if (selectedMediaTimeRef.current === null) showVideoMoment(videoResult.mediaTime!, videoResult, frameUri);
+    setStatus(AgentStatus.COMPLETE);
 
-      setVideoProgress((currentTime / video.duration) * 100);
-      video.currentTime = currentTime;
-      
-      await new Promise<void>(r => {
-        const h = () => { video.removeEventListener('seeked', h); r(); };
-        video.addEventListener('seeked', h);
-      });
+    if (Math.random() > 0.8) {
+      saveAnalysis({ ...videoResult, id: Math.random().toString(36).substr(2), thumbnail: frameUri })
+        .then(() => refreshHistory(historyPageRef.current))
+        .catch(e => console.error("Failed to store analysis", e));
+    }
+  };
 
-      const frame = captureFrame(video);
-      if (frame) {
-        try {
-           // Fast mode for video
-           await processImage(frame.data, frame.mime, 'video', currentTime * 1000);
-        } catch (e) {
-           console.warn("Frame skipped", e);
-        }
+  /** Seeks the visible video to `timeMs` and draws `momentResult` over it; the report frame is captured when not given. */
+  const showVideoMoment = (timeMs: number, momentResult: FullAnalysisResult | null, frame?: string) => {
+    if (momentResult) {
+      setResult(momentResult);
+      setAgentTrace(momentResult.trace || null);
+    }
+    const video = videoRef.current;
+    if (!video) return;
+    video.onseeked = () => {
+      // Trails are the session's latest; they only match the frame while following the scan
+      drawDetections(momentResult?.detections || [], selectedMediaTimeRef.current === null);
+      if (!momentResult) return;
+      if (frame) setAnalyzedFrame(frame);
+      else {
+        const captured = canvasRef.current && captureFrame(video, canvasRef.current);
+        if (captured) setAnalyzedFrame(`data:${captured.mime};base64,${captured.data}`);
       }
-      currentTime += INTERVAL;
-      requestAnimationFrame(loop);
     };
-    loop();
+    video.currentTime = timeMs / 1000;
   };
 
-  const captureFrame = (video: HTMLVideoElement) => {
-    if (!canvasRef.current) return null;
-    const canvas = canvasRef.current;
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return null;
-    ctx.drawImage(video, 0, 0);
-    const u = canvas.toDataURL('image/jpeg', 0.8);
-    return { mime: 'image/jpeg', data: u.split(',')[1] };
+  /** Scrubber: shows the nearest result, and moves the scan head there when that moment has not been analysed. */
+  const handleVideoSelect = (timeSec: number) => {
+    const timeMs = Math.round(timeSec * 1000);
+    const nearest = videoSessionData.reduce<FullAnalysisResult | null>(
+      (best, r) => !best || Math.abs(r.mediaTime! - timeMs) < Math.abs(best.mediaTime! - timeMs) ? r : best, null);
+    const toleranceMs = (videoJobOptions.selection !== 'interval' ? videoJobOptions.maxGapSec : videoJobOptions.stepSec) * 1000;
+    const covered = nearest && Math.abs(nearest.mediaTime! - timeMs) <= toleranceMs ? nearest : null;
+
+    selectedMediaTimeRef.current = timeMs;
+    setSelectedMediaTime(timeMs);
+    showVideoMoment(timeMs, covered);
+    if (!covered) videoJobRef.current?.seek(timeSec);
+  };
+
+  const handleVideoFollow = () => {
+    selectedMediaTimeRef.current = null;
+    setSelectedMediaTime(null);
+    const latest = videoSessionData[videoSessionData.length - 1];
+    if (latest) showVideoMoment(latest.mediaTime!, latest);
+  };
+
+  const handleVideoJobOptions = (options: VideoJobOptions) => {
+    setVideoJobOptions(options);
+    saveVideoJobOptions(options);
+    videoJobRef.current?.setOptions(options);
   };
 
   const stopAllModes = () => {
+    abortControllerRef.current.abort();
+    abortControllerRef.current = new AbortController();
     stopCamera();
+    stopStream();
     stopSimulation();
-    setProcessingVideo(false);
-    videoProcessingRef.current = false;
-    setVideoProgress(0);
+    videoJobRef.current?.cancel();
+    videoJobRef.current = null;
+    setIsVideoActive(false);
+    setVideoJobProgress(null);
+    setSelectedMediaTime(null);
+    selectedMediaTimeRef.current = null;
     if (videoRef.current) {
       videoRef.current.pause();
+      videoRef.current.onseeked = null;
       videoRef.current.src = "";
     }
     setImage(null);
     setResult(null);
+    setAnalyzedFrame(null);
     setStatus(AgentStatus.IDLE);
+    setAgentStages([]);
+    setAgentTrace(null);
     setError(null);
-    trackerRef.current.reset();
+    sessionRef.current.reset();
+    setMovementCounts([]);
+    setTrajectories([]);
+    setOriginDestination(undefined);
+    setSignalPhases([]);
     clearOverlay();
   };
 
@@ -237,20 +553,37 @@ export default function App() {
       const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
       setCameraStream(stream);
       setIsCameraActive(true);
-      trackerRef.current.reset();
+      sessionRef.current.reset();
       navigateTo('monitor');
     } catch (err) {
       setError("Camera Access Denied.");
     }
   };
 
+  // --- NETWORK STREAM ---
+  const startStream = () => {
+    const url = streamDraft.url.trim();
+    const invalid = validateStreamUrl(url, streamDraft.format);
+    if (invalid) { setError(invalid); return; }
+    stopAllModes();
+    setStreamConfig({ url, format: streamDraft.format });
+    navigateTo('monitor');
+  };
+
+  const stopStream = () => {
+    setStreamConfig(null);
+    setStreamHealth(null);
+    clearOverlay();
+  };
+
   const handleLocationDiscovery = () => {
     if (!navigator.geolocation) { setError("Geolocation unsupported."); return; }
     setStatus(AgentStatus.DATA_ANALYSIS);
     navigator.geolocation.getCurrentPosition(
       async (pos) => {
         try {
-          const ctx = await getLocationContext(pos.coords.latitude, pos.coords.longitude);
+          const ctx = await getLocationContext(pos.coords.latitude, pos.coords.longitude, abortControllerRef.current.signal);
+          locationContextRef.current = ctx;
           setResult(prev => prev ? { ...prev, locationContext: ctx } : null);
           setStatus(AgentStatus.COMPLETE);
         } catch (e) { setStatus(AgentStatus.COMPLETE); }
@@ -285,7 +618,7 @@ export default function App() {
     setIsSimulating(true);
     setSimulationStep(0);
     setError(null);
-    trackerRef.current.reset();
+    sessionRef.current.reset();
     navigateTo('monitor');
 
     // Pre-load logic
@@ -322,75 +655,67 @@ export default function App() {
   };
 
   // --- PROCESSING LOGIC ---
-  const processImage = async (base64Data: string, mimeType: string, mode: 'single' | 'video' | 'camera', timestampOverride?: number) => {
-    try {
-      setStatus(AgentStatus.VISION_SCANNING);
-      
-      let data: Partial<FullAnalysisResult> = {};
-      
-      // Use FAST mode for loops, FULL mode for single/simulation
-      if (mode === 'video' || mode === 'camera') {
-        data = await analyzeTrafficFast(base64Data, mimeType);
-      } else {
-        data = await analyzeTrafficImage(base64Data, mimeType);
-      }
-      
-      setStatus(AgentStatus.DATA_ANALYSIS);
-
-      if (!data.detections) throw new Error("No detections returned");
 
-      const ts = timestampOverride !== undefined ? timestampOverride : Date.now();
-      
-      // Tracking
-      const tracked = trackerRef.current.update(data.detections, ts);
-      data.detections = tracked;
-      
-      // Generate violations from tracking if not provided by full analysis
-      const trackingViolations: Violation[] = [];
-      tracked.forEach(d => {
-         if (d.isSpeeding) trackingViolations.push({ type: 'Speeding', description: `Vehicle #${d.trackId} speeding`, severity: 'High' });
-         if (d.isWrongWay) trackingViolations.push({ type: 'Wrong Lane', description: `Vehicle #${d.trackId} wrong way`, severity: 'High' });
-      });
+  /** Mirrors the session's accumulated state into the dashboard after a tracking step. */
+  const mirrorSession = (tracking: TrackingOutput): TrackingOutput => {
+      const session = sessionRef.current;
+      setMovementCounts(session.getMovementCounts());
+      setSignalPhases(session.getSignalPhases());
+      setTrajectories(session.getTrajectories());
+      setOriginDestination(session.getOriginDestination());
+      return tracking;
+  };
 
-      if (!data.analysis) {
-        // Mock analysis structure if missing (Fast Mode)
-        data.analysis = {
-            congestionLevel: 0,
-            trafficFlowStatus: 'Moderate',
-            totalVehicles: tracked.filter(t => t.type === 'vehicle').length,
-            pedestrianCount: tracked.filter(t => t.type === 'pedestrian').length,
-            trafficLights: [],
-            estimatedAverageSpeed: 0,
-            detectedViolations: trackingViolations
-        } as any;
-      } else {
-         data.analysis.detectedViolations = [...(data.analysis.detectedViolations || []), ...trackingViolations];
-      }
+  /** Tracking step between perception and analytics for live sources. */
+  const trackPerception = (perception: PerceptionOutput, ts: number): TrackingOutput => {
+      const tracking = mirrorSession(sessionRef.current.track(perception, ts));
+      overlayAnimatorRef.current.onTracked(tracking.detections, Date.now());
+      if (!liveOverlayRef.current) drawDetections(tracking.detections);
+      return tracking;
+  };
 
-      // Default report for fast mode
-      if (!data.report) {
-         data.report = { summary: "Live Tracking Active", recommendations: [], priorityScore: 1 };
-      }
+  const processImage = async (base64Data: string, mimeType: string, mode: 'single' | 'camera' | 'stream') => {
+    const signal = abortControllerRef.current.signal;
+    try {
+      // Use FAST depth for loops (one model call per frame), FULL for single/simulation
+      const { result: fullResult } = await runAgentPipeline(
+        {
+          image: base64Data,
+          mimeType,
+          depth: mode === 'single' ? 'full' : 'fast',
+          timestamp: Date.now(),
+        },
+        { track: trackPerception, history: sessionRef.current.getHistory(), locationContext: locationContextRef.current },
+        (stages) => {
+          if (signal.aborted) return;
+          setAgentStages(stages);
+          const running = stages.find(s => s.status === 'running');
+          if (running) setStatus(STAGE_STATUS[running.agent]);
+        },
+        signal
+      );
+      if (signal.aborted) return; // Stopped while the response was being handled
 
-      drawDetections(tracked);
-      setStatus(AgentStatus.REPORT_GENERATION);
-      
-      const fullResult = data as FullAnalysisResult;
+      sessionRef.current.recordResult(fullResult);
       setResult(fullResult);
-      
-      if (mode === 'video') setVideoSessionData(prev => [...prev, fullResult]);
+      setAgentTrace(fullResult.trace || null);
+      setAnalyzedFrame(`data:${mimeType};base64,${base64Data}`);
       
       // Add to history
       if (mode === 'single' || Math.random() > 0.8) {
          // Fix: Ensure we construct a valid data URI without double prefix
          // base64Data is raw here, so this construction is correct.
          const thumb = `data:${mimeType};base64,${base64Data}`;
-         setHistory(prev => [{...fullResult, id: Math.random().toString(36).substr(2), thumbnail: thumb}, ...prev]);
+         saveAnalysis({...fullResult, id: Math.random().toString(36).substr(2), thumbnail: thumb})
+           .then(() => refreshHistory(historyPageRef.current))
+           .catch(e => console.error("Failed to store analysis", e));
       }
 
       setStatus(AgentStatus.COMPLETE);
     } catch (err: any) {
+      if (isAbortError(err)) return;
       console.error(err);
+      if (err instanceof PipelineError) setAgentTrace(err.trace);
       if (mode === 'single') {
          setError(err.message);
          setStatus(AgentStatus.ERROR);
@@ -398,147 +723,128 @@ export default function App() {
     }
   };
 
-  // Camera Loop
+  // Stream connection: lives while the monitor shows the stream's elements
   useEffect(() => {
+    if (!streamConfig || activeView !== 'monitor' || !streamVideoRef.current || !streamImgRef.current) return;
+    const source = new StreamSource(streamConfig.url, streamConfig.format, { video: streamVideoRef.current, image: streamImgRef.current }, setStreamHealth);
+    streamRef.current = source;
+    source.start();
+    return () => {
+      source.stop();
+      streamRef.current = null;
+    };
+  }, [streamConfig, activeView]);
+
+  /**
+   * Live loop for the camera and the stream: every SAMPLER_TICK_MS the frame is analysed
+   * when the sampler asks for it and no call is in flight. Returns the cleanup.
+   */
+  const startSampling = (getElement: () => HTMLVideoElement | HTMLImageElement | null | undefined, mode: 'camera' | 'stream') => {
+    const sampler = samplerRef.current;
+    const signatureCanvas = document.createElement('canvas');
+    sampler.reset();
+    setSamplerStats(null);
+    let cancelled = false;
+    let inFlight = false;
+    let statsAt = 0;
     let timeoutId: any;
-    const loop = async () => {
-        if (!isCameraActive || !videoRef.current) return;
-        if (status === AgentStatus.IDLE || status === AgentStatus.COMPLETE || status === AgentStatus.ERROR) {
-           const frame = captureFrame(videoRef.current);
+
+    const tick = () => {
+        if (cancelled) return;
+        const now = Date.now();
+        const tracker = sessionRef.current.tracker;
+        const element = getElement();
+        if (element && canvasRef.current && !inFlight && !getRequestScheduler().isSaturated()) {
+           let frame: CapturedFrame | null = null;
+           try {
+             const decision = sampler.decide(createFrameSignature(element, signatureCanvas), tracker.getUncertainty(now), now);
+             if (decision.analyze) frame = captureFrame(element, canvasRef.current);
+           } catch (e: any) {
+             setError(e.message); // Capture blocked by CORS; retrying will not help
+             return;
+           }
            if (frame) {
-             try { await processImage(frame.data, frame.mime, 'camera'); } 
-             catch (e) { /* ignore */ }
+             inFlight = true;
+             processImage(frame.data, frame.mime, mode).finally(() => { inFlight = false; });
            }
         }
-        timeoutId = setTimeout(loop, 1000); // 1 FPS for camera
+        if (now - statsAt >= 1000) {
+           statsAt = now;
+           setSamplerStats(sampler.getStats());
+        }
+        timeoutId = setTimeout(tick, SAMPLER_TICK_MS);
+    };
+    tick();
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  };
+
+  // Stream Loop: samples the newest frame while the stream is live
+  useEffect(() => {
+    if (!streamConfig) return;
+    return startSampling(() => {
+      const source = streamRef.current;
+      return source && source.getHealth().state === 'live' ? source.getElement() : null;
+    }, 'stream');
+  }, [streamConfig]);
+
+  // Camera Loop
+  useEffect(() => {
+    if (!isCameraActive) return;
+    return startSampling(() => videoRef.current, 'camera');
+  }, [isCameraActive]);
+
+  // Overlay render loop for live sources: every display frame, tracks are drawn at their
+  // prediction, gliding after corrections and fading while they coast
+  useEffect(() => {
+    if (!isCameraActive && !streamConfig) return;
+    const animator = overlayAnimatorRef.current;
+    animator.reset();
+    liveOverlayRef.current = true;
+    let frameId = 0;
+    const render = () => {
+        const now = Date.now();
+        const tracker = sessionRef.current.tracker;
+        const frame = animator.frame(tracker.predict(now), tracker.getMaxMissingFrames(), now);
+        drawDetections(frame.detections, true, det => frame.opacity.get(det) ?? 1);
+        frameId = requestAnimationFrame(render);
+    };
+    frameId = requestAnimationFrame(render);
+    return () => {
+      liveOverlayRef.current = false;
+      cancelAnimationFrame(frameId);
     };
-    if (isCameraActive) loop();
-    return () => clearTimeout(timeoutId);
-  }, [isCameraActive, status]);
+  }, [isCameraActive, streamConfig]);
+
+  const handleSamplingOptions = (options: AdaptiveSamplingOptions) => {
+    setSamplingOptions(options);
+    saveAdaptiveSamplingOptions(options);
+    samplerRef.current.setOptions(options);
+  };
 
   // Drawing
-  const drawDetections = (detections: any[]) => {
+  const drawDetections = (detections: DetectionItem[], withTrails = true, getOpacity?: (det: DetectionItem) => number) => {
     const canvas = overlayCanvasRef.current;
     if (!canvas) return;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
     
-    // Resize canvas to match display size
+    // Resize canvas to match display size; only on change, since the live overlay redraws every display frame
     const rect = canvas.parentElement?.getBoundingClientRect();
-    if (rect) {
-        canvas.width = rect.width;
-        canvas.height = rect.height;
+    if (rect && (canvas.width !== Math.round(rect.width) || canvas.height !== Math.round(rect.height))) {
+        canvas.width = Math.round(rect.width);
+        canvas.height = Math.round(rect.height);
     }
 
     ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-    // --- AGGREGATE FLOW CALCULATION ---
-    const gridCols = 8;
-    const gridFlows = new Array(gridCols).fill(0).map(() => ({ sumVel: 0, count: 0 }));
-
-    detections.forEach(det => {
-        if (!det.box_2d) return;
-        const [ymin, xmin, ymax, xmax] = det.box_2d;
-        
-        // --- DRAW BOXES ---
-        const x = (xmin / 1000) * canvas.width;
-        const y = (ymin / 1000) * canvas.height;
-        const w = ((xmax - xmin) / 1000) * canvas.width;
-        const h = ((ymax - ymin) / 1000) * canvas.height;
-        
-        const isTracked = !!det.trackId;
-        // COLOR THEME MAPPING
-        // Speeding -> Red, WrongWay -> Red/Orange mix, Tracked -> Sky Blue, Idle -> Slate
-        const color = det.isSpeeding ? '#FF6B6B' : det.isWrongWay ? '#F59E0B' : isTracked ? '#7DD3FC' : '#94a3b8';
-        
-        ctx.strokeStyle = color;
-        ctx.lineWidth = 2;
-        ctx.strokeRect(x, y, w, h);
-        
-        // Label
-        ctx.fillStyle = color;
-        ctx.fillRect(x, y - 20, w, 20);
-        ctx.fillStyle = '#0B0F19'; // Brand Dark
-        ctx.font = 'bold 10px monospace';
-        ctx.fillText(`${det.object} ${det.trackId ? '#'+det.trackId : ''}`, x + 2, y - 6);
-
-        // --- DRAW INDIVIDUAL FLOW ARROWS ---
-        if (isTracked && det.velocity !== undefined && Math.abs(det.velocity) > 0.05) {
-            const centerX = x + w / 2;
-            const centerY = y + h / 2;
-            const arrowLength = (det.velocity * canvas.height) * 0.5;
-            const endX = centerX;
-            const endY = centerY + arrowLength;
-
-            ctx.beginPath();
-            ctx.moveTo(centerX, centerY);
-            ctx.lineTo(endX, endY);
-            ctx.strokeStyle = det.isWrongWay ? '#FF6B6B' : '#7DD3FC';
-            ctx.lineWidth = 3;
-            ctx.stroke();
-
-            const angle = Math.atan2(endY - centerY, endX - centerX);
-            const headLen = 10;
-            ctx.beginPath();
-            ctx.moveTo(endX, endY);
-            ctx.lineTo(endX - headLen * Math.cos(angle - Math.PI / 6), endY - headLen * Math.sin(angle - Math.PI / 6));
-            ctx.lineTo(endX - headLen * Math.cos(angle + Math.PI / 6), endY - headLen * Math.sin(angle + Math.PI / 6));
-            ctx.lineTo(endX, endY);
-            ctx.fillStyle = ctx.strokeStyle;
-            ctx.fill();
-
-            // Accumulate for grid flow
-            const gridX = (xmin + xmax) / 2 / 1000;
-            const colIndex = Math.floor(gridX * gridCols);
-            if (colIndex >= 0 && colIndex < gridCols) {
-                gridFlows[colIndex].sumVel += det.velocity;
-                gridFlows[colIndex].count += 1;
-            }
-        }
-    });
-
-    // --- DRAW AGGREGATE LANE FLOWS ---
-    const colWidth = canvas.width / gridCols;
-    gridFlows.forEach((flow, i) => {
-        if (flow.count > 0) {
-            const avgVel = flow.sumVel / flow.count;
-            if (Math.abs(avgVel) > 0.05) {
-                const isDown = avgVel > 0;
-                const x = i * colWidth + colWidth / 2;
-                const arrowSize = 40;
-                const startY = isDown ? 40 : canvas.height - 40;
-                const endY = isDown ? 40 + arrowSize : canvas.height - 40 - arrowSize;
-                
-                ctx.save();
-                ctx.globalAlpha = 0.4;
-                ctx.strokeStyle = '#6366F1'; // Brand Indigo
-                ctx.fillStyle = '#6366F1';
-                ctx.lineWidth = 8;
-                
-                ctx.beginPath();
-                ctx.moveTo(x, startY);
-                ctx.lineTo(x, endY);
-                ctx.stroke();
-
-                const angle = isDown ? Math.PI / 2 : -Math.PI / 2;
-                const headLen = 20;
-                ctx.beginPath();
-                ctx.moveTo(x, endY);
-                ctx.lineTo(x - headLen * Math.cos(angle - Math.PI / 4), endY - headLen * Math.sin(angle - Math.PI / 4));
-                ctx.lineTo(x - headLen * Math.cos(angle + Math.PI / 4), endY - headLen * Math.sin(angle + Math.PI / 4));
-                ctx.lineTo(x, endY);
-                ctx.fill();
-
-                ctx.globalAlpha = 0.9;
-                ctx.fillStyle = '#FEF9C3'; // Brand Cream
-                ctx.font = 'bold 12px sans-serif';
-                ctx.textAlign = 'center';
-                ctx.fillText(isDown ? 'INCOMING' : 'OUTGOING', x, isDown ? startY - 10 : startY + 20);
-
-                ctx.restore();
-            }
-        }
-    });
+    // Boxes are in image coordinates: draw them where object-contain placed the media
+    const fit = containRect(mediaSizeRef.current, canvas);
+    ctx.save();
+    ctx.translate(fit.left, fit.top);
+    drawAnnotations(ctx, detections, fit.width, fit.height, withTrails ? trackId => sessionRef.current.trajectoryStore.getTail(trackId, TRAIL_LENGTH) : undefined, getOpacity);
+    ctx.restore();
   };
   
   const clearOverlay = () => {
@@ -546,6 +852,23 @@ export default function App() {
     if(c) c.getContext('2d')?.clearRect(0,0,c.width, c.height);
   };
 
+  const historyProps = {
+    historyPage,
+    historyQuery,
+    retentionPolicy,
+    comparisonItems,
+    importResult,
+    onHistoryPageChange: (page: number) => refreshHistory(page),
+    onHistoryQueryChange: handleHistoryQueryChange,
+    onDeleteHistoryItems: handleDeleteHistoryItems,
+    onExportHistoryItems: handleExportHistoryItems,
+    onCompareHistoryItems: handleCompareHistoryItems,
+    onCloseComparison: () => setComparisonItems([]),
+    onImportHistoryFile: handleImportHistoryFile,
+    onDismissImportResult: () => setImportResult(null),
+    onRetentionChange: handleRetentionChange,
+  };
+
   return (
     <div className="min-h-screen bg-[#D7F1D5] text-slate-900 pb-12">
       <canvas ref={canvasRef} className="hidden" />
@@ -555,11 +878,15 @@ export default function App() {
             <div className="w-8 h-8 bg-brand-indigo rounded-lg flex items-center justify-center font-bold text-white group-hover:scale-105 transition-transform shadow-[0_0_15px_rgba(99,102,241,0.5)]">M</div>
             <span className="font-bold text-white text-lg tracking-tight drop-shadow-md">Traffic<span className="text-brand-sky">Agent</span></span>
           </button>
+          <div className="flex items-center gap-4">
+          <RequestQueueStatus />
           <nav className="flex gap-2">
              <button onClick={goHome} className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${activeView === 'home' ? 'bg-white/10 text-white' : 'text-slate-200 hover:text-white'}`}>Home</button>
              <button onClick={() => navigateTo('monitor')} disabled={!isMonitorActive} className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${activeView === 'monitor' ? 'bg-brand-indigo/20 text-brand-indigo border border-brand-indigo/30' : 'text-slate-200 hover:text-white'}`}>Monitor</button>
+             <button onClick={() => navigateTo('wall')} className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${activeView === 'wall' ? 'bg-brand-red/20 text-brand-red border border-brand-red/30' : 'text-slate-200 hover:text-white'}`}>Wall</button>
              <button onClick={() => navigateTo('history')} className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${activeView === 'history' ? 'bg-brand-sky/20 text-brand-sky border border-brand-sky/30' : 'text-slate-200 hover:text-white'}`}>History</button>
           </nav>
+          </div>
         </div>
       </header>
 
@@ -604,15 +931,58 @@ export default function App() {
                  <h3 className="font-bold text-white text-lg">Simulation</h3>
                  <p className="text-sm text-slate-400 mt-1">Run pre-configured scenario.</p>
               </button>
+
+              <div className="p-6 bg-brand-panel/90 rounded-2xl border border-brand-dark/20 hover:border-brand-indigo/50 text-left transition-all shadow-xl hover:bg-brand-panel">
+                 <div className="flex items-center justify-between mb-4">
+                     <div className="p-3 bg-brand-indigo/10 rounded-lg">
+                        <Radio className="w-6 h-6 text-brand-indigo" />
+                     </div>
+                 </div>
+                 <h3 className="font-bold text-white text-lg">Network Stream</h3>
+                 <p className="text-sm text-slate-400 mt-1 mb-3">HLS or MJPEG camera URL; RTSP through a gateway.</p>
+                 <div className="flex gap-2">
+                   <input
+                     value={streamDraft.url}
+                     placeholder="http://localhost:8081/mjpeg"
+                     onChange={(e) => setStreamDraft(prev => ({ ...prev, url: e.target.value }))}
+                     onKeyDown={(e) => e.key === 'Enter' && streamDraft.url.trim() && startStream()}
+                     className="flex-1 min-w-0 bg-black/30 border border-white/10 rounded px-2 py-1 text-sm text-white placeholder:text-slate-600"
+                   />
+                   <select
+                     value={streamDraft.format}
+                     onChange={(e) => setStreamDraft(prev => ({ ...prev, format: e.target.value as StreamFormat }))}
+                     className="bg-black/30 border border-white/10 rounded px-2 py-1 text-sm text-white"
+                   >
+                     <option value="mjpeg">MJPEG</option>
+                     <option value="video">HLS / Video</option>
+                   </select>
+                   <button onClick={startStream} disabled={!streamDraft.url.trim()} className="p-2 text-brand-indigo bg-brand-indigo/10 rounded hover:bg-brand-indigo hover:text-white transition-colors border border-brand-indigo/20 disabled:opacity-40 disabled:pointer-events-none">
+                     <ArrowRight className="w-4 h-4" />
+                   </button>
+                 </div>
+              </div>
+
+              <button onClick={() => navigateTo('wall')} className="p-6 bg-brand-panel/90 rounded-2xl border border-brand-dark/20 hover:border-brand-sky/50 text-left group transition-all shadow-xl hover:bg-brand-panel">
+                 <div className="flex items-center justify-between mb-4">
+                     <div className="p-3 bg-brand-sky/10 rounded-lg group-hover:bg-brand-sky/20 transition-colors">
+                        <LayoutGrid className="w-6 h-6 text-brand-sky" />
+                     </div>
+                     <ArrowRight className="w-4 h-4 text-slate-500 group-hover:text-brand-sky transition-colors" />
+                 </div>
+                 <h3 className="font-bold text-white text-lg">Camera Wall</h3>
+                 <p className="text-sm text-slate-400 mt-1">Watch several webcams, files and streams side by side{wallCameras.length > 0 ? ` (${wallCameras.length} configured)` : ''}.</p>
+              </button>
             </div>
+
+            <ProviderSettings config={providerConfig} onSave={handleProviderSave} />
             
-            {history.length > 0 && (
+            {historyPage.items.length > 0 && (
                <div className="mt-8 p-6 bg-brand-panel/90 rounded-2xl border border-brand-dark/20 shadow-xl backdrop-blur-sm">
                  <div className="flex items-center justify-between mb-4">
                     <h4 className="text-sm font-bold text-brand-cream/80 flex items-center gap-2"><Database className="w-4 h-4" /> Recent Analysis</h4>
                  </div>
                  <div className="flex gap-3 overflow-x-auto pb-2 scrollbar-hide">
-                    {history.slice(0, 5).map((h, i) => (
+                    {historyPage.items.slice(0, 5).map((h, i) => (
                         <div key={i} className="relative group cursor-pointer flex-shrink-0" onClick={() => handleLoadHistoryItem(h)}>
                            <img src={h.thumbnail} className="w-32 h-20 object-cover rounded-lg border border-white/10 group-hover:border-brand-sky transition-colors shadow-md" />
                            <div className="absolute inset-0 bg-black/40 group-hover:bg-transparent transition-all rounded-lg"></div>
@@ -631,6 +1001,7 @@ export default function App() {
             <div className="animate-fadeIn">
                <div className="flex items-center justify-between mb-4">
                  <button onClick={() => navigateTo('home')} className="text-sm text-brand-dark hover:text-white font-bold flex items-center gap-1 transition-colors bg-white/20 px-3 py-1 rounded-full"><ChevronLeft className="w-4 h-4" /> Home</button>
+                 {streamConfig && streamHealth && <StreamHealthBadge health={streamHealth} />}
                  {isSimulating && (
                    <span className="text-xs font-mono font-bold text-brand-indigo bg-white/80 px-3 py-1 rounded-full border border-brand-indigo/20 shadow-sm">
                      SIMULATION STEP {simulationStep}/{SIMULATION_SCENARIOS.length}
@@ -640,24 +1011,87 @@ export default function App() {
 
                <div className="bg-brand-panel rounded-2xl border border-white/10 p-4 mb-6 relative overflow-hidden shadow-2xl">
                   <div className="relative aspect-video bg-black rounded-lg overflow-hidden ring-1 ring-white/10">
-                     {(isCameraActive || processingVideo) ? (
-                        <video ref={videoRef} autoPlay={isCameraActive} muted playsInline className="w-full h-full object-contain" />
+                     {streamConfig ? (
+                        <>
+                          <video ref={streamVideoRef} muted playsInline onLoadedMetadata={handleMediaLoad} className={`w-full h-full object-contain ${streamConfig.format === 'video' ? '' : 'hidden'}`} />
+                          <img ref={streamImgRef} onLoad={handleMediaLoad} className={`w-full h-full object-contain ${streamConfig.format === 'mjpeg' ? '' : 'hidden'}`} />
+                        </>
+                     ) : (isCameraActive || isVideoActive) ? (
+                        <video ref={videoRef} autoPlay={isCameraActive} muted playsInline onLoadedMetadata={handleMediaLoad} className="w-full h-full object-contain" />
                      ) : (
-                        image && <img ref={imgRef} src={image} className="w-full h-full object-contain" />
+                        image && <img ref={imgRef} src={image} onLoad={handleMediaLoad} className="w-full h-full object-contain" />
                      )}
                      <canvas ref={overlayCanvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+                     <ZoneOverlay
+                       zones={cameraProfile.zones || []}
+                       draft={zoneDraft}
+                       mediaSize={mediaSize}
+                       onAddPoint={(point) => setZoneDraft(prev => {
+                         if (!prev || (isLineZone(prev.kind) && prev.points.length >= minZonePoints(prev.kind))) return prev;
+                         return { ...prev, points: [...prev.points, point] };
+                       })}
+                     />
+                     {isCalibrating && (
+                        <CalibrationOverlay
+                          points={calibrationPoints}
+                          mediaSize={mediaSize}
+                          onAddPoint={(point) => setCalibrationPoints(prev => [...prev, { image: point, world: [0, 0] }])}
+                        />
+                     )}
                      
                      {status === AgentStatus.VISION_SCANNING && (
                         <div className="absolute inset-0 pointer-events-none border-b-2 border-brand-sky/50 animate-scan shadow-[0_0_20px_rgba(125,211,252,0.5)]"></div>
                      )}
                   </div>
                   
+                  {isVideoActive && videoJobProgress && (
+                     <VideoTimeline
+                       progress={videoJobProgress}
+                       results={videoSessionData}
+                       selectedTime={selectedMediaTime}
+                       options={videoJobOptions}
+                       onSelect={handleVideoSelect}
+                       onFollow={handleVideoFollow}
+                       onPause={() => videoJobRef.current?.pause()}
+                       onResume={() => videoJobRef.current?.resume()}
+                       onOptionsChange={handleVideoJobOptions}
+                     />
+                  )}
+
+                  {(isCameraActive || streamConfig) && (
+                     <SamplingPanel options={samplingOptions} stats={samplerStats} onOptionsChange={handleSamplingOptions} />
+                  )}
+
                   {/* Controls */}
                   <div className="flex justify-between items-center mt-4">
                      <button onClick={stopAllModes} className="flex items-center gap-2 text-sm font-bold text-brand-red hover:text-white px-4 py-2 bg-brand-red/10 rounded-lg hover:bg-brand-red transition-colors border border-brand-red/20">
                        <StopCircle className="w-4 h-4" /> Stop Session
                      </button>
                      <div className="flex gap-2">
+                        {cameraProfiles.length > 1 && (
+                          <select
+                            value={cameraProfile.id}
+                            onChange={(e) => selectMonitorProfile(e.target.value)}
+                            title="Camera profile: calibration, zones and speed limits"
+                            className="bg-black/30 border border-white/10 rounded-lg px-2 py-2 text-xs text-white"
+                          >
+                            {cameraProfiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                          </select>
+                        )}
+                        {(result || videoSessionData.length > 0) && (
+                          <ExportMenu
+                            onExport={handleExportCurrent}
+                            includeSessionFormats={videoSessionData.length > 0}
+                            label={videoSessionData.length > 0 ? 'Export Session' : 'Export'}
+                            className="flex items-center gap-2 px-3 py-2 text-brand-sky bg-brand-sky/10 rounded-lg hover:bg-brand-sky hover:text-brand-dark transition-colors border border-brand-sky/20 text-xs font-medium"
+                          />
+                        )}
+                        <button onClick={zoneDraft ? () => setZoneDraft(null) : startZoneEditing} className={`flex items-center gap-2 px-3 py-2 rounded-lg transition-colors border text-xs font-medium ${zoneDraft ? 'bg-brand-sky text-brand-dark border-brand-sky' : 'text-brand-sky bg-brand-sky/10 hover:bg-brand-sky hover:text-brand-dark border-brand-sky/20'}`}>
+                            <Shapes className="w-3.5 h-3.5" /> Zones{cameraProfile.zones?.length ? ` (${cameraProfile.zones.length})` : ''}
+                        </button>
+                        <button onClick={isCalibrating ? () => setIsCalibrating(false) : startCalibration} className={`flex items-center gap-2 px-3 py-2 rounded-lg transition-colors border text-xs font-medium ${isCalibrating ? 'bg-brand-indigo text-white border-brand-indigo' : 'text-brand-indigo bg-brand-indigo/10 hover:bg-brand-indigo hover:text-white border-brand-indigo/20'}`}>
+                            <Crosshair className="w-3.5 h-3.5" /> {cameraProfile.calibration ? 'Recalibrate' : 'Calibrate'}
+                        </button>
                         <button onClick={handleLocationDiscovery} className="flex items-center gap-2 px-3 py-2 text-brand-indigo bg-brand-indigo/10 rounded-lg hover:bg-brand-indigo hover:text-white transition-colors border border-brand-indigo/20 text-xs font-medium">
                             <LocateFixed className="w-3.5 h-3.5" /> Detect Location
                         </button>
@@ -665,15 +1099,71 @@ export default function App() {
                   </div>
                </div>
 
-               <AgentPipeline status={status} />
-               <ResultsDashboard data={result} history={history} videoSessionData={videoSessionData} onLoadHistoryItem={handleLoadHistoryItem} />
+               {isCalibrating && (
+                  <CalibrationPanel
+                    points={calibrationPoints}
+                    current={cameraProfile.calibration}
+                    onChangePoints={setCalibrationPoints}
+                    onSave={handleCalibrationSave}
+                    onClear={handleCalibrationClear}
+                    onCancel={() => setIsCalibrating(false)}
+                  />
+               )}
+
+               {zoneDraft && (
+                  <ZonePanel
+                    zones={cameraProfile.zones || []}
+                    draft={zoneDraft}
+                    onDraftChange={setZoneDraft}
+                    onCommit={handleZoneCommit}
+                    onDelete={handleZoneDelete}
+                    onClose={() => setZoneDraft(null)}
+                    signalIds={sessionRef.current.signalTracker.getLightIds()}
+                  />
+               )}
+
+               <AgentPipeline status={status} stages={agentStages} trace={agentTrace} />
+               <ResultsDashboard data={result} {...historyProps} videoSessionData={videoSessionData} movementCounts={movementCounts} trajectories={trajectories} originDestination={originDestination} signalPhases={signalPhases} reportFrame={analyzedFrame} onLoadHistoryItem={handleLoadHistoryItem} />
             </div>
         )}
         
+        {isWallOpen && (
+           <div className={activeView === 'wall' ? 'animate-fadeIn' : 'hidden'}>
+             <button onClick={() => navigateTo('home')} className="mb-4 text-sm text-brand-dark hover:text-white font-bold flex items-center gap-1 transition-colors bg-white/20 px-3 py-1 rounded-full w-fit"><ChevronLeft className="w-4 h-4" /> Home</button>
+             <CameraWall
+               cameras={wallCameras}
+               sampling={samplingOptions}
+               focusedId={focusedCameraId}
+               onFocus={setFocusedCameraId}
+               onAdd={handleAddCamera}
+               onUpdate={updateCameraProfile}
+               onRemove={handleRemoveCamera}
+               onSnapshot={handleCameraSnapshot}
+             />
+             {focusedCamera && (
+               <div className="mt-6">
+                 <h3 className="text-sm font-bold text-brand-dark mb-3">{focusedCamera.name}{focusedCamera.location?.label ? ` · ${focusedCamera.location.label}` : ''}</h3>
+                 <AgentPipeline status={focusedStatus} stages={focusedSnapshot?.stages} trace={focusedSnapshot?.trace} />
+                 <ResultsDashboard
+                   data={focusedSnapshot?.result || null}
+                   {...historyProps}
+                   videoSessionData={[]}
+                   movementCounts={focusedSnapshot?.movementCounts}
+                   trajectories={focusedSnapshot?.trajectories}
+                   originDestination={focusedSnapshot?.originDestination}
+                   signalPhases={focusedSnapshot?.signalPhases}
+                   reportFrame={focusedSnapshot?.frame}
+                   onLoadHistoryItem={handleLoadHistoryItem}
+                 />
+               </div>
+             )}
+           </div>
+        )}
+
         {activeView === 'history' && (
            <div className="animate-fadeIn">
              <button onClick={() => navigateTo('home')} className="mb-4 text-sm text-brand-dark hover:text-white font-bold flex items-center gap-1 transition-colors bg-white/20 px-3 py-1 rounded-full w-fit"><ChevronLeft className="w-4 h-4" /> Home</button>
-             <ResultsDashboard data={null} history={history} videoSessionData={[]} onLoadHistoryItem={handleLoadHistoryItem} />
+             <AnalysisDatabase {...historyProps} onLoadHistoryItem={handleLoadHistoryItem} />
            </div>
         )}
       </main>
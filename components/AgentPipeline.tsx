@@ -1,83 +1,109 @@
 import React from 'react';
-import { AgentStatus } from '../types';
-import { Camera, Activity, FileText, CheckCircle2, Loader2 } from 'lucide-react';
+import { AgentId, AgentStageState, AgentStatus, AgentTrace } from '../types';
+import { AgentTraceTimeline } from './AgentTraceTimeline';
+import { Camera, Activity, FileText, CheckCircle2, Loader2, AlertTriangle, XCircle } from 'lucide-react';
 
 interface AgentPipelineProps {
   status: AgentStatus;
+  stages?: AgentStageState[]; // Per-agent progress of the latest frame; empty before the first run
+  trace?: AgentTrace | null;   // Shown as an expandable timeline below the steps
 }
 
-const PipelineStep = ({ 
-  active, 
-  completed, 
-  icon: Icon, 
-  label, 
-  subtext 
-}: { 
-  active: boolean; 
-  completed: boolean; 
-  icon: React.ElementType; 
-  label: string; 
-  subtext: string; 
-}) => {
+const AGENTS: { id: AgentId; icon: React.ElementType; label: string; subtext: string }[] = [
+  { id: 'perception', icon: Camera, label: 'Agent 1: Vision', subtext: 'Object detection & classification' },
+  { id: 'analytics', icon: Activity, label: 'Agent 2: Analysis', subtext: 'Congestion & risk calculation' },
+  { id: 'reporting', icon: FileText, label: 'Agent 3: Reporting', subtext: 'Summary & strategic output' },
+];
+
+// Fallback when neither live stages nor a trace exist (e.g. an analysis saved before tracing)
+const STATUS_STEP: Partial<Record<AgentStatus, number>> = {
+  [AgentStatus.VISION_SCANNING]: 0,
+  [AgentStatus.DATA_ANALYSIS]: 1,
+  [AgentStatus.REPORT_GENERATION]: 2,
+  [AgentStatus.COMPLETE]: 3,
+};
+
+interface PipelineStepProps {
+  stage: AgentStageState;
+  icon: React.ElementType;
+  label: string;
+  subtext: string;
+}
+
+const PipelineStep: React.FC<PipelineStepProps> = ({ stage, icon: Icon, label, subtext }) => {
+  const active = stage.status === 'running';
+  const completed = stage.status === 'done';
+  const degraded = stage.status === 'fallback';
+  const failed = stage.status === 'error';
+  const StatusIcon = active ? Loader2 : completed ? CheckCircle2 : degraded ? AlertTriangle : failed ? XCircle : Icon;
+
   return (
-    <div className={`flex flex-col items-center p-4 rounded-xl border transition-all duration-500 z-10 ${
-      active 
-        ? 'border-brand-sky bg-brand-sky/10 shadow-[0_0_15px_rgba(125,211,252,0.3)] scale-105 backdrop-blur-sm' 
-        : completed 
-          ? 'border-green-500/50 bg-green-950/80 text-green-400' 
-          : 'border-white/10 bg-brand-panel text-slate-400 shadow-lg'
+    <div className={`flex flex-col items-center p-4 rounded-xl border transition-all duration-500 z-10 w-full md:w-56 ${
+      active
+        ? 'border-brand-sky bg-brand-sky/10 shadow-[0_0_15px_rgba(125,211,252,0.3)] scale-105 backdrop-blur-sm'
+        : completed
+          ? 'border-green-500/50 bg-green-950/80 text-green-400'
+          : degraded
+            ? 'border-orange-400/50 bg-orange-950/80 text-orange-300'
+            : failed
+              ? 'border-brand-red/50 bg-red-950/80 text-brand-red'
+              : 'border-white/10 bg-brand-panel text-slate-400 shadow-lg'
     }`}>
       <div className={`mb-3 p-3 rounded-full ${
-        active ? 'bg-brand-sky text-brand-dark animate-pulse' : completed ? 'bg-green-500 text-brand-dark' : 'bg-white/10'
+        active ? 'bg-brand-sky text-brand-dark animate-pulse'
+          : completed ? 'bg-green-500 text-brand-dark'
+          : degraded ? 'bg-orange-400 text-brand-dark'
+          : failed ? 'bg-brand-red text-white'
+          : 'bg-white/10'
       }`}>
-        {active ? <Loader2 className="w-6 h-6 animate-spin" /> : completed ? <CheckCircle2 className="w-6 h-6" /> : <Icon className="w-6 h-6" />}
+        <StatusIcon className={`w-6 h-6 ${active ? 'animate-spin' : ''}`} />
       </div>
       <h3 className={`font-bold text-sm mb-1 ${active ? 'text-brand-dark' : ''}`}>{label}</h3>
-      <p className="text-xs opacity-70 text-center max-w-[120px]">{subtext}</p>
+      <p className="text-xs opacity-70 text-center max-w-[160px]">{stage.summary || subtext}</p>
+
+      {(stage.strategy || stage.durationMs !== undefined) && (
+        <p className="mt-2 text-[10px] font-mono opacity-60 text-center">
+          {stage.strategy === 'model' ? stage.modelId || 'model' : 'local rules'}
+          {stage.durationMs !== undefined && ` · ${stage.durationMs} ms`}
+        </p>
+      )}
+      {stage.error && (
+        <p className="mt-1 text-[10px] text-center max-w-[180px] line-clamp-2" title={stage.error}>
+          {degraded ? 'Model failed, used local rules: ' : ''}{stage.error}
+        </p>
+      )}
+      {stage.details && stage.details.length > 0 && (
+        <details className="mt-2 w-full text-[11px] text-slate-300">
+          <summary className="cursor-pointer opacity-70 hover:opacity-100 text-center">Output ({stage.details.length})</summary>
+          <ul className="mt-1 space-y-1 list-disc list-inside">
+            {stage.details.map((d, i) => <li key={i}>{d}</li>)}
+          </ul>
+        </details>
+      )}
     </div>
   );
 };
 
-export const AgentPipeline: React.FC<AgentPipelineProps> = ({ status }) => {
-  const isVision = status === AgentStatus.VISION_SCANNING;
-  const isAnalysis = status === AgentStatus.DATA_ANALYSIS;
-  const isReport = status === AgentStatus.REPORT_GENERATION;
-  const isComplete = status === AgentStatus.COMPLETE;
-
-  const visionDone = isAnalysis || isReport || isComplete;
-  const analysisDone = isReport || isComplete;
-  const reportDone = isComplete;
+export const AgentPipeline: React.FC<AgentPipelineProps> = ({ status, stages = [], trace }) => {
+  const stageFor = (id: AgentId, index: number): AgentStageState => {
+    const stage = stages.find(s => s.agent === id) ?? trace?.steps.find(s => s.agent === id);
+    if (stage) return stage;
+    const current = STATUS_STEP[status];
+    if (current === undefined) return { agent: id, status: 'pending' };
+    return { agent: id, status: index < current ? 'done' : index === current ? 'running' : 'pending' };
+  };
 
   return (
     <div className="w-full py-8">
-      <div className="flex flex-col md:flex-row justify-center items-center gap-4 md:gap-8 relative">
+      <div className="flex flex-col md:flex-row justify-center items-center md:items-start gap-4 md:gap-8 relative">
         {/* Connecting Lines (Desktop) - Darker for Light BG */}
         <div className="hidden md:block absolute top-1/2 left-0 w-full h-0.5 bg-slate-400/30 -z-10" />
-        
-        <PipelineStep 
-          active={isVision} 
-          completed={visionDone} 
-          icon={Camera} 
-          label="Agent 1: Vision" 
-          subtext="Object detection & classification" 
-        />
-        
-        <PipelineStep 
-          active={isAnalysis} 
-          completed={analysisDone} 
-          icon={Activity} 
-          label="Agent 2: Analysis" 
-          subtext="Congestion & risk calculation" 
-        />
-        
-        <PipelineStep 
-          active={isReport} 
-          completed={reportDone} 
-          icon={FileText} 
-          label="Agent 3: Reporting" 
-          subtext="Summary & strategic output" 
-        />
+
+        {AGENTS.map((agent, index) => (
+          <PipelineStep key={agent.id} stage={stageFor(agent.id, index)} icon={agent.icon} label={agent.label} subtext={agent.subtext} />
+        ))}
       </div>
+      {trace && <div className="mt-6"><AgentTraceTimeline trace={trace} /></div>}
     </div>
   );
-};
\ No newline at end of file
+};
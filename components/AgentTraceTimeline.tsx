@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, ListTree } from 'lucide-react';
+import { AgentTrace, AgentTraceStep, ModelCallTrace, TrackMatch } from '../types';
+
+interface AgentTraceTimelineProps {
+  trace: AgentTrace;
+}
+
+const AGENT_LABELS: Record<AgentTraceStep['agent'], string> = {
+  perception: 'Vision',
+  analytics: 'Analysis',
+  reporting: 'Reporting',
+};
+
+const STATUS_COLORS: Record<AgentTraceStep['status'], string> = {
+  pending: 'bg-slate-500',
+  running: 'bg-brand-sky',
+  done: 'bg-green-500',
+  fallback: 'bg-orange-400',
+  error: 'bg-brand-red',
+};
+
+const PRE_CLASS = 'mt-1 max-h-48 overflow-auto whitespace-pre-wrap break-all bg-black/40 border border-white/10 rounded p-2 text-[10px] text-slate-300';
+
+/** Pretty-prints JSON text when it parses; otherwise shows it as-is. */
+const formatJson = (text: string) => {
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return text;
+  }
+};
+
+const tokens = (call: ModelCallTrace) => call.usage
+  ? `${call.usage.promptTokens ?? '?'} in / ${call.usage.responseTokens ?? '?'} out`
+  : 'tokens n/a';
+
+const CallDetails: React.FC<{ call: ModelCallTrace; index: number }> = ({ call, index }) => (
+  <details className="border-l border-white/10 pl-3">
+    <summary className="cursor-pointer hover:text-white">
+      Call {index + 1}: <span className="font-mono">{call.task}</span> · {call.modelId} · {call.latencyMs} ms
+      {call.queuedMs > 0 && ` (+${call.queuedMs} ms queued)`} · {tokens(call)}
+      {call.attempts > 1 && ` · ${call.attempts} attempts`}
+      {call.error && <span className="text-brand-red"> · failed</span>}
+    </summary>
+    {call.error && <p className="mt-1 text-brand-red">{call.error}</p>}
+    {call.image && <p className="mt-1 text-slate-500">Image: {call.image.mimeType}, {Math.round(call.image.bytes / 1024)} KB</p>}
+    {call.systemInstruction && (
+      <>
+        <p className="mt-2 text-slate-500">System instruction</p>
+        <pre className={PRE_CLASS}>{call.systemInstruction}</pre>
+      </>
+    )}
+    <p className="mt-2 text-slate-500">Prompt</p>
+    <pre className={PRE_CLASS}>{formatJson(call.prompt)}</pre>
+    {call.rawResponse !== undefined && (
+      <>
+        <p className="mt-2 text-slate-500">Raw response{call.rawResponseTruncated ? ' (truncated)' : ''}</p>
+        <pre className={PRE_CLASS}>{formatJson(call.rawResponse)}</pre>
+      </>
+    )}
+  </details>
+);
+
+const MatchSummary: React.FC<{ matches: TrackMatch[] }> = ({ matches }) => {
+  const count = (outcome: TrackMatch['outcome']) => matches.filter(m => m.outcome === outcome).length;
+  return (
+    <details className="border-l border-white/10 pl-3">
+      <summary className="cursor-pointer hover:text-white">
+        Tracker: {count('matched')} matched, {count('created')} new, {count('missed')} coasting, {count('dropped')} dropped
+      </summary>
+      <table className="mt-1 w-full text-[10px] font-mono">
+        <tbody>
+          {matches.map(m => (
+            <tr key={`${m.trackId}-${m.outcome}`} className="border-b border-white/5">
+              <td className="py-0.5 pr-2">#{m.trackId}</td>
+              <td className="pr-2">{m.object}</td>
+              <td className="pr-2">{m.outcome}</td>
+              <td className="text-right">{m.cost !== undefined ? `cost ${m.cost.toFixed(2)}` : ''}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </details>
+  );
+};
+
+/** Expandable per-agent timeline of one analysis: model calls, repairs, NMS and tracker matching. */
+export const AgentTraceTimeline: React.FC<AgentTraceTimelineProps> = ({ trace }) => {
+  const [open, setOpen] = useState(false);
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+  const total = Math.max(1, trace.durationMs);
+  const callCount = trace.steps.reduce((n, s) => n + s.calls.length, 0);
+
+  const toggle = (index: number) => setExpanded(prev => {
+    const next = new Set(prev);
+    if (next.has(index)) next.delete(index); else next.add(index);
+    return next;
+  });
+
+  return (
+    <div className="bg-brand-panel rounded-xl border border-white/10 shadow-lg text-xs text-slate-400">
+      <button onClick={() => setOpen(!open)} className="w-full flex items-center gap-2 px-4 py-3 hover:text-white">
+        {open ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        <ListTree className="w-4 h-4 text-brand-sky" />
+        <span className="font-semibold text-white">Execution trace</span>
+        <span className="ml-auto font-mono">{trace.depth} · {trace.durationMs} ms · {callCount} model call{callCount === 1 ? '' : 's'}</span>
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 space-y-2">
+          {trace.steps.map((step, index) => {
+            const offset = step.startedAt !== undefined ? ((step.startedAt - trace.startedAt) / total) * 100 : 0;
+            const width = Math.max(1, ((step.durationMs ?? 0) / total) * 100);
+            const isOpen = expanded.has(index);
+            return (
+              <div key={index} className="rounded-lg border border-white/5 bg-black/20">
+                <button onClick={() => toggle(index)} className="w-full flex items-center gap-3 px-3 py-2 hover:text-white">
+                  {isOpen ? <ChevronDown className="w-3.5 h-3.5 shrink-0" /> : <ChevronRight className="w-3.5 h-3.5 shrink-0" />}
+                  <span className="w-20 text-left font-semibold text-slate-200">{AGENT_LABELS[step.agent]}</span>
+                  <div className="flex-1 h-2 bg-white/5 rounded relative">
+                    <div className={`absolute h-2 rounded ${STATUS_COLORS[step.status]}`} style={{ left: `${Math.min(99, offset)}%`, width: `${Math.min(100 - Math.min(99, offset), width)}%` }} />
+                  </div>
+                  <span className="w-32 text-right font-mono">{step.status} · {step.durationMs ?? 0} ms</span>
+                </button>
+
+                {isOpen && (
+                  <div className="px-3 pb-3 space-y-2">
+                    <p>
+                      {step.strategy === 'model' ? 'Model' : 'Local rules'}{step.modelId ? ` (${step.modelId})` : ''}
+                      {step.summary && <> · {step.summary}</>}
+                    </p>
+                    {step.error && <p className="text-brand-red">{step.status === 'fallback' ? 'Fell back to local rules: ' : ''}{step.error}</p>}
+                    {step.nms && <p>NMS: {step.nms.input} boxed detections, {step.nms.dropped} suppressed as duplicates, {step.nms.kept} kept{step.nms.unboxed ? `, ${step.nms.unboxed} without a box passed through` : ''}</p>}
+                    {step.trackerMatches && step.trackerMatches.length > 0 && <MatchSummary matches={step.trackerMatches} />}
+                    {step.calls.map((call, i) => <CallDetails key={i} call={call} index={i} />)}
+                    {step.coercions && (
+                      <details className="border-l border-white/10 pl-3">
+                        <summary className="cursor-pointer hover:text-white">{step.coercions.length} validation fix{step.coercions.length === 1 ? '' : 'es'}</summary>
+                        <ul className="mt-1 space-y-0.5 font-mono text-[10px]">
+                          {step.coercions.map((c, i) => (
+                            <li key={i}>{c.path}: {JSON.stringify(c.from) ?? 'undefined'} → {JSON.stringify(c.to) ?? 'dropped'} ({c.reason})</li>
+                          ))}
+                        </ul>
+                      </details>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { Columns, X, Flag } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { HistoryItem, Violation } from '../types';
+import { SUMMARY_METRICS, vehicleClassBreakdown, violationsByType } from '../services/analysisMetrics';
+
+interface AnalysisComparisonProps {
+  items: HistoryItem[];
+  onClose: () => void;
+}
+
+const SERIES_COLORS = ['#7DD3FC', '#6366F1', '#F59E0B', '#22C55E', '#FF6B6B', '#FEF9C3'];
+
+/** Thumbnail with the record's detection boxes drawn over it (boxes are normalized 0-1000). */
+const OverlayImage: React.FC<{ item: HistoryItem }> = ({ item }) => (
+  <div className="relative w-full rounded border border-white/10 overflow-hidden bg-black/40">
+    <img src={item.thumbnail} alt="analysis" className="w-full block" />
+    <svg className="absolute inset-0 w-full h-full" viewBox="0 0 1000 1000" preserveAspectRatio="none">
+      {item.detections.filter(d => d.box_2d).map((d, i) => {
+        const [ymin, xmin, ymax, xmax] = d.box_2d!;
+        const color = d.type === 'vehicle' ? '#7DD3FC' : d.type === 'pedestrian' ? '#6366F1' : '#94a3b8';
+        return <rect key={i} x={xmin} y={ymin} width={xmax - xmin} height={ymax - ymin} fill="none" stroke={color} strokeWidth={2} vectorEffect="non-scaling-stroke" />;
+      })}
+    </svg>
+  </div>
+);
+
+/** Value with its difference from the baseline column. Lower is not always better, so deltas stay neutral. */
+const DeltaCell: React.FC<{ value: number; baseline: number; isBaseline: boolean; unit?: string }> = ({ value, baseline, isBaseline, unit = '' }) => {
+  const delta = value - baseline;
+  return (
+    <td className="py-1.5 px-2 font-mono text-white">
+      {Math.round(value * 10) / 10}{unit}
+      {!isBaseline && delta !== 0 && (
+        <span className={`ml-1.5 text-[10px] ${delta > 0 ? 'text-brand-sky' : 'text-orange-400'}`}>
+          {delta > 0 ? '+' : ''}{Math.round(delta * 10) / 10}
+          {baseline !== 0 && ` (${delta > 0 ? '+' : ''}${Math.round((delta / baseline) * 100)}%)`}
+        </span>
+      )}
+    </td>
+  );
+};
+
+/**
+ * Selected records side by side: images with their detections, headline metrics,
+ * violations by type and vehicle classes, each shown against a chosen baseline.
+ */
+export const AnalysisComparison: React.FC<AnalysisComparisonProps> = ({ items, onClose }) => {
+  const [baselineId, setBaselineId] = useState<string | null>(null);
+  const baseline = items.find(i => i.id === baselineId) || items[0];
+
+  const breakdowns = items.map(i => vehicleClassBreakdown(i.detections));
+  const violationCounts = items.map(i => violationsByType(i.analysis.detectedViolations));
+  const baselineIndex = items.indexOf(baseline);
+
+  const classNames = Array.from(new Set<string>(breakdowns.flatMap(b => b.map(c => c.name)))).sort();
+  const violationTypes = Array.from(new Set(violationCounts.flatMap(v => Object.keys(v)))).sort() as Violation['type'][];
+  const label = (item: HistoryItem, i: number) => `#${i + 1} ${new Date(item.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+
+  const classChartData = classNames.map(name => {
+    const row: Record<string, string | number> = { name };
+    items.forEach((item, i) => { row[label(item, i)] = breakdowns[i].find(c => c.name === name)?.count || 0; });
+    return row;
+  });
+
+  const sectionRow = (title: string) => (
+    <tr className="border-t border-white/10">
+      <td colSpan={items.length + 1} className="pt-3 pb-1 text-[10px] font-bold text-brand-cream/50 uppercase tracking-wider">{title}</td>
+    </tr>
+  );
+
+  return (
+    <div className="bg-brand-panel rounded-xl border border-brand-indigo/30 p-4 shadow-xl">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-bold text-white flex items-center gap-2"><Columns className="w-4 h-4 text-brand-indigo" /> Comparing {items.length} analyses</h4>
+        <button onClick={onClose} className="text-slate-400 hover:text-white p-1"><X className="w-4 h-4" /></button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs text-left text-slate-400">
+          <thead>
+            <tr>
+              <th className="py-2 pr-4 w-32" />
+              {items.map((item, i) => (
+                <th key={item.id} className="py-2 px-2 align-bottom min-w-[200px]">
+                  <OverlayImage item={item} />
+                  <div className="flex items-center justify-between mt-1">
+                    <span className="font-mono text-brand-cream">{label(item, i)} · {new Date(item.timestamp).toLocaleDateString()}</span>
+                    {item === baseline ? (
+                      <span className="flex items-center gap-1 text-[10px] text-brand-indigo"><Flag className="w-3 h-3" /> Baseline</span>
+                    ) : (
+                      <button onClick={() => setBaselineId(item.id)} className="text-[10px] text-slate-500 hover:text-brand-indigo">Set baseline</button>
+                    )}
+                  </div>
+                  <span className="block text-[10px] font-normal text-slate-500 truncate">{item.locationContext?.address || item.analysis.sceneType || 'Unknown'} · {item.analysis.trafficFlowStatus}</span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sectionRow('Traffic analysis')}
+            {SUMMARY_METRICS.map(m => (
+              <tr key={m.label} className="border-t border-white/5">
+                <td className="py-1.5 pr-4 text-brand-cream/70 uppercase">{m.label}</td>
+                {items.map(item => <DeltaCell key={item.id} value={m.value(item)} baseline={m.value(baseline)} isBaseline={item === baseline} unit={m.unit} />)}
+              </tr>
+            ))}
+
+            {violationTypes.length > 0 && sectionRow('Violations by type')}
+            {violationTypes.map(type => (
+              <tr key={type} className="border-t border-white/5">
+                <td className="py-1.5 pr-4 text-brand-cream/70 uppercase">{type}</td>
+                {items.map((item, i) => <DeltaCell key={item.id} value={violationCounts[i][type] || 0} baseline={violationCounts[baselineIndex][type] || 0} isBaseline={item === baseline} />)}
+              </tr>
+            ))}
+
+            {classNames.length > 0 && sectionRow('Vehicle classes')}
+            {classNames.map(name => (
+              <tr key={name} className="border-t border-white/5">
+                <td className="py-1.5 pr-4 text-brand-cream/70 uppercase">{name}</td>
+                {items.map((item, i) => (
+                  <DeltaCell
+                    key={item.id}
+                    value={breakdowns[i].find(c => c.name === name)?.count || 0}
+                    baseline={breakdowns[baselineIndex].find(c => c.name === name)?.count || 0}
+                    isBaseline={item === baseline}
+                  />
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {classChartData.length > 0 && (
+        <div className="h-56 w-full mt-4">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={classChartData}>
+              <XAxis dataKey="name" stroke="#94a3b8" fontSize={11} tickLine={false} axisLine={false} />
+              <YAxis stroke="#94a3b8" fontSize={11} tickLine={false} axisLine={false} allowDecimals={false} />
+              <Tooltip contentStyle={{ backgroundColor: '#151B2B', borderColor: '#334155', color: '#f1f5f9' }} cursor={{ fill: '#334155', opacity: 0.4 }} />
+              <Legend />
+              {items.map((item, i) => (
+                <Bar key={item.id} dataKey={label(item, i)} fill={SERIES_COLORS[i % SERIES_COLORS.length]} radius={[4, 4, 0, 0]} />
+              ))}
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,339 @@
+import React, { useState } from 'react';
+import { History, Car, Users, Ban, ExternalLink, Trash2, ChevronLeft, ChevronRight, Archive, Search, FilterX, ArrowUp, ArrowDown, Columns, X, Upload, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { HistoryItem, TrafficAnalysis, Violation } from '../types';
+import { AnalysisPage, AnalysisQuery, AnalysisSortKey, DEFAULT_ANALYSIS_QUERY, RetentionPolicy } from '../services/analysisDatabase';
+import { AnalysisComparison } from './AnalysisComparison';
+import { ExportMenu } from './ExportMenu';
+import { ExportFormat } from '../services/exportService';
+import { ImportResult } from '../services/importService';
+
+export interface AnalysisDatabaseProps {
+  historyPage: AnalysisPage;
+  historyQuery: AnalysisQuery;
+  retentionPolicy: RetentionPolicy;
+  comparisonItems: HistoryItem[];
+  importResult: ImportResult | null;
+  onHistoryPageChange: (page: number) => void;
+  onHistoryQueryChange: (query: AnalysisQuery) => void;
+  onDeleteHistoryItems: (ids: string[]) => void;
+  onExportHistoryItems: (ids: string[], format: ExportFormat) => void;
+  onCompareHistoryItems: (ids: string[]) => void;
+  onCloseComparison: () => void;
+  onImportHistoryFile: (file: File) => void;
+  onDismissImportResult: () => void;
+  onRetentionChange: (policy: RetentionPolicy) => void;
+  onLoadHistoryItem: (item: HistoryItem) => void;
+}
+
+const MAX_RECORD_OPTIONS: (number | null)[] = [100, 500, 2000, null];
+const MAX_AGE_OPTIONS: (number | null)[] = [7, 30, 90, null];
+const SCENE_TYPES: NonNullable<TrafficAnalysis['sceneType']>[] = ['Highway', 'Intersection', 'City Street', 'Parking Lot', 'Tunnel', 'Other'];
+const FLOW_STATUSES: TrafficAnalysis['trafficFlowStatus'][] = ['Free Flow', 'Moderate', 'Heavy', 'Gridlock'];
+const VIOLATION_TYPES: Violation['type'][] = ['Red Light', 'Jaywalking', 'Wrong Lane', 'Speeding', 'Restricted Zone', 'Other'];
+const SEVERITIES: Violation['severity'][] = ['High', 'Medium', 'Low'];
+
+const INPUT_CLASS = 'bg-black/30 border border-white/10 rounded px-2 py-1 text-white placeholder:text-slate-600';
+
+/** yyyy-mm-dd in local time, as used by <input type="date">. */
+const toDateInput = (ts: number | null) => {
+  if (ts === null) return '';
+  const d = new Date(ts);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const fromDateInput = (value: string, endOfDay: boolean): number | null => {
+  if (!value) return null;
+  const [y, m, d] = value.split('-').map(Number);
+  return endOfDay ? new Date(y, m - 1, d, 23, 59, 59, 999).getTime() : new Date(y, m - 1, d).getTime();
+};
+
+interface AnalysisDatabaseViewProps extends AnalysisDatabaseProps {
+  onBackToLive?: () => void;
+}
+
+export const AnalysisDatabase: React.FC<AnalysisDatabaseViewProps> = ({
+  historyPage, historyQuery, retentionPolicy, comparisonItems, importResult,
+  onHistoryPageChange, onHistoryQueryChange, onDeleteHistoryItems, onExportHistoryItems, onCompareHistoryItems, onCloseComparison,
+  onImportHistoryFile, onDismissImportResult, onRetentionChange, onLoadHistoryItem, onBackToLive
+}) => {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const { items, total, page, pageSize } = historyPage;
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+  const query = historyQuery;
+
+  const update = (patch: Partial<AnalysisQuery>) => onHistoryQueryChange({ ...query, ...patch });
+  const isFiltered = JSON.stringify({ ...query, sortBy: null, sortDir: null }) !== JSON.stringify({ ...DEFAULT_ANALYSIS_QUERY, sortBy: null, sortDir: null });
+
+  const toggle = (id: string) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+  const pageSelected = items.length > 0 && items.every(i => selected.has(i.id));
+  const togglePage = () => setSelected(prev => {
+    const next = new Set(prev);
+    items.forEach(i => (pageSelected ? next.delete(i.id) : next.add(i.id)));
+    return next;
+  });
+
+  const deleteSelected = () => {
+    onDeleteHistoryItems(Array.from(selected));
+    setSelected(new Set());
+  };
+
+  const sortHeader = (label: string, sortKey: AnalysisSortKey) => {
+    const active = query.sortBy === sortKey;
+    return (
+      <th key={sortKey} className="px-4 py-3">
+        <button
+          onClick={() => update({ sortBy: sortKey, sortDir: active && query.sortDir === 'desc' ? 'asc' : 'desc' })}
+          className={`flex items-center gap-1 uppercase ${active ? 'text-brand-sky' : 'hover:text-white'}`}
+        >
+          {label}
+          {active && (query.sortDir === 'desc' ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />)}
+        </button>
+      </th>
+    );
+  };
+
+  return (
+    <div className="space-y-6 animate-fadeIn">
+      <div className="flex items-center justify-between mb-4">
+         <h3 className="text-xl font-bold text-brand-dark flex items-center gap-2">
+           <History className="w-5 h-5 text-brand-indigo" />
+           Analysis Database
+         </h3>
+         <div className="flex items-center gap-4">
+           <label className="flex items-center gap-1.5 text-sm text-brand-indigo hover:text-brand-dark font-medium cursor-pointer">
+             <Upload className="w-4 h-4" /> Import bundle
+             <input
+               type="file"
+               className="hidden"
+               accept=".json,application/json"
+               onChange={(e) => {
+                 const file = e.target.files?.[0];
+                 if (file) onImportHistoryFile(file);
+                 e.target.value = '';
+               }}
+             />
+           </label>
+           {onBackToLive && <button onClick={onBackToLive} className="text-sm text-slate-600 hover:text-brand-dark font-medium">Back to Live</button>}
+         </div>
+      </div>
+
+      {importResult && (
+        <div className="bg-brand-panel rounded-xl border border-white/10 p-4 shadow-xl text-xs">
+          <div className="flex items-start justify-between gap-4">
+            <div className="flex items-center gap-2 text-white">
+              {importResult.errors.length === 0 ? <CheckCircle2 className="w-4 h-4 text-green-400" /> : <AlertCircle className="w-4 h-4 text-orange-400" />}
+              <span className="font-bold">Imported {importResult.imported} record{importResult.imported === 1 ? '' : 's'}</span>
+              <span className="text-slate-400">
+                {importResult.errors.length > 0 && `· ${importResult.errors.length} rejected `}
+                {importResult.renamed > 0 && `· ${importResult.renamed} given new IDs to avoid collisions `}
+                {importResult.fileVersion < 1 ? '· migrated from an unversioned export ' : `· schema v${importResult.fileVersion} `}
+                {importResult.removedByRetention > 0 && `· ${importResult.removedByRetention} older records removed by retention first`}
+              </span>
+            </div>
+            <button onClick={onDismissImportResult} className="text-slate-400 hover:text-white p-1"><X className="w-4 h-4" /></button>
+          </div>
+          {importResult.overRetention > 0 && (
+            <p className="mt-2 flex items-center gap-2 text-orange-300">
+              <AlertCircle className="w-3.5 h-3.5 shrink-0" />
+              {importResult.overRetention} record{importResult.overRetention === 1 ? ' is' : 's are'} now beyond the retention policy and will be deleted when the next analysis is saved. Raise the limits to keep them.
+            </p>
+          )}
+          {importResult.errors.length > 0 && (
+            <ul className="mt-3 space-y-2 max-h-48 overflow-y-auto">
+              {importResult.errors.map(err => (
+                <li key={err.index} className="border-l-2 border-orange-400/50 pl-2">
+                  <span className="font-mono text-brand-cream">Record {err.index + 1}{err.id ? ` (${err.id})` : ''}</span>
+                  {err.messages.map((m, i) => <div key={i} className="text-slate-400 font-mono">{m}</div>)}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {comparisonItems.length > 0 && <AnalysisComparison items={comparisonItems} onClose={onCloseComparison} />}
+
+      <div className="bg-brand-panel rounded-xl border border-white/10 overflow-hidden shadow-xl">
+         {/* Filters */}
+         <div className="px-4 py-3 border-b border-white/5 space-y-2 text-xs text-slate-400">
+           <div className="flex flex-wrap items-center gap-2">
+             <div className="relative flex-1 min-w-[200px]">
+               <Search className="w-3.5 h-3.5 absolute left-2 top-1/2 -translate-y-1/2 text-slate-500" />
+               <input value={query.search} onChange={(e) => update({ search: e.target.value })} placeholder="Search report summaries" className={`${INPUT_CLASS} w-full pl-7`} />
+             </div>
+             <input value={query.location} onChange={(e) => update({ location: e.target.value })} placeholder="Location address" className={`${INPUT_CLASS} w-44`} />
+             {isFiltered && (
+               <button onClick={() => onHistoryQueryChange({ ...DEFAULT_ANALYSIS_QUERY, sortBy: query.sortBy, sortDir: query.sortDir })} className="flex items-center gap-1 px-2 py-1 text-brand-red bg-brand-red/10 rounded border border-brand-red/20 hover:bg-brand-red hover:text-white transition-colors">
+                 <FilterX className="w-3 h-3" /> Clear filters
+               </button>
+             )}
+           </div>
+           <div className="flex flex-wrap items-center gap-2">
+             <select value={query.sceneType} onChange={(e) => update({ sceneType: e.target.value as AnalysisQuery['sceneType'] })} className={INPUT_CLASS}>
+               <option value="">Any scene</option>
+               {SCENE_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+             </select>
+             <select value={query.flowStatus} onChange={(e) => update({ flowStatus: e.target.value as AnalysisQuery['flowStatus'] })} className={INPUT_CLASS}>
+               <option value="">Any flow</option>
+               {FLOW_STATUSES.map(t => <option key={t} value={t}>{t}</option>)}
+             </select>
+             <select value={query.violationType} onChange={(e) => update({ violationType: e.target.value as AnalysisQuery['violationType'] })} className={INPUT_CLASS}>
+               <option value="">Any violation</option>
+               {VIOLATION_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+             </select>
+             <select value={query.severity} onChange={(e) => update({ severity: e.target.value as AnalysisQuery['severity'] })} className={INPUT_CLASS}>
+               <option value="">Any severity</option>
+               {SEVERITIES.map(t => <option key={t} value={t}>{t}</option>)}
+             </select>
+             <label className="flex items-center gap-1">Congestion
+               <input type="number" min={0} max={100} value={query.congestionMin} onChange={(e) => update({ congestionMin: parseInt(e.target.value) || 0 })} className={`${INPUT_CLASS} w-14`} />
+               –
+               <input type="number" min={0} max={100} value={query.congestionMax} onChange={(e) => update({ congestionMax: e.target.value === '' ? 100 : parseInt(e.target.value) })} className={`${INPUT_CLASS} w-14`} />
+               %
+             </label>
+             <label className="flex items-center gap-1">From
+               <input type="date" value={toDateInput(query.from)} onChange={(e) => update({ from: fromDateInput(e.target.value, false) })} className={INPUT_CLASS} />
+             </label>
+             <label className="flex items-center gap-1">To
+               <input type="date" value={toDateInput(query.to)} onChange={(e) => update({ to: fromDateInput(e.target.value, true) })} className={INPUT_CLASS} />
+             </label>
+           </div>
+         </div>
+
+         {/* Selection actions / retention */}
+         <div className="flex flex-wrap items-center justify-between gap-2 px-4 py-2 border-b border-white/5 text-xs text-slate-400">
+           {selected.size > 0 ? (
+             <div className="flex items-center gap-2">
+               <span className="font-mono text-brand-cream">{selected.size} selected</span>
+               <button onClick={() => setSelected(new Set())} className="p-1 text-slate-500 hover:text-white"><X className="w-3 h-3" /></button>
+               <button onClick={() => onCompareHistoryItems(Array.from(selected))} disabled={selected.size < 2} className="flex items-center gap-1 px-2 py-1 text-brand-indigo bg-brand-indigo/10 rounded border border-brand-indigo/20 hover:bg-brand-indigo hover:text-white transition-colors disabled:opacity-40">
+                 <Columns className="w-3 h-3" /> Compare
+               </button>
+               <ExportMenu align="left" onExport={format => onExportHistoryItems(Array.from(selected), format)} />
+               <button onClick={deleteSelected} className="flex items-center gap-1 px-2 py-1 text-brand-red bg-brand-red/10 rounded border border-brand-red/20 hover:bg-brand-red hover:text-white transition-colors">
+                 <Trash2 className="w-3 h-3" /> Delete
+               </button>
+             </div>
+           ) : (
+             <span className="flex items-center gap-2"><Archive className="w-3.5 h-3.5 text-brand-cream/70" /> Retention</span>
+           )}
+           <div className="flex items-center gap-2">
+             <label className="flex items-center gap-1">Keep
+               <select
+                 value={retentionPolicy.maxRecords ?? ''}
+                 onChange={(e) => onRetentionChange({ ...retentionPolicy, maxRecords: e.target.value ? parseInt(e.target.value) : null })}
+                 className={INPUT_CLASS}
+               >
+                 {MAX_RECORD_OPTIONS.map(n => <option key={n ?? 'all'} value={n ?? ''}>{n ? `latest ${n}` : 'all records'}</option>)}
+               </select>
+             </label>
+             <label className="flex items-center gap-1">for
+               <select
+                 value={retentionPolicy.maxAgeDays ?? ''}
+                 onChange={(e) => onRetentionChange({ ...retentionPolicy, maxAgeDays: e.target.value ? parseInt(e.target.value) : null })}
+                 className={INPUT_CLASS}
+               >
+                 {MAX_AGE_OPTIONS.map(d => <option key={d ?? 'ever'} value={d ?? ''}>{d ? `${d} days` : 'ever'}</option>)}
+               </select>
+             </label>
+           </div>
+         </div>
+
+         <div className="overflow-x-auto">
+           <table className="w-full text-sm text-left text-slate-400">
+             <thead className="text-xs text-brand-cream/70 uppercase bg-black/20">
+               <tr>
+                 <th className="pl-4 py-3 w-6">
+                   <input type="checkbox" checked={pageSelected} onChange={togglePage} className="accent-brand-sky" />
+                 </th>
+                 {sortHeader('Time', 'timestamp')}
+                 <th className="px-4 py-3">Context</th>
+                 {sortHeader('Traffic', 'vehicles')}
+                 {sortHeader('Congestion', 'congestion')}
+                 {sortHeader('Violations', 'violations')}
+                 {sortHeader('Priority', 'priority')}
+                 <th className="px-4 py-3 text-right">Action</th>
+               </tr>
+             </thead>
+             <tbody>
+               {items.map((item) => (
+                 <tr key={item.id} className={`border-b border-white/5 hover:bg-white/5 transition-colors ${selected.has(item.id) ? 'bg-brand-sky/5' : ''}`}>
+                   <td className="pl-4 py-3">
+                     <input type="checkbox" checked={selected.has(item.id)} onChange={() => toggle(item.id)} className="accent-brand-sky" />
+                   </td>
+                   <td className="px-4 py-3 font-mono text-white">
+                     {new Date(item.timestamp).toLocaleTimeString()}
+                     <span className="block text-[10px] text-slate-500">{new Date(item.timestamp).toLocaleDateString()}</span>
+                   </td>
+                   <td className="px-4 py-3">
+                      <div className="flex items-center gap-2">
+                         {item.thumbnail && <img src={item.thumbnail} alt="thumb" className="w-10 h-6 object-cover rounded border border-white/10" />}
+                         <div className="min-w-0">
+                           <span className="block text-xs truncate max-w-[150px]">{item.locationContext?.address || item.analysis.sceneType || 'Unknown'}</span>
+                           <span className="block text-[10px] text-slate-500 truncate max-w-[150px]" title={item.report.summary}>{item.report.summary}</span>
+                         </div>
+                      </div>
+                   </td>
+                   <td className="px-4 py-3">
+                      <div className="flex items-center gap-2">
+                          <Car className="w-3 h-3 text-brand-sky" /> {item.analysis.totalVehicles}
+                          <Users className="w-3 h-3 ml-1 text-brand-indigo" /> {item.analysis.pedestrianCount}
+                      </div>
+                   </td>
+                   <td className="px-4 py-3">
+                     <span className={`px-2 py-1 rounded text-xs ${item.analysis.congestionLevel > 70 ? 'bg-brand-red/20 text-brand-red' : 'bg-green-500/20 text-green-400'}`}>
+                       {item.analysis.congestionLevel}%
+                     </span>
+                   </td>
+                   <td className="px-4 py-3">
+                     {item.analysis.detectedViolations.length > 0 ? (
+                       <span className="text-brand-red flex items-center gap-1"><Ban className="w-3 h-3" /> {item.analysis.detectedViolations.length}</span>
+                     ) : (
+                       <span className="text-slate-600">-</span>
+                     )}
+                   </td>
+                   <td className="px-4 py-3 font-mono">{item.report.priorityScore}/10</td>
+                   <td className="px-4 py-3 text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        <button
+                          onClick={() => onLoadHistoryItem(item)}
+                          className="px-3 py-1 bg-brand-sky/10 text-brand-sky hover:bg-brand-sky hover:text-brand-dark rounded text-xs font-medium border border-brand-sky/20 flex items-center gap-1 transition-all"
+                        >
+                            <ExternalLink className="w-3 h-3" /> Open
+                        </button>
+                        <button
+                          onClick={() => onDeleteHistoryItems([item.id])}
+                          className="p-1.5 text-slate-500 hover:text-brand-red rounded border border-white/10 hover:border-brand-red/30 transition-colors"
+                        >
+                            <Trash2 className="w-3 h-3" />
+                        </button>
+                      </div>
+                   </td>
+                 </tr>
+               ))}
+               {items.length === 0 && (
+                 <tr>
+                   <td colSpan={8} className="px-4 py-8 text-center text-slate-500">{isFiltered ? 'No records match these filters.' : 'No analyses stored yet.'}</td>
+                 </tr>
+               )}
+             </tbody>
+           </table>
+         </div>
+
+         <div className="flex items-center justify-between px-4 py-3 border-t border-white/5 text-xs text-slate-400">
+           <span className="font-mono">{total === 0 ? 'No records' : `${page * pageSize + 1}–${page * pageSize + items.length} of ${total}`}</span>
+           <div className="flex items-center gap-2">
+             <button onClick={() => onHistoryPageChange(page - 1)} disabled={page === 0} className="p-1 rounded border border-white/10 hover:bg-white/10 disabled:opacity-40"><ChevronLeft className="w-4 h-4" /></button>
+             <span className="font-mono text-brand-cream">{page + 1} / {pageCount}</span>
+             <button onClick={() => onHistoryPageChange(page + 1)} disabled={page + 1 >= pageCount} className="p-1 rounded border border-white/10 hover:bg-white/10 disabled:opacity-40"><ChevronRight className="w-4 h-4" /></button>
+           </div>
+         </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { Crosshair, Save, Trash2, X, Ruler } from 'lucide-react';
+import { CalibrationPoint, CameraCalibration } from '../types';
+import { computeHomography, reprojectionError } from '../services/homography';
+import { MediaSize } from '../services/mediaFit';
+import { MediaOverlay } from './MediaOverlay';
+
+interface CalibrationOverlayProps {
+  points: CalibrationPoint[];
+  mediaSize: MediaSize | null; // Intrinsic size of the monitored media, to place clicks in image coordinates
+  onAddPoint: (image: [number, number]) => void;
+}
+
+/** Click-capture layer placed over the monitor canvas while calibrating. */
+export const CalibrationOverlay: React.FC<CalibrationOverlayProps> = ({ points, mediaSize, onAddPoint }) => (
+  <MediaOverlay mediaSize={mediaSize} className="cursor-crosshair" onPoint={onAddPoint}>
+    {points.length > 1 && (
+      <polygon
+        points={points.map(p => `${p.image[0] * 1000},${p.image[1] * 1000}`).join(' ')}
+        fill="rgba(99,102,241,0.15)"
+        stroke="#6366F1"
+        strokeWidth={2}
+        vectorEffect="non-scaling-stroke"
+      />
+    )}
+    {points.map((p, i) => (
+      <g key={i}>
+        <circle cx={p.image[0] * 1000} cy={p.image[1] * 1000} r={8} fill="#FEF9C3" stroke="#0B0F19" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+        <text x={p.image[0] * 1000 + 12} y={p.image[1] * 1000 - 12} fill="#FEF9C3" fontSize={28} fontWeight="bold">P{i + 1}</text>
+      </g>
+    ))}
+  </MediaOverlay>
+);
+
+interface CalibrationPanelProps {
+  points: CalibrationPoint[];
+  current?: CameraCalibration;
+  onChangePoints: (points: CalibrationPoint[]) => void;
+  onSave: (calibration: CameraCalibration) => void;
+  onClear: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * World-coordinate entry for the clicked points. With exactly four points the lane
+ * helper fills them in from a lane width and a distance along the lane, assuming the
+ * points were clicked near-left, near-right, far-right, far-left.
+ */
+export const CalibrationPanel: React.FC<CalibrationPanelProps> = ({ points, current, onChangePoints, onSave, onClear, onCancel }) => {
+  const [laneWidth, setLaneWidth] = useState(3.5);
+  const [laneLength, setLaneLength] = useState(20);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateWorld = (index: number, axis: 0 | 1, value: number) => {
+    onChangePoints(points.map((p, i) => {
+      if (i !== index) return p;
+      const world: [number, number] = [p.world[0], p.world[1]];
+      world[axis] = value;
+      return { ...p, world };
+    }));
+  };
+
+  const applyLaneHelper = () => {
+    const corners: [number, number][] = [[0, 0], [laneWidth, 0], [laneWidth, laneLength], [0, laneLength]];
+    onChangePoints(points.map((p, i) => ({ ...p, world: corners[i] })));
+  };
+
+  const handleSave = () => {
+    try {
+      const homography = computeHomography(points);
+      onSave({ points, homography, reprojectionError: reprojectionError(homography, points), updatedAt: Date.now() });
+      setError(null);
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  return (
+    <div className="bg-brand-panel rounded-2xl border border-brand-indigo/30 p-4 mb-6 shadow-2xl">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-bold text-white flex items-center gap-2"><Crosshair className="w-4 h-4 text-brand-indigo" /> Ground Plane Calibration</h4>
+        <button onClick={onCancel} className="text-slate-400 hover:text-white p-1"><X className="w-4 h-4" /></button>
+      </div>
+      <p className="text-xs text-slate-400 mb-3">
+        Click 4 or more points on the road surface, then enter their ground coordinates in meters.
+        {current && <span className="ml-1 text-green-400">Active calibration: {current.points.length} points, RMS {current.reprojectionError.toFixed(2)} m.</span>}
+      </p>
+
+      {points.length > 0 && (
+        <table className="w-full text-xs text-left text-slate-400 mb-3">
+          <thead className="text-brand-cream/70 uppercase">
+            <tr>
+              <th className="py-1">Point</th>
+              <th className="py-1">Image (x, y)</th>
+              <th className="py-1">World X (m)</th>
+              <th className="py-1">World Y (m)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {points.map((p, i) => (
+              <tr key={i} className="border-t border-white/5">
+                <td className="py-1 font-mono text-brand-cream">P{i + 1}</td>
+                <td className="py-1 font-mono">{p.image[0].toFixed(3)}, {p.image[1].toFixed(3)}</td>
+                {[0, 1].map(axis => (
+                  <td key={axis} className="py-1">
+                    <input
+                      type="number"
+                      step="0.1"
+                      value={p.world[axis]}
+                      onChange={(e) => updateWorld(i, axis as 0 | 1, parseFloat(e.target.value) || 0)}
+                      className="w-20 bg-black/30 border border-white/10 rounded px-2 py-1 text-white"
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {points.length === 4 && (
+        <div className="flex flex-wrap items-end gap-2 mb-3 text-xs text-slate-400">
+          <label className="flex flex-col gap-1">Lane width (m)
+            <input type="number" step="0.1" value={laneWidth} onChange={(e) => setLaneWidth(parseFloat(e.target.value) || 0)} className="w-20 bg-black/30 border border-white/10 rounded px-2 py-1 text-white" />
+          </label>
+          <label className="flex flex-col gap-1">Distance along lane (m)
+            <input type="number" step="0.5" value={laneLength} onChange={(e) => setLaneLength(parseFloat(e.target.value) || 0)} className="w-20 bg-black/30 border border-white/10 rounded px-2 py-1 text-white" />
+          </label>
+          <button onClick={applyLaneHelper} className="flex items-center gap-1 px-3 py-1.5 text-brand-sky bg-brand-sky/10 rounded border border-brand-sky/20 hover:bg-brand-sky hover:text-brand-dark transition-colors">
+            <Ruler className="w-3 h-3" /> Fill from lane
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-brand-red mb-3">{error}</p>}
+
+      <div className="flex justify-between">
+        <button onClick={onClear} className="flex items-center gap-1 px-3 py-2 text-xs text-brand-red bg-brand-red/10 rounded-lg border border-brand-red/20 hover:bg-brand-red hover:text-white transition-colors">
+          <Trash2 className="w-3.5 h-3.5" /> Remove Calibration
+        </button>
+        <div className="flex gap-2">
+          <button onClick={() => onChangePoints([])} className="px-3 py-2 text-xs text-slate-300 bg-white/5 rounded-lg border border-white/10 hover:bg-white/10">Reset Points</button>
+          <button onClick={handleSave} disabled={points.length < 4} className="flex items-center gap-1 px-3 py-2 text-xs text-brand-indigo bg-brand-indigo/10 rounded-lg border border-brand-indigo/20 hover:bg-brand-indigo hover:text-white transition-colors disabled:opacity-40">
+            <Save className="w-3.5 h-3.5" /> Save to Camera Profile
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
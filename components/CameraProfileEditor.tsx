@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { Save, X } from 'lucide-react';
+import { CameraProfile, CameraSource, SpeedLimits } from '../types';
+import { DEFAULT_SPEED_LIMITS } from '../services/trackingService';
+
+interface CameraProfileEditorProps {
+  profile: CameraProfile;
+  onSave: (profile: CameraProfile) => void;
+  onCancel: () => void;
+}
+
+const INPUT_CLASS = 'bg-black/30 border border-white/10 rounded px-2 py-1 text-white';
+
+const parseCoordinate = (value: string): number | undefined => {
+  const n = parseFloat(value);
+  return Number.isFinite(n) ? n : undefined;
+};
+
+/** Lists the browser's video inputs; labels stay empty until camera permission is granted. */
+export const useVideoInputs = (): MediaDeviceInfo[] => {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  useEffect(() => {
+    navigator.mediaDevices?.enumerateDevices()
+      .then(all => setDevices(all.filter(d => d.kind === 'videoinput')))
+      .catch(() => setDevices([]));
+  }, []);
+  return devices;
+};
+
+interface SourceFieldsProps {
+  source: CameraSource;
+  onChange: (source: CameraSource) => void;
+}
+
+/** Source kind plus the fields that kind needs. Files are picked on the tile itself. */
+export const SourceFields: React.FC<SourceFieldsProps> = ({ source, onChange }) => {
+  const devices = useVideoInputs();
+  return (
+    <>
+      <label className="flex flex-col gap-1">
+        Source
+        <select value={source.kind} onChange={e => onChange({ kind: e.target.value as CameraSource['kind'], format: 'video' })} className={INPUT_CLASS}>
+          <option value="webcam">Webcam</option>
+          <option value="file">Video file</option>
+          <option value="url">Stream URL</option>
+        </select>
+      </label>
+      {source.kind === 'webcam' && (
+        <label className="flex flex-col gap-1">
+          Device
+          <select value={source.deviceId || ''} onChange={e => onChange({ ...source, deviceId: e.target.value || undefined })} className={INPUT_CLASS}>
+            <option value="">Default camera</option>
+            {devices.map((d, i) => <option key={d.deviceId || i} value={d.deviceId}>{d.label || `Camera ${i + 1}`}</option>)}
+          </select>
+        </label>
+      )}
+      {source.kind === 'url' && (
+        <>
+          <label className="flex flex-col gap-1 md:col-span-2">
+            URL
+            <input value={source.url || ''} placeholder="https://… (.mp4, .m3u8 or MJPEG)" onChange={e => onChange({ ...source, url: e.target.value })} className={`${INPUT_CLASS} placeholder:text-slate-600`} />
+          </label>
+          <label className="flex flex-col gap-1">
+            Format
+            <select value={source.format || 'video'} onChange={e => onChange({ ...source, format: e.target.value as CameraSource['format'] })} className={INPUT_CLASS}>
+              <option value="video">Video / HLS</option>
+              <option value="mjpeg">MJPEG</option>
+            </select>
+          </label>
+        </>
+      )}
+    </>
+  );
+};
+
+/** Name, source, location and speed limits of a camera. Calibration and zones are edited on the monitor. */
+export const CameraProfileEditor: React.FC<CameraProfileEditorProps> = ({ profile, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<CameraProfile>(profile);
+  const limits = draft.speedLimits || DEFAULT_SPEED_LIMITS;
+
+  const setLimit = (key: keyof SpeedLimits, value: string) => {
+    const n = parseInt(value, 10);
+    if (Number.isFinite(n) && n > 0) setDraft(prev => ({ ...prev, speedLimits: { ...limits, [key]: n } }));
+  };
+
+  const setLocation = (patch: Partial<NonNullable<CameraProfile['location']>>) => {
+    setDraft(prev => ({ ...prev, location: { label: '', ...prev.location, ...patch } }));
+  };
+
+  const save = () => {
+    const { location, ...rest } = draft;
+    // An empty location is dropped rather than stored
+    const hasLocation = location && (location.label.trim() || location.latitude !== undefined || location.longitude !== undefined);
+    onSave({ ...rest, name: draft.name.trim() || profile.name, ...(hasLocation ? { location } : {}) });
+  };
+
+  return (
+    <div className="bg-brand-panel p-6 rounded-xl border border-white/10 shadow-lg mb-6 text-xs text-slate-400">
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="text-sm font-bold text-white">Camera profile</h4>
+        <button onClick={onCancel} className="text-slate-400 hover:text-white"><X className="w-4 h-4" /></button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+        <label className="flex flex-col gap-1 md:col-span-2">
+          Name
+          <input value={draft.name} onChange={e => setDraft(prev => ({ ...prev, name: e.target.value }))} className={INPUT_CLASS} />
+        </label>
+        {draft.source && <SourceFields source={draft.source} onChange={source => setDraft(prev => ({ ...prev, source }))} />}
+      </div>
+
+      <p className="mt-4 mb-2 font-semibold text-slate-300">Location</p>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+        <label className="flex flex-col gap-1 md:col-span-2">
+          Label
+          <input value={draft.location?.label || ''} placeholder="e.g. 5th Ave & Main St, northbound" onChange={e => setLocation({ label: e.target.value })} className={`${INPUT_CLASS} placeholder:text-slate-600`} />
+        </label>
+        <label className="flex flex-col gap-1">
+          Latitude
+          <input type="number" step="any" value={draft.location?.latitude ?? ''} onChange={e => setLocation({ latitude: parseCoordinate(e.target.value) })} className={INPUT_CLASS} />
+        </label>
+        <label className="flex flex-col gap-1">
+          Longitude
+          <input type="number" step="any" value={draft.location?.longitude ?? ''} onChange={e => setLocation({ longitude: parseCoordinate(e.target.value) })} className={INPUT_CLASS} />
+        </label>
+      </div>
+
+      <p className="mt-4 mb-2 font-semibold text-slate-300">Speed limits (km/h)</p>
+      <div className="grid grid-cols-3 gap-3">
+        {([['default', 'Cars'], ['heavy', 'Buses & trucks'], ['light', 'Bikes & rickshaws']] as const).map(([key, label]) => (
+          <label key={key} className="flex flex-col gap-1">
+            {label}
+            <input type="number" min={1} value={limits[key]} onChange={e => setLimit(key, e.target.value)} className={INPUT_CLASS} />
+          </label>
+        ))}
+      </div>
+
+      <p className="mt-4 text-slate-500">
+        {draft.calibration ? 'Calibrated' : 'Not calibrated'} · {draft.zones?.length || 0} zone{draft.zones?.length === 1 ? '' : 's'}
+      </p>
+
+      <div className="flex justify-end mt-4">
+        <button onClick={save} className="flex items-center gap-2 px-3 py-2 text-brand-sky bg-brand-sky/10 rounded-lg hover:bg-brand-sky hover:text-brand-dark transition-colors border border-brand-sky/20 text-xs font-medium">
+          <Save className="w-3.5 h-3.5" /> Save
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,375 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FolderOpen, Loader2, Pause, Pencil, Play, Trash2, VideoOff } from 'lucide-react';
+import { AgentStageState, AgentTrace, CameraProfile, FullAnalysisResult, LocationContextData, OriginDestinationAnalysis, SignalPhase, TrackTrajectory, TurningMovementCount } from '../types';
+import { CameraSession } from '../services/cameraSession';
+import { captureFrame } from '../services/frameCapture';
+import { PipelineError, runAgentPipeline } from '../services/agentOrchestrator';
+import { PerceptionOutput } from '../services/perceptionAgent';
+import { drawAnnotations } from '../services/annotationRenderer';
+import { containRect, mediaNaturalSize } from '../services/mediaFit';
+import { StreamSource } from '../services/streamSource';
+import { AdaptiveSampler, AdaptiveSamplingOptions, SAMPLER_TICK_MS } from '../services/adaptiveSampler';
+import { OverlayAnimator } from '../services/overlayAnimator';
+import { createFrameSignature } from '../services/frameDifference';
+import { getRequestScheduler, isAbortError } from '../services/requestScheduler';
+
+export type CameraTileStatus = 'connecting' | 'live' | 'paused' | 'no-source' | 'error';
+
+/** What a tile reports to the wall after each frame; the focused camera's snapshot feeds the dashboard. */
+export interface CameraSnapshot {
+  cameraId: string;
+  status: CameraTileStatus;
+  error?: string;
+  result: FullAnalysisResult | null;
+  frame: string | null; // Data URI of the frame behind `result`
+  stages: AgentStageState[];
+  trace: AgentTrace | null;
+  movementCounts: TurningMovementCount[];
+  trajectories: TrackTrajectory[];
+  originDestination: OriginDestinationAnalysis;
+  signalPhases: SignalPhase[];
+}
+
+interface CameraTileProps {
+  profile: CameraProfile;
+  sampling: AdaptiveSamplingOptions;
+  focused: boolean;
+  onFocus: () => void;
+  onEdit: () => void;
+  onRemove: () => void;
+  onChange: (profile: CameraProfile) => void; // Records the chosen file's name
+  onSnapshot: (snapshot: CameraSnapshot) => void;
+}
+
+const TRAIL_LENGTH = 20;
+
+const STATUS_STYLES: Record<CameraTileStatus, { label: string; className: string }> = {
+  connecting: { label: 'Connecting', className: 'bg-brand-sky/20 text-brand-sky' },
+  live: { label: 'Live', className: 'bg-green-500/20 text-green-400' },
+  paused: { label: 'Paused', className: 'bg-slate-500/30 text-slate-300' },
+  'no-source': { label: 'No source', className: 'bg-orange-400/20 text-orange-300' },
+  error: { label: 'Error', className: 'bg-brand-red/20 text-brand-red' },
+};
+
+const congestionClass = (level: number) =>
+  level > 75 ? 'bg-brand-red/80 text-white' : level > 40 ? 'bg-orange-400/80 text-brand-dark' : 'bg-brand-sky/80 text-brand-dark';
+
+/** The profile's location, in the shape the reporting agent reads. */
+const locationContextOf = (profile: CameraProfile): LocationContextData | undefined => profile.location && {
+  latitude: profile.location.latitude,
+  longitude: profile.location.longitude,
+  address: profile.location.label,
+  nearbyPlaces: [],
+  trafficInfluencers: [],
+};
+
+/**
+ * One camera on the wall: plays its source, analyses frames at fast depth when its sampler
+ * asks for them, with its own tracker session, and draws the overlay. Keeps running while unfocused.
+ */
+export const CameraTile: React.FC<CameraTileProps> = ({ profile, sampling, focused, onFocus, onEdit, onRemove, onChange, onSnapshot }) => {
+  const source = profile.source;
+  const isStream = source?.kind === 'url';
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const imgRef = useRef<HTMLImageElement>(null);
+  const captureCanvasRef = useRef<HTMLCanvasElement>(null);
+  const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
+  const streamRef = useRef<StreamSource | null>(null); // URL sources: reconnects and health
+  const sessionRef = useRef<CameraSession>(new CameraSession(profile));
+  const samplerRef = useRef<AdaptiveSampler>(new AdaptiveSampler(sampling));
+  const profileRef = useRef<CameraProfile>(profile); // Read by the frame loop
+  const snapshotRef = useRef<CameraSnapshot | null>(null);
+  const onSnapshotRef = useRef(onSnapshot);
+
+  const [file, setFile] = useState<File | null>(null);
+  const [paused, setPaused] = useState(false);
+  const [status, setStatus] = useState<CameraTileStatus>('connecting');
+  const [error, setError] = useState<string | undefined>(undefined);
+  const [analyzing, setAnalyzing] = useState(false);
+  const [result, setResult] = useState<FullAnalysisResult | null>(null);
+
+  onSnapshotRef.current = onSnapshot;
+
+  const publish = (patch: Partial<CameraSnapshot>) => {
+    const session = sessionRef.current;
+    const next: CameraSnapshot = {
+      cameraId: profile.id,
+      status: 'connecting',
+      result: null,
+      frame: null,
+      stages: [],
+      trace: null,
+      ...snapshotRef.current,
+      movementCounts: session.getMovementCounts(),
+      trajectories: session.getTrajectories(),
+      originDestination: session.getOriginDestination(),
+      signalPhases: session.getSignalPhases(),
+      ...patch,
+    };
+    snapshotRef.current = next;
+    onSnapshotRef.current(next);
+  };
+
+  const fail = (message: string) => {
+    setStatus('error');
+    setError(message);
+    publish({ status: 'error', error: message });
+  };
+
+  const markLive = () => {
+    setStatus('live');
+    setError(undefined);
+    publish({ status: 'live', error: undefined });
+  };
+
+  const chooseFile = (chosen: File) => {
+    setFile(chosen);
+    if (source && source.fileName !== chosen.name) onChange({ ...profile, source: { ...source, fileName: chosen.name } });
+  };
+
+  useEffect(() => {
+    profileRef.current = profile;
+    sessionRef.current.applyProfile(profile);
+  }, [profile]);
+
+  useEffect(() => {
+    samplerRef.current.setOptions(sampling);
+  }, [sampling]);
+
+  // Source: attach the stream, file or URL; tracks restart with every new source
+  useEffect(() => {
+    sessionRef.current.reset();
+    samplerRef.current.reset();
+    setResult(null);
+    publish({ result: null, frame: null, stages: [], trace: null });
+
+    if (!source || (source.kind === 'file' && !file)) {
+      setStatus('no-source');
+      publish({ status: 'no-source' });
+      return;
+    }
+    setStatus('connecting');
+    publish({ status: 'connecting', error: undefined });
+
+    const video = videoRef.current;
+    if (!video) return;
+
+    if (source.kind === 'url' && source.url && imgRef.current) {
+      let lastState = '';
+      const streamSource = new StreamSource(source.url, source.format || 'video', { video, image: imgRef.current }, health => {
+        if (health.state === lastState || health.state === 'stopped') return;
+        lastState = health.state;
+        if (health.state === 'live') markLive();
+        else if (health.state === 'failed') fail(health.error || 'Stream failed');
+        else {
+          // Connecting or recovering; the reason stays visible until frames arrive
+          setStatus('connecting');
+          setError(health.error || undefined);
+          publish({ status: 'connecting', error: health.error || undefined });
+        }
+      });
+      streamRef.current = streamSource;
+      streamSource.start();
+      return () => {
+        streamSource.stop();
+        streamRef.current = null;
+      };
+    }
+
+    let stream: MediaStream | null = null;
+    let objectUrl: string | null = null;
+    let cancelled = false;
+
+    if (source.kind === 'webcam') {
+      navigator.mediaDevices.getUserMedia({ video: source.deviceId ? { deviceId: { exact: source.deviceId } } : true })
+        .then(s => {
+          if (cancelled) { s.getTracks().forEach(t => t.stop()); return; }
+          stream = s;
+          video.srcObject = s;
+        })
+        .catch(e => fail(`Camera unavailable: ${e.message || e}`));
+    } else if (source.kind === 'file' && file) {
+      objectUrl = URL.createObjectURL(file);
+      video.src = objectUrl;
+    }
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(t => t.stop());
+      video.pause();
+      video.srcObject = null;
+      video.removeAttribute('src');
+      video.load();
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [source?.kind, source?.deviceId, source?.url, source?.format, file]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || isStream) return; // Live streams keep playing; pausing only stops analysis
+    if (paused) video.pause(); else video.play().catch(() => { /* Waits for the next canplay */ });
+  }, [paused, isStream]);
+
+  // Frame loop: ticks every SAMPLER_TICK_MS and analyses a frame when the sampler asks for
+  // one and none is in flight; the overlay is redrawn every display frame from the tracker
+  useEffect(() => {
+    if (paused || status !== 'live') return;
+    const controller = new AbortController();
+    const signatureCanvas = document.createElement('canvas');
+    const animator = new OverlayAnimator();
+    let timeoutId: any;
+    let frameId = 0;
+    let inFlight = false;
+
+    const render = () => {
+      const canvas = overlayCanvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (canvas && ctx) {
+        const rect = canvas.parentElement?.getBoundingClientRect();
+        if (rect && (canvas.width !== Math.round(rect.width) || canvas.height !== Math.round(rect.height))) {
+          canvas.width = Math.round(rect.width);
+          canvas.height = Math.round(rect.height);
+        }
+        const now = Date.now();
+        const tracker = sessionRef.current.tracker;
+        const frame = animator.frame(tracker.predict(now), tracker.getMaxMissingFrames(), now);
+        const media = isStream && source?.format === 'mjpeg' ? imgRef.current : videoRef.current;
+        const fit = containRect(media && mediaNaturalSize(media), canvas);
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        ctx.save();
+        ctx.translate(fit.left, fit.top);
+        drawAnnotations(ctx, frame.detections, fit.width, fit.height, trackId => sessionRef.current.trajectoryStore.getTail(trackId, TRAIL_LENGTH), det => frame.opacity.get(det) ?? 1);
+        ctx.restore();
+      }
+      frameId = requestAnimationFrame(render);
+    };
+
+    const track = (perception: PerceptionOutput, ts: number) => {
+      const tracking = sessionRef.current.track(perception, ts);
+      animator.onTracked(tracking.detections, Date.now());
+      return tracking;
+    };
+
+    const analyze = async (element: HTMLVideoElement | HTMLImageElement, canvas: HTMLCanvasElement) => {
+      inFlight = true;
+      try {
+        const frame = captureFrame(element, canvas, 0.7);
+        if (!frame) return;
+        setAnalyzing(true);
+        const session = sessionRef.current;
+        const run = await runAgentPipeline(
+          { image: frame.data, mimeType: frame.mime, depth: 'fast', timestamp: Date.now() },
+          { track, history: session.getHistory(), locationContext: locationContextOf(profileRef.current) },
+          stages => { if (!controller.signal.aborted) publish({ stages }); },
+          controller.signal
+        );
+        if (controller.signal.aborted) return;
+        session.recordResult(run.result);
+        setResult(run.result);
+        publish({ result: run.result, frame: `data:${frame.mime};base64,${frame.data}`, stages: run.stages, trace: run.result.trace || null });
+      } catch (e: any) {
+        if (isAbortError(e)) return;
+        if (e instanceof PipelineError) {
+          // Model errors are retried on a later frame
+          publish({ trace: e.trace });
+          console.warn(`Camera ${profileRef.current.name}: frame skipped`, e);
+        } else {
+          // Capture errors (a tainted canvas) do not recover
+          controller.abort();
+          fail(e.message);
+        }
+      } finally {
+        inFlight = false;
+        setAnalyzing(false);
+      }
+    };
+
+    const tick = () => {
+      if (controller.signal.aborted) return;
+      const now = Date.now();
+      const element = isStream ? streamRef.current?.getElement() : videoRef.current;
+      if (element && captureCanvasRef.current && !inFlight && !getRequestScheduler().isSaturated()) {
+        try {
+          const decision = samplerRef.current.decide(createFrameSignature(element, signatureCanvas), sessionRef.current.tracker.getUncertainty(now), now);
+          if (decision.analyze) analyze(element, captureCanvasRef.current);
+        } catch (e: any) {
+          fail(e.message); // Signature read from a tainted canvas
+          return;
+        }
+      }
+      timeoutId = setTimeout(tick, SAMPLER_TICK_MS);
+    };
+    tick();
+    frameId = requestAnimationFrame(render);
+
+    return () => {
+      controller.abort();
+      clearTimeout(timeoutId);
+      cancelAnimationFrame(frameId);
+    };
+  }, [paused, status, isStream]);
+
+  const statusStyle = STATUS_STYLES[paused && status === 'live' ? 'paused' : status];
+  const congestion = result?.analysis.congestionLevel;
+
+  return (
+    <div
+      onClick={onFocus}
+      className={`bg-brand-panel rounded-xl border shadow-lg overflow-hidden cursor-pointer transition-colors ${focused ? 'border-brand-sky ring-2 ring-brand-sky/40' : 'border-white/10 hover:border-white/30'}`}
+    >
+      <div className="relative aspect-video bg-black">
+        {/* URL sources: the StreamSource drives whichever element matches the format */}
+        <img ref={imgRef} className={`w-full h-full object-contain ${isStream && source?.format === 'mjpeg' ? '' : 'hidden'}`} />
+        <video
+          ref={videoRef}
+          muted
+          playsInline
+          loop={source?.kind === 'file'}
+          onCanPlay={isStream ? undefined : () => { if (status !== 'live') markLive(); if (!paused) videoRef.current?.play().catch(() => {}); }}
+          onError={isStream ? undefined : () => source && fail('Source failed to load')}
+          className={`w-full h-full object-contain ${isStream && source?.format === 'mjpeg' ? 'hidden' : ''}`}
+        />
+        <canvas ref={overlayCanvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+        <canvas ref={captureCanvasRef} className="hidden" />
+
+        {status === 'no-source' && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 text-slate-400 text-xs">
+            <VideoOff className="w-6 h-6" />
+            {source?.kind === 'file' ? (
+              <label onClick={e => e.stopPropagation()} className="flex items-center gap-1 px-2 py-1 rounded bg-white/10 text-white cursor-pointer hover:bg-white/20">
+                <FolderOpen className="w-3.5 h-3.5" /> {source.fileName ? `Reopen ${source.fileName}` : 'Choose video file'}
+                <input type="file" accept="video/*" className="hidden" onChange={e => e.target.files?.[0] && chooseFile(e.target.files[0])} />
+              </label>
+            ) : 'No source configured'}
+          </div>
+        )}
+
+        <div className="absolute top-2 left-2 flex gap-1.5 text-[10px] font-bold uppercase tracking-wide">
+          <span className={`px-1.5 py-0.5 rounded flex items-center gap-1 ${statusStyle.className}`}>
+            {analyzing && <Loader2 className="w-3 h-3 animate-spin" />}{statusStyle.label}
+          </span>
+          {congestion !== undefined && (
+            <span className={`px-1.5 py-0.5 rounded font-mono ${congestionClass(congestion)}`}>{congestion}%</span>
+          )}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 px-3 py-2 text-xs">
+        <div className="flex-1 min-w-0">
+          <p className="font-semibold text-white truncate">{profile.name}</p>
+          <p className="text-slate-500 truncate">{error || profile.location?.label || (result ? `${result.analysis.totalVehicles} vehicles · ${result.analysis.trafficFlowStatus}` : '—')}</p>
+        </div>
+        <button onClick={e => { e.stopPropagation(); setPaused(!paused); }} className="p-1.5 text-slate-400 hover:text-white" title={paused ? 'Resume' : 'Pause'}>
+          {paused ? <Play className="w-3.5 h-3.5" /> : <Pause className="w-3.5 h-3.5" />}
+        </button>
+        <button onClick={e => { e.stopPropagation(); onEdit(); }} className="p-1.5 text-slate-400 hover:text-white" title="Edit camera">
+          <Pencil className="w-3.5 h-3.5" />
+        </button>
+        <button onClick={e => { e.stopPropagation(); onRemove(); }} className="p-1.5 text-slate-400 hover:text-brand-red" title="Remove camera">
+          <Trash2 className="w-3.5 h-3.5" />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { CameraProfile, CameraSource } from '../types';
+import { AdaptiveSamplingOptions } from '../services/adaptiveSampler';
+import { CameraSnapshot, CameraTile } from './CameraTile';
+import { CameraProfileEditor, SourceFields } from './CameraProfileEditor';
+
+interface CameraWallProps {
+  cameras: CameraProfile[]; // Profiles with a source
+  sampling: AdaptiveSamplingOptions; // Shared by every tile
+  focusedId: string | null;
+  onFocus: (id: string) => void;
+  onAdd: (name: string, source: CameraSource) => void;
+  onUpdate: (profile: CameraProfile) => void;
+  onRemove: (id: string) => void;
+  onSnapshot: (snapshot: CameraSnapshot) => void;
+}
+
+const INPUT_CLASS = 'bg-black/30 border border-white/10 rounded px-2 py-1 text-white';
+
+/** Grid of camera tiles with add, edit and remove. Each tile analyses its own source. */
+export const CameraWall: React.FC<CameraWallProps> = ({ cameras, sampling, focusedId, onFocus, onAdd, onUpdate, onRemove, onSnapshot }) => {
+  const [adding, setAdding] = useState(false);
+  const [name, setName] = useState('');
+  const [source, setSource] = useState<CameraSource>({ kind: 'webcam' });
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const editing = cameras.find(c => c.id === editingId);
+
+  const canAdd = source.kind !== 'url' || !!source.url?.trim();
+
+  const add = () => {
+    onAdd(name.trim() || `Camera ${cameras.length + 1}`, source.kind === 'url' ? { ...source, url: source.url!.trim() } : source);
+    setAdding(false);
+    setName('');
+    setSource({ kind: 'webcam' });
+  };
+
+  return (
+    <div>
+      {editing && (
+        <CameraProfileEditor
+          key={editing.id}
+          profile={editing}
+          onSave={profile => { onUpdate(profile); setEditingId(null); }}
+          onCancel={() => setEditingId(null)}
+        />
+      )}
+
+      {adding ? (
+        <div className="bg-brand-panel p-6 rounded-xl border border-white/10 shadow-lg mb-6 text-xs text-slate-400">
+          <div className="flex items-center justify-between mb-4">
+            <h4 className="text-sm font-bold text-white">Add camera</h4>
+            <button onClick={() => setAdding(false)} className="text-slate-400 hover:text-white"><X className="w-4 h-4" /></button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <label className="flex flex-col gap-1">
+              Name
+              <input value={name} placeholder={`Camera ${cameras.length + 1}`} onChange={e => setName(e.target.value)} className={`${INPUT_CLASS} placeholder:text-slate-600`} />
+            </label>
+            <SourceFields source={source} onChange={setSource} />
+          </div>
+          <div className="flex justify-end mt-4">
+            <button onClick={add} disabled={!canAdd} className="flex items-center gap-2 px-3 py-2 text-brand-sky bg-brand-sky/10 rounded-lg hover:bg-brand-sky hover:text-brand-dark transition-colors border border-brand-sky/20 text-xs font-medium disabled:opacity-40 disabled:pointer-events-none">
+              <Plus className="w-3.5 h-3.5" /> Add
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex justify-end mb-4">
+          <button onClick={() => setAdding(true)} className="flex items-center gap-2 px-3 py-2 text-brand-indigo bg-white/80 rounded-lg hover:bg-brand-indigo hover:text-white transition-colors border border-brand-indigo/20 text-xs font-bold shadow-sm">
+            <Plus className="w-3.5 h-3.5" /> Add camera
+          </button>
+        </div>
+      )}
+
+      {cameras.length === 0 ? (
+        <div className="bg-brand-panel p-6 rounded-xl border border-white/10 shadow-lg text-center text-sm text-slate-400">
+          No cameras yet. Add webcams, video files or stream URLs to watch them side by side.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+          {cameras.map(camera => (
+            <CameraTile
+              key={camera.id}
+              profile={camera}
+              sampling={sampling}
+              focused={camera.id === focusedId}
+              onFocus={() => onFocus(camera.id)}
+              onEdit={() => setEditingId(camera.id)}
+              onRemove={() => onRemove(camera.id)}
+              onChange={onUpdate}
+              onSnapshot={onSnapshot}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
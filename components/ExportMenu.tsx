@@ -0,0 +1,43 @@
+import React, { useState } from 'react';
+import { Download, ChevronDown } from 'lucide-react';
+import { EXPORT_FORMATS, ExportFormat } from '../services/exportService';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+  includeSessionFormats?: boolean; // Offer formats that need per-track session data
+  label?: string;
+  className?: string;
+  align?: 'left' | 'right';
+}
+
+/** Download button with a format dropdown. */
+export const ExportMenu: React.FC<ExportMenuProps> = ({ onExport, includeSessionFormats = false, label = 'Export', className = '', align = 'right' }) => {
+  const [open, setOpen] = useState(false);
+  const formats = EXPORT_FORMATS.filter(f => includeSessionFormats || !f.sessionOnly);
+
+  return (
+    <div className="relative" onMouseLeave={() => setOpen(false)}>
+      <button
+        onClick={() => setOpen(o => !o)}
+        className={className || 'flex items-center gap-1 px-2 py-1 text-brand-sky bg-brand-sky/10 rounded border border-brand-sky/20 hover:bg-brand-sky hover:text-brand-dark transition-colors'}
+      >
+        <Download className="w-3 h-3" /> {label} <ChevronDown className="w-3 h-3" />
+      </button>
+      {open && (
+        <div className={`absolute ${align === 'right' ? 'right-0' : 'left-0'} top-full pt-1 z-30`}>
+          <div className="bg-brand-panel border border-white/10 rounded-lg shadow-xl py-1 min-w-[220px]">
+            {formats.map(f => (
+              <button
+                key={f.format}
+                onClick={() => { setOpen(false); onExport(f.format); }}
+                className="block w-full text-left px-3 py-1.5 text-xs text-slate-300 hover:bg-white/5 hover:text-white"
+              >
+                {f.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
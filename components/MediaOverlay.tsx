@@ -0,0 +1,35 @@
+import React from 'react';
+import { Point } from '../services/geometry';
+import { clientToMedia, MediaSize } from '../services/mediaFit';
+
+interface MediaOverlayProps {
+  mediaSize: MediaSize | null;       // Intrinsic size of the object-contain media underneath; null covers the whole box
+  className?: string;
+  onPoint?: (point: Point) => void;  // Clicks on the media, as normalized image [x, y]; clicks on the letterbox are ignored
+  children: React.ReactNode;         // Drawn in image coordinates scaled to 0-1000
+}
+
+/**
+ * SVG layer lined up with the media under it. The outer viewBox has the media's aspect
+ * ratio and `meet` fitting, which places it exactly where object-contain draws the media.
+ */
+export const MediaOverlay: React.FC<MediaOverlayProps> = ({ mediaSize, className = '', onPoint, children }) => {
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const point = clientToMedia([e.clientX, e.clientY], e.currentTarget.getBoundingClientRect(), mediaSize);
+    if (point && onPoint) onPoint(point);
+  };
+
+  const { width, height } = mediaSize || { width: 1000, height: 1000 };
+  return (
+    <svg
+      className={`absolute inset-0 w-full h-full ${className}`}
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio={mediaSize ? 'xMidYMid meet' : 'none'}
+      onClick={handleClick}
+    >
+      <svg width={width} height={height} viewBox="0 0 1000 1000" preserveAspectRatio="none" overflow="visible">
+        {children}
+      </svg>
+    </svg>
+  );
+};
@@ -0,0 +1,126 @@
+import React from 'react';
+import { Waypoints } from 'lucide-react';
+import { Sankey, Tooltip, ResponsiveContainer } from 'recharts';
+import { OriginDestinationAnalysis } from '../types';
+
+interface OriginDestinationPanelProps {
+  analysis: OriginDestinationAnalysis;
+}
+
+const CLUSTER_COLORS = ['#7DD3FC', '#6366F1', '#F59E0B', '#22C55E', '#FF6B6B', '#FEF9C3', '#A78BFA', '#F472B6'];
+
+/** Sankey node with its label outside the bar: origins on the left, destinations on the right. */
+const SankeyNodeLabel = ({ x, y, width, height, payload }: any) => {
+  const isOrigin = payload.side === 'origin';
+  return (
+    <g>
+      <rect x={x} y={y} width={width} height={height} fill={isOrigin ? '#7DD3FC' : '#6366F1'} fillOpacity={0.9} />
+      <text
+        x={isOrigin ? x + width + 6 : x - 6}
+        y={y + height / 2}
+        textAnchor={isOrigin ? 'start' : 'end'}
+        dominantBaseline="middle"
+        fontSize={11}
+        fill="#FEF9C3"
+      >
+        {payload.name} ({payload.value})
+      </text>
+    </g>
+  );
+};
+
+export const OriginDestinationPanel: React.FC<OriginDestinationPanelProps> = ({ analysis }) => {
+  const { flows, clusters, trajectoryCount } = analysis;
+
+  // Origins and destinations are separate nodes so the diagram stays acyclic
+  const origins = Array.from(new Set(flows.map(f => f.origin)));
+  const destinations = Array.from(new Set(flows.map(f => f.destination)));
+  const sankeyData = {
+    nodes: [
+      ...origins.map(name => ({ name, side: 'origin' })),
+      ...destinations.map(name => ({ name, side: 'destination' })),
+    ],
+    links: flows.map(f => ({
+      source: origins.indexOf(f.origin),
+      target: origins.length + destinations.indexOf(f.destination),
+      value: f.count,
+    })),
+  };
+
+  return (
+    <div className="bg-brand-panel p-6 rounded-xl border border-white/10 shadow-lg">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <Waypoints className="w-5 h-5 text-brand-indigo" />
+          Origin–Destination Flows
+        </h3>
+        <span className="text-xs font-mono text-slate-500">{trajectoryCount} completed tracks · {clusters.length} patterns</span>
+      </div>
+
+      <div className="h-64 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <Sankey
+            data={sankeyData}
+            nodePadding={24}
+            nodeWidth={10}
+            margin={{ left: 10, right: 10, top: 10, bottom: 10 }}
+            node={SankeyNodeLabel}
+            link={{ stroke: '#7DD3FC', strokeOpacity: 0.25 }}
+          >
+            <Tooltip contentStyle={{ backgroundColor: '#151B2B', borderColor: '#334155', color: '#f1f5f9' }} />
+          </Sankey>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs text-center text-slate-400 font-mono">
+            <thead className="text-brand-cream/70 uppercase bg-black/20">
+              <tr>
+                <th className="px-2 py-2 text-left">From \ To</th>
+                {destinations.map(d => <th key={d} className="px-2 py-2">{d}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {origins.map(o => (
+                <tr key={o} className="border-b border-white/5">
+                  <td className="px-2 py-2 text-left text-white">{o}</td>
+                  {destinations.map(d => {
+                    const n = flows.find(f => f.origin === o && f.destination === d)?.count || 0;
+                    return <td key={d} className={`px-2 py-2 ${n > 0 ? 'text-white' : 'text-slate-600'}`}>{n}</td>;
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex gap-3">
+          <svg className="w-40 aspect-video bg-black/40 rounded border border-white/5 shrink-0" viewBox="0 0 1000 1000" preserveAspectRatio="none">
+            {clusters.map((c, i) => (
+              <polyline
+                key={c.id}
+                points={c.prototype.map(p => `${p[0] * 1000},${p[1] * 1000}`).join(' ')}
+                fill="none"
+                stroke={CLUSTER_COLORS[i % CLUSTER_COLORS.length]}
+                strokeWidth={Math.min(6, 1 + c.trackIds.length)}
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+          </svg>
+          <ul className="space-y-1 text-xs flex-1">
+            {clusters.map((c, i) => (
+              <li key={c.id} className="flex items-center justify-between bg-black/20 border border-white/5 rounded px-2 py-1">
+                <span className="flex items-center gap-2 text-white">
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: CLUSTER_COLORS[i % CLUSTER_COLORS.length] }} />
+                  {c.origin} → {c.destination}
+                </span>
+                <span className="font-mono text-slate-500">{c.trackIds.length} trk · {c.meanSpeed} km/h</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { Settings, KeyRound, Save } from 'lucide-react';
+import { GEMINI_MODELS, VisionProviderConfig, VisionProviderKind } from '../services/visionProvider';
+
+interface ProviderSettingsProps {
+  config: VisionProviderConfig;
+  onSave: (config: VisionProviderConfig) => void;
+}
+
+export const ProviderSettings: React.FC<ProviderSettingsProps> = ({ config, onSave }) => {
+  const [draft, setDraft] = useState<VisionProviderConfig>(config);
+  const isFixture = draft.kind === 'fixture';
+
+  const setKind = (kind: VisionProviderKind) => {
+    setDraft(prev => ({ ...prev, kind, model: kind === 'fixture' ? 'fixture-replay' : GEMINI_MODELS[0] }));
+  };
+
+  return (
+    <div className="p-6 bg-brand-panel/90 rounded-2xl border border-brand-dark/20 shadow-xl backdrop-blur-sm">
+      <h4 className="text-sm font-bold text-brand-cream/80 flex items-center gap-2 mb-4"><Settings className="w-4 h-4" /> Vision Backend</h4>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <label className="flex flex-col gap-1 text-xs text-slate-400">
+          Provider
+          <select
+            value={draft.kind}
+            onChange={(e) => setKind(e.target.value as VisionProviderKind)}
+            className="bg-black/30 border border-white/10 rounded-lg px-3 py-2 text-sm text-white"
+          >
+            <option value="gemini">Google Gemini</option>
+            <option value="fixture">Fixture Replay (offline)</option>
+          </select>
+        </label>
+
+        <label className="flex flex-col gap-1 text-xs text-slate-400">
+          Model
+          {isFixture ? (
+            <input value={draft.model} disabled className="bg-black/30 border border-white/10 rounded-lg px-3 py-2 text-sm text-slate-500" />
+          ) : (
+            <select
+              value={draft.model}
+              onChange={(e) => setDraft(prev => ({ ...prev, model: e.target.value }))}
+              className="bg-black/30 border border-white/10 rounded-lg px-3 py-2 text-sm text-white"
+            >
+              {GEMINI_MODELS.map(m => <option key={m} value={m}>{m}</option>)}
+            </select>
+          )}
+        </label>
+
+        <label className="flex flex-col gap-1 text-xs text-slate-400">
+          <span className="flex items-center gap-1"><KeyRound className="w-3 h-3" /> API Key</span>
+          <input
+            type="password"
+            value={draft.apiKey || ''}
+            disabled={isFixture}
+            placeholder={isFixture ? 'Not required' : 'Gemini API key'}
+            onChange={(e) => setDraft(prev => ({ ...prev, apiKey: e.target.value }))}
+            className="bg-black/30 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder:text-slate-600"
+          />
+        </label>
+      </div>
+      <div className="flex justify-end mt-4">
+        <button
+          onClick={() => onSave(draft)}
+          className="flex items-center gap-2 px-3 py-2 text-brand-sky bg-brand-sky/10 rounded-lg hover:bg-brand-sky hover:text-brand-dark transition-colors border border-brand-sky/20 text-xs font-medium"
+        >
+          <Save className="w-3.5 h-3.5" /> Apply
+        </button>
+      </div>
+    </div>
+  );
+};
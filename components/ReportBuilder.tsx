@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { FileText, Printer, FileCode, Loader2, X, ImagePlus } from 'lucide-react';
+import { FullAnalysisResult } from '../types';
+import { DEFAULT_REPORT_TEMPLATE, downloadReportHtml, loadReportTemplate, printReport, ReportTemplate, saveReportTemplate } from '../services/reportService';
+
+interface ReportBuilderProps {
+  data: FullAnalysisResult;
+  videoSessionData: FullAnalysisResult[];
+  frame?: string | null; // Source image of `data`, annotated in the report
+}
+
+const INPUT_CLASS = 'w-full bg-black/30 border border-white/10 rounded px-2 py-1 text-white text-xs placeholder:text-slate-600';
+
+/** Template editor and output buttons for the incident report. The template is kept between sessions. */
+export const ReportBuilder: React.FC<ReportBuilderProps> = ({ data, videoSessionData, frame }) => {
+  const [open, setOpen] = useState(false);
+  const [template, setTemplate] = useState<ReportTemplate>(loadReportTemplate);
+  const [busy, setBusy] = useState<'html' | 'print' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (patch: Partial<ReportTemplate>) => setTemplate(prev => {
+    const next = { ...prev, ...patch };
+    saveReportTemplate(next);
+    return next;
+  });
+
+  const handleLogo = (file: File) => {
+    const reader = new FileReader();
+    reader.onloadend = () => update({ logoDataUrl: reader.result as string });
+    reader.readAsDataURL(file);
+  };
+
+  const generate = async (kind: 'html' | 'print') => {
+    setBusy(kind);
+    setError(null);
+    const input = { result: data, session: videoSessionData.length > 0 ? videoSessionData : undefined, frame };
+    try {
+      await (kind === 'html' ? downloadReportHtml(input, template) : printReport(input, template));
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (!open) {
+    return (
+      <button onClick={() => setOpen(true)} className="w-full flex items-center justify-center gap-2 px-3 py-2 text-xs font-medium text-brand-indigo bg-brand-indigo/10 rounded-lg border border-brand-indigo/20 hover:bg-brand-indigo hover:text-white transition-colors">
+        <FileText className="w-3.5 h-3.5" /> Build incident report
+      </button>
+    );
+  }
+
+  return (
+    <div className="space-y-2 text-xs text-slate-400">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-brand-indigo uppercase tracking-wider">Incident report</h4>
+        <button onClick={() => setOpen(false)} className="text-slate-500 hover:text-white p-1"><X className="w-3.5 h-3.5" /></button>
+      </div>
+
+      <label className="block">Organization
+        <input value={template.organization} onChange={(e) => update({ organization: e.target.value })} className={INPUT_CLASS} />
+      </label>
+      <label className="block">Title
+        <input value={template.title} onChange={(e) => update({ title: e.target.value })} className={INPUT_CLASS} />
+      </label>
+      <label className="block">Prepared by
+        <input value={template.preparedBy} onChange={(e) => update({ preparedBy: e.target.value })} placeholder="Name / badge number" className={INPUT_CLASS} />
+      </label>
+      <div className="flex items-center gap-3">
+        <label className="flex items-center gap-2">Accent
+          <input type="color" value={template.accentColor} onChange={(e) => update({ accentColor: e.target.value })} className="w-8 h-6 bg-transparent border border-white/10 rounded" />
+        </label>
+        <label className="flex items-center gap-1 cursor-pointer text-brand-sky hover:text-white">
+          <ImagePlus className="w-3.5 h-3.5" /> {template.logoDataUrl ? 'Replace logo' : 'Add logo'}
+          <input type="file" accept="image/*" className="hidden" onChange={(e) => { const f = e.target.files?.[0]; if (f) handleLogo(f); e.target.value = ''; }} />
+        </label>
+        {template.logoDataUrl && (
+          <>
+            <img src={template.logoDataUrl} alt="logo" className="h-6 max-w-[60px] object-contain bg-white rounded" />
+            <button onClick={() => update({ logoDataUrl: undefined })} className="text-slate-500 hover:text-brand-red"><X className="w-3 h-3" /></button>
+          </>
+        )}
+      </div>
+      <label className="block">Footer
+        <textarea value={template.footer} onChange={(e) => update({ footer: e.target.value })} rows={2} className={INPUT_CLASS} />
+      </label>
+      <details>
+        <summary className="cursor-pointer hover:text-white">Custom CSS</summary>
+        <textarea value={template.customCss} onChange={(e) => update({ customCss: e.target.value })} rows={4} placeholder="h1 { font-family: Georgia, serif; }" className={`${INPUT_CLASS} font-mono mt-1`} />
+      </details>
+
+      {error && <p className="text-brand-red">{error}</p>}
+      {!frame && <p className="text-slate-500">No source frame available; the report will omit the annotated image.</p>}
+
+      <div className="flex gap-2 pt-1">
+        <button onClick={() => generate('print')} disabled={busy !== null} className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2 font-medium text-white bg-brand-indigo rounded-lg hover:bg-brand-indigo/80 transition-colors disabled:opacity-50">
+          {busy === 'print' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Printer className="w-3.5 h-3.5" />} Print / PDF
+        </button>
+        <button onClick={() => generate('html')} disabled={busy !== null} className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2 font-medium text-brand-sky bg-brand-sky/10 rounded-lg border border-brand-sky/20 hover:bg-brand-sky hover:text-brand-dark transition-colors disabled:opacity-50">
+          {busy === 'html' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <FileCode className="w-3.5 h-3.5" />} HTML
+        </button>
+        <button onClick={() => { setTemplate({ ...DEFAULT_REPORT_TEMPLATE }); saveReportTemplate(DEFAULT_REPORT_TEMPLATE); }} className="px-2 text-slate-500 hover:text-white">Reset</button>
+      </div>
+    </div>
+  );
+};
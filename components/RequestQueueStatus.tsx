@@ -0,0 +1,46 @@
+import React, { useEffect, useState } from 'react';
+import { Gauge, RotateCw, AlertTriangle } from 'lucide-react';
+import { getRequestScheduler, SchedulerState } from '../services/requestScheduler';
+
+/** Compact live view of the model request queue: slots in use, waiting work, budget and pending retries. */
+export const RequestQueueStatus: React.FC = () => {
+  const [state, setState] = useState<SchedulerState>(() => getRequestScheduler().getState());
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => getRequestScheduler().subscribe(setState), []);
+
+  // Tick while a retry is pending so the countdown and refilled tokens stay current
+  useEffect(() => {
+    if (state.nextRetryAt === null && state.tokens >= state.config.bucketCapacity) return;
+    const id = setInterval(() => {
+      setNow(Date.now());
+      setState(getRequestScheduler().getState());
+    }, 500);
+    return () => clearInterval(id);
+  }, [state.nextRetryAt, state.tokens, state.config.bucketCapacity]);
+
+  const retryIn = state.nextRetryAt !== null ? Math.max(0, Math.ceil((state.nextRetryAt - now) / 1000)) : null;
+  const busy = state.running > 0 || state.queued > 0;
+  const lowBudget = state.tokens === 0;
+
+  return (
+    <div
+      className="hidden sm:flex items-center gap-3 px-3 py-1.5 rounded-lg bg-black/30 border border-white/10 text-[11px] font-mono text-slate-300"
+      title={`Completed ${state.completed} · failed ${state.failed} · retries ${state.retries}${state.lastError ? `\nLast error: ${state.lastError}` : ''}`}
+    >
+      <span className={`flex items-center gap-1 ${busy ? 'text-brand-sky' : 'text-slate-400'}`}>
+        <Gauge className="w-3.5 h-3.5" /> {state.running}/{state.config.maxConcurrent}
+      </span>
+      <span className={state.queued > 0 ? 'text-brand-cream' : 'text-slate-500'}>Q {state.queued}</span>
+      <span className={lowBudget ? 'text-brand-red' : 'text-slate-500'}>⛁ {state.tokens}/{state.config.bucketCapacity}</span>
+      {retryIn !== null && (
+        <span className="flex items-center gap-1 text-orange-400">
+          <RotateCw className="w-3 h-3 animate-spin" /> {state.backingOff} in {retryIn}s
+        </span>
+      )}
+      {state.failed > 0 && retryIn === null && (
+        <span className="flex items-center gap-1 text-brand-red"><AlertTriangle className="w-3 h-3" /> {state.failed}</span>
+      )}
+    </div>
+  );
+};
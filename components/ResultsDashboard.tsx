@@ -1,12 +1,24 @@
 import React, { useState } from 'react';
-import { FullAnalysisResult, DetectionItem, TrafficLight, HistoryItem } from '../types';
+import { FullAnalysisResult, DetectionItem, TrafficLight, HistoryItem, OriginDestinationAnalysis, SignalPhase, TrackTrajectory, TurningMovementCount } from '../types';
+import { AnalysisDatabase, AnalysisDatabaseProps } from './AnalysisDatabase';
+import { TurningMovementPanel } from './TurningMovementPanel';
+import { TrackReplayPanel } from './TrackReplayPanel';
+import { OriginDestinationPanel } from './OriginDestinationPanel';
+import { SignalTimelinePanel } from './SignalTimelinePanel';
+import { ReportBuilder } from './ReportBuilder';
+import { formatEventTime } from '../services/signalPhaseService';
+import { vehicleClassBreakdown } from '../services/analysisMetrics';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell, LineChart, Line, CartesianGrid, Legend, AreaChart, Area } from 'recharts';
-import { AlertTriangle, ShieldCheck, Car, Users, TrendingUp, Zap, MapPin, Clock, History, LayoutDashboard, Ban, Activity, ScanEye, ArrowRight, ExternalLink, ArrowDown, ArrowUp } from 'lucide-react';
+import { AlertTriangle, ShieldCheck, Car, Users, TrendingUp, Zap, MapPin, Clock, History, LayoutDashboard, Activity, ScanEye, ArrowRight, ArrowUp, Bike } from 'lucide-react';
 
-interface ResultsDashboardProps {
+interface ResultsDashboardProps extends Omit<AnalysisDatabaseProps, 'onLoadHistoryItem'> {
   data: FullAnalysisResult | null;
-  history: HistoryItem[];
   videoSessionData: FullAnalysisResult[];
+  movementCounts?: TurningMovementCount[];
+  trajectories?: TrackTrajectory[];
+  originDestination?: OriginDestinationAnalysis;
+  signalPhases?: SignalPhase[];
+  reportFrame?: string | null; // Source image of `data`, for the incident report
   onLoadHistoryItem: (item: HistoryItem) => void;
 }
 
@@ -21,102 +33,29 @@ const CustomSparklineTooltip = ({ active, payload }: any) => {
   return null;
 };
 
-export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, history, videoSessionData, onLoadHistoryItem }) => {
+export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, videoSessionData, movementCounts = [], trajectories = [], originDestination, signalPhases = [], reportFrame, onLoadHistoryItem, ...databaseProps }) => {
   const [activeTab, setActiveTab] = useState<'live' | 'history'>('live');
 
-  const effectiveTab = !data && history.length > 0 ? 'history' : activeTab;
+  const effectiveTab = !data && databaseProps.historyPage.storedTotal > 0 ? 'history' : activeTab;
 
   if (effectiveTab === 'history') {
-    return (
-      <div className="space-y-6 animate-fadeIn">
-        <div className="flex items-center justify-between mb-4">
-           <h3 className="text-xl font-bold text-brand-dark flex items-center gap-2">
-             <History className="w-5 h-5 text-brand-indigo" />
-             Analysis Database
-           </h3>
-           {data && <button onClick={() => setActiveTab('live')} className="text-sm text-slate-600 hover:text-brand-dark font-medium">Back to Live</button>}
-        </div>
-        
-        <div className="bg-brand-panel rounded-xl border border-white/10 overflow-hidden shadow-xl">
-           <div className="overflow-x-auto">
-             <table className="w-full text-sm text-left text-slate-400">
-               <thead className="text-xs text-brand-cream/70 uppercase bg-black/20">
-                 <tr>
-                   <th className="px-4 py-3">Time</th>
-                   <th className="px-4 py-3">Context</th>
-                   <th className="px-4 py-3">Traffic</th>
-                   <th className="px-4 py-3">Congestion</th>
-                   <th className="px-4 py-3">Violations</th>
-                   <th className="px-4 py-3 text-right">Action</th>
-                 </tr>
-               </thead>
-               <tbody>
-                 {history.map((item) => (
-                   <tr key={item.id} className="border-b border-white/5 hover:bg-white/5 transition-colors">
-                     <td className="px-4 py-3 font-mono text-white">{new Date(item.timestamp).toLocaleTimeString()}</td>
-                     <td className="px-4 py-3">
-                        <div className="flex items-center gap-2">
-                           <img src={item.thumbnail} alt="thumb" className="w-10 h-6 object-cover rounded border border-white/10" />
-                           <span className="text-xs truncate max-w-[150px]">{item.locationContext?.address || item.analysis.sceneType || 'Unknown'}</span>
-                        </div>
-                     </td>
-                     <td className="px-4 py-3">
-                        <div className="flex items-center gap-2">
-                            <Car className="w-3 h-3 text-brand-sky" /> {item.analysis.totalVehicles}
-                            <Users className="w-3 h-3 ml-1 text-brand-indigo" /> {item.analysis.pedestrianCount}
-                        </div>
-                     </td>
-                     <td className="px-4 py-3">
-                       <span className={`px-2 py-1 rounded text-xs ${item.analysis.congestionLevel > 70 ? 'bg-brand-red/20 text-brand-red' : 'bg-green-500/20 text-green-400'}`}>
-                         {item.analysis.congestionLevel}%
-                       </span>
-                     </td>
-                     <td className="px-4 py-3">
-                       {item.analysis.detectedViolations.length > 0 ? (
-                         <span className="text-brand-red flex items-center gap-1"><Ban className="w-3 h-3" /> {item.analysis.detectedViolations.length}</span>
-                       ) : (
-                         <span className="text-slate-600">-</span>
-                       )}
-                     </td>
-                     <td className="px-4 py-3 text-right">
-                        <button 
-                          onClick={() => onLoadHistoryItem(item)}
-                          className="px-3 py-1 bg-brand-sky/10 text-brand-sky hover:bg-brand-sky hover:text-brand-dark rounded text-xs font-medium border border-brand-sky/20 flex items-center gap-1 ml-auto transition-all"
-                        >
-                            <ExternalLink className="w-3 h-3" /> Open
-                        </button>
-                     </td>
-                   </tr>
-                 ))}
-               </tbody>
-             </table>
-           </div>
-        </div>
-      </div>
-    );
+    return <AnalysisDatabase {...databaseProps} onLoadHistoryItem={onLoadHistoryItem} onBackToLive={data ? () => setActiveTab('live') : undefined} />;
   }
 
   if (!data) return null;
 
   const { detections, analysis, report, locationContext } = data;
   
-  const vehicleDetections = detections.filter(d => d.type === 'vehicle');
-  const groupedChartData = vehicleDetections.reduce((acc: any[], curr) => {
-      const existing = acc.find(item => item.name === curr.object);
-      if (existing) {
-          existing.count += curr.count;
-      } else {
-          acc.push({ name: curr.object, count: curr.count });
-      }
-      return acc;
-  }, []);
+  const groupedChartData = vehicleClassBreakdown(detections);
   
   const congestionColor = analysis.congestionLevel > 75 ? '#FF6B6B' : analysis.congestionLevel > 40 ? '#F59E0B' : '#7DD3FC';
   
   const trackedItems = detections.filter(d => d.trackId !== undefined);
+  const trackedPedestrians = trackedItems.filter(d => d.trackCategory === 'pedestrian').length;
+  const trackedCyclists = trackedItems.filter(d => d.trackCategory === 'cyclist').length;
 
   const videoTrendData = videoSessionData.map((d, idx) => ({
-    time: idx + 's',
+    time: d.mediaTime !== undefined ? formatEventTime(d.mediaTime) : idx + 's',
     vehicles: d.analysis.totalVehicles,
     congestion: d.analysis.congestionLevel
   }));
@@ -136,7 +75,7 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, histor
           onClick={() => setActiveTab('history')}
           className={`pb-3 text-sm font-medium border-b-2 transition-colors flex items-center gap-2 ${activeTab === 'history' ? 'border-brand-indigo text-brand-indigo font-bold' : 'border-transparent text-slate-500 hover:text-brand-dark'}`}
         >
-          <History className="w-4 h-4" /> Database ({history.length})
+          <History className="w-4 h-4" /> Database ({databaseProps.historyPage.storedTotal})
         </button>
       </div>
 
@@ -212,24 +151,40 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, histor
                     <ScanEye className="w-5 h-5 text-brand-sky" />
                     Active Tracking Network
                 </h3>
-                <span className="text-xs bg-brand-sky/10 text-brand-sky px-2 py-1 rounded border border-brand-sky/20">
-                    {trackedItems.length} Objects Locked
-                </span>
+                <div className="flex items-center gap-2">
+                    {trackedPedestrians > 0 && (
+                        <span className="text-xs bg-brand-indigo/10 text-brand-indigo px-2 py-1 rounded border border-brand-indigo/20 flex items-center gap-1">
+                            <Users className="w-3 h-3" /> {trackedPedestrians}
+                        </span>
+                    )}
+                    {trackedCyclists > 0 && (
+                        <span className="text-xs bg-brand-cream/10 text-brand-cream px-2 py-1 rounded border border-brand-cream/20 flex items-center gap-1">
+                            <Bike className="w-3 h-3" /> {trackedCyclists}
+                        </span>
+                    )}
+                    <span className="text-xs bg-brand-sky/10 text-brand-sky px-2 py-1 rounded border border-brand-sky/20">
+                        {trackedItems.length} Objects Locked
+                    </span>
+                </div>
             </div>
             
             <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3">
                 {trackedItems.slice(0, 8).map((item, i) => {
                     const isSpeeding = item.isSpeeding;
                     const isWrongWay = item.isWrongWay;
-                    const isApproaching = (item.velocity || 0) > 0;
+                    const isNearMiss = item.nearMissWith !== undefined;
+                    const CategoryIcon = item.trackCategory === 'pedestrian' ? Users : item.trackCategory === 'cyclist' ? Bike : Car;
+                    const [vx, vy] = item.velocityVector || [0, 0];
+                    const isMoving = Math.hypot(vx, vy) > 0.01;
+                    const headingDeg = Math.atan2(vx, -vy) * 180 / Math.PI; // 0 = up the frame, clockwise
                     
                     let borderClass = 'border-white/10';
                     let bgClass = 'bg-black/20';
                     
-                    if (isSpeeding) {
+                    if (isSpeeding || isNearMiss) {
                         borderClass = 'border-brand-red shadow-[0_0_10px_rgba(255,107,107,0.2)] animate-pulse-slow';
                         bgClass = 'bg-brand-red/10';
-                    } else if (isWrongWay) {
+                    } else if (isWrongWay || item.isJaywalking) {
                         borderClass = 'border-orange-500 shadow-[0_0_10px_rgba(249,115,22,0.2)] animate-pulse-slow';
                         bgClass = 'bg-orange-950/20';
                     }
@@ -237,7 +192,9 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, histor
                     return (
                     <div key={i} className={`${bgClass} border ${borderClass} p-3 rounded-lg relative overflow-hidden group hover:border-brand-sky/50 transition-all`}>
                         <div className="flex justify-between items-start mb-2">
-                            <span className="text-xs font-bold text-brand-cream truncate">{item.object}</span>
+                            <span className="text-xs font-bold text-brand-cream truncate flex items-center gap-1">
+                                <CategoryIcon className="w-3 h-3 shrink-0 text-slate-400" /> {item.object}
+                            </span>
                             <div className="flex items-center gap-2">
                                 <div className={`w-2 h-2 rounded-full ${
                                     item.laneEvent === 'Lane Change' ? 'bg-orange-500 animate-pulse' :
@@ -252,17 +209,28 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, histor
                                 {item.estimatedSpeed || 0}
                             </span>
                             <span className="text-[10px] text-slate-500 mb-1">km/h</span>
+                            {item.speedCalibrated && <span className="text-[9px] text-green-400 mb-1 font-bold" title="Measured on calibrated ground plane">CAL</span>}
                             {isSpeeding && <AlertTriangle className="w-3 h-3 text-brand-red mb-1.5 ml-1 animate-bounce" />}
                             
-                            {item.velocity !== undefined && Math.abs(item.velocity) > 0.05 && (
+                            {isMoving && (
                                 <div className="ml-auto flex items-center text-[10px] text-slate-400 bg-white/5 px-1 rounded">
-                                   {isApproaching ? <ArrowDown className="w-3 h-3 text-brand-sky" /> : <ArrowUp className="w-3 h-3 text-slate-500" />}
+                                   <ArrowUp className={`w-3 h-3 ${vy > 0 ? 'text-brand-sky' : 'text-slate-500'}`} style={{ transform: `rotate(${headingDeg}deg)` }} />
                                 </div>
                             )}
                         </div>
                         
                         <div className="mt-2 text-[10px] flex items-center gap-1 min-h-[16px]">
-                            {item.laneEvent && item.laneEvent !== 'Stable' ? (
+                            {isNearMiss ? (
+                                <span className="text-brand-red flex items-center gap-1">
+                                   <AlertTriangle className="w-3 h-3" /> Near miss with #{item.nearMissWith}
+                                </span>
+                            ) : item.isJaywalking ? (
+                                <span className="text-orange-400 flex items-center gap-1">
+                                   <ArrowRight className="w-3 h-3" /> Jaywalking
+                                </span>
+                            ) : item.trackCategory && item.trackCategory !== 'vehicle' ? (
+                                <span className="text-slate-500">{item.trackCategory === 'pedestrian' ? 'Walking' : 'Riding'}</span>
+                            ) : item.laneEvent && item.laneEvent !== 'Stable' ? (
                                 <span className="text-orange-400 flex items-center gap-1">
                                    <ArrowRight className="w-3 h-3" /> {item.laneEvent}
                                 </span>
@@ -296,7 +264,7 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, histor
                              </div>
                          )}
 
-                        <div className={`absolute bottom-0 left-0 w-full h-0.5 ${isSpeeding ? 'bg-brand-red' : isWrongWay ? 'bg-orange-500' : 'bg-brand-sky/50'}`}></div>
+                        <div className={`absolute bottom-0 left-0 w-full h-0.5 ${(isSpeeding || isNearMiss) ? 'bg-brand-red' : (isWrongWay || item.isJaywalking) ? 'bg-orange-500' : 'bg-brand-sky/50'}`}></div>
                     </div>
                 );
                 })}
@@ -330,6 +298,20 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, histor
          </div>
       )}
 
+      {/* Turning Movement Counts */}
+      {movementCounts.length > 0 && <TurningMovementPanel counts={movementCounts} />}
+
+      {/* Signal Phases & Red-Light Runs */}
+      {signalPhases.length > 0 && (
+        <SignalTimelinePanel
+          phases={signalPhases}
+          redLightRuns={trajectories.flatMap(t => t.violations.filter(v => v.type === 'Red Light'))}
+        />
+      )}
+
+      {/* Track Replay */}
+      {trajectories.some(t => t.points.length > 1) && <TrackReplayPanel trajectories={trajectories} />}
+
       {/* Main Content Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         
@@ -357,6 +339,9 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, histor
             </div>
           </div>
 
+          {/* Origin-Destination Flows */}
+          {originDestination && originDestination.flows.length > 0 && <OriginDestinationPanel analysis={originDestination} />}
+
           {/* Detailed Violations Panel */}
           <div className="bg-brand-panel p-6 rounded-xl border border-white/10 shadow-lg">
             <div className="flex items-center justify-between mb-4">
@@ -381,8 +366,15 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, histor
                         v.severity === 'High' ? 'bg-brand-red text-white' : 'bg-orange-500/80 text-white'
                       }`}>{v.type.toUpperCase()}</span>
                       <span className="text-xs text-brand-red/70">Severity: {v.severity}</span>
+                      {v.trackId !== undefined && <span className="text-[10px] font-mono text-brand-sky bg-brand-sky/10 px-1.5 py-0.5 rounded">TRACK #{v.trackId}</span>}
+                      {v.zoneId && <span className="text-[10px] font-mono text-brand-cream bg-white/10 px-1.5 py-0.5 rounded">ZONE {v.zoneId}</span>}
                     </div>
                     <span className="text-brand-cream/80 text-sm">{v.description}</span>
+                    {v.evidence && (
+                      <span className="text-[10px] font-mono text-slate-400 mt-1">
+                        Light {v.evidence.signalId} {v.evidence.signalState.toUpperCase()} since {formatEventTime(v.evidence.phaseStart)} · frames {v.evidence.frameTimestamps.map(formatEventTime).join(' → ')}
+                      </span>
+                    )}
                   </li>
                 ))}
               </ul>
@@ -427,8 +419,23 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, histor
             
             <div className="mt-6 pt-4 border-t border-white/10 flex justify-between items-center">
                <span className="text-xs text-slate-500">ID: {Math.random().toString(36).substring(7).toUpperCase()}</span>
-               <span className="text-xs bg-white/5 px-2 py-1 rounded text-slate-300">Gemini 2.5 Flash</span>
+               <span className="text-xs bg-white/5 px-2 py-1 rounded text-slate-300">{data.modelId || 'gemini-2.5-flash'}</span>
             </div>
+
+            {data.coercions && data.coercions.length > 0 && (
+              <details className="text-xs text-slate-400">
+                <summary className="cursor-pointer text-orange-400 hover:text-orange-300">
+                  {data.coercions.length} response field{data.coercions.length === 1 ? '' : 's'} repaired
+                </summary>
+                <ul className="mt-2 space-y-1 max-h-40 overflow-y-auto font-mono text-[10px]">
+                  {data.coercions.map((c, i) => (
+                    <li key={i}><span className="text-brand-cream">{c.path}</span> {c.reason}</li>
+                  ))}
+                </ul>
+              </details>
+            )}
+
+            <ReportBuilder data={data} videoSessionData={videoSessionData} frame={reportFrame} />
           </div>
         </div>
 
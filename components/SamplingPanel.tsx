@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { Gauge, SlidersHorizontal } from 'lucide-react';
+import { AdaptiveSamplingOptions, SamplerStats } from '../services/adaptiveSampler';
+
+interface SamplingPanelProps {
+  options: AdaptiveSamplingOptions;
+  stats: SamplerStats | null;
+  onOptionsChange: (options: AdaptiveSamplingOptions) => void;
+}
+
+const INPUT_CLASS = 'w-20 bg-black/30 border border-white/10 rounded px-2 py-1 text-white';
+
+/** Live-source sampling: calls made against a fixed one-per-second loop, why frames were sent, and the thresholds. */
+export const SamplingPanel: React.FC<SamplingPanelProps> = ({ options, stats, onOptionsChange }) => {
+  const [showOptions, setShowOptions] = useState(false);
+
+  const setNumber = (key: keyof AdaptiveSamplingOptions, value: string, min: number, scale = 1) => {
+    const n = parseFloat(value);
+    if (Number.isFinite(n) && n >= min) onOptionsChange({ ...options, [key]: n * scale });
+  };
+
+  const parts: string[] = [];
+  if (stats) {
+    const saved = stats.fixedRateCalls > 0 ? Math.max(0, Math.round((1 - stats.analyzed / stats.fixedRateCalls) * 100)) : 0;
+    parts.push(`${stats.analyzed} calls vs ${stats.fixedRateCalls} at 1 fps${options.enabled ? ` (${saved}% saved)` : ''}`);
+    if (options.enabled) {
+      const { change, uncertainty, 'max-interval': maxInterval } = stats.reasons;
+      parts.push(`change ${change} · uncertainty ${uncertainty} · max interval ${maxInterval}`);
+      parts.push(`Δ ${stats.change.toFixed(3)} · σ ${stats.uncertainty.toFixed(1)}`);
+    }
+  }
+
+  return (
+    <div className="mt-4 text-xs text-slate-400">
+      <div className="flex items-center gap-3">
+        <label className="flex items-center gap-1.5 text-white cursor-pointer">
+          <input type="checkbox" checked={options.enabled} onChange={e => onOptionsChange({ ...options, enabled: e.target.checked })} />
+          <Gauge className="w-3.5 h-3.5 text-brand-sky" /> Adaptive sampling
+        </label>
+        <span className="font-mono truncate">{parts.join(' · ')}</span>
+        <button onClick={() => setShowOptions(!showOptions)} disabled={!options.enabled} className={`ml-auto p-1.5 rounded disabled:opacity-40 ${showOptions ? 'text-white bg-white/10' : 'hover:text-white'}`} title="Thresholds">
+          <SlidersHorizontal className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {showOptions && options.enabled && (
+        <div className="flex flex-wrap items-end gap-3 mt-3">
+          <label className="flex flex-col gap-1">
+            Scene change
+            <input type="number" min={0.005} max={1} step={0.005} value={options.changeThreshold} onChange={e => setNumber('changeThreshold', e.target.value, 0.005)} className={INPUT_CLASS} />
+          </label>
+          <label className="flex flex-col gap-1" title="Predicted drift since the last update, in box heights">
+            Track uncertainty
+            <input type="number" min={1} step={1} value={options.uncertaintyThreshold} onChange={e => setNumber('uncertaintyThreshold', e.target.value, 1)} className={INPUT_CLASS} />
+          </label>
+          <label className="flex flex-col gap-1">
+            Min interval (s)
+            <input type="number" min={0.2} step={0.1} value={options.minIntervalMs / 1000} onChange={e => setNumber('minIntervalMs', e.target.value, 0.2, 1000)} className={INPUT_CLASS} />
+          </label>
+          <label className="flex flex-col gap-1">
+            Max interval (s)
+            <input type="number" min={1} step={0.5} value={options.maxIntervalMs / 1000} onChange={e => setNumber('maxIntervalMs', e.target.value, 1, 1000)} className={INPUT_CLASS} />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
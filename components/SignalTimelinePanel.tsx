@@ -0,0 +1,76 @@
+import React from 'react';
+import { TrafficCone } from 'lucide-react';
+import { SignalPhase, Violation } from '../types';
+import { formatEventTime } from '../services/signalPhaseService';
+
+interface SignalTimelinePanelProps {
+  phases: SignalPhase[];
+  redLightRuns: Violation[];
+}
+
+const STATE_COLORS: Record<SignalPhase['state'], string> = {
+  Red: '#FF6B6B',
+  Yellow: '#F59E0B',
+  Green: '#22C55E',
+  Off: '#475569',
+};
+
+/** One lane per light, phases as coloured spans over the session, red-light runs as markers. */
+export const SignalTimelinePanel: React.FC<SignalTimelinePanelProps> = ({ phases, redLightRuns }) => {
+  const lightIds = Array.from(new Set(phases.map(p => p.lightId)));
+  const start = Math.min(...phases.map(p => p.start));
+  const end = Math.max(...phases.map(p => p.end ?? p.start), ...redLightRuns.map(v => v.timestamp ?? start));
+  const span = Math.max(1, end - start);
+  const pct = (t: number) => `${((t - start) / span) * 100}%`;
+
+  return (
+    <div className="bg-brand-panel p-6 rounded-xl border border-white/10 shadow-lg">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <TrafficCone className="w-5 h-5 text-yellow-400" />
+          Signal Phase Timeline
+        </h3>
+        <span className="text-xs font-mono text-slate-500">{formatEventTime(start)} – {formatEventTime(end)}</span>
+      </div>
+
+      <div className="space-y-2">
+        {lightIds.map(id => (
+          <div key={id} className="flex items-center gap-3">
+            <span className="w-14 text-xs font-mono text-brand-cream">{id}</span>
+            <div className="relative flex-1 h-5 bg-black/30 rounded overflow-hidden">
+              {phases.filter(p => p.lightId === id).map((p, i) => (
+                <div
+                  key={i}
+                  title={`${p.state} from ${formatEventTime(p.start)}${p.end !== undefined ? ` to ${formatEventTime(p.end)}` : ''}`}
+                  className="absolute top-0 bottom-0"
+                  style={{ left: pct(p.start), width: `calc(${pct(p.end ?? end)} - ${pct(p.start)})`, minWidth: 2, backgroundColor: STATE_COLORS[p.state] }}
+                />
+              ))}
+              {redLightRuns.filter(v => v.evidence?.signalId === id).map((v, i) => (
+                <div
+                  key={`run-${i}`}
+                  title={v.description}
+                  className="absolute top-0 bottom-0 w-0.5 bg-white"
+                  style={{ left: pct(v.timestamp ?? start) }}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {redLightRuns.length > 0 && (
+        <ul className="mt-4 space-y-1">
+          {redLightRuns.map((v, i) => (
+            <li key={i} className="flex items-center justify-between text-xs bg-brand-red/10 border border-brand-red/20 rounded px-2 py-1.5">
+              <span className="text-white">{v.description}</span>
+              <span className="font-mono text-brand-cream">
+                {v.evidence?.frameTimestamps.map(formatEventTime).join(' → ')}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
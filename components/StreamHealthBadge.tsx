@@ -0,0 +1,40 @@
+import React from 'react';
+import { Radio } from 'lucide-react';
+import { StreamHealth, StreamState } from '../services/streamSource';
+
+interface StreamHealthBadgeProps {
+  health: StreamHealth;
+}
+
+const STATE_STYLES: Record<StreamState, { label: string; dot: string }> = {
+  connecting: { label: 'Connecting', dot: 'bg-brand-sky animate-pulse' },
+  live: { label: 'Live', dot: 'bg-green-500' },
+  stalled: { label: 'Stalled', dot: 'bg-orange-400' },
+  reconnecting: { label: 'Reconnecting', dot: 'bg-orange-400 animate-pulse' },
+  failed: { label: 'Failed', dot: 'bg-brand-red' },
+  stopped: { label: 'Stopped', dot: 'bg-slate-500' },
+};
+
+const formatAge = (ms: number) => ms < 10000 ? `${(ms / 1000).toFixed(1)} s` : `${Math.round(ms / 1000)} s`;
+
+/** Stream state, frame rate, last-frame age, stalls and reconnects. Re-rendered on every health update. */
+export const StreamHealthBadge: React.FC<StreamHealthBadgeProps> = ({ health }) => {
+  const now = Date.now();
+  const style = STATE_STYLES[health.state];
+  const parts = [
+    `${health.fps.toFixed(1)} fps`,
+    health.lastFrameAt !== null ? `last frame ${formatAge(now - health.lastFrameAt)} ago` : 'no frames yet',
+  ];
+  if (health.stalls > 0) parts.push(`${health.stalls} stall${health.stalls > 1 ? 's' : ''}`);
+  if (health.reconnects > 0) parts.push(`${health.reconnects} reconnect${health.reconnects > 1 ? 's' : ''}`);
+  if (health.state === 'reconnecting' && health.nextRetryAt !== null && health.nextRetryAt > now) parts.push(`retry in ${formatAge(health.nextRetryAt - now)}`);
+
+  return (
+    <span title={health.error || undefined} className="flex items-center gap-2 text-xs font-mono font-bold text-brand-dark bg-white/80 px-3 py-1 rounded-full border border-brand-dark/10 shadow-sm">
+      <Radio className="w-3.5 h-3.5 text-brand-indigo" />
+      <span className={`w-2 h-2 rounded-full ${style.dot}`} />
+      {style.label.toUpperCase()}
+      <span className="font-normal text-brand-dark/70">{parts.join(' · ')}</span>
+    </span>
+  );
+};
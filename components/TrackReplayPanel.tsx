@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { Route, Play, Pause, RotateCcw, AlertTriangle } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, ReferenceLine } from 'recharts';
+import { TrackTrajectory } from '../types';
+
+interface TrackReplayPanelProps {
+  trajectories: TrackTrajectory[];
+}
+
+const CATEGORY_COLORS: Record<string, string> = { vehicle: '#7DD3FC', pedestrian: '#6366F1', cyclist: '#FEF9C3' };
+const REPLAY_TICK_MS = 50;
+const REPLAY_RATES = [0.5, 1, 2, 4];
+
+/** Index of the last point observed at or before `time` (ms since the track's first point). */
+const pointIndexAt = (trajectory: TrackTrajectory, time: number) => {
+  const start = trajectory.points[0].timestamp;
+  let index = 0;
+  while (index + 1 < trajectory.points.length && trajectory.points[index + 1].timestamp - start <= time) index++;
+  return index;
+};
+
+/** Replays one track's path over the frame, with its speed profile and violations on the same timeline. */
+export const TrackReplayPanel: React.FC<TrackReplayPanelProps> = ({ trajectories }) => {
+  const replayable = trajectories.filter(t => t.points.length > 1);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [cursor, setCursor] = useState(0); // ms since the track's first point
+  const [playing, setPlaying] = useState(false);
+  const [rate, setRate] = useState(1);
+
+  const trajectory = replayable.find(t => t.trackId === selectedId) || replayable[replayable.length - 1];
+  const start = trajectory?.points[0].timestamp || 0;
+  const duration = trajectory ? trajectory.points[trajectory.points.length - 1].timestamp - start : 0;
+
+  useEffect(() => {
+    if (!playing) return;
+    const id = setInterval(() => {
+      setCursor(prev => {
+        const next = prev + REPLAY_TICK_MS * rate;
+        if (next >= duration) {
+          setPlaying(false);
+          return duration;
+        }
+        return next;
+      });
+    }, REPLAY_TICK_MS);
+    return () => clearInterval(id);
+  }, [playing, rate, duration]);
+
+  if (!trajectory) return null;
+
+  const selectTrack = (trackId: number) => {
+    setSelectedId(trackId);
+    setCursor(0);
+    setPlaying(false);
+  };
+
+  const togglePlay = () => {
+    if (!playing && cursor >= duration) setCursor(0);
+    setPlaying(!playing);
+  };
+
+  const color = CATEGORY_COLORS[trajectory.category] || '#7DD3FC';
+  const current = trajectory.points[pointIndexAt(trajectory, cursor)];
+  const [ymin, xmin, ymax, xmax] = current.box;
+  const path = trajectory.points.map(p => `${p.centroid[0] * 1000},${p.centroid[1] * 1000}`).join(' ');
+  const speedData = trajectory.points.map(p => ({ t: +((p.timestamp - start) / 1000).toFixed(1), speed: p.speed }));
+
+  return (
+    <div className="bg-brand-panel p-6 rounded-xl border border-white/10 shadow-lg">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <Route className="w-5 h-5 text-brand-sky" />
+          Track Replay
+        </h3>
+        <div className="flex items-center gap-2">
+          <select
+            value={trajectory.trackId}
+            onChange={(e) => selectTrack(parseInt(e.target.value))}
+            className="bg-black/30 border border-white/10 rounded px-2 py-1 text-xs text-white"
+          >
+            {replayable.map(t => (
+              <option key={t.trackId} value={t.trackId}>
+                #{t.trackId} {t.objectClass} ({t.points.length} pts{t.violations.length > 0 ? `, ${t.violations.length} violations` : ''})
+              </option>
+            ))}
+          </select>
+          <select
+            value={rate}
+            onChange={(e) => setRate(parseFloat(e.target.value))}
+            className="bg-black/30 border border-white/10 rounded px-2 py-1 text-xs text-white"
+          >
+            {REPLAY_RATES.map(r => <option key={r} value={r}>{r}x</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div>
+          <div className="relative w-full aspect-video bg-black/40 rounded-lg border border-white/5 overflow-hidden">
+            <svg className="absolute inset-0 w-full h-full" viewBox="0 0 1000 1000" preserveAspectRatio="none">
+              <polyline points={path} fill="none" stroke={color} strokeOpacity={0.35} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+              <rect x={xmin} y={ymin} width={xmax - xmin} height={ymax - ymin} fill="none" stroke={color} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+              <circle cx={current.centroid[0] * 1000} cy={current.centroid[1] * 1000} r={8} fill={color} vectorEffect="non-scaling-stroke" />
+              {trajectory.violations.map((v, i) => {
+                const p = trajectory.points[pointIndexAt(trajectory, (v.timestamp || start) - start)];
+                return <circle key={i} cx={p.centroid[0] * 1000} cy={p.centroid[1] * 1000} r={10} fill="none" stroke="#FF6B6B" strokeWidth={2} vectorEffect="non-scaling-stroke" />;
+              })}
+            </svg>
+            <div className="absolute top-2 left-2 text-[10px] font-mono text-brand-cream bg-black/60 px-2 py-1 rounded">
+              #{trajectory.trackId} · {current.speed} km/h · {(cursor / 1000).toFixed(1)}s / {(duration / 1000).toFixed(1)}s
+            </div>
+          </div>
+          <div className="flex items-center gap-2 mt-2">
+            <button onClick={togglePlay} className="p-1.5 text-brand-sky bg-brand-sky/10 rounded border border-brand-sky/20 hover:bg-brand-sky hover:text-brand-dark transition-colors">
+              {playing ? <Pause className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5" />}
+            </button>
+            <button onClick={() => { setCursor(0); setPlaying(false); }} className="p-1.5 text-slate-300 bg-white/5 rounded border border-white/10 hover:bg-white/10">
+              <RotateCcw className="w-3.5 h-3.5" />
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={duration}
+              value={cursor}
+              onChange={(e) => { setCursor(parseFloat(e.target.value)); setPlaying(false); }}
+              className="flex-1 accent-brand-sky"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <div className="h-40 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={speedData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+                <XAxis dataKey="t" type="number" domain={[0, 'dataMax']} stroke="#94a3b8" fontSize={10} tickLine={false} axisLine={false} unit="s" />
+                <YAxis stroke="#94a3b8" fontSize={10} tickLine={false} axisLine={false} unit=" km/h" width={60} />
+                <Tooltip contentStyle={{ backgroundColor: '#151B2B', borderColor: '#334155', color: '#f1f5f9' }} />
+                <Line type="monotone" dataKey="speed" stroke={color} strokeWidth={2} dot={false} isAnimationActive={false} name="Speed" />
+                <ReferenceLine x={+(cursor / 1000).toFixed(1)} stroke="#FEF9C3" strokeDasharray="3 3" />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          {trajectory.violations.length > 0 ? (
+            <ul className="space-y-1">
+              {trajectory.violations.map((v, i) => {
+                const offset = (v.timestamp || start) - start;
+                return (
+                  <li key={i}>
+                    <button
+                      onClick={() => { setCursor(offset); setPlaying(false); }}
+                      className="w-full flex items-center justify-between text-xs bg-brand-red/10 border border-brand-red/20 rounded px-2 py-1.5 hover:bg-brand-red/20 transition-colors"
+                    >
+                      <span className="flex items-center gap-2 text-white"><AlertTriangle className="w-3 h-3 text-brand-red" /> {v.type}: {v.description}</span>
+                      <span className="font-mono text-brand-cream">{(offset / 1000).toFixed(1)}s</span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          ) : (
+            <p className="text-xs text-slate-500">No violations recorded for this track.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
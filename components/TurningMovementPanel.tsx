@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { GitFork, Download } from 'lucide-react';
+import { TurningMovementCount } from '../types';
+import { APPROACH_BOUND, APPROACH_ORDER, MOVEMENT_ORDER, formatBinLabel, toCountSheetCsv } from '../services/turningMovementService';
+import { downloadFile } from '../services/fileDownload';
+
+interface TurningMovementPanelProps {
+  counts: TurningMovementCount[];
+}
+
+const MOVEMENT_SHORT: Record<string, string> = { Left: 'L', Through: 'T', Right: 'R', 'U-Turn': 'U' };
+
+export const TurningMovementPanel: React.FC<TurningMovementPanelProps> = ({ counts }) => {
+  const [classFilter, setClassFilter] = useState<string>('all');
+
+  const classes = Array.from(new Set(counts.map(c => c.vehicleClass))).sort();
+  const visible = classFilter === 'all' ? counts : counts.filter(c => c.vehicleClass === classFilter);
+  const bins = Array.from(new Set<number>(visible.map(c => c.binStart))).sort((a, b) => a - b);
+  const cell = (bin: number, approach: string, movement: string) =>
+    visible.filter(c => c.binStart === bin && c.approach === approach && c.movement === movement).reduce((s, c) => s + c.count, 0);
+
+  return (
+    <div className="bg-brand-panel p-6 rounded-xl border border-white/10 shadow-lg">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <GitFork className="w-5 h-5 text-green-400" />
+          Turning Movement Counts
+        </h3>
+        <div className="flex items-center gap-2">
+          <select
+            value={classFilter}
+            onChange={(e) => setClassFilter(e.target.value)}
+            className="bg-black/30 border border-white/10 rounded px-2 py-1 text-xs text-white"
+          >
+            <option value="all">All classes</option>
+            {classes.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+          <button
+            onClick={() => downloadFile(`turning-movements-${Date.now()}.csv`, toCountSheetCsv(counts), 'text/csv')}
+            className="flex items-center gap-1 px-2 py-1 text-xs text-green-400 bg-green-500/10 rounded border border-green-500/20 hover:bg-green-500 hover:text-brand-dark transition-colors"
+          >
+            <Download className="w-3 h-3" /> Count Sheet
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs text-center text-slate-400 font-mono">
+          <thead className="text-brand-cream/70 uppercase bg-black/20">
+            <tr>
+              <th className="px-2 py-2 text-left" rowSpan={2}>Interval</th>
+              {APPROACH_ORDER.map(a => <th key={a} className="px-2 py-1 border-l border-white/5" colSpan={MOVEMENT_ORDER.length}>{APPROACH_BOUND[a]}</th>)}
+              <th className="px-2 py-2 border-l border-white/5" rowSpan={2}>Total</th>
+            </tr>
+            <tr>
+              {APPROACH_ORDER.map(a => MOVEMENT_ORDER.map((m, i) => (
+                <th key={`${a}-${m}`} className={`px-2 py-1 ${i === 0 ? 'border-l border-white/5' : ''}`}>{MOVEMENT_SHORT[m]}</th>
+              )))}
+            </tr>
+          </thead>
+          <tbody>
+            {bins.map(bin => {
+              let total = 0;
+              return (
+                <tr key={bin} className="border-b border-white/5">
+                  <td className="px-2 py-2 text-left text-white">{formatBinLabel(bin)}</td>
+                  {APPROACH_ORDER.map(a => MOVEMENT_ORDER.map((m, i) => {
+                    const n = cell(bin, a, m);
+                    total += n;
+                    return <td key={`${a}-${m}`} className={`px-2 py-2 ${i === 0 ? 'border-l border-white/5' : ''} ${n > 0 ? 'text-white' : 'text-slate-600'}`}>{n}</td>;
+                  }))}
+                  <td className="px-2 py-2 border-l border-white/5 text-brand-sky font-bold">{total}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
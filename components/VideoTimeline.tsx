@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { Pause, Play, Radar, SlidersHorizontal } from 'lucide-react';
+import { FullAnalysisResult } from '../types';
+import { FrameSelection, VideoJobOptions, VideoJobProgress } from '../services/videoJob';
+import { formatEventTime } from '../services/signalPhaseService';
+
+interface VideoTimelineProps {
+  progress: VideoJobProgress;
+  results: FullAnalysisResult[]; // Sorted by mediaTime
+  selectedTime: number | null;   // ms; null while following the scan
+  options: VideoJobOptions;
+  onSelect: (timeSec: number) => void;
+  onFollow: () => void;
+  onPause: () => void;
+  onResume: () => void;
+  onOptionsChange: (options: VideoJobOptions) => void;
+}
+
+const INPUT_CLASS = 'w-20 bg-black/30 border border-white/10 rounded px-2 py-1 text-white';
+
+const markerColor = (congestion: number) => congestion > 75 ? 'bg-brand-red' : congestion > 40 ? 'bg-orange-400' : 'bg-brand-sky';
+
+/** Scrubber over the video job: analysed moments coloured by congestion, the scan head and the selected moment. */
+export const VideoTimeline: React.FC<VideoTimelineProps> = ({ progress, results, selectedTime, options, onSelect, onFollow, onPause, onResume, onOptionsChange }) => {
+  const [hoverSec, setHoverSec] = useState<number | null>(null);
+  const [showOptions, setShowOptions] = useState(false);
+  const duration = Math.max(progress.durationSec, 0.001);
+  const percent = (sec: number) => `${Math.min(100, (sec / duration) * 100)}%`;
+
+  const timeAt = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)) * progress.durationSec;
+  };
+
+  const setNumber = (key: keyof VideoJobOptions, value: string, min: number) => {
+    const n = parseFloat(value);
+    if (Number.isFinite(n) && n >= min) onOptionsChange({ ...options, [key]: key === 'maxInFlight' ? Math.round(n) : n });
+  };
+
+  const isRunning = progress.state === 'running';
+  const stats = [
+    `${progress.analyzed} analysed`,
+    progress.inFlight > 0 && `${progress.inFlight} in flight`,
+    progress.skipped > 0 && `${progress.skipped} unchanged`,
+    progress.failed > 0 && `${progress.failed} failed`,
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <div className="mt-4 text-xs text-slate-400">
+      <div className="flex items-center gap-3 mb-2">
+        <button
+          onClick={isRunning ? onPause : onResume}
+          disabled={progress.state === 'cancelled'}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-brand-indigo/10 text-brand-indigo border border-brand-indigo/20 hover:bg-brand-indigo hover:text-white transition-colors font-medium disabled:opacity-40"
+        >
+          {isRunning ? <><Pause className="w-3.5 h-3.5" /> Pause</> : <><Play className="w-3.5 h-3.5" /> {progress.state === 'done' ? 'Done' : 'Resume'}</>}
+        </button>
+        <span className="font-mono">{Math.round((progress.visited / Math.max(1, progress.total)) * 100)}% scanned · {stats}</span>
+        <span className="ml-auto font-mono">
+          {hoverSec !== null ? formatEventTime(hoverSec * 1000) : selectedTime !== null ? formatEventTime(selectedTime) : formatEventTime(progress.positionSec * 1000)} / {formatEventTime(progress.durationSec * 1000)}
+        </span>
+        {selectedTime !== null && (
+          <button onClick={onFollow} className="flex items-center gap-1 px-2 py-1 rounded bg-white/10 text-white hover:bg-white/20">
+            <Radar className="w-3.5 h-3.5" /> Follow scan
+          </button>
+        )}
+        <button onClick={() => setShowOptions(!showOptions)} className={`p-1.5 rounded ${showOptions ? 'text-white bg-white/10' : 'hover:text-white'}`} title="Sampling">
+          <SlidersHorizontal className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <div
+        className="relative h-8 bg-black/40 rounded border border-white/10 cursor-pointer select-none"
+        onMouseDown={e => onSelect(timeAt(e))}
+        onMouseMove={e => {
+          const t = timeAt(e);
+          setHoverSec(t);
+          if (e.buttons === 1) onSelect(t);
+        }}
+        onMouseLeave={() => setHoverSec(null)}
+      >
+        {results.map(r => r.mediaTime !== undefined && (
+          <div
+            key={r.mediaTime}
+            className={`absolute top-1 bottom-1 w-[2px] ${markerColor(r.analysis.congestionLevel)}`}
+            style={{ left: percent(r.mediaTime / 1000) }}
+          />
+        ))}
+        {progress.state !== 'done' && (
+          <div className="absolute -top-1 -bottom-1 w-0.5 bg-brand-indigo shadow-[0_0_6px_rgba(99,102,241,0.8)]" style={{ left: percent(progress.positionSec) }} title="Scan head" />
+        )}
+        {selectedTime !== null && (
+          <div className="absolute -top-1 -bottom-1 w-0.5 bg-white" style={{ left: percent(selectedTime / 1000) }} />
+        )}
+        {hoverSec !== null && (
+          <div className="absolute top-0 bottom-0 w-px bg-white/40 pointer-events-none" style={{ left: percent(hoverSec) }} />
+        )}
+      </div>
+
+      {showOptions && (
+        <div className="flex flex-wrap items-end gap-3 mt-3">
+          <label className="flex flex-col gap-1">
+            Frame selection
+            <select value={options.selection} onChange={e => onOptionsChange({ ...options, selection: e.target.value as FrameSelection })} className="bg-black/30 border border-white/10 rounded px-2 py-1 text-white">
+              <option value="interval">Fixed interval</option>
+              <option value="scene">Scene change</option>
+              <option value="adaptive">Scene change + track uncertainty</option>
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            {options.selection === 'interval' ? 'Every (s)' : 'Probe every (s)'}
+            <input type="number" min={0.1} step={0.1} value={options.stepSec} onChange={e => setNumber('stepSec', e.target.value, 0.1)} className={INPUT_CLASS} />
+          </label>
+          {options.selection !== 'interval' && (
+            <>
+              <label className="flex flex-col gap-1">
+                Change threshold
+                <input type="number" min={0.01} max={1} step={0.01} value={options.sceneThreshold} onChange={e => setNumber('sceneThreshold', e.target.value, 0.01)} className={INPUT_CLASS} />
+              </label>
+              <label className="flex flex-col gap-1">
+                Max gap (s)
+                <input type="number" min={0.5} step={0.5} value={options.maxGapSec} onChange={e => setNumber('maxGapSec', e.target.value, 0.5)} className={INPUT_CLASS} />
+              </label>
+              {options.selection === 'adaptive' && (
+                <label className="flex flex-col gap-1" title="Predicted drift since the last update, in box heights">
+                  Track uncertainty
+                  <input type="number" min={1} step={1} value={options.uncertaintyThreshold} onChange={e => setNumber('uncertaintyThreshold', e.target.value, 1)} className={INPUT_CLASS} />
+                </label>
+              )}
+            </>
+          )}
+          <label className="flex flex-col gap-1">
+            Parallel requests
+            <input type="number" min={1} max={8} step={1} value={options.maxInFlight} onChange={e => setNumber('maxInFlight', e.target.value, 1)} className={INPUT_CLASS} />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,216 @@
+import React from 'react';
+import { Shapes, Check, Trash2, X, Undo2 } from 'lucide-react';
+import { Approach, Zone, ZoneKind } from '../types';
+import { isLineZone } from '../services/geometry';
+import { MediaSize } from '../services/mediaFit';
+import { MediaOverlay } from './MediaOverlay';
+
+export interface ZoneDraft {
+  kind: ZoneKind;
+  label: string;
+  points: [number, number][];
+  direction?: [number, number];
+  approach?: Approach;
+  signalId?: string;
+  approachSide?: 1 | -1;
+}
+
+export const EMPTY_ZONE_DRAFT: ZoneDraft = { kind: 'lane', label: '', points: [] };
+
+const ZONE_STYLES: Record<ZoneKind, { color: string; name: string }> = {
+  lane: { color: '#7DD3FC', name: 'Lane' },
+  stop_line: { color: '#FF6B6B', name: 'Stop Line' },
+  crosswalk: { color: '#FEF9C3', name: 'Crosswalk' },
+  restricted: { color: '#F59E0B', name: 'Restricted / No Parking' },
+  entry_gate: { color: '#22C55E', name: 'Entry Gate' },
+  exit_gate: { color: '#6366F1', name: 'Exit Gate' },
+};
+
+const APPROACHES: { value: Approach; label: string }[] = [
+  { value: 'N', label: 'North leg' },
+  { value: 'E', label: 'East leg' },
+  { value: 'S', label: 'South leg' },
+  { value: 'W', label: 'West leg' },
+];
+
+const DIRECTIONS: { label: string; value?: [number, number] }[] = [
+  { label: 'Any direction' },
+  { label: 'Towards camera', value: [0, 1] },
+  { label: 'Away from camera', value: [0, -1] },
+  { label: 'Left to right', value: [1, 0] },
+  { label: 'Right to left', value: [-1, 0] },
+];
+
+/** Names the side of a drawn line that sideOfLine() reports as `side`, by its on-screen position. */
+const lineSideLabel = (points: [number, number][], side: 1 | -1): string => {
+  const [a, b] = points;
+  const normal = [-(b[1] - a[1]) * side, (b[0] - a[0]) * side]; // Points into `side`
+  if (Math.abs(normal[1]) >= Math.abs(normal[0])) return normal[1] > 0 ? 'Below the line' : 'Above the line';
+  return normal[0] > 0 ? 'Right of the line' : 'Left of the line';
+};
+
+/** Points required before a draft can be saved. */
+export const minZonePoints = (kind: ZoneKind) => (isLineZone(kind) ? 2 : 3);
+
+const ZoneShape: React.FC<{ kind: ZoneKind; points: [number, number][]; label?: string; dashed?: boolean }> = ({ kind, points, label, dashed }) => {
+  const { color } = ZONE_STYLES[kind];
+  const coords = points.map(p => `${p[0] * 1000},${p[1] * 1000}`).join(' ');
+  const anchor = points[0];
+  return (
+    <g>
+      {isLineZone(kind) || points.length < 3 ? (
+        <polyline points={coords} fill="none" stroke={color} strokeWidth={isLineZone(kind) ? 4 : 2} strokeDasharray={dashed ? '6 4' : undefined} vectorEffect="non-scaling-stroke" />
+      ) : (
+        <polygon points={coords} fill={`${color}22`} stroke={color} strokeWidth={2} strokeDasharray={dashed ? '6 4' : undefined} vectorEffect="non-scaling-stroke" />
+      )}
+      {dashed && points.map((p, i) => <circle key={i} cx={p[0] * 1000} cy={p[1] * 1000} r={6} fill={color} vectorEffect="non-scaling-stroke" />)}
+      {label && anchor && <text x={anchor[0] * 1000 + 8} y={anchor[1] * 1000 - 8} fill={color} fontSize={24} fontWeight="bold">{label}</text>}
+    </g>
+  );
+};
+
+interface ZoneOverlayProps {
+  zones: Zone[];
+  draft: ZoneDraft | null; // null = not editing, layer is display-only
+  mediaSize: MediaSize | null; // Intrinsic size of the monitored media: zones are stored in image coordinates
+  onAddPoint: (point: [number, number]) => void;
+}
+
+/** Renders the camera's zones over the monitor canvas; captures clicks while a draft is open. */
+export const ZoneOverlay: React.FC<ZoneOverlayProps> = ({ zones, draft, mediaSize, onAddPoint }) => (
+  <MediaOverlay mediaSize={mediaSize} className={draft ? 'cursor-crosshair' : 'pointer-events-none'} onPoint={draft ? onAddPoint : undefined}>
+    {zones.map(z => <ZoneShape key={z.id} kind={z.kind} points={z.points} label={z.label} />)}
+    {draft && draft.points.length > 0 && <ZoneShape kind={draft.kind} points={draft.points} dashed />}
+  </MediaOverlay>
+);
+
+interface ZonePanelProps {
+  zones: Zone[];
+  draft: ZoneDraft;
+  onDraftChange: (draft: ZoneDraft) => void;
+  onCommit: (zone: Zone) => void;
+  onDelete: (zoneId: string) => void;
+  onClose: () => void;
+  signalIds?: string[]; // Lights seen so far, for assigning a stop line's governing signal
+}
+
+export const ZonePanel: React.FC<ZonePanelProps> = ({ zones, draft, onDraftChange, onCommit, onDelete, onClose, signalIds = [] }) => {
+  const canCommit = draft.points.length >= minZonePoints(draft.kind);
+
+  const commit = () => {
+    const count = zones.filter(z => z.kind === draft.kind).length + 1;
+    onCommit({
+      id: Math.random().toString(36).substr(2),
+      kind: draft.kind,
+      label: draft.label.trim() || `${ZONE_STYLES[draft.kind].name} ${count}`,
+      points: draft.points,
+      direction: draft.kind === 'lane' ? draft.direction : undefined,
+      approach: isLineZone(draft.kind) && draft.kind !== 'stop_line' ? (draft.approach || 'N') : undefined,
+      signalId: draft.kind === 'stop_line' ? draft.signalId : undefined,
+      approachSide: draft.kind === 'stop_line' ? draft.approachSide : undefined,
+    });
+  };
+
+  return (
+    <div className="bg-brand-panel rounded-2xl border border-brand-sky/30 p-4 mb-6 shadow-2xl">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-bold text-white flex items-center gap-2"><Shapes className="w-4 h-4 text-brand-sky" /> Zone Editor</h4>
+        <button onClick={onClose} className="text-slate-400 hover:text-white p-1"><X className="w-4 h-4" /></button>
+      </div>
+      <p className="text-xs text-slate-400 mb-3">
+        Click on the monitor to place points. Stop lines and gates take 2 points; lanes, crosswalks and restricted areas take 3 or more.
+        Gates count turning movements: draw an entry and an exit gate across each intersection leg.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-2 mb-3 text-xs text-slate-400">
+        <label className="flex flex-col gap-1">Type
+          <select
+            value={draft.kind}
+            onChange={(e) => onDraftChange({ ...draft, kind: e.target.value as ZoneKind, points: [], approachSide: undefined })}
+            className="bg-black/30 border border-white/10 rounded-lg px-2 py-1.5 text-white"
+          >
+            {(Object.keys(ZONE_STYLES) as ZoneKind[]).map(k => <option key={k} value={k}>{ZONE_STYLES[k].name}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">Label
+          <input
+            value={draft.label}
+            placeholder="e.g. Northbound Lane 1"
+            onChange={(e) => onDraftChange({ ...draft, label: e.target.value })}
+            className="bg-black/30 border border-white/10 rounded-lg px-2 py-1.5 text-white placeholder:text-slate-600"
+          />
+        </label>
+        {draft.kind === 'lane' && (
+          <label className="flex flex-col gap-1">Permitted direction
+            <select
+              value={DIRECTIONS.findIndex(d => d.value?.join() === draft.direction?.join())}
+              onChange={(e) => onDraftChange({ ...draft, direction: DIRECTIONS[parseInt(e.target.value)].value })}
+              className="bg-black/30 border border-white/10 rounded-lg px-2 py-1.5 text-white"
+            >
+              {DIRECTIONS.map((d, i) => <option key={i} value={i}>{d.label}</option>)}
+            </select>
+          </label>
+        )}
+        {(draft.kind === 'entry_gate' || draft.kind === 'exit_gate') && (
+          <label className="flex flex-col gap-1">Intersection leg
+            <select
+              value={draft.approach || 'N'}
+              onChange={(e) => onDraftChange({ ...draft, approach: e.target.value as Approach })}
+              className="bg-black/30 border border-white/10 rounded-lg px-2 py-1.5 text-white"
+            >
+              {APPROACHES.map(a => <option key={a.value} value={a.value}>{a.label}</option>)}
+            </select>
+          </label>
+        )}
+        {draft.kind === 'stop_line' && (
+          <label className="flex flex-col gap-1">Governing signal
+            <select
+              value={draft.signalId || ''}
+              onChange={(e) => onDraftChange({ ...draft, signalId: e.target.value || undefined })}
+              className="bg-black/30 border border-white/10 rounded-lg px-2 py-1.5 text-white"
+            >
+              <option value="">Nearest light</option>
+              {signalIds.map(id => <option key={id} value={id}>Light {id}</option>)}
+            </select>
+          </label>
+        )}
+        {draft.kind === 'stop_line' && (
+          <label className="flex flex-col gap-1" title="Only vehicles crossing from this side are checked against the signal">Traffic approaches from
+            <select
+              value={draft.approachSide || 0}
+              onChange={(e) => onDraftChange({ ...draft, approachSide: (parseInt(e.target.value) || undefined) as ZoneDraft['approachSide'] })}
+              disabled={draft.points.length < 2}
+              className="bg-black/30 border border-white/10 rounded-lg px-2 py-1.5 text-white disabled:opacity-40"
+            >
+              <option value={0}>Side away from the signal</option>
+              {draft.points.length >= 2 && ([1, -1] as const).map(side => <option key={side} value={side}>{lineSideLabel(draft.points, side)}</option>)}
+            </select>
+          </label>
+        )}
+        <div className="flex items-end gap-2">
+          <button onClick={() => onDraftChange({ ...draft, points: draft.points.slice(0, -1), approachSide: undefined })} disabled={draft.points.length === 0} className="flex items-center gap-1 px-3 py-1.5 text-slate-300 bg-white/5 rounded-lg border border-white/10 hover:bg-white/10 disabled:opacity-40">
+            <Undo2 className="w-3 h-3" /> Undo
+          </button>
+          <button onClick={commit} disabled={!canCommit} className="flex items-center gap-1 px-3 py-1.5 text-brand-sky bg-brand-sky/10 rounded-lg border border-brand-sky/20 hover:bg-brand-sky hover:text-brand-dark transition-colors disabled:opacity-40">
+            <Check className="w-3 h-3" /> Add Zone
+          </button>
+        </div>
+      </div>
+
+      {zones.length > 0 && (
+        <ul className="space-y-1">
+          {zones.map(z => (
+            <li key={z.id} className="flex items-center justify-between text-xs bg-black/20 border border-white/5 rounded px-2 py-1.5">
+              <span className="flex items-center gap-2">
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: ZONE_STYLES[z.kind].color }} />
+                <span className="text-white font-medium">{z.label}</span>
+                <span className="text-slate-500">{ZONE_STYLES[z.kind].name}{z.approach ? ` · ${z.approach} leg` : ''}{z.signalId ? ` · light ${z.signalId}` : ''}{z.approachSide ? ` · from ${lineSideLabel(z.points, z.approachSide).toLowerCase()}` : ''} · {z.points.length} pts · {z.id}</span>
+              </span>
+              <button onClick={() => onDelete(z.id)} className="text-slate-500 hover:text-brand-red p-1"><Trash2 className="w-3 h-3" /></button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+// Local camera stream for trying the stream source without a real camera.
+//
+//   npm run stream-server -- --dir ./frames [--port 8081] [--fps 5]
+//
+// GET /mjpeg loops the JPEGs in --dir (sorted by name) as multipart MJPEG. Add
+// ?dropAfter=<s> to close the connection after that many seconds, or ?stallAfter=<s>
+// to stop sending frames but keep it open, to watch reconnects and stall detection.
+// Any other path serves files from --dir, so an HLS playlist made with
+//   ffmpeg -re -stream_loop -1 -i clip.mp4 -c:v libx264 -f hls -hls_flags delete_segments frames/live.m3u8
+// plays at /live.m3u8. Every response allows any origin so frames can be captured.
+import { createServer } from 'node:http';
+import { readdirSync, readFileSync, createReadStream, existsSync, statSync } from 'node:fs';
+import { extname, isAbsolute, join, normalize, relative, resolve, sep } from 'node:path';
+
+const args = {};
+for (let i = 2; i < process.argv.length; i++) {
+  if (process.argv[i].startsWith('--')) args[process.argv[i].slice(2)] = process.argv[++i];
+}
+const dir = resolve(args.dir || '.');
+const port = Number(args.port || 8081);
+const fps = Number(args.fps || 5);
+const BOUNDARY = 'frame';
+
+const MIME_TYPES = {
+  '.m3u8': 'application/vnd.apple.mpegurl',
+  '.ts': 'video/mp2t',
+  '.m4s': 'video/iso.segment',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+};
+
+const frames = readdirSync(dir)
+  .filter(f => /\.jpe?g$/i.test(f))
+  .sort()
+  .map(f => readFileSync(join(dir, f)));
+
+const cors = { 'Access-Control-Allow-Origin': '*', 'Cache-Control': 'no-store' };
+
+const serveMjpeg = (req, res, query) => {
+  if (frames.length === 0) {
+    res.writeHead(404, cors).end(`No .jpg frames in ${dir}`);
+    return;
+  }
+  const dropAfter = Number(query.get('dropAfter')) * 1000 || Infinity;
+  const stallAfter = Number(query.get('stallAfter')) * 1000 || Infinity;
+  const startedAt = Date.now();
+  let index = 0;
+
+  res.writeHead(200, { ...cors, 'Content-Type': `multipart/x-mixed-replace; boundary=${BOUNDARY}`, Connection: 'close' });
+  const timer = setInterval(() => {
+    const elapsed = Date.now() - startedAt;
+    if (elapsed > dropAfter) {
+      clearInterval(timer);
+      res.destroy();
+      return;
+    }
+    if (elapsed > stallAfter) return;
+    const frame = frames[index++ % frames.length];
+    res.write(`--${BOUNDARY}\r\nContent-Type: image/jpeg\r\nContent-Length: ${frame.length}\r\n\r\n`);
+    res.write(frame);
+    res.write('\r\n');
+  }, 1000 / fps);
+  req.on('close', () => clearInterval(timer));
+};
+
+const serveFile = (res, pathname) => {
+  let decoded;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch (e) {
+    res.writeHead(400, cors).end('Bad request');
+    return;
+  }
+  const file = normalize(join(dir, decoded));
+  const inside = relative(dir, file);
+  if (inside === '..' || inside.startsWith(`..${sep}`) || isAbsolute(inside) || !existsSync(file) || !statSync(file).isFile()) {
+    res.writeHead(404, cors).end('Not found');
+    return;
+  }
+  res.writeHead(200, { ...cors, 'Content-Type': MIME_TYPES[extname(file).toLowerCase()] || 'application/octet-stream' });
+  createReadStream(file).pipe(res);
+};
+
+createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${port}`);
+  console.log(`${req.method} ${url.pathname}${url.search}`);
+  if (url.pathname === '/mjpeg') serveMjpeg(req, res, url.searchParams);
+  else serveFile(res, url.pathname);
+}).listen(port, () => {
+  console.log(`Serving ${frames.length} frames from ${dir}`);
+  console.log(`  MJPEG: http://localhost:${port}/mjpeg`);
+  console.log(`  Files: http://localhost:${port}/<name> (HLS playlists, video files)`);
+});
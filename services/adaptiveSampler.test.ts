@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { AdaptiveSampler, DEFAULT_ADAPTIVE_SAMPLING_OPTIONS } from './adaptiveSampler';
+import { FrameSignature } from './frameDifference';
+
+/** A uniform grey frame; two of them differ by |a - b| / 255. */
+const flat = (level: number): FrameSignature => ({ width: 4, height: 4, luma: new Uint8Array(16).fill(level) });
+
+const sampler = (enabled = true) => new AdaptiveSampler({ ...DEFAULT_ADAPTIVE_SAMPLING_OPTIONS, enabled });
+
+describe('AdaptiveSampler', () => {
+  it('analyses the first frame, then only after the minimum interval', () => {
+    const s = sampler();
+    expect(s.decide(null, 0, 0).analyze).toBe(false); // No frame yet
+    expect(s.decide(flat(100), 0, 0).reason).toBe('first');
+    expect(s.decide(flat(200), 99, 200).analyze).toBe(false); // Changed and unsure, but within minIntervalMs
+  });
+
+  it('analyses on a picture change, then on tracker uncertainty', () => {
+    const s = sampler();
+    s.decide(flat(100), 0, 0);
+    const changed = s.decide(flat(120), 0, 600);
+    expect(changed.reason).toBe('change');
+    expect(changed.change).toBeCloseTo(20 / 255);
+
+    expect(s.decide(flat(120), 5, 1200).analyze).toBe(false);
+    expect(s.decide(flat(120), 20, 1400).reason).toBe('uncertainty');
+  });
+
+  it('analyses a still, certain scene once the maximum interval has passed', () => {
+    const s = sampler();
+    s.decide(flat(100), 0, 0);
+    expect(s.decide(flat(100), 0, 4800).analyze).toBe(false);
+    expect(s.decide(flat(100), 0, 5000).reason).toBe('max-interval');
+  });
+
+  it('falls back to one frame a second when disabled', () => {
+    const s = sampler(false);
+    expect(s.decide(flat(100), 0, 0).reason).toBe('interval');
+    expect(s.decide(flat(200), 99, 800).analyze).toBe(false);
+    expect(s.decide(flat(200), 99, 1000).reason).toBe('interval');
+  });
+
+  it('counts reasons, skips and the calls a fixed-rate loop would have made', () => {
+    const s = sampler();
+    [0, 200, 400, 600, 800, 1000].forEach((now, i) => s.decide(flat(i === 3 ? 150 : 100), 0, now));
+    expect(s.getStats()).toMatchObject({ analyzed: 2, skipped: 4, fixedRateCalls: 2 });
+    expect(s.getStats().reasons).toMatchObject({ first: 1, change: 1 });
+  });
+
+  it('takes a new first frame after restart and clears stats on reset', () => {
+    const s = sampler();
+    s.decide(flat(100), 0, 0);
+    s.restart();
+    expect(s.decide(flat(100), 0, 100).reason).toBe('first');
+    expect(s.getStats().analyzed).toBe(2);
+    s.reset();
+    expect(s.getStats().analyzed).toBe(0);
+  });
+});
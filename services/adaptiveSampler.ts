@@ -0,0 +1,131 @@
+import { FrameSignature, signatureDifference } from "./frameDifference";
+
+// Decides, on a short tick, whether a live frame is worth a model call: the picture changed
+// since the last analysed frame, the tracker has become unsure where its objects are, or
+// too long has passed. Between calls the overlay shows the tracks' Kalman prediction.
+
+const ADAPTIVE_SAMPLING_STORAGE_KEY = 'multi_ai_agent_adaptive_sampling';
+
+export interface AdaptiveSamplingOptions {
+  enabled: boolean;             // Off: one frame per FIXED_INTERVAL_MS, as before
+  changeThreshold: number;      // Signature difference (0-1) from the last analysed frame
+  uncertaintyThreshold: number; // ObjectTracker.getUncertainty() score, in box heights
+  minIntervalMs: number;        // Never more often than this
+  maxIntervalMs: number;        // Never less often than this
+}
+
+export const DEFAULT_ADAPTIVE_SAMPLING_OPTIONS: AdaptiveSamplingOptions = {
+  enabled: true,
+  changeThreshold: 0.04,
+  uncertaintyThreshold: 20,
+  minIntervalMs: 500,
+  maxIntervalMs: 5000,
+};
+
+/** How often live loops check whether the frame is worth a call. */
+export const SAMPLER_TICK_MS = 200;
+const FIXED_INTERVAL_MS = 1000;
+
+export type SampleReason = 'first' | 'change' | 'uncertainty' | 'max-interval' | 'interval';
+
+export interface SampleDecision {
+  analyze: boolean;
+  reason: SampleReason | null;
+  change: number;      // Signature difference from the last analysed frame
+  uncertainty: number;
+}
+
+export interface SamplerStats {
+  analyzed: number;
+  skipped: number;                         // Ticks that found nothing worth a call
+  reasons: Record<SampleReason, number>;   // Why frames were analysed
+  fixedRateCalls: number;                  // Calls a fixed one-per-second loop would have made meanwhile
+  change: number;                          // Latest decision's inputs
+  uncertainty: number;
+}
+
+export const loadAdaptiveSamplingOptions = (): AdaptiveSamplingOptions => {
+  try {
+    const saved = localStorage.getItem(ADAPTIVE_SAMPLING_STORAGE_KEY);
+    if (saved) return { ...DEFAULT_ADAPTIVE_SAMPLING_OPTIONS, ...JSON.parse(saved) };
+  } catch (e) {
+    console.error(e);
+  }
+  return { ...DEFAULT_ADAPTIVE_SAMPLING_OPTIONS };
+};
+
+export const saveAdaptiveSamplingOptions = (options: AdaptiveSamplingOptions) => {
+  localStorage.setItem(ADAPTIVE_SAMPLING_STORAGE_KEY, JSON.stringify(options));
+};
+
+const emptyReasons = (): Record<SampleReason, number> => ({ first: 0, change: 0, uncertainty: 0, 'max-interval': 0, interval: 0 });
+
+/** Frame-selection policy for one source. Times are any monotonic ms clock (epoch for live sources, media time for video). */
+export class AdaptiveSampler {
+  private lastSignature: FrameSignature | null = null;
+  private lastAnalyzedAt = -Infinity;
+  private startedAt: number | null = null;
+  private stats: SamplerStats = AdaptiveSampler.initialStats();
+
+  constructor(private options: AdaptiveSamplingOptions = DEFAULT_ADAPTIVE_SAMPLING_OPTIONS) {}
+
+  private static initialStats(): SamplerStats {
+    return { analyzed: 0, skipped: 0, reasons: emptyReasons(), fixedRateCalls: 0, change: 0, uncertainty: 0 };
+  }
+
+  public setOptions(options: AdaptiveSamplingOptions) {
+    this.options = options;
+  }
+
+  public getStats(): SamplerStats {
+    return this.stats;
+  }
+
+  /**
+   * Whether to analyse the frame with `signature` at `now`, given the tracker's current
+   * uncertainty. A positive decision makes this frame the new reference.
+   */
+  public decide(signature: FrameSignature | null, uncertainty: number, now: number): SampleDecision {
+    const { enabled, changeThreshold, uncertaintyThreshold, minIntervalMs, maxIntervalMs } = this.options;
+    if (this.startedAt === null) this.startedAt = now;
+    const elapsed = now - this.lastAnalyzedAt;
+    const change = signature && this.lastSignature ? signatureDifference(signature, this.lastSignature) : 0;
+
+    let reason: SampleReason | null = null; // Stays null while the source has no frame
+    if (signature && !enabled) {
+      if (elapsed >= FIXED_INTERVAL_MS) reason = 'interval';
+    } else if (signature && elapsed >= minIntervalMs) {
+      if (!this.lastSignature) reason = 'first';
+      else if (change >= changeThreshold) reason = 'change';
+      else if (uncertainty >= uncertaintyThreshold) reason = 'uncertainty';
+      else if (elapsed >= maxIntervalMs) reason = 'max-interval';
+    }
+
+    const reasons = reason ? { ...this.stats.reasons, [reason]: this.stats.reasons[reason] + 1 } : this.stats.reasons;
+    this.stats = {
+      analyzed: this.stats.analyzed + (reason ? 1 : 0),
+      skipped: this.stats.skipped + (reason ? 0 : 1),
+      reasons,
+      fixedRateCalls: Math.floor((now - this.startedAt) / FIXED_INTERVAL_MS) + 1,
+      change,
+      uncertainty,
+    };
+    if (reason) {
+      this.lastSignature = signature;
+      this.lastAnalyzedAt = now;
+    }
+    return { analyze: reason !== null, reason, change, uncertainty };
+  }
+
+  /** Forgets the reference frame, e.g. after a jump in media time; stats are kept. */
+  public restart() {
+    this.lastSignature = null;
+    this.lastAnalyzedAt = -Infinity;
+  }
+
+  public reset() {
+    this.restart();
+    this.startedAt = null;
+    this.stats = AdaptiveSampler.initialStats();
+  }
+}
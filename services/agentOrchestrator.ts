@@ -0,0 +1,169 @@
+import { AgentId, AgentStageState, AgentTrace, AgentTraceStep, DetectionItem, FullAnalysisResult, LocationContextData, ModelCallTrace, ResponseCoercion, TrackMatch, Violation } from "../types";
+import { AnalysisDepth, PerceptionOutput, runPerceptionAgent } from "./perceptionAgent";
+import { analyzeLocally, AnalyticsOutput, runAnalyticsAgent } from "./analyticsAgent";
+import { reportLocally, ReportingOutput, runReportingAgent } from "./reportingAgent";
+import { createAbortError, isAbortError } from "./requestScheduler";
+
+// Runs perception -> tracking -> analytics -> reporting for one frame and reports each
+// agent's progress. Full depth gives every agent a model call; fast depth (real-time
+// loops) keeps analytics and reporting on local rules so each frame costs one request.
+
+export interface PipelineRequest {
+  image: string; // Raw base64 or data URI
+  mimeType: string;
+  depth: AnalysisDepth;
+  timestamp: number; // Tracker clock in ms; media time for video
+}
+
+export interface TrackingOutput {
+  detections: DetectionItem[];
+  violations: Violation[];
+  matches?: TrackMatch[]; // Recorded in the trace
+}
+
+/** State the agents read but do not own; App supplies it from its trackers and refs. */
+export interface PipelineContext {
+  // May wait, e.g. for earlier frames of a video job to be tracked first
+  track: (perception: PerceptionOutput, timestamp: number) => TrackingOutput | Promise<TrackingOutput>;
+  history: FullAnalysisResult[]; // Recent results, oldest first
+  locationContext?: LocationContextData;
+}
+
+export interface PipelineRun {
+  result: FullAnalysisResult;
+  stages: AgentStageState[];
+}
+
+/** A run that ended early. `trace` holds the steps completed so far, including the failed call. */
+export class PipelineError extends Error {
+  constructor(public agent: AgentId, public trace: AgentTrace, cause: unknown) {
+    super(errorMessage(cause));
+    this.name = 'PipelineError';
+  }
+}
+
+export const AGENT_ORDER: AgentId[] = ['perception', 'analytics', 'reporting'];
+
+export const createPendingStages = (): AgentStageState[] => AGENT_ORDER.map(agent => ({ agent, status: 'pending' }));
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+/** Paths from later agents are prefixed so they do not collide with perception's. */
+const prefixCoercions = (prefix: string, coercions: ResponseCoercion[]) =>
+  coercions.map(c => ({ ...c, path: `${prefix}.${c.path}` }));
+
+const summarizePerception = (p: PerceptionOutput) => {
+  const objects = p.detections.filter(d => d.type === 'vehicle' || d.type === 'pedestrian').length;
+  return `${objects} objects, ${p.trafficLights.length} signals${p.sceneType ? `, ${p.sceneType}` : ''}`;
+};
+
+const summarizeAnalytics = ({ analysis, trend }: AnalyticsOutput) =>
+  `${analysis.totalVehicles} vehicles, ${analysis.congestionLevel}% ${analysis.trafficFlowStatus}, ${analysis.detectedViolations.length} violations, ${trend.toLowerCase()}`;
+
+const summarizeReport = ({ report }: ReportingOutput) =>
+  `Priority ${report.priorityScore}/10, ${report.recommendations.length} recommendations`;
+
+export const runAgentPipeline = async (
+  request: PipelineRequest,
+  context: PipelineContext,
+  onProgress?: (stages: AgentStageState[]) => void,
+  signal?: AbortSignal
+): Promise<PipelineRun> => {
+  const stages = createPendingStages();
+  const trace: AgentTrace = { depth: request.depth, startedAt: Date.now(), durationMs: 0, steps: [] };
+  const runStartedAt = performance.now();
+  const update = (agent: AgentId, patch: Partial<AgentStageState>) => {
+    const index = AGENT_ORDER.indexOf(agent);
+    stages[index] = { ...stages[index], ...patch };
+    onProgress?.([...stages]);
+  };
+
+  /**
+   * Runs one agent with timing and tracing. `local` (when given) is the fallback if the model
+   * strategy fails; without it the failure ends the pipeline with a PipelineError.
+   */
+  const runStage = async <T extends { modelId?: string; coercions: ResponseCoercion[] }>(
+    agent: AgentId,
+    model: ((calls: ModelCallTrace[]) => Promise<T>) | null,
+    local: (() => T) | null,
+    describe: (output: T) => { summary: string; details?: string[] },
+    extra: Partial<AgentTraceStep> = {}
+  ): Promise<T> => {
+    const startedAt = performance.now();
+    const calls: ModelCallTrace[] = [];
+    update(agent, { status: 'running', strategy: model ? 'model' : 'local', startedAt: Date.now() });
+    const finish = (output: T | null, patch: Partial<AgentStageState>) => {
+      update(agent, { ...(output ? { ...describe(output), modelId: output.modelId } : {}), ...patch, durationMs: Math.round(performance.now() - startedAt) });
+      const stage = stages[AGENT_ORDER.indexOf(agent)];
+      trace.steps.push({ ...stage, ...extra, calls, coercions: output?.coercions.length ? output.coercions : undefined });
+      trace.durationMs = Math.round(performance.now() - runStartedAt);
+      return output;
+    };
+
+    if (!model) return finish(local!(), { status: 'done' })!;
+    try {
+      return finish(await model(calls), { status: 'done' })!;
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      if (!local) {
+        finish(null, { status: 'error', error: errorMessage(error) });
+        throw new PipelineError(agent, trace, error);
+      }
+      return finish(local(), { status: 'fallback', strategy: 'local', error: errorMessage(error) })!;
+    }
+  };
+
+  const full = request.depth === 'full';
+
+  const perceptionStep: Partial<AgentTraceStep> = {};
+  const perception = await runStage<PerceptionOutput>(
+    'perception',
+    async calls => {
+      const output = await runPerceptionAgent({ image: request.image, mimeType: request.mimeType, depth: request.depth }, signal, calls);
+      perceptionStep.nms = output.nms;
+      return output;
+    },
+    null,
+    p => ({ summary: summarizePerception(p), details: p.observedViolations.map(v => `Observed: ${v.description}`) }),
+    perceptionStep
+  );
+  if (signal?.aborted) throw createAbortError(); // Stopped while perception was finishing; leave the tracker untouched
+
+  const tracking = await context.track(perception, request.timestamp);
+  const analyticsInput = { perception, tracked: tracking.detections, trackingViolations: tracking.violations, history: context.history };
+  const analytics = await runStage<AnalyticsOutput>(
+    'analytics',
+    full ? calls => runAnalyticsAgent(analyticsInput, signal, calls) : null,
+    () => analyzeLocally(analyticsInput),
+    a => ({ summary: summarizeAnalytics(a), details: a.riskNotes }),
+    { trackerMatches: tracking.matches }
+  );
+
+  const reportingInput = { analytics, history: context.history, locationContext: context.locationContext };
+  const reporting = await runStage<ReportingOutput>(
+    'reporting',
+    full ? calls => runReportingAgent(reportingInput, signal, calls) : null,
+    () => reportLocally(reportingInput),
+    r => ({ summary: summarizeReport(r), details: r.report.recommendations })
+  );
+
+  const coercions = [
+    ...perception.coercions,
+    ...prefixCoercions('analytics', analytics.coercions),
+    ...prefixCoercions('report', reporting.coercions),
+  ];
+
+  return {
+    result: {
+      timestamp: Date.now(),
+      modelId: perception.modelId,
+      coercions: coercions.length > 0 ? coercions : undefined,
+      detections: tracking.detections,
+      analysis: analytics.analysis,
+      report: reporting.report,
+      locationContext: context.locationContext,
+      trace,
+    },
+    stages,
+  };
+};
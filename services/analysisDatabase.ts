@@ -0,0 +1,396 @@
+import { AgentTrace, HistoryItem, TrafficAnalysis, Violation } from "../types";
+
+// IndexedDB-backed analysis history. Records, their thumbnails and their agent traces
+// live in separate stores so paging through records never loads image data or raw model
+// responses it does not display.
+
+const DB_NAME = 'multi_ai_agent_db';
+const ANALYSES = 'analyses';
+const THUMBNAILS = 'thumbnails';
+const TRACES = 'traces';
+const LEGACY_HISTORY_KEY = 'multi_ai_agent_history';
+const RETENTION_STORAGE_KEY = 'multi_ai_agent_retention';
+
+const THUMBNAIL_MAX_WIDTH = 480;
+const THUMBNAIL_QUALITY = 0.75;
+
+/** A history record as stored: the thumbnail is kept as a blob in THUMBNAILS and the trace in TRACES, keyed by id. */
+type StoredAnalysis = Omit<HistoryItem, 'thumbnail' | 'trace'>;
+
+interface StoredThumbnail {
+  id: string;
+  blob: Blob;
+}
+
+interface StoredTrace {
+  id: string;
+  trace: AgentTrace;
+}
+
+/**
+ * Schema migrations, applied in order from the stored version. Append a step to change
+ * the schema; never edit a released one. The database version is MIGRATIONS.length.
+ */
+const MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  // v1: records with a timestamp index, thumbnails keyed by record id
+  (db) => {
+    const analyses = db.createObjectStore(ANALYSES, { keyPath: 'id' });
+    analyses.createIndex('timestamp', 'timestamp');
+    db.createObjectStore(THUMBNAILS, { keyPath: 'id' });
+  },
+  // v2: agent traces (with raw model responses) moved out of the records into their own store
+  (db, tx) => {
+    db.createObjectStore(TRACES, { keyPath: 'id' });
+    const request = tx.objectStore(ANALYSES).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      const { trace, ...record } = cursor.value as HistoryItem;
+      if (trace) {
+        tx.objectStore(TRACES).put({ id: record.id, trace } as StoredTrace);
+        cursor.update(record);
+      }
+      cursor.continue();
+    };
+  },
+];
+
+export interface RetentionPolicy {
+  maxRecords: number | null; // Oldest records beyond this count are deleted
+  maxAgeDays: number | null; // Records older than this are deleted
+}
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = { maxRecords: 500, maxAgeDays: null };
+
+export type AnalysisSortKey = 'timestamp' | 'congestion' | 'vehicles' | 'violations' | 'priority';
+
+/** Filters for the Analysis Database view. Unset fields match everything. */
+export interface AnalysisQuery {
+  search: string;            // Free text over report.summary
+  location: string;          // Substring of locationContext.address
+  sceneType: TrafficAnalysis['sceneType'] | '';
+  flowStatus: TrafficAnalysis['trafficFlowStatus'] | '';
+  congestionMin: number;
+  congestionMax: number;
+  violationType: Violation['type'] | '';
+  severity: Violation['severity'] | '';
+  from: number | null;       // Inclusive timestamp bounds
+  to: number | null;
+  sortBy: AnalysisSortKey;
+  sortDir: 'asc' | 'desc';
+}
+
+export const DEFAULT_ANALYSIS_QUERY: AnalysisQuery = {
+  search: '',
+  location: '',
+  sceneType: '',
+  flowStatus: '',
+  congestionMin: 0,
+  congestionMax: 100,
+  violationType: '',
+  severity: '',
+  from: null,
+  to: null,
+  sortBy: 'timestamp',
+  sortDir: 'desc',
+};
+
+export interface AnalysisPage {
+  items: HistoryItem[]; // In query order; thumbnails are object URLs, see releaseThumbnails()
+  total: number;        // Records matching the query
+  storedTotal: number;  // All records in the database
+  page: number;
+  pageSize: number;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Analysis database transaction aborted"));
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openAnalysisDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, MIGRATIONS.length);
+      request.onupgradeneeded = (event) => {
+        const tx = request.transaction!;
+        for (let v = event.oldVersion; v < MIGRATIONS.length; v++) MIGRATIONS[v](request.result, tx);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// --- THUMBNAILS ---
+
+/** Downscales an image data URI to a JPEG blob no wider than THUMBNAIL_MAX_WIDTH. */
+export const createThumbnailBlob = (dataUri: string): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.min(img.width, THUMBNAIL_MAX_WIDTH);
+      canvas.height = Math.round(img.height * (canvas.width / img.width));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return reject(new Error("Canvas unavailable for thumbnail"));
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Thumbnail encoding failed"))), 'image/jpeg', THUMBNAIL_QUALITY);
+    };
+    img.onerror = () => reject(new Error("Thumbnail source could not be decoded"));
+    img.src = dataUri;
+  });
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/** Thumbnail as a data URI, for callers that keep it beyond the current page. */
+export const loadThumbnailDataUrl = async (id: string): Promise<string | null> => {
+  const db = await openAnalysisDatabase();
+  const stored = await requestToPromise<StoredThumbnail | undefined>(db.transaction(THUMBNAILS).objectStore(THUMBNAILS).get(id));
+  return stored ? blobToDataUrl(stored.blob) : null;
+};
+
+/** A record's agent trace, which getAnalysisPage() leaves out. */
+export const loadAnalysisTrace = async (id: string): Promise<AgentTrace | null> => {
+  const db = await openAnalysisDatabase();
+  const stored = await requestToPromise<StoredTrace | undefined>(db.transaction(TRACES).objectStore(TRACES).get(id));
+  return stored?.trace || null;
+};
+
+/** Revokes the object URLs handed out by getAnalysisPage(). */
+export const releaseThumbnails = (items: HistoryItem[]) => {
+  items.forEach(item => {
+    if (item.thumbnail.startsWith('blob:')) URL.revokeObjectURL(item.thumbnail);
+  });
+};
+
+// --- RECORDS ---
+
+/** Stores a record with a downscaled thumbnail and its trace, then applies the retention policy. */
+export const saveAnalysis = async (item: HistoryItem, retention: RetentionPolicy = loadRetentionPolicy()): Promise<void> => {
+  const { thumbnail, trace, ...record } = item;
+  const blob = await createThumbnailBlob(thumbnail);
+  const db = await openAnalysisDatabase();
+  const tx = db.transaction([ANALYSES, THUMBNAILS, TRACES], 'readwrite');
+  tx.objectStore(ANALYSES).put(record);
+  tx.objectStore(THUMBNAILS).put({ id: item.id, blob } as StoredThumbnail);
+  if (trace) tx.objectStore(TRACES).put({ id: item.id, trace } as StoredTrace);
+  else tx.objectStore(TRACES).delete(item.id);
+  await transactionDone(tx);
+  await applyRetention(retention);
+};
+
+export const getAnalysisIds = async (): Promise<string[]> => {
+  const db = await openAnalysisDatabase();
+  return requestToPromise(db.transaction(ANALYSES).objectStore(ANALYSES).getAllKeys()) as Promise<string[]>;
+};
+
+export const countAnalyses = async (): Promise<number> => {
+  const db = await openAnalysisDatabase();
+  return requestToPromise(db.transaction(ANALYSES).objectStore(ANALYSES).count());
+};
+
+const matchesQuery = (record: StoredAnalysis, q: AnalysisQuery): boolean => {
+  const { analysis } = record;
+  if (q.sceneType && analysis.sceneType !== q.sceneType) return false;
+  if (q.flowStatus && analysis.trafficFlowStatus !== q.flowStatus) return false;
+  if (analysis.congestionLevel < q.congestionMin || analysis.congestionLevel > q.congestionMax) return false;
+  if (q.violationType || q.severity) {
+    const hit = analysis.detectedViolations.some(v => (!q.violationType || v.type === q.violationType) && (!q.severity || v.severity === q.severity));
+    if (!hit) return false;
+  }
+  if (q.location && !(record.locationContext?.address || '').toLowerCase().includes(q.location.toLowerCase())) return false;
+  if (q.search && !record.report.summary.toLowerCase().includes(q.search.toLowerCase())) return false;
+  return true;
+};
+
+const SORT_VALUES: Record<AnalysisSortKey, (r: StoredAnalysis) => number> = {
+  timestamp: r => r.timestamp,
+  congestion: r => r.analysis.congestionLevel,
+  vehicles: r => r.analysis.totalVehicles,
+  violations: r => r.analysis.detectedViolations.length,
+  priority: r => r.report.priorityScore,
+};
+
+/** True when nothing but the date range narrows the query and it sorts by time, so pages can be read off the timestamp index. */
+const isTimeOrderedOnly = (q: AnalysisQuery): boolean =>
+  q.sortBy === 'timestamp' && !q.search && !q.location && !q.sceneType && !q.flowStatus
+  && q.congestionMin <= 0 && q.congestionMax >= 100 && !q.violationType && !q.severity;
+
+/** Up to `count` records from `index` in cursor order, skipping the first `offset`. */
+const readIndexPage = (index: IDBIndex, range: IDBKeyRange | null, direction: IDBCursorDirection, offset: number, count: number): Promise<StoredAnalysis[]> =>
+  new Promise((resolve, reject) => {
+    const records: StoredAnalysis[] = [];
+    let skipped = offset === 0;
+    const request = index.openCursor(range, direction);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || count <= 0) return resolve(records);
+      if (!skipped) {
+        skipped = true;
+        return cursor.advance(offset);
+      }
+      records.push(cursor.value as StoredAnalysis);
+      if (records.length >= count) return resolve(records);
+      cursor.continue();
+    };
+  });
+
+/**
+ * One page of records matching the query. `page` is zero-based. The date range is
+ * resolved on the timestamp index. Time-ordered queries without other filters advance a
+ * cursor to the page and read only its records; otherwise the remaining filters and
+ * sorting run over the records in range, which stay small next to the thumbnails and
+ * traces left in their own stores.
+ */
+export const getAnalysisPage = async (page: number, pageSize: number, query: AnalysisQuery = DEFAULT_ANALYSIS_QUERY): Promise<AnalysisPage> => {
+  const db = await openAnalysisDatabase();
+  const tx = db.transaction([ANALYSES, THUMBNAILS]);
+  const index = tx.objectStore(ANALYSES).index('timestamp');
+
+  const lower = query.from ?? undefined;
+  const upper = query.to ?? undefined;
+  const range = lower !== undefined && upper !== undefined ? IDBKeyRange.bound(lower, upper)
+    : lower !== undefined ? IDBKeyRange.lowerBound(lower)
+    : upper !== undefined ? IDBKeyRange.upperBound(upper)
+    : null;
+
+  let records: StoredAnalysis[];
+  let total: number;
+  if (isTimeOrderedOnly(query)) {
+    total = await requestToPromise(index.count(range ?? undefined));
+    records = await readIndexPage(index, range, query.sortDir === 'asc' ? 'next' : 'prev', page * pageSize, pageSize);
+  } else {
+    const sortValue = SORT_VALUES[query.sortBy];
+    const direction = query.sortDir === 'asc' ? 1 : -1;
+    const matches = (await requestToPromise<StoredAnalysis[]>(index.getAll(range)))
+      .filter(r => matchesQuery(r, query))
+      .sort((a, b) => (sortValue(a) - sortValue(b)) * direction || (b.timestamp - a.timestamp));
+    total = matches.length;
+    records = matches.slice(page * pageSize, (page + 1) * pageSize);
+  }
+
+  const thumbnails = await Promise.all(records.map(r => requestToPromise<StoredThumbnail | undefined>(tx.objectStore(THUMBNAILS).get(r.id))));
+  const items = records.map((r, i) => ({ ...r, thumbnail: thumbnails[i] ? URL.createObjectURL(thumbnails[i]!.blob) : '' }) as HistoryItem);
+  return { items, total, storedTotal: await requestToPromise(tx.objectStore(ANALYSES).count()), page, pageSize };
+};
+
+/** Full records (thumbnails as data URIs, with traces) for export and comparison, in the order given. */
+export const getAnalysesByIds = async (ids: string[]): Promise<HistoryItem[]> => {
+  const db = await openAnalysisDatabase();
+  const tx = db.transaction([ANALYSES, THUMBNAILS, TRACES]);
+  const records = await Promise.all(ids.map(id => requestToPromise<StoredAnalysis | undefined>(tx.objectStore(ANALYSES).get(id))));
+  const thumbnails = await Promise.all(ids.map(id => requestToPromise<StoredThumbnail | undefined>(tx.objectStore(THUMBNAILS).get(id))));
+  const traces = await Promise.all(ids.map(id => requestToPromise<StoredTrace | undefined>(tx.objectStore(TRACES).get(id))));
+  const urls = await Promise.all(thumbnails.map(t => (t ? blobToDataUrl(t.blob) : Promise.resolve(''))));
+  return records.flatMap((r, i) => (r ? [{ ...r, thumbnail: urls[i], ...(traces[i] ? { trace: traces[i]!.trace } : {}) } as HistoryItem] : []));
+};
+
+export const deleteAnalyses = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  const db = await openAnalysisDatabase();
+  const tx = db.transaction([ANALYSES, THUMBNAILS, TRACES], 'readwrite');
+  ids.forEach(id => {
+    tx.objectStore(ANALYSES).delete(id);
+    tx.objectStore(THUMBNAILS).delete(id);
+    tx.objectStore(TRACES).delete(id);
+  });
+  await transactionDone(tx);
+};
+
+// --- RETENTION ---
+
+export const loadRetentionPolicy = (): RetentionPolicy => {
+  try {
+    const saved = localStorage.getItem(RETENTION_STORAGE_KEY);
+    if (saved) return { ...DEFAULT_RETENTION_POLICY, ...JSON.parse(saved) };
+  } catch (e) {
+    console.error(e);
+  }
+  return { ...DEFAULT_RETENTION_POLICY };
+};
+
+export const saveRetentionPolicy = (policy: RetentionPolicy) => {
+  localStorage.setItem(RETENTION_STORAGE_KEY, JSON.stringify(policy));
+};
+
+/** IDs of the records the policy would delete: too old or beyond the count limit (oldest first). */
+export const findExpiredAnalyses = async (policy: RetentionPolicy): Promise<string[]> => {
+  const db = await openAnalysisDatabase();
+  const cutoff = policy.maxAgeDays !== null ? Date.now() - policy.maxAgeDays * 86400000 : -Infinity;
+
+  return new Promise((resolve, reject) => {
+    const ids: string[] = [];
+    let kept = 0;
+    const request = db.transaction(ANALYSES).objectStore(ANALYSES).index('timestamp').openCursor(null, 'prev');
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve(ids);
+      const record = cursor.value as StoredAnalysis;
+      if (record.timestamp < cutoff || (policy.maxRecords !== null && kept >= policy.maxRecords)) ids.push(record.id);
+      else kept++;
+      cursor.continue();
+    };
+  });
+};
+
+/** Deletes the records findExpiredAnalyses() reports. Returns how many were removed. */
+export const applyRetention = async (policy: RetentionPolicy): Promise<number> => {
+  const expired = await findExpiredAnalyses(policy);
+  await deleteAnalyses(expired);
+  return expired.length;
+};
+
+// --- LEGACY IMPORT ---
+
+/**
+ * One-time move of the old localStorage history into the database. Runs after open
+ * rather than inside the upgrade, since thumbnail encoding is asynchronous and would let
+ * the version-change transaction commit early. The key is removed once every item is stored.
+ */
+export const migrateLegacyHistory = async (): Promise<number> => {
+  const saved = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (!saved) return 0;
+
+  let items: HistoryItem[] = [];
+  try {
+    items = JSON.parse(saved);
+  } catch (e) {
+    console.error(e);
+  }
+
+  let migrated = 0;
+  for (const item of Array.isArray(items) ? items : []) {
+    try {
+      await saveAnalysis(item, { maxRecords: null, maxAgeDays: null });
+      migrated++;
+    } catch (e) {
+      console.warn("Skipped legacy history item", item?.id, e);
+    }
+  }
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+  await applyRetention(loadRetentionPolicy());
+  return migrated;
+};
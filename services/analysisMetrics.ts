@@ -0,0 +1,35 @@
+import { DetectionItem, FullAnalysisResult, Violation } from "../types";
+
+// Per-result aggregates shared by the dashboard and the comparison view.
+
+export interface ClassCount {
+  name: string;
+  count: number;
+}
+
+/** Vehicle detections grouped by object class, summing their counts. */
+export const vehicleClassBreakdown = (detections: DetectionItem[]): ClassCount[] =>
+  detections
+    .filter(d => d.type === 'vehicle')
+    .reduce((acc: ClassCount[], curr) => {
+      const existing = acc.find(item => item.name === curr.object);
+      if (existing) existing.count += curr.count;
+      else acc.push({ name: curr.object, count: curr.count });
+      return acc;
+    }, []);
+
+export const violationsByType = (violations: Violation[]): Partial<Record<Violation['type'], number>> =>
+  violations.reduce((acc: Partial<Record<Violation['type'], number>>, v) => {
+    acc[v.type] = (acc[v.type] || 0) + 1;
+    return acc;
+  }, {});
+
+/** Headline numbers compared across results. */
+export const SUMMARY_METRICS: { label: string; unit?: string; value: (r: FullAnalysisResult) => number }[] = [
+  { label: 'Vehicles', value: r => r.analysis.totalVehicles },
+  { label: 'Pedestrians', value: r => r.analysis.pedestrianCount },
+  { label: 'Congestion', unit: '%', value: r => r.analysis.congestionLevel },
+  { label: 'Avg speed', unit: 'km/h', value: r => r.analysis.estimatedAverageSpeed },
+  { label: 'Violations', value: r => r.analysis.detectedViolations.length },
+  { label: 'Priority', unit: '/10', value: r => r.report.priorityScore },
+];
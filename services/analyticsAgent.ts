@@ -0,0 +1,180 @@
+import { Type } from "@google/genai";
+import { DetectionItem, FullAnalysisResult, ModelCallTrace, ResponseCoercion, TrafficAnalysis, Violation } from "../types";
+import { callModel, handleGeminiError } from "./geminiService";
+import { PerceptionOutput } from "./perceptionAgent";
+import { parseModelJson, TrafficTrend, validateAnalyticsResponse } from "./responseValidation";
+
+// Agent 2: reasons over the tracker's output and recent history rather than the pixels.
+// Counts always come from the tracker; the model (full depth) judges congestion, trend
+// and which single-frame observations hold up.
+
+export interface AnalyticsInput {
+  perception: PerceptionOutput;
+  tracked: DetectionItem[];        // Detections after tracking (ids, speeds, flags)
+  trackingViolations: Violation[]; // Derived from tracks, zones and signal phases
+  history: FullAnalysisResult[];   // Recent results, oldest first
+}
+
+export interface AnalyticsOutput {
+  analysis: TrafficAnalysis;
+  trend: TrafficTrend;
+  riskNotes: string[];
+  modelId?: string;
+  coercions: ResponseCoercion[];
+}
+
+const analyticsSchema = {
+  type: Type.OBJECT,
+  properties: {
+    congestionLevel: { type: Type.INTEGER },
+    trafficFlowStatus: { type: Type.STRING, enum: ["Free Flow", "Moderate", "Heavy", "Gridlock"] },
+    estimatedAverageSpeed: { type: Type.INTEGER },
+    detectedViolations: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          type: { type: Type.STRING, enum: ["Red Light", "Jaywalking", "Wrong Lane", "Speeding", "Other"] },
+          description: { type: Type.STRING },
+          severity: { type: Type.STRING, enum: ["Low", "Medium", "High"] }
+        }
+      }
+    },
+    trend: { type: Type.STRING, enum: ["Improving", "Stable", "Worsening"] },
+    riskNotes: { type: Type.ARRAY, items: { type: Type.STRING } }
+  },
+  required: ["congestionLevel", "trafficFlowStatus", "trend"]
+};
+
+const SYSTEM_INSTRUCTION = `
+  You are the Analytics Agent of the 'Multi AI Agent' Traffic Monitoring System.
+  You receive structured data, not images: the perception agent's frame summary, tracked
+  objects with measured speeds and behaviour flags, tracker-derived violations and recent history.
+
+  - Judge congestion (0-100) and flow status from vehicle counts, speeds and the history.
+  - Classify the trend against the history as Improving, Stable or Worsening.
+  - Review the perception agent's observed violations; keep only those consistent with the tracks.
+    Do not repeat tracker violations, they are kept as-is.
+  - Report the average vehicle speed in km/h, preferring measured speeds.
+  - Add short risk notes for conflicts or patterns worth a human's attention.
+`;
+
+const MAX_TRACKS_IN_PROMPT = 40;
+const TREND_THRESHOLD = 10; // Congestion points above or below the recent mean
+
+// --- LOCAL RULES ---
+
+const countOf = (tracked: DetectionItem[], type: DetectionItem['type']) => tracked.filter(d => d.type === type).length;
+
+const averageSpeed = (tracked: DetectionItem[]): number => {
+  const speeds = tracked.filter(d => d.type === 'vehicle' && (d.estimatedSpeed ?? 0) > 0).map(d => d.estimatedSpeed!);
+  return speeds.length > 0 ? Math.round(speeds.reduce((a, b) => a + b, 0) / speeds.length) : 0;
+};
+
+const trendFrom = (congestion: number, history: FullAnalysisResult[]): TrafficTrend => {
+  const recent = history.slice(-5).map(h => h.analysis.congestionLevel);
+  if (recent.length === 0) return 'Stable';
+  const mean = recent.reduce((a, b) => a + b, 0) / recent.length;
+  return congestion - mean > TREND_THRESHOLD ? 'Worsening' : mean - congestion > TREND_THRESHOLD ? 'Improving' : 'Stable';
+};
+
+const dedupeViolations = (violations: Violation[]): Violation[] => {
+  const seen = new Set<string>();
+  return violations.filter(v => {
+    const key = `${v.type}|${v.trackId ?? v.description}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const localRiskNotes = (input: AnalyticsInput, congestion: number): string[] => {
+  const notes: string[] = [];
+  const nearMisses = input.tracked.filter(d => d.nearMissWith !== undefined).length;
+  if (nearMisses > 0) notes.push(`${nearMisses} tracked object${nearMisses > 1 ? 's' : ''} in a predicted near miss`);
+  const pedestrians = countOf(input.tracked, 'pedestrian');
+  if (pedestrians > 0 && congestion >= 60) notes.push(`${pedestrians} pedestrian${pedestrians > 1 ? 's' : ''} among heavy traffic`);
+  if (input.trackingViolations.some(v => v.type === 'Red Light')) notes.push('Red-light run recorded at a stop line');
+  return notes;
+};
+
+/** Deterministic analytics for real-time loops, and the fallback when the model call fails. */
+export const analyzeLocally = (input: AnalyticsInput): AnalyticsOutput => {
+  const { perception, tracked, trackingViolations, history } = input;
+  return {
+    analysis: {
+      totalVehicles: countOf(tracked, 'vehicle'),
+      pedestrianCount: countOf(tracked, 'pedestrian'),
+      trafficLights: perception.trafficLights,
+      congestionLevel: perception.congestionLevel,
+      trafficFlowStatus: perception.trafficFlowStatus,
+      sceneType: perception.sceneType,
+      estimatedAverageSpeed: averageSpeed(tracked),
+      detectedViolations: dedupeViolations([...perception.observedViolations, ...trackingViolations]),
+    },
+    trend: trendFrom(perception.congestionLevel, history),
+    riskNotes: localRiskNotes(input, perception.congestionLevel),
+    coercions: [],
+  };
+};
+
+// --- MODEL ---
+
+const buildPrompt = ({ perception, tracked, trackingViolations, history }: AnalyticsInput): string => JSON.stringify({
+  perception: {
+    sceneType: perception.sceneType,
+    congestionLevel: perception.congestionLevel,
+    trafficFlowStatus: perception.trafficFlowStatus,
+    trafficLights: perception.trafficLights.map(l => l.state),
+    observedViolations: perception.observedViolations,
+  },
+  tracks: tracked.filter(d => d.type === 'vehicle' || d.type === 'pedestrian').slice(0, MAX_TRACKS_IN_PROMPT).map(d => ({
+    id: d.trackId,
+    category: d.trackCategory ?? d.type,
+    object: d.object,
+    speedKmh: d.estimatedSpeed !== undefined ? Math.round(d.estimatedSpeed) : undefined,
+    lane: d.laneEvent,
+    flags: [d.isSpeeding && 'speeding', d.isWrongWay && 'wrong way', d.isJaywalking && 'jaywalking', d.nearMissWith !== undefined && `near miss with #${d.nearMissWith}`].filter(Boolean),
+  })),
+  trackerViolations: trackingViolations.map(v => ({ type: v.type, trackId: v.trackId, description: v.description })),
+  history: history.map(h => ({
+    t: h.timestamp,
+    congestionLevel: h.analysis.congestionLevel,
+    vehicles: h.analysis.totalVehicles,
+    averageSpeed: h.analysis.estimatedAverageSpeed,
+  })),
+});
+
+/** Full-depth analytics: a text-only model call over the structured inputs. */
+export const runAnalyticsAgent = async (input: AnalyticsInput, signal?: AbortSignal, calls?: ModelCallTrace[]): Promise<AnalyticsOutput> => {
+  try {
+    const response = await callModel({
+      task: 'analytics',
+      prompt: buildPrompt(input),
+      systemInstruction: SYSTEM_INSTRUCTION,
+      responseSchema: analyticsSchema,
+      temperature: 0.2,
+    }, signal, calls);
+    const data = validateAnalyticsResponse(parseModelJson(response.text, 'analytics'));
+    const measuredSpeed = averageSpeed(input.tracked);
+
+    return {
+      analysis: {
+        totalVehicles: countOf(input.tracked, 'vehicle'),
+        pedestrianCount: countOf(input.tracked, 'pedestrian'),
+        trafficLights: input.perception.trafficLights,
+        congestionLevel: data.congestionLevel,
+        trafficFlowStatus: data.trafficFlowStatus,
+        sceneType: input.perception.sceneType,
+        estimatedAverageSpeed: measuredSpeed > 0 ? measuredSpeed : data.estimatedAverageSpeed,
+        detectedViolations: dedupeViolations([...data.detectedViolations, ...input.trackingViolations]),
+      },
+      trend: data.trend,
+      riskNotes: data.riskNotes,
+      modelId: response.modelId,
+      coercions: data.coercions,
+    };
+  } catch (error) {
+    return handleGeminiError(error);
+  }
+};
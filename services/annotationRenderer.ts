@@ -0,0 +1,152 @@
+import { DetectionItem, TrajectoryPoint } from "../types";
+
+// Detection annotations (boxes, trails, motion arrows, lane flows) drawn onto a 2D
+// canvas. Shared by the live overlay and report frames so both show the same picture.
+
+/**
+ * Draws the annotations for `detections` over a width x height area. `getTail` supplies
+ * the recent trajectory for a track id; trails are skipped without it. `getOpacity` fades
+ * individual detections (the live overlay's coasting tracks); lane flows stay opaque.
+ */
+export const drawAnnotations = (
+  ctx: CanvasRenderingContext2D,
+  detections: DetectionItem[],
+  width: number,
+  height: number,
+  getTail?: (trackId: number) => TrajectoryPoint[],
+  getOpacity?: (det: DetectionItem) => number
+) => {
+  // --- AGGREGATE FLOW CALCULATION ---
+  const gridCols = 8;
+  const gridFlows = new Array(gridCols).fill(0).map(() => ({ sumVel: 0, count: 0 }));
+
+  detections.forEach(det => {
+      if (!det.box_2d) return;
+      const [ymin, xmin, ymax, xmax] = det.box_2d;
+      
+      // --- DRAW BOXES ---
+      const x = (xmin / 1000) * width;
+      const y = (ymin / 1000) * height;
+      const w = ((xmax - xmin) / 1000) * width;
+      const h = ((ymax - ymin) / 1000) * height;
+      
+      const isTracked = !!det.trackId;
+      // COLOR THEME MAPPING
+      // Speeding/Near Miss -> Red, WrongWay/Jaywalking -> Orange,
+      // Tracked -> Sky Blue (vehicle) / Indigo (pedestrian) / Cream (cyclist), Idle -> Slate
+      const trackedColor = det.trackCategory === 'pedestrian' ? '#6366F1' : det.trackCategory === 'cyclist' ? '#FEF9C3' : '#7DD3FC';
+      const color = (det.isSpeeding || det.nearMissWith !== undefined) ? '#FF6B6B'
+        : (det.isWrongWay || det.isJaywalking) ? '#F59E0B'
+        : isTracked ? trackedColor : '#94a3b8';
+      const opacity = getOpacity ? getOpacity(det) : 1;
+
+      // --- DRAW FADING TRAIL ---
+      if (isTracked) {
+          const tail = getTail ? getTail(det.trackId!) : [];
+          ctx.save();
+          ctx.strokeStyle = trackedColor;
+          ctx.lineWidth = 2;
+          ctx.lineCap = 'round';
+          for (let i = 1; i < tail.length; i++) {
+              ctx.globalAlpha = (i / tail.length) * 0.8 * opacity; // Oldest segment fades out
+              ctx.beginPath();
+              ctx.moveTo(tail[i - 1].centroid[0] * width, tail[i - 1].centroid[1] * height);
+              ctx.lineTo(tail[i].centroid[0] * width, tail[i].centroid[1] * height);
+              ctx.stroke();
+          }
+          ctx.restore();
+      }
+      
+      ctx.save();
+      ctx.globalAlpha = opacity;
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 2;
+      ctx.strokeRect(x, y, w, h);
+      
+      // Label
+      ctx.fillStyle = color;
+      ctx.fillRect(x, y - 20, w, 20);
+      ctx.fillStyle = '#0B0F19'; // Brand Dark
+      ctx.font = 'bold 10px monospace';
+      ctx.fillText(`${det.object} ${det.trackId ? '#'+det.trackId : ''}`, x + 2, y - 6);
+
+      // --- DRAW INDIVIDUAL FLOW ARROWS ---
+      const [vx, vy] = det.velocityVector || [0, 0];
+      if (isTracked && Math.hypot(vx, vy) > 0.01) {
+          const centerX = x + w / 2;
+          const centerY = y + h / 2;
+          // Arrow points to where the object will be in ~1s
+          const endX = centerX + vx * width;
+          const endY = centerY + vy * height;
+
+          ctx.beginPath();
+          ctx.moveTo(centerX, centerY);
+          ctx.lineTo(endX, endY);
+          ctx.strokeStyle = det.isWrongWay ? '#FF6B6B' : trackedColor;
+          ctx.lineWidth = 3;
+          ctx.stroke();
+
+          const angle = Math.atan2(endY - centerY, endX - centerX);
+          const headLen = 10;
+          ctx.beginPath();
+          ctx.moveTo(endX, endY);
+          ctx.lineTo(endX - headLen * Math.cos(angle - Math.PI / 6), endY - headLen * Math.sin(angle - Math.PI / 6));
+          ctx.lineTo(endX - headLen * Math.cos(angle + Math.PI / 6), endY - headLen * Math.sin(angle + Math.PI / 6));
+          ctx.lineTo(endX, endY);
+          ctx.fillStyle = ctx.strokeStyle;
+          ctx.fill();
+
+          // Accumulate for grid flow (vehicle lanes only)
+          const gridX = (xmin + xmax) / 2 / 1000;
+          const colIndex = Math.floor(gridX * gridCols);
+          if (det.trackCategory === 'vehicle' && colIndex >= 0 && colIndex < gridCols) {
+              gridFlows[colIndex].sumVel += vy;
+              gridFlows[colIndex].count += 1;
+          }
+      }
+      ctx.restore();
+  });
+
+  // --- DRAW AGGREGATE LANE FLOWS ---
+  const colWidth = width / gridCols;
+  gridFlows.forEach((flow, i) => {
+      if (flow.count > 0) {
+          const avgVel = flow.sumVel / flow.count;
+          if (Math.abs(avgVel) > 0.01) {
+              const isDown = avgVel > 0;
+              const x = i * colWidth + colWidth / 2;
+              const arrowSize = 40;
+              const startY = isDown ? 40 : height - 40;
+              const endY = isDown ? 40 + arrowSize : height - 40 - arrowSize;
+              
+              ctx.save();
+              ctx.globalAlpha = 0.4;
+              ctx.strokeStyle = '#6366F1'; // Brand Indigo
+              ctx.fillStyle = '#6366F1';
+              ctx.lineWidth = 8;
+              
+              ctx.beginPath();
+              ctx.moveTo(x, startY);
+              ctx.lineTo(x, endY);
+              ctx.stroke();
+
+              const angle = isDown ? Math.PI / 2 : -Math.PI / 2;
+              const headLen = 20;
+              ctx.beginPath();
+              ctx.moveTo(x, endY);
+              ctx.lineTo(x - headLen * Math.cos(angle - Math.PI / 4), endY - headLen * Math.sin(angle - Math.PI / 4));
+              ctx.lineTo(x - headLen * Math.cos(angle + Math.PI / 4), endY - headLen * Math.sin(angle + Math.PI / 4));
+              ctx.lineTo(x, endY);
+              ctx.fill();
+
+              ctx.globalAlpha = 0.9;
+              ctx.fillStyle = '#FEF9C3'; // Brand Cream
+              ctx.font = 'bold 12px sans-serif';
+              ctx.textAlign = 'center';
+              ctx.fillText(isDown ? 'INCOMING' : 'OUTGOING', x, isDown ? startY - 10 : startY + 20);
+
+              ctx.restore();
+          }
+      }
+  });
+};
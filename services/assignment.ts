@@ -0,0 +1,73 @@
+// Hungarian (Kuhn-Munkres) solver for rectangular cost matrices.
+
+/** Cost used for pairs that must never be matched (gated out). */
+export const GATED_COST = 1e6;
+
+/**
+ * Finds the row -> column assignment with minimum total cost.
+ * Returns an array indexed by row holding the assigned column, or -1 when the row
+ * stays unmatched (more rows than columns, or its only options were gated).
+ */
+export const solveAssignment = (cost: number[][]): number[] => {
+  const rows = cost.length;
+  if (rows === 0) return [];
+  const cols = cost[0].length;
+  if (cols === 0) return new Array(rows).fill(-1);
+
+  // Pad to a square matrix; padded cells cost the same as a gated pair.
+  const n = Math.max(rows, cols);
+  const a = (i: number, j: number) => (i < rows && j < cols ? cost[i][j] : GATED_COST);
+
+  // Potentials formulation, 1-indexed (e-maxx), O(n^3)
+  const u = new Array(n + 1).fill(0);
+  const v = new Array(n + 1).fill(0);
+  const p = new Array(n + 1).fill(0);   // p[j] = row matched to column j
+  const way = new Array(n + 1).fill(0);
+
+  for (let i = 1; i <= n; i++) {
+    p[0] = i;
+    let j0 = 0;
+    const minv = new Array(n + 1).fill(Infinity);
+    const used = new Array(n + 1).fill(false);
+    do {
+      used[j0] = true;
+      const i0 = p[j0];
+      let delta = Infinity;
+      let j1 = 0;
+      for (let j = 1; j <= n; j++) {
+        if (used[j]) continue;
+        const cur = a(i0 - 1, j - 1) - u[i0] - v[j];
+        if (cur < minv[j]) {
+          minv[j] = cur;
+          way[j] = j0;
+        }
+        if (minv[j] < delta) {
+          delta = minv[j];
+          j1 = j;
+        }
+      }
+      for (let j = 0; j <= n; j++) {
+        if (used[j]) {
+          u[p[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minv[j] -= delta;
+        }
+      }
+      j0 = j1;
+    } while (p[j0] !== 0);
+    do {
+      const j1 = way[j0];
+      p[j0] = p[j1];
+      j0 = j1;
+    } while (j0);
+  }
+
+  const assignment = new Array(rows).fill(-1);
+  for (let j = 1; j <= n; j++) {
+    const i = p[j] - 1;
+    const col = j - 1;
+    if (i < rows && col < cols && cost[i][col] < GATED_COST) assignment[i] = col;
+  }
+  return assignment;
+};
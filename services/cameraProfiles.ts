@@ -0,0 +1,50 @@
+import { CameraProfile } from "../types";
+
+const PROFILES_STORAGE_KEY = 'multi_ai_agent_cameras';
+
+export const DEFAULT_CAMERA_PROFILE: CameraProfile = {
+  id: 'default',
+  name: 'Default Camera',
+};
+
+export const loadCameraProfiles = (): CameraProfile[] => {
+  try {
+    const saved = localStorage.getItem(PROFILES_STORAGE_KEY);
+    if (saved) {
+      const profiles = JSON.parse(saved) as CameraProfile[];
+      if (Array.isArray(profiles) && profiles.length > 0) return profiles;
+    }
+  } catch (e) {
+    console.error(e);
+  }
+  return [{ ...DEFAULT_CAMERA_PROFILE }];
+};
+
+export const saveCameraProfiles = (profiles: CameraProfile[]) => {
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+};
+
+/** Inserts or replaces `profile` (matched by id) and persists the list. */
+export const upsertCameraProfile = (profile: CameraProfile): CameraProfile[] => {
+  const profiles = loadCameraProfiles();
+  const index = profiles.findIndex(p => p.id === profile.id);
+  if (index === -1) profiles.push(profile);
+  else profiles[index] = profile;
+  saveCameraProfiles(profiles);
+  return profiles;
+};
+
+/** A new profile with a unique id; not persisted until upserted. */
+export const createCameraProfile = (name: string, source?: CameraProfile['source']): CameraProfile => ({
+  id: `cam_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+  name,
+  source,
+});
+
+/** Removes a profile. The last remaining profile is kept so the monitor always has one. */
+export const deleteCameraProfile = (id: string): CameraProfile[] => {
+  const profiles = loadCameraProfiles().filter(p => p.id !== id);
+  const next = profiles.length > 0 ? profiles : [{ ...DEFAULT_CAMERA_PROFILE }];
+  saveCameraProfiles(next);
+  return next;
+};
@@ -0,0 +1,127 @@
+import { CameraProfile, FullAnalysisResult, OriginDestinationAnalysis, SignalPhase, TrackTrajectory, TurningMovementCount, Violation, Zone } from "../types";
+import { ObjectTracker } from "./trackingService";
+import { TurningMovementCounter } from "./turningMovementService";
+import { TrajectoryStore } from "./trajectoryStore";
+import { OriginDestinationAccumulator } from "./originDestination";
+import { RedLightDetector, SignalPhaseTracker } from "./signalPhaseService";
+import { PerceptionOutput } from "./perceptionAgent";
+import { TrackingOutput } from "./agentOrchestrator";
+
+// Results the analytics and reporting agents see as history
+const AGENT_HISTORY_LENGTH = 10;
+
+/**
+ * Everything that accumulates across frames of one camera: tracks, turning movements,
+ * trajectories and their origin-destination flows, the signal timeline and the agents'
+ * recent history. The monitor owns
+ * one; every camera wall tile owns its own.
+ */
+export class CameraSession {
+  public readonly tracker = new ObjectTracker();
+  public readonly movementCounter = new TurningMovementCounter();
+  public readonly trajectoryStore = new TrajectoryStore();
+  public readonly signalTracker = new SignalPhaseTracker();
+  public readonly redLightDetector = new RedLightDetector(this.signalTracker);
+  public readonly originDestination = new OriginDestinationAccumulator();
+  private zones?: Zone[];
+  private recentResults: FullAnalysisResult[] = [];
+
+  constructor(profile?: CameraProfile) {
+    if (profile) this.applyProfile(profile);
+  }
+
+  /** Calibration, zones and speed limits; takes effect from the next frame. */
+  public applyProfile(profile: CameraProfile) {
+    this.tracker.setCalibration(profile.calibration);
+    this.tracker.setZones(profile.zones);
+    this.tracker.setSpeedLimits(profile.speedLimits);
+    this.movementCounter.setZones(profile.zones);
+    this.redLightDetector.setZones(profile.zones);
+    if (profile.zones !== this.zones) {
+      // Re-resolve every completed trajectory against the new zones
+      this.zones = profile.zones;
+      this.originDestination.setZones(profile.zones);
+      this.originDestination.reset();
+      this.trajectoryStore.getAll().filter(t => t.completed).forEach(t => this.originDestination.add(t));
+    }
+  }
+
+  /** Tracking step between perception and analytics: feeds every tracker and collects their violations. */
+  public track(perception: PerceptionOutput, timestamp: number): TrackingOutput {
+    const tracked = this.tracker.update(perception.detections, timestamp);
+
+    // Turning movements from gate crossings
+    const crossings = this.tracker.drainZoneCrossings();
+    if (crossings.length > 0) this.movementCounter.ingest(crossings);
+
+    // Signal timeline, then stop-line crossings judged against it
+    if (perception.trafficLights.length) this.signalTracker.observe(perception.trafficLights, timestamp);
+    const redLightRuns = this.redLightDetector.ingest(crossings);
+
+    const violations: Violation[] = [];
+    tracked.forEach(d => {
+      if (d.isSpeeding) violations.push({ type: 'Speeding', description: `Vehicle #${d.trackId} speeding`, severity: 'High', trackId: d.trackId });
+      if (d.isWrongWay) violations.push({ type: 'Wrong Lane', description: `Vehicle #${d.trackId} wrong way`, severity: 'High', trackId: d.trackId });
+      if (d.isJaywalking) violations.push({ type: 'Jaywalking', description: `Pedestrian #${d.trackId} crossing against traffic`, severity: 'Medium', trackId: d.trackId });
+      if (d.nearMissWith !== undefined) violations.push({ type: 'Other', description: `Near miss: ${d.trackCategory} #${d.trackId} and vehicle #${d.nearMissWith}`, severity: 'High', trackId: d.trackId });
+      d.zoneViolations?.forEach(z => violations.push({ type: z.type, description: z.description, severity: z.severity, trackId: d.trackId, zoneId: z.zoneId }));
+    });
+    violations.push(...redLightRuns);
+
+    // Session trajectories for trails and track replay
+    this.trajectoryStore.record(tracked, timestamp);
+    this.trajectoryStore.recordViolations(violations, timestamp);
+    this.trajectoryStore.markCompleted(this.tracker.getActiveTrackIds()).forEach(t => this.originDestination.add(t));
+
+    return { detections: tracked, violations, matches: this.tracker.getLastMatches() };
+  }
+
+  /**
+   * Ends every track and open signal phase after a jump in media time, and drops the gate
+   * entries and stop-line crossings still waiting on them, so nothing observed before the
+   * jump is matched against what comes after. Counts, trajectories, the phase timeline and
+   * history are kept.
+   */
+  public restartTracking() {
+    this.tracker.dropTracks();
+    this.trajectoryStore.completeAll().forEach(t => this.originDestination.add(t));
+    this.movementCounter.restart();
+    this.signalTracker.restart();
+    this.redLightDetector.reset();
+  }
+
+  public recordResult(result: FullAnalysisResult) {
+    this.recentResults = [...this.recentResults, result].slice(-AGENT_HISTORY_LENGTH);
+  }
+
+  /** Recent results, oldest first, for the analytics and reporting agents. */
+  public getHistory(): FullAnalysisResult[] {
+    return this.recentResults;
+  }
+
+  public getMovementCounts(): TurningMovementCount[] {
+    return this.movementCounter.getCounts();
+  }
+
+  public getTrajectories(): TrackTrajectory[] {
+    return this.trajectoryStore.getAll();
+  }
+
+  public getOriginDestination(): OriginDestinationAnalysis {
+    return this.originDestination.getAnalysis();
+  }
+
+  public getSignalPhases(): SignalPhase[] {
+    return this.signalTracker.getTimeline();
+  }
+
+  public reset() {
+    this.tracker.reset();
+    this.movementCounter.reset();
+    this.trajectoryStore.reset();
+    this.originDestination.reset();
+    this.signalTracker.reset();
+    this.redLightDetector.reset();
+    this.recentResults = [];
+  }
+}
@@ -0,0 +1,147 @@
+import { FullAnalysisResult, OriginDestinationAnalysis, SignalPhase, TrackTrajectory, TurningMovementCount } from "../types";
+import { downloadFile } from "./fileDownload";
+
+// File exports for single results, database selections and whole video sessions.
+
+export const EXPORT_SCHEMA = 'multi-ai-agent/traffic-analysis';
+export const EXPORT_SCHEMA_VERSION = 1;
+
+export type ExportFormat = 'json' | 'csv-detections' | 'csv-violations' | 'csv-tracks' | 'geojson';
+export type ExportScope = 'analysis' | 'selection' | 'session';
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; sessionOnly?: boolean }[] = [
+  { format: 'json', label: 'JSON (versioned bundle)' },
+  { format: 'csv-detections', label: 'CSV – one row per detection' },
+  { format: 'csv-violations', label: 'CSV – one row per violation' },
+  { format: 'csv-tracks', label: 'CSV – track points', sessionOnly: true },
+  { format: 'geojson', label: 'GeoJSON (located analyses)' },
+];
+
+/** An analysis as exported; database records keep their id and thumbnail. */
+export type ExportedAnalysis = FullAnalysisResult & { id?: string; thumbnail?: string };
+
+export interface SessionExport {
+  trajectories: TrackTrajectory[];
+  movementCounts: TurningMovementCount[];
+  signalPhases: SignalPhase[];
+  originDestination?: OriginDestinationAnalysis;
+}
+
+/**
+ * JSON export envelope. `version` is bumped whenever the shape of `analyses` or `session`
+ * changes, so importers can migrate older files.
+ */
+export interface AnalysisExportBundle {
+  schema: typeof EXPORT_SCHEMA;
+  version: number;
+  exportedAt: string; // ISO 8601
+  scope: ExportScope;
+  analyses: ExportedAnalysis[];
+  session?: SessionExport;
+}
+
+export const buildExportBundle = (scope: ExportScope, analyses: ExportedAnalysis[], session?: SessionExport): AnalysisExportBundle => ({
+  schema: EXPORT_SCHEMA,
+  version: EXPORT_SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  scope,
+  analyses,
+  session,
+});
+
+// --- CSV ---
+
+const csvCell = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (header: string[], rows: unknown[][]): string =>
+  [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+
+const isoTime = (ts: number) => (ts < 1e11 ? '' : new Date(ts).toISOString()); // Media-time frames have no wall clock
+
+export const toDetectionsCsv = (analyses: ExportedAnalysis[]): string =>
+  toCsv(
+    ['analysis_id', 'timestamp', 'time_iso', 'object', 'type', 'count', 'confidence', 'track_id', 'track_category', 'speed_kmh', 'speed_calibrated', 'ymin', 'xmin', 'ymax', 'xmax'],
+    analyses.flatMap((a, i) => a.detections.map(d => [
+      a.id ?? i, a.timestamp, isoTime(a.timestamp), d.object, d.type, d.count, d.confidence, d.trackId, d.trackCategory,
+      d.estimatedSpeed, d.speedCalibrated, ...(d.box_2d || ['', '', '', '']),
+    ]))
+  );
+
+export const toViolationsCsv = (analyses: ExportedAnalysis[]): string =>
+  toCsv(
+    ['analysis_id', 'timestamp', 'time_iso', 'type', 'severity', 'description', 'track_id', 'zone_id', 'observed_at', 'signal_id', 'signal_state', 'evidence_frames'],
+    analyses.flatMap((a, i) => a.analysis.detectedViolations.map(v => [
+      a.id ?? i, a.timestamp, isoTime(a.timestamp), v.type, v.severity, v.description, v.trackId, v.zoneId, v.timestamp,
+      v.evidence?.signalId, v.evidence?.signalState, v.evidence?.frameTimestamps.join(' '),
+    ]))
+  );
+
+export const toTrackPointsCsv = (trajectories: TrackTrajectory[]): string =>
+  toCsv(
+    ['track_id', 'category', 'object', 'timestamp', 'centroid_x', 'centroid_y', 'speed_kmh', 'ymin', 'xmin', 'ymax', 'xmax'],
+    trajectories.flatMap(t => t.points.map(p => [
+      t.trackId, t.category, t.objectClass, p.timestamp, p.centroid[0].toFixed(4), p.centroid[1].toFixed(4), p.speed, ...p.box,
+    ]))
+  );
+
+// --- GEOJSON ---
+
+/**
+ * One Point feature per analysis whose location context has coordinates. Analyses
+ * without coordinates are left out; throws when none have them.
+ */
+export const toGeoJson = (analyses: ExportedAnalysis[]): string => {
+  const located = analyses.filter(a => a.locationContext?.latitude !== undefined && a.locationContext?.longitude !== undefined);
+  if (located.length === 0) throw new Error("None of these analyses have coordinates. Run Detect Location before exporting GeoJSON.");
+
+  const features = located.map((a, i) => {
+    const violationCounts: Record<string, number> = {};
+    a.analysis.detectedViolations.forEach(v => { violationCounts[v.type] = (violationCounts[v.type] || 0) + 1; });
+    return {
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [a.locationContext!.longitude, a.locationContext!.latitude] },
+      properties: {
+        id: a.id ?? String(i),
+        timestamp: a.timestamp,
+        address: a.locationContext!.address,
+        sceneType: a.analysis.sceneType,
+        trafficFlowStatus: a.analysis.trafficFlowStatus,
+        congestionLevel: a.analysis.congestionLevel,
+        totalVehicles: a.analysis.totalVehicles,
+        pedestrianCount: a.analysis.pedestrianCount,
+        estimatedAverageSpeed: a.analysis.estimatedAverageSpeed,
+        violationCount: a.analysis.detectedViolations.length,
+        violationsByType: violationCounts,
+        priorityScore: a.report.priorityScore,
+        summary: a.report.summary,
+      },
+    };
+  });
+  return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+};
+
+// --- DOWNLOAD ---
+
+/** Builds the requested format and downloads it. Throws with a user-facing message when the format does not apply. */
+export const exportAnalyses = (format: ExportFormat, scope: ExportScope, analyses: ExportedAnalysis[], session?: SessionExport) => {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const base = `traffic-${scope}-${stamp}`;
+
+  switch (format) {
+    case 'json':
+      return downloadFile(`${base}.json`, JSON.stringify(buildExportBundle(scope, analyses, session), null, 2), 'application/json');
+    case 'csv-detections':
+      return downloadFile(`${base}-detections.csv`, toDetectionsCsv(analyses), 'text/csv');
+    case 'csv-violations':
+      return downloadFile(`${base}-violations.csv`, toViolationsCsv(analyses), 'text/csv');
+    case 'csv-tracks':
+      if (!session || session.trajectories.length === 0) throw new Error("Track points are only available for a session with tracked objects.");
+      return downloadFile(`${base}-tracks.csv`, toTrackPointsCsv(session.trajectories), 'text/csv');
+    case 'geojson':
+      return downloadFile(`${base}.geojson`, toGeoJson(analyses), 'application/geo+json');
+  }
+};
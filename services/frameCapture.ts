@@ -0,0 +1,33 @@
+export interface CapturedFrame {
+  mime: string;
+  data: string; // Raw base64 (no data URI prefix)
+}
+
+/**
+ * Draws the current frame of a video or image element onto `canvas` and returns it as
+ * JPEG. Null while the element has no frame yet. Cross-origin sources without CORS
+ * headers taint the canvas and throw.
+ */
+export const captureFrame = (
+  source: HTMLVideoElement | HTMLImageElement,
+  canvas: HTMLCanvasElement = document.createElement('canvas'),
+  quality = 0.8
+): CapturedFrame | null => {
+  const width = source instanceof HTMLVideoElement ? source.videoWidth : source.naturalWidth;
+  const height = source instanceof HTMLVideoElement ? source.videoHeight : source.naturalHeight;
+  if (!width || !height) return null;
+
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(source, 0, 0);
+
+  let url: string;
+  try {
+    url = canvas.toDataURL('image/jpeg', quality);
+  } catch (e) {
+    throw new Error("The source does not allow frame capture: the server must send CORS headers.");
+  }
+  return { mime: 'image/jpeg', data: url.split(',')[1] };
+};
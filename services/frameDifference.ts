@@ -0,0 +1,44 @@
+// Cheap visual change measure between frames: a small grayscale thumbnail per frame and
+// the mean absolute difference between two thumbnails. Used to skip frames that look
+// like the last analysed one.
+
+export interface FrameSignature {
+  width: number;
+  height: number;
+  luma: Uint8Array; // Row-major grayscale, 0-255
+}
+
+const SIGNATURE_WIDTH = 32;
+const SIGNATURE_HEIGHT = 18;
+
+/** Downscales the current frame of `source` to a grayscale signature. Null while it has no frame. */
+export const createFrameSignature = (
+  source: HTMLVideoElement | HTMLImageElement | HTMLCanvasElement,
+  canvas: HTMLCanvasElement = document.createElement('canvas')
+): FrameSignature | null => {
+  const ready = source instanceof HTMLVideoElement ? source.videoWidth > 0
+    : source instanceof HTMLImageElement ? source.naturalWidth > 0
+    : source.width > 0;
+  if (!ready) return null;
+
+  canvas.width = SIGNATURE_WIDTH;
+  canvas.height = SIGNATURE_HEIGHT;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(source, 0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+  const { data } = ctx.getImageData(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+
+  const luma = new Uint8Array(SIGNATURE_WIDTH * SIGNATURE_HEIGHT);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = Math.round(0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]);
+  }
+  return { width: SIGNATURE_WIDTH, height: SIGNATURE_HEIGHT, luma };
+};
+
+/** Mean absolute luma difference, 0 (identical) to 1. Signatures of different sizes count as fully different. */
+export const signatureDifference = (a: FrameSignature, b: FrameSignature): number => {
+  if (a.luma.length !== b.luma.length) return 1;
+  let sum = 0;
+  for (let i = 0; i < a.luma.length; i++) sum += Math.abs(a.luma[i] - b.luma[i]);
+  return sum / (a.luma.length * 255);
+};
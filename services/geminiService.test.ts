@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { DetectionItem } from '../types';
+import { applyNMS } from './geminiService';
+
+const car = (confidence: number, box_2d?: DetectionItem['box_2d']): DetectionItem =>
+  ({ object: 'car', type: 'vehicle', count: 1, confidence, box_2d });
+
+describe('applyNMS', () => {
+  it('keeps the most confident of overlapping boxes', () => {
+    const kept = applyNMS([car(0.6, [100, 100, 200, 200]), car(0.9, [105, 105, 205, 205]), car(0.7, [500, 500, 600, 600])]);
+    expect(kept.map(d => d.confidence)).toEqual([0.9, 0.7]);
+  });
+
+  it('passes detections without a usable box through unchanged', () => {
+    const unboxed = car(0.8);
+    const kept = applyNMS([car(0.9, [100, 100, 200, 200]), unboxed, car(0.5, [100, 100, 200, 200])]);
+    expect(kept).toHaveLength(2);
+    expect(kept[1]).toBe(unboxed);
+  });
+});
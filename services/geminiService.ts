@@ -1,103 +1,6 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { FullAnalysisResult, LocationContextData, DetectionItem, TrafficAnalysis, TrafficReport } from "../types";
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-// --- SCHEMAS ---
-
-// Fast Schema: Detections + Basic Stats Only
-const fastAnalysisSchema = {
-  type: Type.OBJECT,
-  properties: {
-    detections: {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          object: { type: Type.STRING },
-          count: { type: Type.INTEGER },
-          confidence: { type: Type.NUMBER },
-          type: { type: Type.STRING, enum: ["vehicle", "pedestrian", "infrastructure", "other"] },
-          box_2d: {
-             type: Type.ARRAY,
-             description: "Bounding box [ymin, xmin, ymax, xmax] normalized 0-1000",
-             items: { type: Type.INTEGER } 
-          }
-        }
-      }
-    },
-    congestionLevel: { type: Type.INTEGER },
-    trafficFlowStatus: { type: Type.STRING, enum: ["Free Flow", "Moderate", "Heavy", "Gridlock"] },
-  },
-  required: ["detections", "congestionLevel", "trafficFlowStatus"]
-};
-
-// Full Schema: Everything including text reports and scene type
-const fullAnalysisSchema = {
-  type: Type.OBJECT,
-  properties: {
-    detections: {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          object: { type: Type.STRING },
-          count: { type: Type.INTEGER },
-          confidence: { type: Type.NUMBER },
-          type: { type: Type.STRING, enum: ["vehicle", "pedestrian", "infrastructure", "other"] },
-          box_2d: {
-             type: Type.ARRAY,
-             items: { type: Type.INTEGER } 
-          }
-        }
-      }
-    },
-    analysis: {
-      type: Type.OBJECT,
-      properties: {
-        totalVehicles: { type: Type.INTEGER },
-        pedestrianCount: { type: Type.INTEGER },
-        trafficLights: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              state: { type: Type.STRING, enum: ["Red", "Yellow", "Green", "Off"] },
-              count: { type: Type.INTEGER }
-            }
-          }
-        },
-        congestionLevel: { type: Type.INTEGER },
-        trafficFlowStatus: { type: Type.STRING, enum: ["Free Flow", "Moderate", "Heavy", "Gridlock"] },
-        sceneType: { type: Type.STRING, enum: ["Highway", "Intersection", "City Street", "Parking Lot", "Tunnel", "Other"] },
-        estimatedAverageSpeed: { type: Type.INTEGER },
-        detectedViolations: { 
-          type: Type.ARRAY, 
-          items: { 
-            type: Type.OBJECT,
-            properties: {
-              type: { type: Type.STRING, enum: ["Red Light", "Jaywalking", "Wrong Lane", "Speeding", "Other"] },
-              description: { type: Type.STRING },
-              severity: { type: Type.STRING, enum: ["Low", "Medium", "High"] }
-            }
-          }
-        }
-      }
-    },
-    report: {
-      type: Type.OBJECT,
-      properties: {
-        summary: { type: Type.STRING },
-        recommendations: {
-          type: Type.ARRAY,
-          items: { type: Type.STRING }
-        },
-        priorityScore: { type: Type.INTEGER }
-      }
-    }
-  },
-  required: ["detections", "analysis", "report"]
-};
+import { LocationContextData, DetectionItem, ModelCallTrace } from "../types";
+import { getVisionProvider, VisionRequest, VisionResponse } from "./visionProvider";
+import { getRequestScheduler, isAbortError, isRateLimitError } from "./requestScheduler";
 
 // --- UTILITIES ---
 
@@ -158,11 +61,13 @@ const calculateIoU = (boxA: number[], boxB: number[]): number => {
     return interArea / (boxAArea + boxBArea - interArea);
 };
 
-const applyNMS = (detections: any[], iouThreshold: number = 0.5): any[] => {
+/** Non-maximum suppression over the boxed detections; ones without a box pass through unchanged, after them. */
+export const applyNMS = (detections: DetectionItem[], iouThreshold: number = 0.5): DetectionItem[] => {
     if (!detections || detections.length === 0) return [];
-    const validDetections = detections.filter(d => d.box_2d && d.box_2d.length === 4);
+    const hasBox = (d: DetectionItem) => !!d.box_2d && d.box_2d.length === 4;
+    const validDetections = detections.filter(hasBox);
     validDetections.sort((a, b) => (b.confidence ?? 0.5) - (a.confidence ?? 0.5));
-    const selected: any[] = [];
+    const selected: DetectionItem[] = [];
     const active = new Array(validDetections.length).fill(true);
 
     for (let i = 0; i < validDetections.length; i++) {
@@ -170,172 +75,82 @@ const applyNMS = (detections: any[], iouThreshold: number = 0.5): any[] => {
         selected.push(validDetections[i]);
         for (let j = i + 1; j < validDetections.length; j++) {
             if (!active[j]) continue;
-            const iou = calculateIoU(validDetections[i].box_2d, validDetections[j].box_2d);
+            const iou = calculateIoU(validDetections[i].box_2d!, validDetections[j].box_2d!);
             if (iou > iouThreshold) active[j] = false;
         }
     }
-    return selected;
-};
-
-const cleanJsonString = (str: string): string => {
-  if (!str) return "";
-  let cleanStr = str.trim();
-  if (cleanStr.startsWith("```json")) cleanStr = cleanStr.substring(7);
-  if (cleanStr.startsWith("```")) cleanStr = cleanStr.substring(3);
-  if (cleanStr.endsWith("```")) cleanStr = cleanStr.substring(0, cleanStr.length - 3);
-  return cleanStr.trim();
+    return [...selected, ...detections.filter(d => !hasBox(d))];
 };
 
-const handleGeminiError = (error: any): never => {
+export const handleGeminiError = (error: any): never => {
+  if (isAbortError(error)) throw error;
   console.error("Gemini API Error:", error);
-  const msg = error.message || "";
-  if (msg.includes("429")) throw new Error("Rate Limit: System overloaded. Retrying...");
+  if (isRateLimitError(error)) throw new Error("Rate limit: the model quota is still exhausted after retrying. Try again shortly.");
   throw error;
 };
 
-// --- API METHODS ---
+// Longer raw responses are cut in traces so stored history stays small
+const MAX_TRACED_RESPONSE = 20000;
 
 /**
- * Fast detection for Real-time Loops (Video/Camera)
- * Only returns bounding boxes and congestion levels.
+ * Every model call goes through the shared scheduler (concurrency, budget, retries, cancellation).
+ * When `calls` is given, the request, timing and raw response (or error) are appended to it.
  */
-export const analyzeTrafficFast = async (base64Image: string, mimeType: string): Promise<Partial<FullAnalysisResult>> => {
-    const modelId = "gemini-2.5-flash"; 
-    
+export const callModel = async (request: VisionRequest, signal?: AbortSignal, calls?: ModelCallTrace[]): Promise<VisionResponse> => {
+    const requestedAt = performance.now();
+    let attemptStartedAt = requestedAt;
+    let attempts = 0;
+    const record = (patch: Partial<ModelCallTrace>) => calls?.push({
+        task: request.task,
+        modelId: getVisionProvider().modelId,
+        systemInstruction: request.systemInstruction?.trim(),
+        prompt: request.prompt,
+        image: request.image ? { mimeType: request.image.mimeType, bytes: Math.floor(request.image.data.length * 3 / 4) } : undefined,
+        queuedMs: Math.round(attemptStartedAt - requestedAt),
+        latencyMs: Math.round(performance.now() - attemptStartedAt),
+        attempts,
+        ...patch,
+    });
+
     try {
-        // Pass mimeType to optimizer
-        const optimizedImage = await optimizeBase64Image(base64Image, 640, mimeType); 
-        
-        // FIX: Extract the ACTUAL mime type and data from the optimized result.
-        // optimizeBase64Image might convert the format (e.g. BMP -> JPEG), so we must trust its output header.
-        const match = optimizedImage.match(/^data:(.*);base64,(.*)$/);
-        const actualMimeType = match ? match[1] : mimeType;
-        const base64Data = match ? match[2] : optimizedImage.split(',')[1];
-        
-        const response = await ai.models.generateContent({
-            model: modelId,
-            contents: {
-                parts: [
-                    { inlineData: { mimeType: actualMimeType, data: base64Data } },
-                    { text: "Detect vehicles/pedestrians. Return 2D bounding boxes and congestion level." }
-                ]
-            },
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: fastAnalysisSchema,
-                temperature: 0.1, // Deterministic
-            }
+        const response = await getRequestScheduler().schedule(s => {
+            attemptStartedAt = performance.now();
+            attempts++;
+            return getVisionProvider().generate({ ...request, signal: s });
+        }, { signal, label: `${request.task} request` });
+        record({
+            modelId: response.modelId,
+            usage: response.usage,
+            rawResponse: response.text.slice(0, MAX_TRACED_RESPONSE),
+            rawResponseTruncated: response.text.length > MAX_TRACED_RESPONSE || undefined,
         });
-
-        if (!response.text) throw new Error("No response");
-        const data = JSON.parse(cleanJsonString(response.text));
-        
-        if (data.detections) data.detections = applyNMS(data.detections, 0.4);
-
-        // Construct a partial FullAnalysisResult
-        return {
-            timestamp: Date.now(),
-            detections: data.detections,
-            analysis: {
-                congestionLevel: data.congestionLevel,
-                trafficFlowStatus: data.trafficFlowStatus,
-                totalVehicles: data.detections.filter((d: any) => d.type === 'vehicle').length,
-                pedestrianCount: data.detections.filter((d: any) => d.type === 'pedestrian').length,
-                trafficLights: [],
-                estimatedAverageSpeed: 0,
-                detectedViolations: []
-            },
-            report: {
-                summary: "Real-time monitoring active.",
-                recommendations: [],
-                priorityScore: 1
-            }
-        };
-
+        return response;
     } catch (error) {
-        handleGeminiError(error);
-        return {};
+        if (!isAbortError(error)) record({ error: (error as any)?.message || String(error) });
+        throw error;
     }
 };
 
-/**
- * Full Analysis for Snapshots or Periodic Checks
- * Automatically detects scene type and adapts analysis parameters.
- */
-export const analyzeTrafficImage = async (base64Image: string, mimeType: string): Promise<FullAnalysisResult> => {
-  const modelId = "gemini-2.5-flash"; 
-
-  try {
-        // Pass mimeType to optimizer
-        const optimizedImage = await optimizeBase64Image(base64Image, 1024, mimeType);
-        
-        // FIX: Extract the ACTUAL mime type and data from the optimized result.
-        // optimizeBase64Image might convert the format (e.g. BMP -> JPEG), so we must trust its output header.
-        const match = optimizedImage.match(/^data:(.*);base64,(.*)$/);
-        const actualMimeType = match ? match[1] : mimeType;
-        const base64Data = match ? match[2] : optimizedImage.split(',')[1];
-
-        // Updated system instruction to be scene-aware
-        const systemInstruction = `
-          You are the 'Multi AI Agent' Traffic Monitoring System.
-          
-          PHASE 1: SCENE IDENTIFICATION
-          Classify the image into one of these types: 'Highway', 'Intersection', 'City Street', 'Parking Lot', 'Tunnel', or 'Other'.
-          
-          PHASE 2: CONTEXT-AWARE ANALYSIS
-          Adjust your analysis based on the identified scene:
-          - Highway: Focus on flow efficiency, lane discipline, and hard shoulder violations. Speed assumption: High.
-          - Intersection: Focus on traffic signal compliance, stop lines, and turning conflicts.
-          - City Street: High alert for pedestrians, cyclists, and illegal parking. Speed assumption: Low/Moderate.
-          - Tunnel: Critical alert for stopped vehicles or lane changes.
-          
-          PHASE 3: DETECTION & REPORTING
-          - Detect objects (Car, Truck, Bus, Bike, Person) with [ymin, xmin, ymax, xmax] boxes (0-1000).
-          - Analyze congestion level (0-100) and flow status.
-          - List specific violations with severity based on the scene context.
-        `;
-
-        const response = await ai.models.generateContent({
-          model: modelId,
-          contents: {
-            parts: [
-              { inlineData: { mimeType: actualMimeType, data: base64Data } },
-              { text: "Analyze traffic scene. Identify scene type and detect issues." }
-            ]
-          },
-          config: {
-            systemInstruction: systemInstruction,
-            responseMimeType: "application/json",
-            responseSchema: fullAnalysisSchema,
-          }
-        });
-
-        const data = JSON.parse(cleanJsonString(response.text)) as FullAnalysisResult;
-        
-        if (data.detections) data.detections = applyNMS(data.detections, 0.45);
-        
-        data.timestamp = Date.now();
-        return data;
-
-    } catch (error) {
-        handleGeminiError(error);
-        throw error;
-    }
+/** Resizes for the model and splits the data URI. The optimizer may convert the format (e.g. BMP -> JPEG), so its header wins. */
+export const prepareModelImage = async (base64Image: string, mimeType: string, maxWidth: number): Promise<{ mimeType: string; data: string }> => {
+    const optimizedImage = await optimizeBase64Image(base64Image, maxWidth, mimeType);
+    const match = optimizedImage.match(/^data:(.*);base64,(.*)$/);
+    return {
+        mimeType: match ? match[1] : mimeType,
+        data: match ? match[2] : optimizedImage.split(',')[1],
+    };
 };
 
-export const getLocationContext = async (lat: number, lng: number): Promise<LocationContextData> => {
-    // Keep existing logic
-    const modelId = "gemini-2.5-flash";
+// --- API METHODS ---
+
+export const getLocationContext = async (lat: number, lng: number, signal?: AbortSignal): Promise<LocationContextData> => {
     try {
         const prompt = `Identify location from ${lat},${lng}. List nearby traffic influencers.`;
-        const response = await ai.models.generateContent({
-            model: modelId,
-            contents: { text: prompt },
-            config: {
-                tools: [{ googleMaps: {} }],
-                toolConfig: { retrievalConfig: { latLng: { latitude: lat, longitude: lng } } }
-            }
-        });
+        const response = await callModel({
+            task: 'location',
+            prompt,
+            location: { latitude: lat, longitude: lng }
+        }, signal);
         const text = response.text || "No context.";
         return {
             latitude: lat,
@@ -345,6 +160,7 @@ export const getLocationContext = async (lat: number, lng: number): Promise<Loca
             trafficInfluencers: [text] 
         };
     } catch (error) {
+        if (isAbortError(error)) throw error;
         return { latitude: lat, longitude: lng, address: "Unavailable", nearbyPlaces: [], trafficInfluencers: ["Map Service Error"] };
     }
 };
\ No newline at end of file
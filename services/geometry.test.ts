@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { Point, boxGroundPoint, isLineZone, pointInPolygon, segmentsIntersect, sideOfLine } from './geometry';
+
+const square: Point[] = [[0.2, 0.2], [0.6, 0.2], [0.6, 0.6], [0.2, 0.6]];
+
+describe('pointInPolygon', () => {
+  it('tells inside from outside, concave notches included', () => {
+    expect(pointInPolygon([0.4, 0.4], square)).toBe(true);
+    expect(pointInPolygon([0.7, 0.4], square)).toBe(false);
+    const notched: Point[] = [[0, 0], [1, 0], [1, 1], [0.5, 0.5], [0, 1]];
+    expect(pointInPolygon([0.5, 0.8], notched)).toBe(false);
+    expect(pointInPolygon([0.5, 0.3], notched)).toBe(true);
+  });
+});
+
+describe('segmentsIntersect', () => {
+  it('counts proper crossings only', () => {
+    expect(segmentsIntersect([0, 0.5], [1, 0.5], [0.5, 0], [0.5, 1])).toBe(true);
+    expect(segmentsIntersect([0, 0.5], [0.4, 0.5], [0.5, 0], [0.5, 1])).toBe(false);
+    expect(segmentsIntersect([0, 0.5], [0.5, 0.5], [0.5, 0], [0.5, 1])).toBe(false); // Touching the line is not crossing it
+    expect(segmentsIntersect([0, 0], [1, 0], [0, 0.1], [1, 0.1])).toBe(false);
+  });
+});
+
+describe('sideOfLine', () => {
+  it('gives the two sides of a directed line opposite signs, and 0 on it', () => {
+    const from: Point = [0, 0.5];
+    const to: Point = [1, 0.5];
+    expect(sideOfLine([0.5, 0.8], from, to)).toBe(1);
+    expect(sideOfLine([0.5, 0.2], from, to)).toBe(-1);
+    expect(sideOfLine([0.3, 0.5], from, to)).toBe(0);
+    expect(sideOfLine([0.5, 0.8], to, from)).toBe(-1); // Reversing the line swaps the sides
+  });
+});
+
+describe('boxGroundPoint', () => {
+  it('is the bottom centre of the box, normalized', () => {
+    expect(boxGroundPoint([100, 200, 500, 400])).toEqual([0.3, 0.5]);
+  });
+});
+
+describe('isLineZone', () => {
+  it('covers stop lines and gates', () => {
+    expect(['stop_line', 'entry_gate', 'exit_gate'].every(isLineZone)).toBe(true);
+    expect(isLineZone('lane')).toBe(false);
+  });
+});
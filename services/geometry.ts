@@ -0,0 +1,42 @@
+// 2D helpers over normalized image coordinates [x, y] (0-1).
+
+export type Point = [number, number];
+
+/** Ray-casting point-in-polygon test. */
+export const pointInPolygon = (p: Point, polygon: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if ((yi > p[1]) !== (yj > p[1]) && p[0] < ((xj - xi) * (p[1] - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+const cross = (o: Point, a: Point, b: Point): number => (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+
+/** True when segment a1-a2 properly crosses segment b1-b2. */
+export const segmentsIntersect = (a1: Point, a2: Point, b1: Point, b2: Point): boolean => {
+  const d1 = cross(b1, b2, a1);
+  const d2 = cross(b1, b2, a2);
+  const d3 = cross(a1, a2, b1);
+  const d4 = cross(a1, a2, b2);
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+};
+
+/**
+ * Which side of the directed line `from -> to` the point lies on:
+ * 1 = left, -1 = right (in image coordinates, y pointing down), 0 = on the line.
+ */
+export const sideOfLine = (p: Point, from: Point, to: Point): number => Math.sign(cross(from, to, p));
+
+/** Ground contact point of a [ymin, xmin, ymax, xmax] box (0-1000): bottom centre, normalized. */
+export const boxGroundPoint = (box: [number, number, number, number]): Point => [
+  (box[1] + box[3]) / 2 / 1000,
+  box[2] / 1000,
+];
+
+/** Zone kinds drawn as a two-point line rather than a polygon. */
+export const isLineZone = (kind: string): boolean => kind === 'stop_line' || kind === 'entry_gate' || kind === 'exit_gate';
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { Matrix3, PointPair, computeHomography, projectToGround, reprojectionError } from './homography';
+
+// A road seen in perspective: image (0-1) -> ground (m), with h33 = 1
+const KNOWN: Matrix3 = [20, 4, -3, 1, 45, 2, 0.1, 0.8, 1];
+
+const project = (H: Matrix3, [x, y]: [number, number]): [number, number] => {
+  const w = H[6] * x + H[7] * y + H[8];
+  return [(H[0] * x + H[1] * y + H[2]) / w, (H[3] * x + H[4] * y + H[5]) / w];
+};
+
+const pairsFor = (H: Matrix3, images: [number, number][]): PointPair[] => images.map(image => ({ image, world: project(H, image) }));
+
+describe('computeHomography', () => {
+  it('recovers a known homography from exact correspondences', () => {
+    const pairs = pairsFor(KNOWN, [[0.1, 0.2], [0.9, 0.25], [0.8, 0.9], [0.15, 0.85], [0.5, 0.5]]);
+    const H = computeHomography(pairs);
+    H.forEach((h, i) => expect(h).toBeCloseTo(KNOWN[i], 6));
+    expect(reprojectionError(H, pairs)).toBeLessThan(1e-6);
+  });
+
+  it('projects points outside the calibration quad onto the same ground plane', () => {
+    const H = computeHomography(pairsFor(KNOWN, [[0.1, 0.2], [0.9, 0.25], [0.8, 0.9], [0.15, 0.85]]));
+    const [x, y] = projectToGround(H, [0.4, 0.05]);
+    const [ex, ey] = project(KNOWN, [0.4, 0.05]);
+    expect(x).toBeCloseTo(ex, 6);
+    expect(y).toBeCloseTo(ey, 6);
+  });
+
+  it('refuses too few or degenerate points', () => {
+    expect(() => computeHomography(pairsFor(KNOWN, [[0.1, 0.2], [0.9, 0.25], [0.8, 0.9]]))).toThrow(/at least 4/);
+    expect(() => computeHomography(pairsFor(KNOWN, [[0.1, 0.1], [0.2, 0.2], [0.3, 0.3], [0.4, 0.4]]))).toThrow();
+  });
+});
+
+describe('reprojectionError', () => {
+  it('is the RMS distance in meters over all pairs', () => {
+    const pairs = pairsFor(KNOWN, [[0.1, 0.2], [0.9, 0.25], [0.8, 0.9], [0.15, 0.85]]);
+    const moved = pairs.map((p, i) => (i === 0 ? { ...p, world: [p.world[0] + 2, p.world[1]] as [number, number] } : p));
+    expect(reprojectionError(KNOWN, moved)).toBeCloseTo(1, 6); // sqrt(2^2 / 4)
+  });
+});
@@ -0,0 +1,115 @@
+// Planar homography between the normalized image (0-1) and the road ground plane (meters).
+
+export type Matrix3 = number[]; // Row-major 3x3
+
+export interface PointPair {
+  image: [number, number];
+  world: [number, number];
+}
+
+const multiply = (a: Matrix3, b: Matrix3): Matrix3 => {
+  const out = new Array(9).fill(0);
+  for (let r = 0; r < 3; r++) {
+    for (let c = 0; c < 3; c++) {
+      out[r * 3 + c] = a[r * 3] * b[c] + a[r * 3 + 1] * b[3 + c] + a[r * 3 + 2] * b[6 + c];
+    }
+  }
+  return out;
+};
+
+/**
+ * Hartley normalization: translate the points to their centroid and scale them so the
+ * mean distance from it is sqrt(2). Keeps the least-squares system well conditioned when
+ * image units (0-1) and world units (tens of meters) differ by orders of magnitude.
+ */
+const normalizingTransform = (points: [number, number][]): { T: Matrix3; Tinv: Matrix3 } => {
+  const cx = points.reduce((a, p) => a + p[0], 0) / points.length;
+  const cy = points.reduce((a, p) => a + p[1], 0) / points.length;
+  const meanDist = points.reduce((a, p) => a + Math.hypot(p[0] - cx, p[1] - cy), 0) / points.length;
+  const s = meanDist > 0 ? Math.SQRT2 / meanDist : 1;
+  return {
+    T: [s, 0, -s * cx, 0, s, -s * cy, 0, 0, 1],
+    Tinv: [1 / s, 0, cx, 0, 1 / s, cy, 0, 0, 1],
+  };
+};
+
+const apply = (H: Matrix3, p: [number, number]): [number, number] => {
+  const w = H[6] * p[0] + H[7] * p[1] + H[8];
+  return [(H[0] * p[0] + H[1] * p[1] + H[2]) / w, (H[3] * p[0] + H[4] * p[1] + H[5]) / w];
+};
+
+/** Solves Ax = b in place with partial pivoting. Returns null for singular systems. */
+const solveLinear = (A: number[][], b: number[]): number[] | null => {
+  const n = b.length;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(A[r][col]) > Math.abs(A[pivot][col])) pivot = r;
+    }
+    if (Math.abs(A[pivot][col]) < 1e-10) return null;
+    [A[col], A[pivot]] = [A[pivot], A[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+
+    for (let r = col + 1; r < n; r++) {
+      const f = A[r][col] / A[col][col];
+      for (let c = col; c < n; c++) A[r][c] -= f * A[col][c];
+      b[r] -= f * b[col];
+    }
+  }
+  const x = new Array(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = b[r];
+    for (let c = r + 1; c < n; c++) sum -= A[r][c] * x[c];
+    x[r] = sum / A[r][r];
+  }
+  return x;
+};
+
+/**
+ * Direct Linear Transform with h33 = 1, least squares over all pairs (4 or more).
+ * Throws when the points are too few or degenerate (e.g. three of them collinear).
+ */
+export const computeHomography = (pairs: PointPair[]): Matrix3 => {
+  if (pairs.length < 4) throw new Error("Calibration needs at least 4 point pairs.");
+
+  const img = normalizingTransform(pairs.map(p => p.image));
+  const wld = normalizingTransform(pairs.map(p => p.world));
+
+  // Normal equations (A^T A) h = A^T b
+  const AtA = Array.from({ length: 8 }, () => new Array(8).fill(0));
+  const Atb = new Array(8).fill(0);
+  const accumulate = (row: number[], rhs: number) => {
+    for (let i = 0; i < 8; i++) {
+      Atb[i] += row[i] * rhs;
+      for (let j = 0; j < 8; j++) AtA[i][j] += row[i] * row[j];
+    }
+  };
+
+  pairs.forEach(pair => {
+    const [x, y] = apply(img.T, pair.image);
+    const [X, Y] = apply(wld.T, pair.world);
+    accumulate([x, y, 1, 0, 0, 0, -x * X, -y * X], X);
+    accumulate([0, 0, 0, x, y, 1, -x * Y, -y * Y], Y);
+  });
+
+  const h = solveLinear(AtA, Atb);
+  if (!h || h.some(v => !Number.isFinite(v))) {
+    throw new Error("Calibration points are degenerate. Spread them over the road and avoid collinear points.");
+  }
+
+  const H = multiply(wld.Tinv, multiply([...h, 1], img.T));
+  return H.map(v => v / H[8]);
+};
+
+/** Projects a normalized image point onto the ground plane (meters). */
+export const projectToGround = (H: Matrix3, point: [number, number]): [number, number] => apply(H, point);
+
+/** RMS distance in meters between the world points and their projected image points. */
+export const reprojectionError = (H: Matrix3, pairs: PointPair[]): number => {
+  if (pairs.length === 0) return 0;
+  const sum = pairs.reduce((acc, p) => {
+    const [X, Y] = apply(H, p.image);
+    return acc + Math.pow(X - p.world[0], 2) + Math.pow(Y - p.world[1], 2);
+  }, 0);
+  return Math.sqrt(sum / pairs.length);
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { EXPORT_SCHEMA } from './exportService';
+import { parseAnalysisBundle, validateAnalysisRecord } from './importService';
+
+const record = {
+  timestamp: 1738310400000,
+  detections: [{ object: 'car', type: 'vehicle', count: 1, confidence: 0.92, box_2d: [410, 220, 530, 380] }],
+  analysis: { totalVehicles: 1, pedestrianCount: 0, congestionLevel: 20, estimatedAverageSpeed: 35, trafficFlowStatus: 'Free Flow', trafficLights: [], detectedViolations: [] },
+  report: { summary: 'Light traffic.', recommendations: [], priorityScore: 2 },
+};
+
+describe('parseAnalysisBundle', () => {
+  it('reads a v1 bundle as it is', () => {
+    const file = { schema: EXPORT_SCHEMA, version: 1, exportedAt: '2025-01-31T08:00:00.000Z', scope: 'analysis', analyses: [record] };
+    expect(parseAnalysisBundle(JSON.stringify(file))).toEqual({ bundle: file, fileVersion: 1 });
+  });
+
+  it('migrates a v0 bare array into a v1 selection', () => {
+    const { bundle, fileVersion } = parseAnalysisBundle(JSON.stringify([record]));
+    expect(fileVersion).toBe(0);
+    expect(bundle).toEqual({ schema: EXPORT_SCHEMA, version: 1, exportedAt: new Date(0).toISOString(), scope: 'selection', analyses: [record] });
+  });
+
+  it('refuses negative versions', () => {
+    expect(() => parseAnalysisBundle(JSON.stringify({ schema: EXPORT_SCHEMA, version: -1, analyses: [] }))).toThrow(/invalid schema version/);
+  });
+
+  it('refuses newer versions and files that are not bundles', () => {
+    expect(() => parseAnalysisBundle(JSON.stringify({ schema: EXPORT_SCHEMA, version: 2, analyses: [] }))).toThrow(/newer version/);
+    expect(() => parseAnalysisBundle('{"analyses": []}')).toThrow(/not an analysis bundle/);
+    expect(() => parseAnalysisBundle('not json')).toThrow(/not valid JSON/);
+    expect(() => parseAnalysisBundle(JSON.stringify({ schema: EXPORT_SCHEMA, version: 1 }))).toThrow(/no analyses list/);
+  });
+});
+
+describe('validateAnalysisRecord', () => {
+  it('accepts the documented example and reports fields at fault', () => {
+    expect(validateAnalysisRecord(record)).toEqual([]);
+    expect(validateAnalysisRecord({ ...record, report: { ...record.report, summary: 3 } })).toEqual(['report.summary: expected text, got 3']);
+    expect(validateAnalysisRecord({ ...record, coercions: 'none' })).toEqual(['coercions: expected a list, got "none"']);
+  });
+});
@@ -0,0 +1,273 @@
+import { DetectionItem, FullAnalysisResult, HistoryItem, TrafficAnalysis, TrafficLight, Violation } from "../types";
+import { AnalysisExportBundle, EXPORT_SCHEMA, EXPORT_SCHEMA_VERSION, ExportedAnalysis } from "./exportService";
+import { applyRetention, findExpiredAnalyses, getAnalysisIds, loadRetentionPolicy, saveAnalysis } from "./analysisDatabase";
+
+// Loads exported analysis bundles (see exportService) into the history database.
+
+export interface ImportRecordError {
+  index: number; // Position in the bundle's analyses
+  id?: string;   // The record's id in the file, when it had one
+  messages: string[];
+}
+
+export interface ImportResult {
+  fileVersion: number; // Schema version the file was written with (0 = bare array from before versioning)
+  imported: number;
+  renamed: number;           // Records stored under a new id because theirs was taken
+  removedByRetention: number; // Records already stored that the retention policy removed before importing
+  overRetention: number;      // Records (imported ones included) now beyond the policy; the next saved analysis removes them
+  errors: ImportRecordError[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Bundle migrations: step i upgrades a version-i file to version i+1. Append a step
+ * whenever EXPORT_SCHEMA_VERSION is bumped; never edit a released one.
+ */
+const BUNDLE_MIGRATIONS: ((bundle: unknown) => unknown)[] = [
+  // v0 -> v1: the first history exports were a bare array of records
+  (records: unknown) => ({ schema: EXPORT_SCHEMA, version: 1, exportedAt: new Date(0).toISOString(), scope: 'selection', analyses: records }),
+];
+
+/** Parses a bundle file and migrates it to the current version. Throws when the file as a whole is unusable. */
+export const parseAnalysisBundle = (text: string): { bundle: AnalysisExportBundle; fileVersion: number } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  let version: number;
+  if (Array.isArray(data)) version = 0;
+  else if (isObject(data) && data.schema === EXPORT_SCHEMA && typeof data.version === 'number' && Number.isInteger(data.version)) version = data.version;
+  else throw new Error("The file is not an analysis bundle (missing schema or version).");
+
+  if (version < 0) {
+    throw new Error(`The bundle has an invalid schema version (v${version}; versions start at v0).`);
+  }
+  if (version > EXPORT_SCHEMA_VERSION) {
+    throw new Error(`The bundle was written by a newer version of the app (schema v${version}; this app reads up to v${EXPORT_SCHEMA_VERSION}).`);
+  }
+
+  const fileVersion = version;
+  while (version < EXPORT_SCHEMA_VERSION) data = BUNDLE_MIGRATIONS[version++](data);
+  if (!isObject(data) || !Array.isArray(data.analyses)) throw new Error("The bundle has no analyses list.");
+  return { bundle: data as unknown as AnalysisExportBundle, fileVersion };
+};
+
+// --- VALIDATION ---
+
+const DETECTION_TYPES: DetectionItem['type'][] = ['vehicle', 'pedestrian', 'infrastructure', 'other'];
+const LIGHT_STATES: TrafficLight['state'][] = ['Red', 'Yellow', 'Green', 'Off'];
+const FLOW_STATUSES: TrafficAnalysis['trafficFlowStatus'][] = ['Free Flow', 'Moderate', 'Heavy', 'Gridlock'];
+const SCENE_TYPES: NonNullable<TrafficAnalysis['sceneType']>[] = ['Highway', 'Intersection', 'City Street', 'Parking Lot', 'Tunnel', 'Other'];
+const VIOLATION_TYPES: Violation['type'][] = ['Red Light', 'Jaywalking', 'Wrong Lane', 'Speeding', 'Restricted Zone', 'Other'];
+const SEVERITIES: Violation['severity'][] = ['Low', 'Medium', 'High'];
+
+const MAX_MESSAGES = 5; // Per record; the first few problems are enough to find the fault
+
+/** Collects "path: problem" messages while walking a record. */
+class RecordChecker {
+  public messages: string[] = [];
+
+  private fail(path: string, expected: string, value: unknown) {
+    if (this.messages.length < MAX_MESSAGES) this.messages.push(`${path}: expected ${expected}, got ${value === undefined ? 'nothing' : JSON.stringify(value)?.slice(0, 40)}`);
+  }
+
+  public object(value: unknown, path: string): value is Record<string, unknown> {
+    const ok = isObject(value);
+    if (!ok) this.fail(path, 'an object', value);
+    return ok;
+  }
+
+  public array(value: unknown, path: string): value is unknown[] {
+    if (!Array.isArray(value)) this.fail(path, 'a list', value);
+    return Array.isArray(value);
+  }
+
+  public number(value: unknown, path: string, optional = false) {
+    if (optional && value === undefined) return;
+    if (typeof value !== 'number' || !Number.isFinite(value)) this.fail(path, 'a number', value);
+  }
+
+  public string(value: unknown, path: string, optional = false) {
+    if (optional && value === undefined) return;
+    if (typeof value !== 'string') this.fail(path, 'text', value);
+  }
+
+  public oneOf<T>(value: unknown, options: T[], path: string, optional = false) {
+    if (optional && value === undefined) return;
+    if (!options.includes(value as T)) this.fail(path, `one of ${options.join(', ')}`, value);
+  }
+
+  public box(value: unknown, path: string) {
+    if (value === undefined) return;
+    if (!Array.isArray(value) || value.length !== 4 || value.some(v => typeof v !== 'number')) this.fail(path, '[ymin, xmin, ymax, xmax]', value);
+  }
+}
+
+/** Checks a record against FullAnalysisResult (plus the optional HistoryItem fields). Returns the problems found. */
+export const validateAnalysisRecord = (record: unknown): string[] => {
+  const c = new RecordChecker();
+  if (!c.object(record, 'record')) return c.messages;
+
+  c.string(record.id, 'id', true);
+  c.string(record.thumbnail, 'thumbnail', true);
+  c.number(record.timestamp, 'timestamp');
+  c.string(record.modelId, 'modelId', true);
+  c.number(record.mediaTime, 'mediaTime', true);
+  if (record.coercions !== undefined) c.array(record.coercions, 'coercions');
+
+  if (c.array(record.detections, 'detections')) {
+    record.detections.forEach((d, i) => {
+      const path = `detections[${i}]`;
+      if (!c.object(d, path)) return;
+      c.string(d.object, `${path}.object`);
+      c.number(d.count, `${path}.count`);
+      c.number(d.confidence, `${path}.confidence`);
+      c.oneOf(d.type, DETECTION_TYPES, `${path}.type`);
+      c.box(d.box_2d, `${path}.box_2d`);
+      c.number(d.trackId, `${path}.trackId`, true);
+      c.number(d.estimatedSpeed, `${path}.estimatedSpeed`, true);
+    });
+  }
+
+  if (c.object(record.analysis, 'analysis')) {
+    const a = record.analysis;
+    c.number(a.totalVehicles, 'analysis.totalVehicles');
+    c.number(a.pedestrianCount, 'analysis.pedestrianCount');
+    c.number(a.congestionLevel, 'analysis.congestionLevel');
+    c.number(a.estimatedAverageSpeed, 'analysis.estimatedAverageSpeed');
+    c.oneOf(a.trafficFlowStatus, FLOW_STATUSES, 'analysis.trafficFlowStatus');
+    c.oneOf(a.sceneType, SCENE_TYPES, 'analysis.sceneType', true);
+    if (c.array(a.trafficLights, 'analysis.trafficLights')) {
+      a.trafficLights.forEach((l, i) => {
+        if (!c.object(l, `analysis.trafficLights[${i}]`)) return;
+        c.oneOf(l.state, LIGHT_STATES, `analysis.trafficLights[${i}].state`);
+        c.number(l.count, `analysis.trafficLights[${i}].count`);
+        c.box(l.box_2d, `analysis.trafficLights[${i}].box_2d`);
+      });
+    }
+    if (c.array(a.detectedViolations, 'analysis.detectedViolations')) {
+      a.detectedViolations.forEach((v, i) => {
+        const path = `analysis.detectedViolations[${i}]`;
+        if (!c.object(v, path)) return;
+        c.oneOf(v.type, VIOLATION_TYPES, `${path}.type`);
+        c.string(v.description, `${path}.description`);
+        c.oneOf(v.severity, SEVERITIES, `${path}.severity`);
+      });
+    }
+  }
+
+  if (c.object(record.report, 'report')) {
+    c.string(record.report.summary, 'report.summary');
+    c.number(record.report.priorityScore, 'report.priorityScore');
+    if (c.array(record.report.recommendations, 'report.recommendations')) {
+      record.report.recommendations.forEach((r, i) => c.string(r, `report.recommendations[${i}]`));
+    }
+  }
+
+  if (record.locationContext !== undefined && c.object(record.locationContext, 'locationContext')) {
+    const l = record.locationContext;
+    c.number(l.latitude, 'locationContext.latitude', true);
+    c.number(l.longitude, 'locationContext.longitude', true);
+    c.string(l.address, 'locationContext.address', true);
+    c.array(l.nearbyPlaces, 'locationContext.nearbyPlaces');
+    c.array(l.trafficInfluencers, 'locationContext.trafficInfluencers');
+  }
+
+  // Traces are debugging aids; only the shape the timeline walks is checked
+  if (record.trace !== undefined && c.object(record.trace, 'trace')) {
+    c.number(record.trace.durationMs, 'trace.durationMs');
+    if (c.array(record.trace.steps, 'trace.steps')) {
+      record.trace.steps.forEach((s, i) => {
+        if (!c.object(s, `trace.steps[${i}]`)) return;
+        c.string(s.agent, `trace.steps[${i}].agent`);
+        c.array(s.calls, `trace.steps[${i}].calls`);
+      });
+    }
+  }
+
+  return c.messages;
+};
+
+// --- IMPORT ---
+
+/** Stand-in image for records exported without a thumbnail (single results and sessions). */
+const createPlaceholderThumbnail = (record: FullAnalysisResult): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 320;
+  canvas.height = 180;
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    ctx.fillStyle = '#151B2B';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = '#94a3b8';
+    ctx.font = '16px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.fillText('Imported analysis', canvas.width / 2, canvas.height / 2 - 6);
+    ctx.font = '12px monospace';
+    ctx.fillText(`${record.detections.length} detections`, canvas.width / 2, canvas.height / 2 + 16);
+  }
+  return canvas.toDataURL('image/jpeg', 0.8);
+};
+
+const newRecordId = () => Math.random().toString(36).substr(2);
+
+/**
+ * Imports every valid record of a bundle into the history database. Records keep their
+ * id unless it is missing or already taken (in the database or earlier in the file).
+ * Session data in a bundle is not part of the history and is ignored. Retention runs
+ * before the import, never over the records just imported: ones that put the database
+ * beyond the policy are reported so the user can raise it before the next save trims them.
+ */
+export const importAnalysisBundle = async (text: string): Promise<ImportResult> => {
+  const { bundle, fileVersion } = parseAnalysisBundle(text);
+  const policy = loadRetentionPolicy();
+  const result: ImportResult = { fileVersion, imported: 0, renamed: 0, removedByRetention: await applyRetention(policy), overRetention: 0, errors: [] };
+  const takenIds = new Set(await getAnalysisIds());
+
+  for (const [index, raw] of (bundle.analyses as unknown[]).entries()) {
+    const fileId = isObject(raw) && typeof raw.id === 'string' ? raw.id : undefined;
+    const messages = validateAnalysisRecord(raw);
+    if (messages.length > 0) {
+      result.errors.push({ index, id: fileId, messages });
+      continue;
+    }
+
+    const record = raw as ExportedAnalysis;
+    let id = record.id;
+    const renamed = !!id && takenIds.has(id);
+    if (!id || renamed) {
+      do id = newRecordId(); while (takenIds.has(id));
+    }
+
+    // Only the fields validated above are stored; anything else in the file is left behind
+    const item: HistoryItem = {
+      id,
+      thumbnail: record.thumbnail || createPlaceholderThumbnail(record),
+      timestamp: record.timestamp,
+      mediaTime: record.mediaTime,
+      modelId: record.modelId,
+      coercions: record.coercions,
+      trace: record.trace,
+      detections: record.detections,
+      analysis: record.analysis,
+      report: record.report,
+      locationContext: record.locationContext,
+    };
+    try {
+      await saveAnalysis(item, { maxRecords: null, maxAgeDays: null });
+      takenIds.add(id);
+      result.imported++;
+      if (renamed) result.renamed++;
+    } catch (e: any) {
+      result.errors.push({ index, id: fileId, messages: [`Could not be stored: ${e?.message || e}`] });
+    }
+  }
+
+  result.overRetention = (await findExpiredAnalyses(policy)).length;
+  return result;
+};
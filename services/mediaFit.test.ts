@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { clientToMedia, containRect } from './mediaFit';
+
+const box = { left: 100, top: 50, width: 1600, height: 900 }; // 16:9 monitor box
+
+describe('containRect', () => {
+  it('pillarboxes narrower media and letterboxes wider media', () => {
+    expect(containRect({ width: 640, height: 480 }, box)).toEqual({ left: 200, top: 0, width: 1200, height: 900 });
+    expect(containRect({ width: 2000, height: 500 }, box)).toEqual({ left: 0, top: 250, width: 1600, height: 400 });
+  });
+
+  it('covers the whole box for matching or unknown media', () => {
+    expect(containRect({ width: 1280, height: 720 }, box)).toEqual({ left: 0, top: 0, width: 1600, height: 900 });
+    expect(containRect(null, box)).toEqual({ left: 0, top: 0, width: 1600, height: 900 });
+  });
+});
+
+describe('clientToMedia', () => {
+  const media = { width: 640, height: 480 }; // Drawn at x 300-1500 on screen
+
+  it('normalizes against the media rect', () => {
+    expect(clientToMedia([300, 50], box, media)).toEqual([0, 0]);
+    expect(clientToMedia([900, 500], box, media)).toEqual([0.5, 0.5]);
+    expect(clientToMedia([1500, 950], box, media)).toEqual([1, 1]);
+  });
+
+  it('ignores clicks on the bars', () => {
+    expect(clientToMedia([200, 500], box, media)).toBeNull();
+    expect(clientToMedia([1600, 500], box, media)).toBeNull();
+  });
+
+  it('falls back to the box while the media size is unknown', () => {
+    expect(clientToMedia([900, 500], box, null)).toEqual([0.5, 0.5]);
+  });
+});
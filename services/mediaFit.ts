@@ -0,0 +1,41 @@
+import { Point } from "./geometry";
+
+// Where object-contain media actually shows inside its box. Overlays cover the whole box,
+// so clicks and drawings have to go through the media rect to line up with image
+// coordinates whenever the source's aspect ratio differs from the box's.
+
+export interface MediaSize {
+  width: number;
+  height: number;
+}
+
+export interface MediaRect {
+  left: number; // Offset from the box's top-left corner
+  top: number;
+  width: number;
+  height: number;
+}
+
+/** Intrinsic size of a video or image element, or null until it has loaded. */
+export const mediaNaturalSize = (media: HTMLVideoElement | HTMLImageElement): MediaSize | null => {
+  const width = 'videoWidth' in media ? media.videoWidth : media.naturalWidth;
+  const height = 'videoHeight' in media ? media.videoHeight : media.naturalHeight;
+  return width > 0 && height > 0 ? { width, height } : null;
+};
+
+/** The rect object-contain media of `media` size fills inside a `box`; the whole box when the size is unknown. */
+export const containRect = (media: MediaSize | null, box: MediaSize): MediaRect => {
+  if (!media) return { left: 0, top: 0, width: box.width, height: box.height };
+  const scale = Math.min(box.width / media.width, box.height / media.height);
+  const width = media.width * scale;
+  const height = media.height * scale;
+  return { left: (box.width - width) / 2, top: (box.height - height) / 2, width, height };
+};
+
+/** Normalized image point [x, y] under a client position over `box`, or null when it falls in the letterbox bars. */
+export const clientToMedia = (client: Point, box: { left: number; top: number; width: number; height: number }, media: MediaSize | null): Point | null => {
+  const rect = containRect(media, box);
+  const x = (client[0] - box.left - rect.left) / rect.width;
+  const y = (client[1] - box.top - rect.top) / rect.height;
+  return x >= 0 && x <= 1 && y >= 0 && y <= 1 ? [x, y] : null;
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { TrackTrajectory, Zone } from '../types';
+import { OriginDestinationAccumulator } from './originDestination';
+
+/** Straight-line trajectory through the given normalized centroids. */
+const trajectory = (trackId: number, path: [number, number][], speed = 30): TrackTrajectory => ({
+  trackId,
+  category: 'vehicle',
+  objectClass: 'car',
+  points: path.map((centroid, i) => ({ timestamp: i * 1000, box: [0, 0, 0, 0], centroid, speed })),
+  violations: [],
+  completed: true,
+});
+
+const leftToRight = (trackId: number, y = 0.5) => trajectory(trackId, [[0.05, y], [0.5, y], [0.95, y]]);
+const topToBottom = (trackId: number) => trajectory(trackId, [[0.5, 0.05], [0.5, 0.5], [0.5, 0.95]], 10);
+
+describe('OriginDestinationAccumulator', () => {
+  it('builds flows and clusters one trajectory at a time', () => {
+    const od = new OriginDestinationAccumulator();
+    [leftToRight(1), topToBottom(2), leftToRight(3, 0.55), trajectory(4, [[0.5, 0.5], [0.51, 0.5]])].forEach(t => od.add(t));
+
+    const analysis = od.getAnalysis();
+    expect(analysis.trajectoryCount).toBe(3);
+    expect(analysis.flows.map(f => [f.origin, f.destination, f.trackIds])).toEqual([
+      ['Left edge', 'Right edge', [1, 3]],
+      ['Top edge', 'Bottom edge', [2]],
+    ]);
+    expect(analysis.clusters.map(c => [c.trackIds, c.meanSpeed])).toEqual([[[1, 3], 30], [[2], 10]]);
+  });
+
+  it('reuses the analysis until a trajectory is added', () => {
+    const od = new OriginDestinationAccumulator();
+    od.add(leftToRight(1));
+    const first = od.getAnalysis();
+    expect(od.getAnalysis()).toBe(first);
+    od.add(leftToRight(2));
+    expect(od.getAnalysis()).not.toBe(first);
+    expect(first.flows[0].trackIds).toEqual([1]);
+  });
+
+  it('resolves origins through entry gates', () => {
+    const gate: Zone = { id: 'g', kind: 'entry_gate', label: 'West entry', points: [[0.2, 0.3], [0.2, 0.7]], approach: 'W' };
+    const od = new OriginDestinationAccumulator([gate]);
+    od.add(leftToRight(1));
+    expect(od.getAnalysis().flows[0].origin).toBe('West entry');
+  });
+});
@@ -0,0 +1,175 @@
+import { MovementCluster, OriginDestinationAnalysis, OriginDestinationFlow, TrackTrajectory, Zone } from "../types";
+import { isLineZone, Point, pointInPolygon, segmentsIntersect } from "./geometry";
+
+// Session-level movement analysis over completed trajectories: where tracks enter and
+// leave the frame, and which paths they follow.
+
+const EDGE_MARGIN = 0.15;          // Endpoints further than this from every edge count as 'Interior'
+const MIN_DISPLACEMENT = 0.05;     // Shorter trajectories are treated as stationary
+const RESAMPLE_POINTS = 8;
+const CLUSTER_DISTANCE = 0.12;     // Mean point-wise distance for a path to join a cluster
+
+const EDGES: { name: string; distance: (p: Point) => number }[] = [
+  { name: 'Top edge', distance: p => p[1] },
+  { name: 'Right edge', distance: p => 1 - p[0] },
+  { name: 'Bottom edge', distance: p => 1 - p[1] },
+  { name: 'Left edge', distance: p => p[0] },
+];
+
+const edgeRegion = (p: Point): string => {
+  const nearest = EDGES.reduce((best, e) => (e.distance(p) < best.distance(p) ? e : best));
+  return nearest.distance(p) <= EDGE_MARGIN ? nearest.name : 'Interior';
+};
+
+/** First (or last) gate of the given kind crossed by the path. */
+const crossedGate = (path: Point[], gates: Zone[], fromEnd: boolean): Zone | undefined => {
+  const indices = path.slice(1).map((_, i) => i + 1);
+  if (fromEnd) indices.reverse();
+  for (const i of indices) {
+    const gate = gates.find(g => segmentsIntersect(path[i - 1], path[i], g.points[0], g.points[1]));
+    if (gate) return gate;
+  }
+  return undefined;
+};
+
+/**
+ * Resolves where a path starts or ends. Entry/exit gates take precedence, then polygon
+ * zones containing the endpoint, then the nearest image edge.
+ */
+const resolveRegion = (path: Point[], zones: Zone[], end: 'origin' | 'destination'): string => {
+  const gateKind = end === 'origin' ? 'entry_gate' : 'exit_gate';
+  const gate = crossedGate(path, zones.filter(z => z.kind === gateKind && z.points.length >= 2), end === 'destination');
+  if (gate) return gate.label;
+
+  const endpoint = end === 'origin' ? path[0] : path[path.length - 1];
+  const zone = zones.find(z => !isLineZone(z.kind) && z.points.length >= 3 && pointInPolygon(endpoint, z.points));
+  if (zone) return zone.label;
+
+  return edgeRegion(endpoint);
+};
+
+/** Resamples a polyline to `count` points evenly spaced along its length. */
+const resample = (path: Point[], count: number): Point[] => {
+  const cumulative = [0];
+  for (let i = 1; i < path.length; i++) {
+    cumulative.push(cumulative[i - 1] + Math.hypot(path[i][0] - path[i - 1][0], path[i][1] - path[i - 1][1]));
+  }
+  const total = cumulative[cumulative.length - 1];
+  const out: Point[] = [];
+  let segment = 1;
+  for (let k = 0; k < count; k++) {
+    const target = (total * k) / (count - 1);
+    while (segment < path.length - 1 && cumulative[segment] < target) segment++;
+    const span = cumulative[segment] - cumulative[segment - 1];
+    const t = span > 0 ? (target - cumulative[segment - 1]) / span : 0;
+    const a = path[segment - 1];
+    const b = path[segment];
+    out.push([a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t]);
+  }
+  return out;
+};
+
+const pathDistance = (a: Point[], b: Point[]) =>
+  a.reduce((sum, p, i) => sum + Math.hypot(p[0] - b[i][0], p[1] - b[i][1]), 0) / a.length;
+
+/** Most frequent key; ties go to the one seen first. */
+const mostCommon = (counts: Map<string, number>): string =>
+  Array.from(counts.entries()).reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0];
+
+const increment = (counts: Map<string, number>, key: string) => counts.set(key, (counts.get(key) || 0) + 1);
+
+interface ClusterState extends MovementCluster {
+  origins: Map<string, number>;
+  destinations: Map<string, number>;
+  speedSum: number;
+}
+
+/**
+ * Origin-destination matrix and movement clusters, built up one completed trajectory at a
+ * time so a live session never re-clusters its history. Clustering is a single leader
+ * pass in the order trajectories are added: each resampled path joins the nearest cluster
+ * within CLUSTER_DISTANCE (whose prototype becomes the running mean) or starts a new one,
+ * so results are deterministic for a given session.
+ */
+export class OriginDestinationAccumulator {
+  private flows = new Map<string, OriginDestinationFlow>();
+  private clusters: ClusterState[] = [];
+  private trajectoryCount = 0;
+  private analysis: OriginDestinationAnalysis | null = null; // Cached until the next add
+
+  constructor(private zones: Zone[] = []) {}
+
+  /** Gates and zones used to resolve trajectories added from now on. */
+  public setZones(zones: Zone[] | undefined) {
+    this.zones = zones || [];
+  }
+
+  /** Adds a completed trajectory; stationary and single-point ones are ignored. */
+  public add(trajectory: TrackTrajectory) {
+    if (trajectory.points.length < 2) return;
+    const path = trajectory.points.map(p => p.centroid as Point);
+    const first = path[0];
+    const last = path[path.length - 1];
+    if (Math.hypot(last[0] - first[0], last[1] - first[1]) < MIN_DISPLACEMENT) return;
+
+    const origin = resolveRegion(path, this.zones, 'origin');
+    const destination = resolveRegion(path, this.zones, 'destination');
+    const key = `${origin}|${destination}`;
+    if (!this.flows.has(key)) this.flows.set(key, { origin, destination, count: 0, trackIds: [] });
+    const flow = this.flows.get(key)!;
+    flow.count++;
+    flow.trackIds.push(trajectory.trackId);
+
+    const sampled = resample(path, RESAMPLE_POINTS);
+    const speed = trajectory.points.reduce((s, p) => s + p.speed, 0) / trajectory.points.length;
+    let best: ClusterState | undefined;
+    let bestDistance = CLUSTER_DISTANCE;
+    this.clusters.forEach(c => {
+      const d = pathDistance(sampled, c.prototype);
+      if (d < bestDistance) {
+        best = c;
+        bestDistance = d;
+      }
+    });
+
+    if (!best) {
+      best = { id: this.clusters.length + 1, prototype: sampled, trackIds: [], origin, destination, meanSpeed: 0, origins: new Map(), destinations: new Map(), speedSum: 0 };
+      this.clusters.push(best);
+    } else {
+      const n = best.trackIds.length;
+      best.prototype = best.prototype.map((p, i) => [(p[0] * n + sampled[i][0]) / (n + 1), (p[1] * n + sampled[i][1]) / (n + 1)]);
+    }
+    best.trackIds.push(trajectory.trackId);
+    increment(best.origins, origin);
+    increment(best.destinations, destination);
+    best.speedSum += speed;
+    this.trajectoryCount++;
+    this.analysis = null;
+  }
+
+  public getAnalysis(): OriginDestinationAnalysis {
+    if (!this.analysis) {
+      this.analysis = {
+        flows: Array.from(this.flows.values(), f => ({ ...f, trackIds: [...f.trackIds] })).sort((a, b) => b.count - a.count),
+        clusters: this.clusters
+          .map(({ origins, destinations, speedSum, ...c }) => ({
+            ...c,
+            trackIds: [...c.trackIds],
+            origin: mostCommon(origins),
+            destination: mostCommon(destinations),
+            meanSpeed: Math.round(speedSum / c.trackIds.length),
+          }))
+          .sort((a, b) => b.trackIds.length - a.trackIds.length),
+        trajectoryCount: this.trajectoryCount,
+      };
+    }
+    return this.analysis;
+  }
+
+  public reset() {
+    this.flows.clear();
+    this.clusters = [];
+    this.trajectoryCount = 0;
+    this.analysis = null;
+  }
+}
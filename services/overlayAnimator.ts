@@ -0,0 +1,99 @@
+import { DetectionItem } from "../types";
+import { PredictedTrack } from "./trackingService";
+
+// Live overlay between model calls, recomputed every display frame. Tracks are drawn at
+// their Kalman prediction; when a response corrects a track, its box glides from where it
+// was shown instead of jumping. Coasting tracks fade with each missed frame, and tracks the
+// tracker dropped fade out where they were last shown.
+
+const CORRECTION_MS = 250; // Glide from the shown box to the corrected prediction
+const FADE_OUT_MS = 600;   // Dropped tracks
+const MIN_COASTING_OPACITY = 0.2;
+
+type Box = [number, number, number, number];
+
+interface ShownTrack {
+  detection: DetectionItem; // As drawn on the latest frame
+  opacity: number;
+  glideFrom: { box: Box; opacity: number; at: number } | null; // Shown state when the last correction arrived
+  dropped: { at: number; opacity: number } | null; // Fading out since the tracker let go
+}
+
+export interface OverlayFrame {
+  detections: DetectionItem[];
+  opacity: Map<DetectionItem, number>; // Missing entries are opaque
+}
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+const easeOut = (t: number) => 1 - (1 - t) ** 3;
+
+/** Opacity a track settles at: opaque while matched, fading towards the drop with every missed frame. */
+const coastingOpacity = (missingFrames: number, maxMissingFrames: number) =>
+  missingFrames === 0 ? 1 : Math.max(MIN_COASTING_OPACITY, 1 - missingFrames / (maxMissingFrames + 1));
+
+export class OverlayAnimator {
+  private shown = new Map<number, ShownTrack>();
+  private untracked: DetectionItem[] = []; // Latest frame's detections without a track, drawn as they are
+
+  /** Call after every tracking step (`timestamp` on the render clock): shown tracks glide to their corrected state. */
+  public onTracked(detections: DetectionItem[], timestamp: number) {
+    this.untracked = detections.filter(d => d.trackId === undefined);
+    this.shown.forEach(track => {
+      if (!track.dropped && track.detection.box_2d) {
+        track.glideFrom = { box: track.detection.box_2d as Box, opacity: track.opacity, at: timestamp };
+      }
+    });
+  }
+
+  /** What to draw at `now`, given the tracker's predictions for that time. */
+  public frame(predicted: PredictedTrack[], maxMissingFrames: number, now: number): OverlayFrame {
+    const detections: DetectionItem[] = [];
+    const opacity = new Map<DetectionItem, number>();
+    const live = new Set<number>();
+
+    predicted.forEach(({ detection, missingFrames }) => {
+      const id = detection.trackId!;
+      live.add(id);
+      const target = coastingOpacity(missingFrames, maxMissingFrames);
+      const track: ShownTrack = this.shown.get(id) || { detection, opacity: target, glideFrom: null, dropped: null };
+      const glide = track.glideFrom;
+      const t = glide ? Math.min(1, (now - glide.at) / CORRECTION_MS) : 1;
+
+      if (glide && t < 1 && detection.box_2d) {
+        const k = easeOut(t);
+        const box = detection.box_2d.map((v, i) => lerp(glide.box[i], v, k)) as Box;
+        track.detection = { ...detection, box_2d: box };
+        track.opacity = lerp(glide.opacity, target, k);
+      } else {
+        track.detection = detection;
+        track.opacity = target;
+        track.glideFrom = null;
+      }
+      track.dropped = null;
+      this.shown.set(id, track);
+    });
+
+    this.shown.forEach((track, id) => {
+      if (live.has(id)) return;
+      if (!track.dropped) {
+        track.dropped = { at: now, opacity: track.opacity };
+        track.glideFrom = null;
+      }
+      const fade = 1 - (now - track.dropped.at) / FADE_OUT_MS;
+      if (fade <= 0) this.shown.delete(id);
+      else track.opacity = track.dropped.opacity * fade;
+    });
+
+    this.shown.forEach(track => {
+      detections.push(track.detection);
+      opacity.set(track.detection, track.opacity);
+    });
+    detections.push(...this.untracked);
+    return { detections, opacity };
+  }
+
+  public reset() {
+    this.shown.clear();
+    this.untracked = [];
+  }
+}
@@ -0,0 +1,144 @@
+import { Type } from "@google/genai";
+import { DetectionItem, ModelCallTrace, ResponseCoercion, TrafficAnalysis, TrafficLight, Violation } from "../types";
+import { applyNMS, callModel, handleGeminiError, prepareModelImage } from "./geminiService";
+import { parseModelJson, validateFastResponse, validatePerceptionResponse } from "./responseValidation";
+
+// Agent 1: looks at the frame and reports what is visible. No tracking, trends or advice;
+// those belong to the analytics and reporting agents.
+
+export type AnalysisDepth = 'fast' | 'full';
+
+export interface PerceptionInput {
+  image: string; // Raw base64 or data URI
+  mimeType: string;
+  depth: AnalysisDepth; // fast: real-time loops, full: snapshots
+}
+
+export interface PerceptionOutput {
+  detections: DetectionItem[];
+  trafficLights: TrafficLight[];
+  congestionLevel: number;
+  trafficFlowStatus: TrafficAnalysis['trafficFlowStatus'];
+  sceneType?: TrafficAnalysis['sceneType']; // Full depth only
+  observedViolations: Violation[];          // Full depth only
+  modelId: string;
+  coercions: ResponseCoercion[];
+  nms: { input: number; kept: number; dropped: number; unboxed: number };
+}
+
+// --- SCHEMAS ---
+
+const detectionSchema = {
+  type: Type.OBJECT,
+  properties: {
+    object: { type: Type.STRING },
+    count: { type: Type.INTEGER },
+    confidence: { type: Type.NUMBER },
+    type: { type: Type.STRING, enum: ["vehicle", "pedestrian", "infrastructure", "other"] },
+    box_2d: {
+      type: Type.ARRAY,
+      description: "Bounding box [ymin, xmin, ymax, xmax] normalized 0-1000",
+      items: { type: Type.INTEGER }
+    }
+  }
+};
+
+const trafficLightSchema = {
+  type: Type.OBJECT,
+  properties: {
+    state: { type: Type.STRING, enum: ["Red", "Yellow", "Green", "Off"] },
+    box_2d: {
+      type: Type.ARRAY,
+      description: "Bounding box of the signal head [ymin, xmin, ymax, xmax] normalized 0-1000",
+      items: { type: Type.INTEGER }
+    }
+  }
+};
+
+// Fast Schema: Detections + Basic Stats Only
+const fastPerceptionSchema = {
+  type: Type.OBJECT,
+  properties: {
+    detections: { type: Type.ARRAY, items: detectionSchema },
+    trafficLights: { type: Type.ARRAY, items: trafficLightSchema },
+    congestionLevel: { type: Type.INTEGER },
+    trafficFlowStatus: { type: Type.STRING, enum: ["Free Flow", "Moderate", "Heavy", "Gridlock"] },
+  },
+  required: ["detections", "congestionLevel", "trafficFlowStatus"]
+};
+
+// Full Schema: adds the scene type and violations visible in this single frame
+const fullPerceptionSchema = {
+  type: Type.OBJECT,
+  properties: {
+    ...fastPerceptionSchema.properties,
+    sceneType: { type: Type.STRING, enum: ["Highway", "Intersection", "City Street", "Parking Lot", "Tunnel", "Other"] },
+    observedViolations: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          type: { type: Type.STRING, enum: ["Red Light", "Jaywalking", "Wrong Lane", "Speeding", "Other"] },
+          description: { type: Type.STRING },
+          severity: { type: Type.STRING, enum: ["Low", "Medium", "High"] }
+        }
+      }
+    }
+  },
+  required: ["detections", "congestionLevel", "trafficFlowStatus", "sceneType"]
+};
+
+const FAST_PROMPT = "Detect vehicles/pedestrians. Return 2D bounding boxes and congestion level. Report each visible traffic signal head with its state and bounding box.";
+
+const FULL_SYSTEM_INSTRUCTION = `
+  You are the Perception Agent of the 'Multi AI Agent' Traffic Monitoring System.
+  Report only what is visible in this frame; other agents handle trends and recommendations.
+
+  1. Classify the scene: 'Highway', 'Intersection', 'City Street', 'Parking Lot', 'Tunnel', or 'Other'.
+  2. Detect objects (Car, Truck, Bus, Bike, Person) with [ymin, xmin, ymax, xmax] boxes (0-1000).
+  3. Report each visible signal head with its state and box.
+  4. Estimate congestion (0-100) and flow status.
+  5. List violations that are unambiguous in this single frame, with severity for the scene:
+     - Highway: lane discipline, hard shoulder use.
+     - Intersection: signal compliance, stop lines, turning conflicts.
+     - City Street: pedestrians, cyclists, illegal parking.
+     - Tunnel: stopped vehicles, lane changes.
+`;
+
+// --- AGENT ---
+
+/** Applies NMS and counts what it removed, for the trace. Detections whose box was dropped as unusable are kept. */
+const suppressDuplicates = (detections: DetectionItem[], iouThreshold: number) => {
+  const unboxed = detections.filter(d => !d.box_2d || d.box_2d.length !== 4).length;
+  const input = detections.length - unboxed;
+  const kept = applyNMS(detections, iouThreshold);
+  return { detections: kept, nms: { input, kept: kept.length - unboxed, dropped: detections.length - kept.length, unboxed } };
+};
+
+export const runPerceptionAgent = async (input: PerceptionInput, signal?: AbortSignal, calls?: ModelCallTrace[]): Promise<PerceptionOutput> => {
+  try {
+    if (input.depth === 'fast') {
+      const response = await callModel({
+        task: 'fast',
+        image: await prepareModelImage(input.image, input.mimeType, 640),
+        prompt: FAST_PROMPT,
+        responseSchema: fastPerceptionSchema,
+        temperature: 0.1, // Deterministic
+      }, signal, calls);
+      const data = validateFastResponse(parseModelJson(response.text, 'fast'));
+      return { ...data, ...suppressDuplicates(data.detections, 0.4), observedViolations: [], modelId: response.modelId };
+    }
+
+    const response = await callModel({
+      task: 'full',
+      image: await prepareModelImage(input.image, input.mimeType, 1024),
+      prompt: "Describe this traffic scene: scene type, objects, signals, congestion and visible violations.",
+      systemInstruction: FULL_SYSTEM_INSTRUCTION,
+      responseSchema: fullPerceptionSchema,
+    }, signal, calls);
+    const data = validatePerceptionResponse(parseModelJson(response.text, 'full'));
+    return { ...data, ...suppressDuplicates(data.detections, 0.45), modelId: response.modelId };
+  } catch (error) {
+    return handleGeminiError(error);
+  }
+};
@@ -0,0 +1,274 @@
+import { FullAnalysisResult, Violation } from "../types";
+import { drawAnnotations } from "./annotationRenderer";
+import { formatEventTime } from "./signalPhaseService";
+import { downloadFile } from "./fileDownload";
+
+// Self-contained incident reports (HTML, or PDF through the browser's print dialog).
+
+const TEMPLATE_STORAGE_KEY = 'multi_ai_agent_report_template';
+
+/** Branding applied to every report. */
+export interface ReportTemplate {
+  organization: string;
+  title: string;
+  accentColor: string; // CSS colour for headings, rules and the chart
+  logoDataUrl?: string;
+  preparedBy: string;
+  footer: string;
+  customCss: string; // Appended after the built-in styles
+}
+
+export const DEFAULT_REPORT_TEMPLATE: ReportTemplate = {
+  organization: 'Traffic Operations',
+  title: 'Traffic Incident Report',
+  accentColor: '#6366F1',
+  preparedBy: '',
+  footer: 'Generated automatically from camera analysis. Verify against source footage before enforcement.',
+  customCss: '',
+};
+
+export const loadReportTemplate = (): ReportTemplate => {
+  try {
+    const saved = localStorage.getItem(TEMPLATE_STORAGE_KEY);
+    if (saved) return { ...DEFAULT_REPORT_TEMPLATE, ...JSON.parse(saved) };
+  } catch (e) {
+    console.error(e);
+  }
+  return { ...DEFAULT_REPORT_TEMPLATE };
+};
+
+export const saveReportTemplate = (template: ReportTemplate) => {
+  localStorage.setItem(TEMPLATE_STORAGE_KEY, JSON.stringify(template));
+};
+
+export interface ReportInput {
+  result: FullAnalysisResult;      // The analysis the report is about (for a session, the latest frame)
+  session?: FullAnalysisResult[];  // Every analyzed frame of a video session
+  frame?: string | null;           // Source image as a data URI; annotated with result.detections
+}
+
+// --- FRAME ---
+
+/** The frame at its natural size with the same boxes the live overlay draws, as a JPEG data URI. */
+export const renderAnnotatedFrame = (src: string, result: FullAnalysisResult): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return reject(new Error("Canvas unavailable for report frame"));
+      ctx.drawImage(img, 0, 0);
+      drawAnnotations(ctx, result.detections, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', 0.9));
+    };
+    img.onerror = () => reject(new Error("Report frame could not be decoded"));
+    img.src = src;
+  });
+
+// --- HTML ---
+
+const escapeHtml = (value: unknown): string =>
+  String(value ?? '').replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch]!));
+
+const SEVERITY_ORDER: Violation['severity'][] = ['High', 'Medium', 'Low'];
+
+/**
+ * Violations for the report. A session repeats model-reported violations on every frame,
+ * so they are collapsed to their first occurrence.
+ */
+const collectViolations = (input: ReportInput): Violation[] => {
+  const frames = input.session && input.session.length > 0 ? input.session : [input.result];
+  const seen = new Set<string>();
+  const violations: Violation[] = [];
+  frames.forEach(frame => frame.analysis.detectedViolations.forEach(v => {
+    const key = `${v.type}|${v.trackId ?? ''}|${v.zoneId ?? ''}|${v.trackId === undefined ? v.description : ''}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    violations.push({ ...v, timestamp: v.timestamp ?? frame.timestamp });
+  }));
+  return violations.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) || (a.timestamp! - b.timestamp!));
+};
+
+/** Vehicle count and congestion over the session as an inline SVG line chart. */
+const congestionTimelineSvg = (session: FullAnalysisResult[], accent: string): string => {
+  const W = 720, H = 200, PAD_L = 36, PAD_R = 36, PAD_T = 12, PAD_B = 28;
+  const plotW = W - PAD_L - PAD_R;
+  const plotH = H - PAD_T - PAD_B;
+  const maxVehicles = Math.max(1, ...session.map(s => s.analysis.totalVehicles));
+  const x = (i: number) => PAD_L + (session.length === 1 ? plotW / 2 : (i / (session.length - 1)) * plotW);
+  const line = (value: (s: FullAnalysisResult) => number, max: number) =>
+    session.map((s, i) => `${x(i).toFixed(1)},${(PAD_T + plotH - (value(s) / max) * plotH).toFixed(1)}`).join(' ');
+
+  const gridLines = [0, 0.25, 0.5, 0.75, 1].map(f => {
+    const y = PAD_T + plotH - f * plotH;
+    return `<line x1="${PAD_L}" x2="${W - PAD_R}" y1="${y}" y2="${y}" stroke="#e2e8f0" />`
+      + `<text x="${PAD_L - 6}" y="${y + 3}" text-anchor="end">${Math.round(f * maxVehicles)}</text>`
+      + `<text x="${W - PAD_R + 6}" y="${y + 3}">${Math.round(f * 100)}%</text>`;
+  }).join('');
+  const ticks = [0, Math.floor((session.length - 1) / 2), session.length - 1]
+    .filter((v, i, arr) => arr.indexOf(v) === i)
+    .map(i => `<text x="${x(i)}" y="${H - 8}" text-anchor="middle">${escapeHtml(formatEventTime(session[i].timestamp))}</text>`).join('');
+
+  return `<svg viewBox="0 0 ${W} ${H}" class="chart" role="img" aria-label="Congestion timeline">
+    ${gridLines}${ticks}
+    <polyline fill="none" stroke="${escapeHtml(accent)}" stroke-width="2.5" points="${line(s => s.analysis.totalVehicles, maxVehicles)}" />
+    <polyline fill="none" stroke="#ef4444" stroke-width="2" stroke-dasharray="5 3" points="${line(s => s.analysis.congestionLevel, 100)}" />
+  </svg>
+  <div class="legend"><span style="color:${escapeHtml(accent)}">━ Vehicle count (left)</span><span style="color:#ef4444">┅ Congestion % (right)</span></div>`;
+};
+
+const BASE_CSS = (accent: string) => `
+  @page { size: A4; margin: 16mm; }
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; color: #0f172a; margin: 0 auto; max-width: 820px; padding: 24px; font-size: 13px; line-height: 1.5; }
+  header { display: flex; align-items: center; gap: 16px; border-bottom: 3px solid ${accent}; padding-bottom: 12px; margin-bottom: 20px; }
+  header img { max-height: 56px; max-width: 160px; }
+  header .org { font-size: 12px; text-transform: uppercase; letter-spacing: 0.08em; color: #64748b; }
+  h1 { margin: 2px 0 0; font-size: 22px; }
+  h2 { color: ${accent}; font-size: 14px; text-transform: uppercase; letter-spacing: 0.06em; margin: 24px 0 8px; break-after: avoid; }
+  .meta { margin-left: auto; text-align: right; font-size: 11px; color: #64748b; }
+  .frame { width: 100%; border-radius: 6px; border: 1px solid #cbd5e1; }
+  .metrics { display: grid; grid-template-columns: repeat(3, 1fr); gap: 8px; }
+  .metric { border: 1px solid #e2e8f0; border-radius: 6px; padding: 8px 10px; }
+  .metric .label { font-size: 10px; text-transform: uppercase; color: #64748b; }
+  .metric .value { font-size: 18px; font-weight: 700; }
+  table { width: 100%; border-collapse: collapse; font-size: 12px; }
+  th { text-align: left; background: #f1f5f9; padding: 6px 8px; font-size: 10px; text-transform: uppercase; color: #475569; }
+  td { padding: 6px 8px; border-top: 1px solid #e2e8f0; vertical-align: top; }
+  tr { break-inside: avoid; }
+  .sev { font-weight: 700; padding: 1px 6px; border-radius: 4px; font-size: 11px; }
+  .sev-High { background: #fee2e2; color: #b91c1c; }
+  .sev-Medium { background: #ffedd5; color: #c2410c; }
+  .sev-Low { background: #e0f2fe; color: #0369a1; }
+  .chart { width: 100%; height: auto; font-size: 10px; fill: #64748b; }
+  .legend { display: flex; gap: 16px; font-size: 11px; }
+  ul { padding-left: 18px; margin: 4px 0; }
+  .muted { color: #64748b; }
+  footer { margin-top: 32px; padding-top: 10px; border-top: 1px solid #e2e8f0; font-size: 10px; color: #64748b; }
+  section { break-inside: avoid; }
+`;
+
+/** The complete report as a standalone HTML document; images are inlined as data URIs. */
+export const buildReportHtml = async (input: ReportInput, template: ReportTemplate): Promise<string> => {
+  const { result, session } = input;
+  const { analysis, report, locationContext } = result;
+  const accent = template.accentColor || DEFAULT_REPORT_TEMPLATE.accentColor;
+  const isSession = !!session && session.length > 1;
+  const reference = `TR-${new Date(result.timestamp < 1e11 ? Date.now() : result.timestamp).toISOString().slice(0, 10).replace(/-/g, '')}-${Math.random().toString(36).substring(2, 7).toUpperCase()}`;
+
+  let frame = '';
+  if (input.frame) {
+    try {
+      frame = await renderAnnotatedFrame(input.frame, result);
+    } catch (e) {
+      console.warn("Report frame skipped", e);
+    }
+  }
+
+  const violations = collectViolations(input);
+  const metric = (label: string, value: string) => `<div class="metric"><div class="label">${escapeHtml(label)}</div><div class="value">${escapeHtml(value)}</div></div>`;
+
+  const sections: string[] = [];
+
+  if (locationContext) {
+    const coords = locationContext.latitude !== undefined && locationContext.longitude !== undefined
+      ? `${locationContext.latitude.toFixed(5)}, ${locationContext.longitude.toFixed(5)}` : null;
+    sections.push(`<section><h2>Location</h2>
+      <p><strong>${escapeHtml(locationContext.address || 'Unknown address')}</strong>${coords ? ` <span class="muted">(${coords})</span>` : ''}</p>
+      ${locationContext.nearbyPlaces.length ? `<p class="muted">Nearby: ${locationContext.nearbyPlaces.map(p => `${escapeHtml(p.name)} (${escapeHtml(p.type)}, ${escapeHtml(p.distance)})`).join(' · ')}</p>` : ''}
+      ${locationContext.trafficInfluencers.length ? `<ul>${locationContext.trafficInfluencers.map(t => `<li>${escapeHtml(t)}</li>`).join('')}</ul>` : ''}
+    </section>`);
+  }
+
+  if (frame) {
+    sections.push(`<section><h2>Annotated frame</h2><img class="frame" src="${frame}" alt="Annotated frame" />
+      <p class="muted">Captured ${escapeHtml(formatEventTime(result.timestamp))} · ${result.detections.length} detections</p></section>`);
+  }
+
+  sections.push(`<section><h2>Traffic conditions</h2><div class="metrics">
+    ${metric('Flow status', analysis.trafficFlowStatus)}
+    ${metric('Congestion', `${analysis.congestionLevel}%`)}
+    ${metric('Priority', `${report.priorityScore}/10`)}
+    ${metric('Vehicles', String(analysis.totalVehicles))}
+    ${metric('Pedestrians', String(analysis.pedestrianCount))}
+    ${metric('Average speed', `${Math.round(analysis.estimatedAverageSpeed)} km/h`)}
+  </div></section>`);
+
+  sections.push(`<section><h2>Summary</h2><p>${escapeHtml(report.summary)}</p>
+    ${report.recommendations.length ? `<h2>Recommendations</h2><ul>${report.recommendations.map(r => `<li>${escapeHtml(r)}</li>`).join('')}</ul>` : ''}
+  </section>`);
+
+  sections.push(`<section><h2>Violations (${violations.length})</h2>${violations.length === 0
+    ? '<p class="muted">No violations detected.</p>'
+    : `<table><thead><tr><th>Severity</th><th>Type</th><th>Description</th><th>Track</th><th>Time</th></tr></thead><tbody>
+      ${violations.map(v => `<tr>
+        <td><span class="sev sev-${v.severity}">${escapeHtml(v.severity)}</span></td>
+        <td>${escapeHtml(v.type)}</td>
+        <td>${escapeHtml(v.description)}${v.evidence ? `<div class="muted">Signal ${escapeHtml(v.evidence.signalId)} ${escapeHtml(v.evidence.signalState)} since ${escapeHtml(formatEventTime(v.evidence.phaseStart))}</div>` : ''}</td>
+        <td>${v.trackId !== undefined ? `#${v.trackId}` : '–'}</td>
+        <td>${escapeHtml(formatEventTime(v.timestamp!))}</td>
+      </tr>`).join('')}
+    </tbody></table>`}</section>`);
+
+  if (isSession) {
+    sections.push(`<section><h2>Congestion timeline</h2>${congestionTimelineSvg(session!, accent)}
+      <p class="muted">${session!.length} analyzed frames, ${escapeHtml(formatEventTime(session![0].timestamp))} – ${escapeHtml(formatEventTime(session![session!.length - 1].timestamp))}</p></section>`);
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(template.title)} ${reference}</title>
+<style>${BASE_CSS(accent)}${template.customCss}</style>
+</head>
+<body>
+<header>
+  ${template.logoDataUrl ? `<img src="${template.logoDataUrl}" alt="" />` : ''}
+  <div>
+    <div class="org">${escapeHtml(template.organization)}</div>
+    <h1>${escapeHtml(template.title)}</h1>
+  </div>
+  <div class="meta">
+    Ref ${reference}<br />
+    ${isSession ? 'Video session' : 'Single analysis'} · ${escapeHtml(new Date().toLocaleString())}<br />
+    ${template.preparedBy ? `Prepared by ${escapeHtml(template.preparedBy)}<br />` : ''}
+    Model ${escapeHtml(result.modelId || 'unknown')}
+  </div>
+</header>
+${sections.join('\n')}
+<footer>${escapeHtml(template.footer)}</footer>
+</body>
+</html>`;
+};
+
+// --- OUTPUT ---
+
+export const downloadReportHtml = async (input: ReportInput, template: ReportTemplate) => {
+  const html = await buildReportHtml(input, template);
+  downloadFile(`traffic-report-${new Date().toISOString().replace(/[:.]/g, '-')}.html`, html, 'text/html');
+};
+
+/**
+ * Opens the browser's print dialog on the report, where it can be saved as PDF. The
+ * document is printed from a hidden frame so the app itself is left untouched.
+ */
+export const printReport = async (input: ReportInput, template: ReportTemplate) => {
+  const html = await buildReportHtml(input, template);
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.onload = () => {
+    const win = frame.contentWindow;
+    if (!win) return frame.remove();
+    win.onafterprint = () => frame.remove();
+    win.focus();
+    win.print();
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+};
@@ -0,0 +1,105 @@
+import { Type } from "@google/genai";
+import { FullAnalysisResult, LocationContextData, ModelCallTrace, ResponseCoercion, TrafficReport } from "../types";
+import { callModel, handleGeminiError } from "./geminiService";
+import { AnalyticsOutput } from "./analyticsAgent";
+import { parseModelJson, validateReportResponse } from "./responseValidation";
+
+// Agent 3: turns the analytics into a summary, recommendations and a priority score
+// for operators.
+
+export interface ReportingInput {
+  analytics: AnalyticsOutput;
+  history: FullAnalysisResult[];          // Recent results, oldest first
+  locationContext?: LocationContextData;
+}
+
+export interface ReportingOutput {
+  report: TrafficReport;
+  modelId?: string;
+  coercions: ResponseCoercion[];
+}
+
+const reportSchema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    recommendations: { type: Type.ARRAY, items: { type: Type.STRING } },
+    priorityScore: { type: Type.INTEGER }
+  },
+  required: ["summary", "recommendations", "priorityScore"]
+};
+
+const SYSTEM_INSTRUCTION = `
+  You are the Reporting Agent of the 'Multi AI Agent' Traffic Monitoring System.
+  You receive the analytics agent's assessment of a traffic scene as JSON.
+
+  - Write a two or three sentence summary for a traffic operator.
+  - Give concrete, actionable recommendations (signal timing, enforcement, dispatch, signage).
+  - Score priority 1-10: 1 is routine, 10 needs immediate intervention.
+  - Use the location context, when present, to explain likely causes.
+`;
+
+// Recommendations the local rules attach to each kind of finding
+const VIOLATION_ADVICE: Partial<Record<string, string>> = {
+  'Red Light': 'Review signal compliance at the stop line; consider red-light enforcement.',
+  'Speeding': 'Consider speed enforcement or traffic calming on this approach.',
+  'Jaywalking': 'Assess pedestrian crossing provision and signal phasing.',
+  'Wrong Lane': 'Check lane markings and signage for wrong-way entries.',
+  'Restricted Zone': 'Patrol the restricted zone or add physical barriers.',
+};
+
+const SEVERITY_WEIGHT = { Low: 0.5, Medium: 1, High: 2 };
+
+/** Deterministic report for real-time loops, and the fallback when the model call fails. */
+export const reportLocally = ({ analytics }: ReportingInput): ReportingOutput => {
+  const { analysis, trend, riskNotes } = analytics;
+  const violations = analysis.detectedViolations;
+
+  const summary = [
+    `${analysis.sceneType ?? 'Scene'}: ${analysis.totalVehicles} vehicles and ${analysis.pedestrianCount} pedestrians, ${analysis.trafficFlowStatus.toLowerCase()} flow at ${analysis.congestionLevel}% congestion (${trend.toLowerCase()}).`,
+    violations.length > 0 ? `${violations.length} violation${violations.length > 1 ? 's' : ''} recorded.` : 'No violations recorded.',
+    ...riskNotes.slice(0, 2).map(n => `${n}.`),
+  ].join(' ');
+
+  const recommendations: string[] = [];
+  if (analysis.congestionLevel >= 75) recommendations.push('Adjust signal timing or divert traffic to relieve congestion.');
+  else if (trend === 'Worsening') recommendations.push('Congestion is building; monitor closely and prepare signal adjustments.');
+  new Set(violations.map(v => v.type)).forEach(type => {
+    const advice = VIOLATION_ADVICE[type];
+    if (advice) recommendations.push(advice);
+  });
+  if (violations.some(v => v.description.startsWith('Near miss'))) recommendations.push('Investigate the conflict points behind near misses.');
+
+  const severityScore = violations.reduce((sum, v) => sum + SEVERITY_WEIGHT[v.severity], 0);
+  const priorityScore = Math.min(10, Math.max(1, Math.round(1 + analysis.congestionLevel / 20 + severityScore)));
+
+  return { report: { summary, recommendations, priorityScore }, coercions: [] };
+};
+
+const buildPrompt = ({ analytics, history, locationContext }: ReportingInput): string => JSON.stringify({
+  analysis: {
+    ...analytics.analysis,
+    detectedViolations: analytics.analysis.detectedViolations.map(v => ({ type: v.type, severity: v.severity, description: v.description })),
+  },
+  trend: analytics.trend,
+  riskNotes: analytics.riskNotes,
+  recentCongestion: history.map(h => h.analysis.congestionLevel),
+  location: locationContext ? { address: locationContext.address, influencers: locationContext.trafficInfluencers } : undefined,
+});
+
+/** Full-depth report: a text-only model call over the analytics output. */
+export const runReportingAgent = async (input: ReportingInput, signal?: AbortSignal, calls?: ModelCallTrace[]): Promise<ReportingOutput> => {
+  try {
+    const response = await callModel({
+      task: 'report',
+      prompt: buildPrompt(input),
+      systemInstruction: SYSTEM_INSTRUCTION,
+      responseSchema: reportSchema,
+      temperature: 0.4,
+    }, signal, calls);
+    const data = validateReportResponse(parseModelJson(response.text, 'report'));
+    return { report: data.report, modelId: response.modelId, coercions: data.coercions };
+  } catch (error) {
+    return handleGeminiError(error);
+  }
+};
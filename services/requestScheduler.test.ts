@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SCHEDULER_CONFIG, isAbortError, isRateLimitError, isRetryableError, RequestScheduler } from './requestScheduler';
+
+const withStatus = (status: unknown, message = 'failed') => Object.assign(new Error(message), { status });
+
+describe('isRetryableError', () => {
+  it('reads the status from structured fields only', () => {
+    expect(isRetryableError(withStatus(503))).toBe(true);
+    expect(isRetryableError(withStatus(429))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('failed'), { code: 500 }))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('failed'), { response: { status: 502 } }))).toBe(true);
+    expect(isRetryableError(withStatus(400, 'Request 503 of 600 was rejected'))).toBe(false);
+  });
+
+  it('does not retry errors that only mention a server status in their text', () => {
+    expect(isRetryableError(new Error('Image 1024x512 exceeds the 500 pixel limit'))).toBe(false);
+    expect(isRetryableError(new Error('got 429 detections'))).toBe(false);
+    expect(isRetryableError('The service is unavailable')).toBe(false);
+  });
+
+  it('retries on the API status markers', () => {
+    expect(isRetryableError(new Error('{"error":{"code":429,"status":"RESOURCE_EXHAUSTED"}}'))).toBe(true);
+    expect(isRetryableError(withStatus('UNAVAILABLE'))).toBe(true);
+    expect(isRateLimitError(new Error('RESOURCE_EXHAUSTED: quota'))).toBe(true);
+    expect(isRateLimitError(withStatus('UNAVAILABLE'))).toBe(false);
+  });
+
+  it('never retries cancellations', () => {
+    expect(isAbortError(new DOMException('Request cancelled', 'AbortError'))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('aborted'), { name: 'AbortError', status: 503 }))).toBe(false);
+    expect(isAbortError(null)).toBe(false);
+  });
+});
+
+describe('RequestScheduler', () => {
+  it('retries server errors and records the labelled last error', async () => {
+    const scheduler = new RequestScheduler({ ...DEFAULT_SCHEDULER_CONFIG, baseDelayMs: 1, maxDelayMs: 1 });
+    let attempts = 0;
+    const value = await scheduler.schedule(async () => {
+      if (++attempts < 3) throw withStatus(503, 'overloaded');
+      return 'ok';
+    }, { label: 'fast request' });
+    expect(value).toBe('ok');
+    expect(scheduler.getState()).toMatchObject({ retries: 2, completed: 1, lastError: 'fast request: overloaded' });
+  });
+
+  it('fails non-retryable errors at once', async () => {
+    const scheduler = new RequestScheduler();
+    let attempts = 0;
+    const failing = scheduler.schedule(async () => {
+      attempts++;
+      throw withStatus(400, 'Server returned 503 bytes of HTML');
+    });
+    await expect(failing).rejects.toThrow('Server returned 503 bytes of HTML');
+    expect(attempts).toBe(1);
+  });
+});
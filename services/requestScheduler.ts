@@ -0,0 +1,263 @@
+// Central queue for model calls: concurrency limit, token-bucket budget, exponential
+// backoff with full jitter on rate-limit and server errors, and AbortSignal cancellation.
+
+export interface SchedulerConfig {
+  maxConcurrent: number;
+  maxRetries: number;      // Retries after the first attempt
+  baseDelayMs: number;     // Backoff ceiling for the first retry; doubles per attempt
+  maxDelayMs: number;
+  bucketCapacity: number;  // Burst size, in attempts
+  refillPerMinute: number; // Sustained attempts per minute
+}
+
+export const DEFAULT_SCHEDULER_CONFIG: SchedulerConfig = {
+  maxConcurrent: 2,
+  maxRetries: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  bucketCapacity: 10,
+  refillPerMinute: 60,
+};
+
+export interface SchedulerState {
+  queued: number;
+  running: number;
+  backingOff: number;          // Jobs waiting out a retry delay
+  tokens: number;              // Whole tokens left in the bucket
+  completed: number;
+  failed: number;
+  retries: number;
+  nextRetryAt: number | null;  // Earliest pending retry (epoch ms)
+  lastError: string | null;
+  config: SchedulerConfig;
+}
+
+export interface ScheduleOptions {
+  signal?: AbortSignal;
+  label?: string; // Prefixes the job's errors in SchedulerState.lastError
+}
+
+type Task<T> = (signal: AbortSignal) => Promise<T>;
+
+interface Job {
+  task: Task<unknown>;
+  label: string;
+  attempt: number;
+  controller: AbortController; // Aborted when the caller's signal fires
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+  retryTimer?: ReturnType<typeof setTimeout>;
+  retryAt?: number;
+  detach: () => void;
+}
+
+export const createAbortError = () => new DOMException("Request cancelled", 'AbortError');
+
+/** Property `key` of a thrown value, whatever its shape. */
+const errorField = (error: unknown, key: string): unknown =>
+  error !== null && typeof error === 'object' ? (error as Record<string, unknown>)[key] : undefined;
+
+const errorMessage = (error: unknown): string => {
+  const message = errorField(error, 'message');
+  return typeof message === 'string' && message ? message : String(error);
+};
+
+export const isAbortError = (error: unknown): boolean =>
+  (error instanceof DOMException && error.name === 'AbortError') || errorField(error, 'name') === 'AbortError';
+
+/** HTTP status of a failed call, from the structured fields the SDK and fetch wrappers set. */
+const errorStatus = (error: unknown): number | null => {
+  const candidates = [errorField(error, 'status'), errorField(error, 'code'), errorField(errorField(error, 'response'), 'status')];
+  const status = candidates.find(s => typeof s === 'number');
+  return typeof status === 'number' ? status : null;
+};
+
+/** gRPC status name the Gemini API puts in its error body, for errors without a numeric status. */
+const statusMarker = (error: unknown): 'RESOURCE_EXHAUSTED' | 'UNAVAILABLE' | null => {
+  const text = [errorField(error, 'status'), errorField(error, 'code'), errorMessage(error)].filter(v => typeof v === 'string').join(' ');
+  const match = text.match(/\b(RESOURCE_EXHAUSTED|UNAVAILABLE)\b/);
+  return match ? (match[1] as 'RESOURCE_EXHAUSTED' | 'UNAVAILABLE') : null;
+};
+
+/** Rate limits (429) and server errors (5xx) are retried; everything else fails at once. */
+export const isRetryableError = (error: unknown): boolean => {
+  if (isAbortError(error)) return false;
+  const status = errorStatus(error);
+  if (status !== null) return status === 429 || status >= 500;
+  return statusMarker(error) !== null;
+};
+
+export const isRateLimitError = (error: unknown): boolean =>
+  errorStatus(error) === 429 || statusMarker(error) === 'RESOURCE_EXHAUSTED';
+
+export class RequestScheduler {
+  private queue: Job[] = [];
+  private running = new Set<Job>();
+  private backingOff = new Set<Job>();
+  private tokens: number;
+  private lastRefill = Date.now();
+  private refillTimer?: ReturnType<typeof setTimeout>;
+  private listeners = new Set<(state: SchedulerState) => void>();
+  private stats = { completed: 0, failed: 0, retries: 0, lastError: null as string | null };
+
+  constructor(private config: SchedulerConfig = DEFAULT_SCHEDULER_CONFIG) {
+    this.tokens = config.bucketCapacity;
+  }
+
+  /** Runs `task` when a slot and a token are free. The task must honour the signal it is given. */
+  public schedule<T>(task: Task<T>, options: ScheduleOptions = {}): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (options.signal?.aborted) return reject(createAbortError());
+
+      const controller = new AbortController();
+      const onAbort = () => this.cancel(job);
+      options.signal?.addEventListener('abort', onAbort);
+      const job: Job = {
+        task: task as Task<unknown>,
+        label: options.label || 'request',
+        attempt: 0,
+        controller,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+        detach: () => options.signal?.removeEventListener('abort', onAbort),
+      };
+      this.queue.push(job);
+      this.pump();
+    });
+  }
+
+  /** True when new work would have to wait for a slot. Loops use this to skip frames instead of piling up. */
+  public isSaturated(): boolean {
+    return this.queue.length + this.running.size + this.backingOff.size >= this.config.maxConcurrent;
+  }
+
+  /** Cancels every queued, running and backing-off job. */
+  public cancelAll() {
+    [...this.queue, ...this.running, ...this.backingOff].forEach(job => this.cancel(job));
+  }
+
+  public configure(patch: Partial<SchedulerConfig>) {
+    this.config = { ...this.config, ...patch };
+    this.tokens = Math.min(this.tokens, this.config.bucketCapacity);
+    this.pump();
+  }
+
+  public getState(): SchedulerState {
+    this.refill();
+    const retryTimes = [...this.backingOff].map(j => j.retryAt!).filter(Boolean);
+    return {
+      queued: this.queue.length,
+      running: this.running.size,
+      backingOff: this.backingOff.size,
+      tokens: Math.floor(this.tokens),
+      completed: this.stats.completed,
+      failed: this.stats.failed,
+      retries: this.stats.retries,
+      nextRetryAt: retryTimes.length > 0 ? Math.min(...retryTimes) : null,
+      lastError: this.stats.lastError,
+      config: this.config,
+    };
+  }
+
+  public subscribe(listener: (state: SchedulerState) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.getState());
+    return () => { this.listeners.delete(listener); };
+  }
+
+  // --- INTERNALS ---
+
+  private notify() {
+    const state = this.getState();
+    this.listeners.forEach(l => l(state));
+  }
+
+  private refill() {
+    const now = Date.now();
+    const perMs = this.config.refillPerMinute / 60000;
+    this.tokens = Math.min(this.config.bucketCapacity, this.tokens + (now - this.lastRefill) * perMs);
+    this.lastRefill = now;
+  }
+
+  private pump() {
+    this.refill();
+    while (this.queue.length > 0 && this.running.size < this.config.maxConcurrent && this.tokens >= 1) {
+      this.tokens -= 1;
+      this.start(this.queue.shift()!);
+    }
+
+    // Out of tokens with work waiting: wake up when the next one is due
+    if (this.queue.length > 0 && this.tokens < 1 && !this.refillTimer) {
+      const waitMs = Math.ceil((1 - this.tokens) / (this.config.refillPerMinute / 60000));
+      this.refillTimer = setTimeout(() => {
+        this.refillTimer = undefined;
+        this.pump();
+      }, waitMs);
+    }
+    this.notify();
+  }
+
+  private async start(job: Job) {
+    this.running.add(job);
+    try {
+      const value = await job.task(job.controller.signal);
+      if (!this.running.delete(job)) return; // Cancelled while in flight
+      this.stats.completed++;
+      job.detach();
+      job.resolve(value);
+    } catch (error) {
+      if (!this.running.delete(job)) return;
+      if (job.controller.signal.aborted || isAbortError(error)) {
+        job.detach();
+        job.reject(createAbortError());
+      } else if (isRetryableError(error) && job.attempt < this.config.maxRetries) {
+        this.retryLater(job, error);
+      } else {
+        this.stats.failed++;
+        this.stats.lastError = `${job.label}: ${errorMessage(error)}`;
+        job.detach();
+        job.reject(error);
+      }
+    }
+    this.pump();
+  }
+
+  /** Full jitter: a uniform delay up to the exponential ceiling, so clients retrying together spread out. */
+  private retryLater(job: Job, error: unknown) {
+    const ceiling = Math.min(this.config.maxDelayMs, this.config.baseDelayMs * 2 ** job.attempt);
+    const delay = Math.round(Math.random() * ceiling);
+    job.attempt++;
+    job.retryAt = Date.now() + delay;
+    this.stats.retries++;
+    this.stats.lastError = `${job.label}: ${errorMessage(error)}`;
+
+    this.backingOff.add(job);
+    job.retryTimer = setTimeout(() => {
+      this.backingOff.delete(job);
+      job.retryTimer = undefined;
+      this.queue.unshift(job); // Retries go ahead of new work
+      this.pump();
+    }, delay);
+  }
+
+  private cancel(job: Job) {
+    const wasPending = this.queue.includes(job) || this.backingOff.has(job) || this.running.has(job);
+    if (!wasPending) return;
+    this.queue = this.queue.filter(j => j !== job);
+    if (job.retryTimer) clearTimeout(job.retryTimer);
+    this.backingOff.delete(job);
+    this.running.delete(job);
+    job.controller.abort();
+    job.detach();
+    job.reject(createAbortError());
+    this.pump();
+  }
+}
+
+let scheduler: RequestScheduler | null = null;
+
+/** The scheduler shared by every geminiService call. */
+export const getRequestScheduler = (): RequestScheduler => {
+  if (!scheduler) scheduler = new RequestScheduler();
+  return scheduler;
+};
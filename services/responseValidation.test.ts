@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ModelResponseError,
+  parseModelJson,
+  validateAnalyticsResponse,
+  validateFastResponse,
+  validatePerceptionResponse,
+  validateReportResponse,
+} from './responseValidation';
+
+const car = (box_2d: unknown) => ({ object: 'car', type: 'vehicle', count: 1, confidence: 0.9, box_2d });
+const fast = (detections: unknown[], extra: Record<string, unknown> = {}) =>
+  validateFastResponse({ detections, congestionLevel: 40, trafficFlowStatus: 'Moderate', ...extra });
+
+/** The ModelResponseError `fn` throws; fails the test when it throws anything else or nothing. */
+const rejection = (fn: () => unknown): ModelResponseError => {
+  try {
+    fn();
+  } catch (e) {
+    expect(e).toBeInstanceOf(ModelResponseError);
+    return e as ModelResponseError;
+  }
+  throw new Error('Expected a ModelResponseError');
+};
+
+describe('box_2d repair', () => {
+  it('keeps a valid box without coercions', () => {
+    const res = fast([car([100, 200, 300, 400])]);
+    expect(res.detections[0].box_2d).toEqual([100, 200, 300, 400]);
+    expect(res.coercions).toEqual([]);
+  });
+
+  it('drops malformed boxes but keeps the detection', () => {
+    const res = fast([car([1, 2, 3]), car('100,200,300,400'), car([1, 'a', 3, 4])]);
+    expect(res.detections).toHaveLength(3);
+    expect(res.detections.every(d => d.box_2d === undefined)).toBe(true);
+    expect(res.coercions.map(c => [c.path, c.to, c.reason])).toEqual([
+      ['detections[0].box_2d', undefined, 'not four numbers'],
+      ['detections[1].box_2d', undefined, 'not four numbers'],
+      ['detections[2].box_2d', undefined, 'not four numbers'],
+    ]);
+  });
+
+  it('scales 0-1 fractions to the 0-1000 grid', () => {
+    const res = fast([car([0.1, 0.2, 0.3, 0.4])]);
+    expect(res.detections[0].box_2d![0]).toBeCloseTo(100);
+    expect(res.detections[0].box_2d![3]).toBeCloseTo(400);
+    expect(res.coercions).toHaveLength(1);
+    expect(res.coercions[0]).toMatchObject({ path: 'detections[0].box_2d', from: [0.1, 0.2, 0.3, 0.4], reason: 'fractions scaled to 0-1000' });
+  });
+
+  it('reorders swapped corners', () => {
+    const res = fast([car([300, 400, 100, 200])]);
+    expect(res.detections[0].box_2d).toEqual([100, 200, 300, 400]);
+    expect(res.coercions).toEqual([
+      { path: 'detections[0].box_2d', from: [300, 400, 100, 200], to: [100, 200, 300, 400], reason: 'ymin/ymax swapped, xmin/xmax swapped' },
+    ]);
+  });
+
+  it('clamps out-of-range corners and drops boxes with no area', () => {
+    const res = fast([car([-50, 100, 1200, 900]), car([1100, 1100, 1200, 1200])]);
+    expect(res.detections[0].box_2d).toEqual([0, 100, 1000, 900]);
+    expect(res.detections[1].box_2d).toBeUndefined();
+    expect(res.coercions.map(c => [c.path, c.reason])).toEqual([
+      ['detections[0].box_2d', 'clamped to 0-1000'],
+      ['detections[1].box_2d', 'zero area'],
+    ]);
+  });
+});
+
+describe('congestionLevel', () => {
+  it('clamps values above 100 and below 0', () => {
+    expect(fast([], { congestionLevel: 140 }).congestionLevel).toBe(100);
+    const res = fast([], { congestionLevel: -5 });
+    expect(res.congestionLevel).toBe(0);
+    expect(res.coercions).toEqual([{ path: 'congestionLevel', from: -5, to: 0, reason: 'outside 0-100 or not an integer' }]);
+  });
+
+  it('scales fractions to percent', () => {
+    const res = fast([], { congestionLevel: 0.6 });
+    expect(res.congestionLevel).toBe(60);
+    expect(res.coercions).toContainEqual({ path: 'congestionLevel', from: 0.6, to: 60, reason: 'fraction scaled to percent' });
+  });
+
+  it('infers the level from the flow status, and the reverse', () => {
+    const fromStatus = validateFastResponse({ detections: [], trafficFlowStatus: 'Heavy' });
+    expect(fromStatus.congestionLevel).toBe(75);
+    expect(fromStatus.coercions).toContainEqual({ path: 'congestionLevel', from: undefined, to: 75, reason: 'inferred from Heavy' });
+
+    const fromLevel = validateFastResponse({ detections: [], congestionLevel: '90' });
+    expect(fromLevel.trafficFlowStatus).toBe('Gridlock');
+    expect(fromLevel.coercions.map(c => c.reason)).toEqual(['numeric string', 'inferred from congestion 90%']);
+  });
+
+  it('rejects a response with neither level nor status', () => {
+    const error = rejection(() => validateFastResponse({ detections: [] }));
+    expect(error.task).toBe('fast');
+    expect(error.issues).toEqual(['congestionLevel: missing, and no flow status to infer it from']);
+  });
+});
+
+describe('enum values', () => {
+  it('maps non-canonical spellings and synonyms', () => {
+    const res = fast([{ object: 'bus', type: 'Bus', box_2d: [1, 1, 100, 100] }], { trafficFlowStatus: 'free_flow' });
+    expect(res.detections[0].type).toBe('vehicle');
+    expect(res.trafficFlowStatus).toBe('Free Flow');
+    expect(res.coercions).toContainEqual({ path: 'detections[0].type', from: 'Bus', to: 'vehicle', reason: 'non-canonical enum value' });
+    expect(res.coercions).toContainEqual({ path: 'trafficFlowStatus', from: 'free_flow', to: 'Free Flow', reason: 'non-canonical enum value' });
+  });
+
+  it('falls back for unknown values', () => {
+    const res = fast([{ object: 'drone', type: 'aircraft' }]);
+    expect(res.detections[0].type).toBe('other');
+    expect(res.coercions).toContainEqual({ path: 'detections[0].type', from: 'aircraft', to: 'other', reason: 'unknown enum value' });
+
+    const analytics = validateAnalyticsResponse({
+      congestionLevel: 50,
+      trend: 'Sideways',
+      detectedViolations: [{ type: 'Parking', severity: 'Extreme', description: 'Double parked' }],
+    });
+    expect(analytics.trend).toBe('Stable');
+    expect(analytics.detectedViolations).toEqual([{ type: 'Other', severity: 'Medium', description: 'Double parked' }]);
+    expect(analytics.coercions.map(c => [c.path, c.reason])).toEqual(expect.arrayContaining([
+      ['trend', 'unknown enum value'],
+      ['detectedViolations[0].type', 'unknown enum value'],
+      ['detectedViolations[0].severity', 'unknown enum value'],
+    ]));
+  });
+
+  it('drops traffic lights without a recognisable state', () => {
+    const res = fast([], { trafficLights: [{ state: 'red' }, { state: 'Blinking' }] });
+    expect(res.trafficLights).toEqual([{ state: 'Red', count: 1 }]);
+    expect(res.coercions).toContainEqual({ path: 'trafficLights[1]', from: { state: 'Blinking' }, to: undefined, reason: 'no recognisable state' });
+  });
+});
+
+describe('missing fields', () => {
+  it('rejects a fast response without a detections array', () => {
+    const error = rejection(() => validateFastResponse({ congestionLevel: 20 }));
+    expect(error.issues).toEqual(['detections: missing']);
+    expect(rejection(() => validateFastResponse({ detections: 'none', congestionLevel: 20 })).issues).toEqual(['detections: not a list']);
+  });
+
+  it('fills missing perception analysis fields', () => {
+    const res = validatePerceptionResponse({ detections: [], congestionLevel: 10 });
+    expect(res.sceneType).toBe('Other');
+    expect(res.observedViolations).toEqual([]);
+    expect(res.coercions).toContainEqual({ path: 'sceneType', from: undefined, to: 'Other', reason: 'missing' });
+  });
+
+  it('fills missing analytics fields and rejects missing congestion', () => {
+    const res = validateAnalyticsResponse({ trafficFlowStatus: 'Moderate' });
+    expect(res).toMatchObject({ estimatedAverageSpeed: 0, detectedViolations: [], trend: 'Stable', riskNotes: [] });
+    expect(res.coercions.map(c => [c.path, c.reason])).toEqual(expect.arrayContaining([
+      ['estimatedAverageSpeed', 'missing'],
+      ['detectedViolations', 'missing'],
+      ['trend', 'missing'],
+    ]));
+    expect(rejection(() => validateAnalyticsResponse({ estimatedAverageSpeed: 30 })).task).toBe('analytics');
+  });
+
+  it('fills missing report fields but rejects a report without a summary', () => {
+    const res = validateReportResponse({ summary: 'Quiet road', priorityScore: 14 });
+    expect(res.report).toEqual({ summary: 'Quiet road', recommendations: [], priorityScore: 10 });
+    expect(res.coercions.map(c => [c.path, c.reason])).toEqual([
+      ['recommendations', 'missing'],
+      ['priorityScore', 'outside 1-10 or not an integer'],
+    ]);
+
+    const error = rejection(() => validateReportResponse({ recommendations: ['Add a signal'] }));
+    expect(error.task).toBe('report');
+    expect(error.issues).toEqual(['summary: missing']);
+  });
+});
+
+describe('parseModelJson', () => {
+  it('accepts fenced JSON', () => {
+    expect(parseModelJson('```json\n{"congestionLevel": 5}\n```', 'fast')).toEqual({ congestionLevel: 5 });
+    expect(parseModelJson('```\n{"a": 1}\n```', 'report')).toEqual({ a: 1 });
+  });
+
+  it('rejects empty, non-JSON and non-object text', () => {
+    expect(rejection(() => parseModelJson('', 'fast')).issues).toEqual(['empty response']);
+    expect(rejection(() => parseModelJson('The road is busy.', 'full')).issues[0]).toMatch(/^not valid JSON/);
+    expect(rejection(() => parseModelJson('```json\n{"detections": [\n```', 'fast')).issues[0]).toMatch(/^not valid JSON/);
+    expect(rejection(() => parseModelJson('[1, 2]', 'analytics')).issues).toEqual(['response is not a JSON object']);
+  });
+});
@@ -0,0 +1,313 @@
+import { DetectionItem, ResponseCoercion, TrafficAnalysis, TrafficLight, TrafficReport, Violation } from "../types";
+
+// Runtime checks on vision-model JSON. Fields that are recognisably close to the schema
+// are repaired and logged as coercions; responses missing what cannot be inferred are
+// rejected with a ModelResponseError.
+
+export type ModelTask = 'fast' | 'full' | 'analytics' | 'report';
+
+/** A model response that could not be parsed or repaired. `issues` lists each unrecoverable field. */
+export class ModelResponseError extends Error {
+  constructor(public task: ModelTask, public issues: string[]) {
+    super(`The ${task} response was invalid: ${issues.slice(0, 3).join('; ')}${issues.length > 3 ? ` (+${issues.length - 3} more)` : ''}`);
+    this.name = 'ModelResponseError';
+  }
+}
+
+type Box = [number, number, number, number];
+
+export interface FastResponse {
+  detections: DetectionItem[];
+  trafficLights: TrafficLight[];
+  congestionLevel: number;
+  trafficFlowStatus: TrafficAnalysis['trafficFlowStatus'];
+  coercions: ResponseCoercion[];
+}
+
+/** Full-depth perception: what is visible in the frame, before tracking or reasoning. */
+export interface PerceptionResponse {
+  detections: DetectionItem[];
+  trafficLights: TrafficLight[];
+  congestionLevel: number;
+  trafficFlowStatus: TrafficAnalysis['trafficFlowStatus'];
+  sceneType: NonNullable<TrafficAnalysis['sceneType']>;
+  observedViolations: Violation[]; // Visible in the single frame; the analytics agent confirms them
+  coercions: ResponseCoercion[];
+}
+
+export type TrafficTrend = 'Improving' | 'Stable' | 'Worsening';
+
+export interface AnalyticsResponse {
+  congestionLevel: number;
+  trafficFlowStatus: TrafficAnalysis['trafficFlowStatus'];
+  estimatedAverageSpeed: number;
+  detectedViolations: Violation[];
+  trend: TrafficTrend;
+  riskNotes: string[];
+  coercions: ResponseCoercion[];
+}
+
+export interface ReportResponse {
+  report: TrafficReport;
+  coercions: ResponseCoercion[];
+}
+
+const DETECTION_TYPES: DetectionItem['type'][] = ['vehicle', 'pedestrian', 'infrastructure', 'other'];
+const LIGHT_STATES: TrafficLight['state'][] = ['Red', 'Yellow', 'Green', 'Off'];
+const FLOW_STATUSES: TrafficAnalysis['trafficFlowStatus'][] = ['Free Flow', 'Moderate', 'Heavy', 'Gridlock'];
+const SCENE_TYPES: NonNullable<TrafficAnalysis['sceneType']>[] = ['Highway', 'Intersection', 'City Street', 'Parking Lot', 'Tunnel', 'Other'];
+const VIOLATION_TYPES: Violation['type'][] = ['Red Light', 'Jaywalking', 'Wrong Lane', 'Speeding', 'Restricted Zone', 'Other'];
+const SEVERITIES: Violation['severity'][] = ['Low', 'Medium', 'High'];
+const TRENDS: TrafficTrend[] = ['Improving', 'Stable', 'Worsening'];
+
+// Object names the model sometimes puts in `type` instead of the category
+const TYPE_SYNONYMS: Record<string, DetectionItem['type']> = {
+  car: 'vehicle', truck: 'vehicle', bus: 'vehicle', van: 'vehicle', motorcycle: 'vehicle', motorbike: 'vehicle', bike: 'vehicle', bicycle: 'vehicle',
+  person: 'pedestrian', people: 'pedestrian', human: 'pedestrian', walker: 'pedestrian',
+  sign: 'infrastructure', signal: 'infrastructure', 'traffic light': 'infrastructure', pole: 'infrastructure',
+};
+
+// Congestion implied by a flow status, and the reverse thresholds, for when only one is given
+const FLOW_CONGESTION: Record<TrafficAnalysis['trafficFlowStatus'], number> = { 'Free Flow': 15, Moderate: 45, Heavy: 75, Gridlock: 95 };
+const flowFromCongestion = (level: number): TrafficAnalysis['trafficFlowStatus'] =>
+  level >= 85 ? 'Gridlock' : level >= 60 ? 'Heavy' : level >= 30 ? 'Moderate' : 'Free Flow';
+
+const isObject = (value: unknown): value is Record<string, any> => !!value && typeof value === 'object' && !Array.isArray(value);
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+
+/** Accumulates repairs and unrecoverable issues while a response is walked. */
+class ResponseRepairer {
+  public coercions: ResponseCoercion[] = [];
+  public issues: string[] = [];
+
+  public coerce<T>(path: string, from: unknown, to: T, reason: string): T {
+    this.coercions.push({ path, from, to, reason });
+    return to;
+  }
+
+  public reject(path: string, problem: string) {
+    this.issues.push(`${path}: ${problem}`);
+  }
+
+  /** Numbers given as numeric strings are accepted; anything else falls back (or is undefined). */
+  public number(value: unknown, path: string, fallback?: number): number | undefined {
+    if (isNumber(value)) return value;
+    if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return this.coerce(path, value, Number(value), 'numeric string');
+    if (fallback !== undefined) return this.coerce(path, value, fallback, value === undefined ? 'missing' : 'not a number');
+    return undefined;
+  }
+
+  public clamped(value: number, min: number, max: number, path: string, integer = false): number {
+    const fixed = clamp(integer ? Math.round(value) : value, min, max);
+    return fixed === value ? value : this.coerce(path, value, fixed, `outside ${min}-${max}${integer ? ' or not an integer' : ''}`);
+  }
+
+  /** Exact match, then case/whitespace-insensitive match, then the synonym table or fallback. */
+  public enumValue<T extends string>(value: unknown, options: T[], path: string, fallback?: T, synonyms: Record<string, T> = {}): T | undefined {
+    if (options.includes(value as T)) return value as T;
+    if (typeof value === 'string') {
+      const key = value.trim().toLowerCase().replace(/[_-]+/g, ' ');
+      const match = options.find(o => o.toLowerCase() === key) ?? synonyms[key];
+      if (match) return this.coerce(path, value, match, 'non-canonical enum value');
+    }
+    if (fallback !== undefined) return this.coerce(path, value, fallback, value === undefined ? 'missing' : 'unknown enum value');
+    return undefined;
+  }
+
+  public array(value: unknown, path: string): any[] {
+    if (Array.isArray(value)) return value;
+    return this.coerce(path, value, [], value === undefined ? 'missing' : 'not a list');
+  }
+
+  /**
+   * Boxes must be four numbers in [ymin, xmin, ymax, xmax] order on the 0-1000 grid.
+   * 0-1 fractions are scaled up, swapped corners reordered and overshoot clamped; boxes
+   * with no area are dropped.
+   */
+  public box(value: unknown, path: string): Box | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (!Array.isArray(value) || value.length !== 4 || !value.every(isNumber)) {
+      return this.coerce(path, value, undefined, 'not four numbers');
+    }
+    let box = [...value] as Box;
+    const reasons: string[] = [];
+    if (box.every(v => v >= 0 && v <= 1) && box.some(v => v > 0 && v < 1)) {
+      box = box.map(v => v * 1000) as Box;
+      reasons.push('fractions scaled to 0-1000');
+    }
+    if (box[0] > box[2]) { [box[0], box[2]] = [box[2], box[0]]; reasons.push('ymin/ymax swapped'); }
+    if (box[1] > box[3]) { [box[1], box[3]] = [box[3], box[1]]; reasons.push('xmin/xmax swapped'); }
+    if (box.some(v => v < 0 || v > 1000)) { box = box.map(v => clamp(v, 0, 1000)) as Box; reasons.push('clamped to 0-1000'); }
+    if (box[2] - box[0] < 1 || box[3] - box[1] < 1) return this.coerce(path, value, undefined, 'zero area');
+    return reasons.length > 0 ? this.coerce(path, value, box, reasons.join(', ')) : box;
+  }
+}
+
+// --- PARSING ---
+
+const stripCodeFence = (str: string): string => {
+  let cleanStr = str.trim();
+  if (cleanStr.startsWith("```json")) cleanStr = cleanStr.substring(7);
+  if (cleanStr.startsWith("```")) cleanStr = cleanStr.substring(3);
+  if (cleanStr.endsWith("```")) cleanStr = cleanStr.substring(0, cleanStr.length - 3);
+  return cleanStr.trim();
+};
+
+/** Parses the model's text (optionally fenced as a code block) into a JSON object. */
+export const parseModelJson = (text: string | undefined, task: ModelTask): Record<string, any> => {
+  if (!text || !text.trim()) throw new ModelResponseError(task, ["empty response"]);
+  let data: unknown;
+  try {
+    data = JSON.parse(stripCodeFence(text));
+  } catch (e) {
+    throw new ModelResponseError(task, [`not valid JSON (${(e as Error).message})`]);
+  }
+  if (!isObject(data)) throw new ModelResponseError(task, ["response is not a JSON object"]);
+  return data;
+};
+
+// --- SECTIONS ---
+
+const validateDetections = (raw: unknown, r: ResponseRepairer): DetectionItem[] => {
+  if (!Array.isArray(raw)) {
+    r.reject('detections', raw === undefined ? 'missing' : 'not a list');
+    return [];
+  }
+  const detections: DetectionItem[] = [];
+  raw.forEach((d, i) => {
+    const path = `detections[${i}]`;
+    if (!isObject(d)) {
+      r.coerce(path, d, undefined, 'not an object');
+      return;
+    }
+    const type = r.enumValue(d.type, DETECTION_TYPES, `${path}.type`, 'other', TYPE_SYNONYMS)!;
+    const object = typeof d.object === 'string' && d.object.trim()
+      ? d.object
+      : r.coerce(`${path}.object`, d.object, typeof d.type === 'string' && d.type !== type ? d.type : type, 'missing object name');
+
+    const count = r.clamped(r.number(d.count, `${path}.count`, 1)!, 1, 1000, `${path}.count`, true);
+
+    let confidence = r.number(d.confidence, `${path}.confidence`, 0.5)!;
+    if (confidence > 1 && confidence <= 100) confidence = r.coerce(`${path}.confidence`, confidence, confidence / 100, 'percentage scaled to 0-1');
+    confidence = r.clamped(confidence, 0, 1, `${path}.confidence`);
+
+    const item: DetectionItem = { object, type, count, confidence };
+    const box = r.box(d.box_2d, `${path}.box_2d`);
+    if (box) item.box_2d = box;
+    detections.push(item);
+  });
+  return detections;
+};
+
+/** Lights are optional in both schemas, and the fast schema has no per-light count. */
+const validateTrafficLights = (raw: unknown, path: string, r: ResponseRepairer): TrafficLight[] =>
+  (raw === undefined ? [] : r.array(raw, path)).flatMap((l, i) => {
+    const lightPath = `${path}[${i}]`;
+    const state = isObject(l) ? r.enumValue(l.state, LIGHT_STATES, `${lightPath}.state`) : undefined;
+    if (!state) {
+      r.coerce(lightPath, l, undefined, 'no recognisable state');
+      return [];
+    }
+    const count = l.count === undefined ? 1 : r.clamped(r.number(l.count, `${lightPath}.count`, 1)!, 1, 100, `${lightPath}.count`, true);
+    const light: TrafficLight = { state, count };
+    const box = r.box(l.box_2d, `${lightPath}.box_2d`);
+    if (box) light.box_2d = box;
+    return [light];
+  });
+
+/**
+ * Congestion and flow status describe the same thing, so either one is inferred from the
+ * other when missing. Both missing is unrecoverable.
+ */
+const validateCongestion = (rawLevel: unknown, rawStatus: unknown, prefix: string, r: ResponseRepairer) => {
+  const levelPath = `${prefix}congestionLevel`;
+  const statusPath = `${prefix}trafficFlowStatus`;
+  let level = r.number(rawLevel, levelPath);
+  let status = r.enumValue(rawStatus, FLOW_STATUSES, statusPath);
+
+  if (level === undefined && status === undefined) {
+    r.reject(levelPath, 'missing, and no flow status to infer it from');
+    return { congestionLevel: 0, trafficFlowStatus: 'Moderate' as const };
+  }
+  if (level === undefined) level = r.coerce(levelPath, rawLevel, FLOW_CONGESTION[status!], `inferred from ${status}`);
+  if (level > 0 && level < 1) level = r.coerce(levelPath, level, level * 100, 'fraction scaled to percent');
+  level = r.clamped(level, 0, 100, levelPath, true);
+  if (status === undefined) status = r.coerce(statusPath, rawStatus, flowFromCongestion(level), `inferred from congestion ${level}%`);
+  return { congestionLevel: level, trafficFlowStatus: status };
+};
+
+const validateViolations = (raw: unknown, path: string, r: ResponseRepairer): Violation[] =>
+  r.array(raw, path).flatMap((v, i) => {
+    const violationPath = `${path}[${i}]`;
+    if (!isObject(v)) {
+      r.coerce(violationPath, v, undefined, 'not an object');
+      return [];
+    }
+    const type = r.enumValue(v.type, VIOLATION_TYPES, `${violationPath}.type`, 'Other')!;
+    const severity = r.enumValue(v.severity, SEVERITIES, `${violationPath}.severity`, 'Medium')!;
+    const description = typeof v.description === 'string' && v.description.trim()
+      ? v.description
+      : r.coerce(`${violationPath}.description`, v.description, `${type} violation`, 'missing');
+    return [{ type, severity, description }];
+  });
+
+const validateTextList = (raw: unknown, path: string, r: ResponseRepairer): string[] =>
+  r.array(raw, path).filter((item, i) => {
+    if (typeof item === 'string' && item.trim()) return true;
+    r.coerce(`${path}[${i}]`, item, undefined, 'not text');
+    return false;
+  });
+
+const validateReport = (raw: Record<string, any>, r: ResponseRepairer): TrafficReport => {
+  if (typeof raw.summary !== 'string' || !raw.summary.trim()) r.reject('summary', 'missing');
+  return {
+    summary: String(raw.summary ?? ''),
+    recommendations: validateTextList(raw.recommendations, 'recommendations', r),
+    priorityScore: r.clamped(r.number(raw.priorityScore, 'priorityScore', 1)!, 1, 10, 'priorityScore', true),
+  };
+};
+
+// --- RESPONSES ---
+
+/** Validates and repairs a fast-schema response. Throws ModelResponseError when it cannot be used. */
+export const validateFastResponse = (raw: Record<string, any>): FastResponse => {
+  const r = new ResponseRepairer();
+  const detections = validateDetections(raw.detections, r);
+  const trafficLights = validateTrafficLights(raw.trafficLights, 'trafficLights', r);
+  const congestion = validateCongestion(raw.congestionLevel, raw.trafficFlowStatus, '', r);
+  if (r.issues.length > 0) throw new ModelResponseError('fast', r.issues);
+  return { detections, trafficLights, ...congestion, coercions: r.coercions };
+};
+
+/** Validates and repairs a full perception response. Throws ModelResponseError when it cannot be used. */
+export const validatePerceptionResponse = (raw: Record<string, any>): PerceptionResponse => {
+  const r = new ResponseRepairer();
+  const detections = validateDetections(raw.detections, r);
+  const trafficLights = validateTrafficLights(raw.trafficLights, 'trafficLights', r);
+  const congestion = validateCongestion(raw.congestionLevel, raw.trafficFlowStatus, '', r);
+  const sceneType = r.enumValue(raw.sceneType, SCENE_TYPES, 'sceneType', 'Other')!;
+  const observedViolations = raw.observedViolations === undefined ? [] : validateViolations(raw.observedViolations, 'observedViolations', r);
+  if (r.issues.length > 0) throw new ModelResponseError('full', r.issues);
+  return { detections, trafficLights, ...congestion, sceneType, observedViolations, coercions: r.coercions };
+};
+
+/** Validates and repairs the analytics agent's assessment. Throws ModelResponseError when it cannot be used. */
+export const validateAnalyticsResponse = (raw: Record<string, any>): AnalyticsResponse => {
+  const r = new ResponseRepairer();
+  const congestion = validateCongestion(raw.congestionLevel, raw.trafficFlowStatus, '', r);
+  const estimatedAverageSpeed = r.clamped(r.number(raw.estimatedAverageSpeed, 'estimatedAverageSpeed', 0)!, 0, 300, 'estimatedAverageSpeed');
+  const detectedViolations = validateViolations(raw.detectedViolations, 'detectedViolations', r);
+  const trend = r.enumValue(raw.trend, TRENDS, 'trend', 'Stable')!;
+  const riskNotes = raw.riskNotes === undefined ? [] : validateTextList(raw.riskNotes, 'riskNotes', r);
+  if (r.issues.length > 0) throw new ModelResponseError('analytics', r.issues);
+  return { ...congestion, estimatedAverageSpeed, detectedViolations, trend, riskNotes, coercions: r.coercions };
+};
+
+/** Validates and repairs the reporting agent's report. Throws ModelResponseError when it cannot be used. */
+export const validateReportResponse = (raw: Record<string, any>): ReportResponse => {
+  const r = new ResponseRepairer();
+  const report = validateReport(raw, r);
+  if (r.issues.length > 0) throw new ModelResponseError('report', r.issues);
+  return { report, coercions: r.coercions };
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { Zone, ZoneCrossing } from '../types';
+import { RedLightDetector, SignalPhaseTracker } from './signalPhaseService';
+
+// Horizontal stop line across the middle of the frame, drawn left to right: side 1 is below it
+const stopLine = (extra: Partial<Zone> = {}): Zone => ({ id: 'stop', kind: 'stop_line', label: 'Stop', points: [[0.2, 0.5], [0.8, 0.5]], ...extra });
+
+const crossing = (trackId: number, side: number, timestamp = 1000): ZoneCrossing => ({
+  zoneId: 'stop', trackId, category: 'vehicle', objectClass: 'car', timestamp, previousTimestamp: timestamp - 500, side,
+});
+
+const detectorOnRed = (zone: Zone, lightBox?: [number, number, number, number]) => {
+  const signals = new SignalPhaseTracker();
+  signals.observe([{ state: 'Red', count: 1, box_2d: lightBox }], 0);
+  const detector = new RedLightDetector(signals);
+  detector.setZones([zone]);
+  return detector;
+};
+
+describe('RedLightDetector', () => {
+  it('flags only crossings entering from the approach side', () => {
+    const detector = detectorOnRed(stopLine({ approachSide: 1 }));
+    // Track 1 comes up from below and ends above the line; track 2 leaves downwards
+    const violations = detector.ingest([crossing(1, -1), crossing(2, 1)]);
+    expect(violations.map(v => v.trackId)).toEqual([1]);
+  });
+
+  it('defaults to approaching away from a localized light', () => {
+    // Signal head above the line, so traffic approaches from below
+    const detector = detectorOnRed(stopLine(), [100, 480, 160, 520]);
+    expect(detector.ingest([crossing(1, -1), crossing(2, 1)]).map(v => v.trackId)).toEqual([1]);
+
+    const facing = detectorOnRed(stopLine({ approachSide: -1 }), [100, 480, 160, 520]);
+    expect(facing.ingest([crossing(1, -1), crossing(2, 1)]).map(v => v.trackId)).toEqual([2]);
+  });
+
+  it('checks every crossing when neither the side nor the light position is known', () => {
+    const detector = detectorOnRed(stopLine());
+    expect(detector.ingest([crossing(1, -1), crossing(2, 1)])).toHaveLength(2);
+  });
+
+  it('ignores pedestrians and crossings on green', () => {
+    const signals = new SignalPhaseTracker(1);
+    signals.observe([{ state: 'Green', count: 1 }], 0);
+    signals.observe([{ state: 'Red', count: 1 }], 2000);
+    const detector = new RedLightDetector(signals);
+    detector.setZones([stopLine({ approachSide: 1 })]);
+    const violations = detector.ingest([crossing(1, -1, 1000), { ...crossing(2, -1, 3000), category: 'pedestrian' }, crossing(3, -1, 3000)]);
+    expect(violations.map(v => v.trackId)).toEqual([3]);
+  });
+});
+
+describe('SignalPhaseTracker after a seek', () => {
+  it('closes phases at the jump and judges later crossings against the new ones', () => {
+    const signals = new SignalPhaseTracker();
+    signals.observe([{ state: 'Red', count: 1 }], 10000);
+    signals.observe([{ state: 'Red', count: 1 }], 12000);
+    signals.restart();
+    signals.observe([{ state: 'Green', count: 1 }], 2000);
+    signals.observe([{ state: 'Green', count: 1 }], 3000);
+
+    expect(signals.getTimeline()).toEqual([
+      { lightId: 'scene', state: 'Red', start: 10000, end: 12000 },
+      { lightId: 'scene', state: 'Green', start: 2000 },
+    ]);
+    expect(signals.getTimeline().every(p => p.end === undefined || p.end >= p.start)).toBe(true);
+    // Rescanned time: the latest observation wins over the phase recorded before the jump
+    expect(signals.getPhaseAt('scene', 11000)?.state).toBe('Green');
+
+    const detector = new RedLightDetector(signals);
+    detector.setZones([stopLine({ approachSide: 1 })]);
+    expect(detector.ingest([crossing(1, -1, 2500)])).toEqual([]);
+  });
+
+  it('drops an unconfirmed change instead of confirming it across the jump', () => {
+    const signals = new SignalPhaseTracker();
+    signals.observe([{ state: 'Green', count: 1 }], 0);
+    signals.observe([{ state: 'Red', count: 1 }], 1000);
+    signals.restart();
+    signals.observe([{ state: 'Red', count: 1 }], 500);
+    expect(signals.getTimeline()).toEqual([
+      { lightId: 'scene', state: 'Green', start: 0, end: 1000 },
+      { lightId: 'scene', state: 'Red', start: 500 },
+    ]);
+  });
+});
@@ -0,0 +1,245 @@
+import { SignalPhase, TrafficLight, Violation, Zone, ZoneCrossing } from "../types";
+import { Point, sideOfLine } from "./geometry";
+
+// Signal-state timeline across frames and red-light runs tied to tracked vehicles.
+
+/** ID used when the model reports light states without localizing the signal heads. */
+export const SCENE_LIGHT_ID = 'scene';
+
+// Most restrictive first: breaks ties when collapsing unlocalized lights into one state
+const STATE_PRIORITY: TrafficLight['state'][] = ['Red', 'Yellow', 'Green', 'Off'];
+
+/** Event time label: seconds into the video for media time, clock time for live sessions. */
+export const formatEventTime = (timestamp: number): string =>
+  timestamp < 1e11 ? `${(timestamp / 1000).toFixed(1)}s` : new Date(timestamp).toLocaleTimeString();
+
+interface LightTrack {
+  id: string;
+  centroid?: Point; // Signal head centre, normalized 0-1 (absent for SCENE_LIGHT_ID)
+  state: TrafficLight['state'];
+  phaseStart: number;
+  candidate?: TrafficLight['state'];
+  candidateFrames: number;
+  candidateSince: number;
+  lastSeen: number;
+  closed: boolean; // Phase ended by restart(); the next observation opens a new one
+}
+
+/**
+ * Debounced per-light state machine. Signal heads are matched across frames by their
+ * box centre; a new state is committed only after it has been observed in
+ * minStableFrames consecutive frames, and the phase is backdated to its first sighting.
+ */
+export class SignalPhaseTracker {
+  private lights: LightTrack[] = [];
+  private phases: SignalPhase[] = [];
+  private nextId = 1;
+
+  constructor(private minStableFrames = 2, private matchDistance = 0.08) {}
+
+  public observe(lights: TrafficLight[], timestamp: number) {
+    const localized = lights.filter(l => l.box_2d && l.box_2d.length === 4);
+
+    if (localized.length > 0) {
+      const unmatched = this.lights.filter(l => l.centroid);
+      localized.forEach(light => {
+        const [ymin, xmin, ymax, xmax] = light.box_2d!;
+        const centroid: Point = [(xmin + xmax) / 2000, (ymin + ymax) / 2000];
+        let best = -1;
+        let bestDistance = this.matchDistance;
+        unmatched.forEach((l, i) => {
+          const d = Math.hypot(l.centroid![0] - centroid[0], l.centroid![1] - centroid[1]);
+          if (d < bestDistance) {
+            best = i;
+            bestDistance = d;
+          }
+        });
+        if (best >= 0) {
+          const track = unmatched.splice(best, 1)[0];
+          track.centroid = centroid;
+          this.step(track, light.state, timestamp);
+        } else {
+          this.open(`L${this.nextId++}`, light.state, timestamp, centroid);
+        }
+      });
+    } else if (lights.length > 0) {
+      const state = [...lights].sort((a, b) => (b.count - a.count) || (STATE_PRIORITY.indexOf(a.state) - STATE_PRIORITY.indexOf(b.state)))[0].state;
+      const scene = this.lights.find(l => l.id === SCENE_LIGHT_ID);
+      if (scene) this.step(scene, state, timestamp);
+      else this.open(SCENE_LIGHT_ID, state, timestamp);
+    }
+  }
+
+  private open(id: string, state: TrafficLight['state'], timestamp: number, centroid?: Point) {
+    this.lights.push({ id, centroid, state, phaseStart: timestamp, candidateFrames: 0, candidateSince: timestamp, lastSeen: timestamp, closed: false });
+    this.phases.push({ lightId: id, state, start: timestamp });
+  }
+
+  private step(light: LightTrack, state: TrafficLight['state'], timestamp: number) {
+    light.lastSeen = timestamp;
+    if (light.closed) {
+      light.closed = false;
+      light.state = state;
+      light.phaseStart = timestamp;
+      this.phases.push({ lightId: light.id, state, start: timestamp });
+      return;
+    }
+    if (state === light.state) {
+      light.candidate = undefined;
+      light.candidateFrames = 0;
+      return;
+    }
+    if (state !== light.candidate) {
+      light.candidate = state;
+      light.candidateFrames = 0;
+      light.candidateSince = timestamp;
+    }
+    light.candidateFrames++;
+    if (light.candidateFrames < this.minStableFrames) return;
+
+    const current = this.phases.find(p => p.lightId === light.id && p.end === undefined);
+    if (current) current.end = light.candidateSince;
+    this.phases.push({ lightId: light.id, state, start: light.candidateSince });
+    light.state = state;
+    light.phaseStart = light.candidateSince;
+    light.candidate = undefined;
+    light.candidateFrames = 0;
+  }
+
+  /**
+   * True once the state at `timestamp` can no longer change: no pending change for the
+   * light was first seen at or before it.
+   */
+  public isSettled(lightId: string, timestamp: number): boolean {
+    const light = this.lights.find(l => l.id === lightId);
+    return !light || light.candidate === undefined || light.candidateSince > timestamp;
+  }
+
+  /** The phase covering `timestamp`; after a seek back over observed time, the latest observation wins. */
+  public getPhaseAt(lightId: string, timestamp: number): SignalPhase | undefined {
+    for (let i = this.phases.length - 1; i >= 0; i--) {
+      const p = this.phases[i];
+      if (p.lightId === lightId && p.start <= timestamp && (p.end === undefined || timestamp < p.end)) return p;
+    }
+    return undefined;
+  }
+
+  /**
+   * The light governing a stop line: its explicit signalId when that light is known,
+   * otherwise the localized light nearest to the line's midpoint, otherwise the scene light.
+   */
+  public getGoverningLight(stopLine: Zone): string | undefined {
+    if (stopLine.signalId && this.lights.some(l => l.id === stopLine.signalId)) return stopLine.signalId;
+    const [a, b] = stopLine.points;
+    const mid: Point = [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+    const localized = this.lights.filter(l => l.centroid);
+    if (localized.length > 0) {
+      return localized.reduce((best, l) =>
+        Math.hypot(l.centroid![0] - mid[0], l.centroid![1] - mid[1]) < Math.hypot(best.centroid![0] - mid[0], best.centroid![1] - mid[1]) ? l : best
+      ).id;
+    }
+    return this.lights.find(l => l.id === SCENE_LIGHT_ID)?.id;
+  }
+
+  /** Signal head centre (normalized 0-1), when the light is localized. */
+  public getLightCentroid(lightId: string): Point | undefined {
+    return this.lights.find(l => l.id === lightId)?.centroid;
+  }
+
+  public getLightIds(): string[] {
+    return this.lights.map(l => l.id);
+  }
+
+  public getTimeline(): SignalPhase[] {
+    return this.phases.map(p => ({ ...p }));
+  }
+
+  /**
+   * Ends every open phase where its light was last seen, after a jump in media time, and
+   * drops unconfirmed changes. Lights keep their ids; each opens a new phase when next seen,
+   * so observations from before and after the jump never share a phase.
+   */
+  public restart() {
+    this.lights.forEach(light => {
+      const current = this.phases.find(p => p.lightId === light.id && p.end === undefined);
+      if (current) current.end = light.lastSeen;
+      light.candidate = undefined;
+      light.candidateFrames = 0;
+      light.closed = true;
+    });
+  }
+
+  public reset() {
+    this.lights = [];
+    this.phases = [];
+    this.nextId = 1;
+  }
+}
+
+/**
+ * Turns vehicle stop-line crossings into red-light violations. Only crossings entering
+ * from the line's approach side count, so vehicles leaving the intersection or backing
+ * over the line are ignored. Crossings are held until the governing light's state at the
+ * crossing time is settled, so a change that has not cleared debouncing yet is neither
+ * missed nor called early.
+ */
+export class RedLightDetector {
+  private stopLines = new Map<string, Zone>();
+  private pending: ZoneCrossing[] = [];
+
+  constructor(private signals: SignalPhaseTracker) {}
+
+  public setZones(zones: Zone[] | undefined) {
+    this.stopLines = new Map((zones || []).filter(z => z.kind === 'stop_line' && z.points.length >= 2).map(z => [z.id, z]));
+  }
+
+  /** Queues new crossings and returns the violations that can now be decided. */
+  public ingest(crossings: ZoneCrossing[]): Violation[] {
+    this.pending.push(...crossings.filter(c => this.stopLines.has(c.zoneId) && c.category !== 'pedestrian'));
+
+    const violations: Violation[] = [];
+    this.pending = this.pending.filter(crossing => {
+      const zone = this.stopLines.get(crossing.zoneId);
+      const lightId = zone && this.signals.getGoverningLight(zone);
+      if (!zone || !lightId) return false;
+      const approach = this.approachSide(zone, lightId);
+      if (approach !== 0 && crossing.side !== -approach) return false; // Ended on the approach side: leaving or reversing
+      if (!this.signals.isSettled(lightId, crossing.timestamp)) return true;
+
+      const phase = this.signals.getPhaseAt(lightId, crossing.timestamp);
+      if (phase?.state === 'Red') {
+        violations.push({
+          type: 'Red Light',
+          description: `${crossing.objectClass} #${crossing.trackId} crossed ${zone.label} on red (light ${lightId}, red for ${((crossing.timestamp - phase.start) / 1000).toFixed(1)}s)`,
+          severity: 'High',
+          trackId: crossing.trackId,
+          zoneId: zone.id,
+          timestamp: crossing.timestamp,
+          evidence: {
+            signalId: lightId,
+            signalState: phase.state,
+            phaseStart: phase.start,
+            frameTimestamps: [crossing.previousTimestamp, crossing.timestamp],
+          },
+        });
+      }
+      return false;
+    });
+    return violations;
+  }
+
+  /**
+   * The side a stop line is approached from: the zone's own setting, otherwise the side
+   * away from its localized light (traffic drives towards the signal), otherwise 0 when
+   * only a scene-wide light is known and every crossing counts.
+   */
+  private approachSide(zone: Zone, lightId: string): number {
+    if (zone.approachSide) return zone.approachSide;
+    const light = this.signals.getLightCentroid(lightId);
+    return light ? -sideOfLine(light, zone.points[0], zone.points[1]) : 0;
+  }
+
+  public reset() {
+    this.pending = [];
+  }
+}
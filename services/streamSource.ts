@@ -0,0 +1,281 @@
+// Network camera streams played in the browser: HLS and progressive video through a
+// <video> element, MJPEG by reading the multipart response and showing each JPEG in an
+// <img>. RTSP cannot be played by browsers; a gateway (MediaMTX, ffmpeg) republishes it
+// as HLS or MJPEG. Frames are sampled from the element with `captureFrame`, so the
+// server must send CORS headers.
+
+export type StreamFormat = 'video' | 'mjpeg';
+
+export type StreamState = 'connecting' | 'live' | 'stalled' | 'reconnecting' | 'failed' | 'stopped';
+
+export interface StreamHealth {
+  state: StreamState;
+  fps: number;                // Frames received over the last FPS_WINDOW_MS
+  lastFrameAt: number | null; // Epoch ms
+  frames: number;             // Since start
+  stalls: number;             // Times no frame arrived within the stall timeout
+  reconnects: number;         // Reconnect attempts since start
+  nextRetryAt: number | null; // Epoch ms, while reconnecting
+  error: string | null;
+}
+
+export interface StreamOptions {
+  stallTimeoutMs: number;   // No frame for this long counts as a stall and reconnects
+  baseBackoffMs: number;    // First reconnect delay; doubles per consecutive failure
+  maxBackoffMs: number;
+  maxReconnects: number;    // Consecutive failures before giving up
+}
+
+export const DEFAULT_STREAM_OPTIONS: StreamOptions = {
+  stallTimeoutMs: 5000,
+  baseBackoffMs: 1000,
+  maxBackoffMs: 30000,
+  maxReconnects: 20,
+};
+
+const FPS_WINDOW_MS = 3000;
+const WATCHDOG_INTERVAL_MS = 500;
+const MAX_MJPEG_BUFFER = 8 * 1024 * 1024; // Drop the buffer if no frame boundary shows up
+
+export const isHlsUrl = (url: string) => /\.m3u8(\?|#|$)/i.test(url);
+
+/** Why `url` cannot be played as `format`, or null when it can be tried. */
+export const validateStreamUrl = (url: string, format: StreamFormat): string | null => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url, window.location.href);
+  } catch {
+    return "Not a valid URL.";
+  }
+  if (parsed.protocol === 'rtsp:' || parsed.protocol === 'rtsps:') {
+    return "Browsers cannot play RTSP. Republish the camera through a gateway (e.g. MediaMTX or ffmpeg) as HLS or MJPEG and enter that URL.";
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return `Unsupported protocol ${parsed.protocol}`;
+  if (format === 'video' && isHlsUrl(url) && !document.createElement('video').canPlayType('application/vnd.apple.mpegurl')) {
+    return "This browser has no native HLS playback. Use Safari, or have the gateway publish MJPEG.";
+  }
+  return null;
+};
+
+/** Finds `marker` (two bytes) in `bytes` from `from`; -1 when absent. */
+const indexOfMarker = (bytes: Uint8Array, marker: number, from: number, to = bytes.length) => {
+  for (let i = from; i < to - 1; i++) {
+    if (bytes[i] === 0xFF && bytes[i + 1] === marker) return i;
+  }
+  return -1;
+};
+
+/**
+ * Plays one stream URL into the given elements and keeps it running: stalls and errors
+ * reconnect with exponential backoff, and `onHealth` receives the state twice a second.
+ */
+export class StreamSource {
+  private health: StreamHealth = StreamSource.initialHealth('stopped');
+  private options: StreamOptions;
+  private frameTimes: number[] = [];
+  private startedAt = 0;
+  private connectedAt = 0;
+  private failures = 0; // Consecutive, reset by the first frame of a connection
+  private controller: AbortController | null = null; // Aborted when a connection ends
+  private retryTimer?: ReturnType<typeof setTimeout>;
+  private watchdog?: ReturnType<typeof setInterval>;
+  private shownUrl: string | null = null;   // Object URL of the JPEG in the <img>
+  private pendingUrl: string | null = null; // Object URL still decoding
+
+  constructor(
+    private url: string,
+    private format: StreamFormat,
+    private elements: { video: HTMLVideoElement; image: HTMLImageElement },
+    private onHealth: (health: StreamHealth) => void,
+    options: Partial<StreamOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_STREAM_OPTIONS, ...options };
+  }
+
+  private static initialHealth(state: StreamState): StreamHealth {
+    return { state, fps: 0, lastFrameAt: null, frames: 0, stalls: 0, reconnects: 0, nextRetryAt: null, error: null };
+  }
+
+  /** The element frames are sampled from. */
+  public getElement(): HTMLVideoElement | HTMLImageElement {
+    return this.format === 'mjpeg' ? this.elements.image : this.elements.video;
+  }
+
+  public getHealth(): StreamHealth {
+    return this.health;
+  }
+
+  public start() {
+    this.stop();
+    const invalid = validateStreamUrl(this.url, this.format);
+    this.health = StreamSource.initialHealth('connecting');
+    this.failures = 0;
+    this.startedAt = Date.now();
+    if (invalid) {
+      this.setState('failed', invalid);
+      return;
+    }
+    this.watchdog = setInterval(() => this.checkHealth(), WATCHDOG_INTERVAL_MS);
+    this.connect();
+  }
+
+  public stop() {
+    clearInterval(this.watchdog);
+    clearTimeout(this.retryTimer);
+    this.disconnect();
+    this.frameTimes = [];
+    if (this.health.state !== 'stopped') this.setState('stopped');
+  }
+
+  // --- CONNECTION ---
+
+  private connect() {
+    this.controller = new AbortController();
+    this.connectedAt = Date.now();
+    this.setState(this.health.reconnects > 0 ? 'reconnecting' : 'connecting');
+    if (this.format === 'mjpeg') this.connectMjpeg(this.controller.signal);
+    else this.connectVideo(this.controller.signal);
+  }
+
+  private disconnect() {
+    this.controller?.abort();
+    this.controller = null;
+    const { video, image } = this.elements;
+    if (this.format === 'video') {
+      video.pause();
+      video.removeAttribute('src');
+      video.load();
+    } else {
+      image.onload = null;
+      image.removeAttribute('src');
+      [this.shownUrl, this.pendingUrl].forEach(u => u && URL.revokeObjectURL(u));
+      this.shownUrl = this.pendingUrl = null;
+    }
+  }
+
+  /** Ends the current connection and schedules the next one, or gives up after too many failures. */
+  private fail(message: string) {
+    if (!this.controller || this.controller.signal.aborted) return; // Already handled
+    this.disconnect();
+    this.failures++;
+    if (this.failures > this.options.maxReconnects) {
+      clearInterval(this.watchdog);
+      this.setState('failed', `${message} Gave up after ${this.options.maxReconnects} reconnects.`);
+      return;
+    }
+    const delay = Math.min(this.options.maxBackoffMs, this.options.baseBackoffMs * 2 ** (this.failures - 1));
+    this.health = { ...this.health, reconnects: this.health.reconnects + 1, nextRetryAt: Date.now() + delay };
+    this.setState('reconnecting', message);
+    this.retryTimer = setTimeout(() => this.connect(), delay);
+  }
+
+  private connectVideo(signal: AbortSignal) {
+    const video = this.elements.video;
+    video.crossOrigin = 'anonymous';
+    video.muted = true;
+    video.playsInline = true;
+
+    const frameCallbacks = typeof video.requestVideoFrameCallback === 'function';
+    const onFrame = () => {
+      if (signal.aborted) return;
+      this.recordFrame();
+      if (frameCallbacks) video.requestVideoFrameCallback(onFrame);
+    };
+    const onError = () => this.fail(`Stream error${video.error?.message ? `: ${video.error.message}` : ''}.`);
+    const onEnded = () => this.fail("Stream ended.");
+    video.addEventListener('error', onError, { signal });
+    video.addEventListener('ended', onEnded, { signal });
+    // Without frame callbacks, playback progress stands in for frames
+    if (frameCallbacks) video.requestVideoFrameCallback(onFrame);
+    else video.addEventListener('timeupdate', onFrame, { signal });
+
+    video.src = this.url;
+    video.play().catch(e => {
+      if (!signal.aborted && e?.name !== 'AbortError') this.fail(`Playback failed: ${e.message || e}.`);
+    });
+  }
+
+  private async connectMjpeg(signal: AbortSignal) {
+    try {
+      const response = await fetch(this.url, { signal, cache: 'no-store' });
+      if (!response.ok || !response.body) throw new Error(`HTTP ${response.status}`);
+      const reader = response.body.getReader();
+      let buffer = new Uint8Array(0);
+
+      while (!signal.aborted) {
+        const { done, value } = await reader.read();
+        if (done) throw new Error("Stream closed by the server.");
+        const next = new Uint8Array(buffer.length + value.length);
+        next.set(buffer);
+        next.set(value, buffer.length);
+        buffer = next;
+
+        // Every complete JPEG (SOI ... EOI) in the buffer; only the newest is shown
+        let latest: Uint8Array | null = null;
+        let start = indexOfMarker(buffer, 0xD8, 0);
+        while (start !== -1) {
+          const end = indexOfMarker(buffer, 0xD9, start + 2);
+          if (end === -1) break;
+          latest = buffer.slice(start, end + 2);
+          buffer = buffer.slice(end + 2);
+          start = indexOfMarker(buffer, 0xD8, 0);
+        }
+        if (start === -1 && buffer.length > 1) buffer = buffer.slice(-1); // Keep a possible half marker
+        if (buffer.length > MAX_MJPEG_BUFFER) buffer = new Uint8Array(0);
+        if (latest) this.showJpeg(latest, signal);
+      }
+    } catch (e: any) {
+      if (!signal.aborted) this.fail(`${e.message || e}`);
+    }
+  }
+
+  /** Shows a JPEG; one that arrives while the previous is still decoding replaces it. */
+  private showJpeg(jpeg: Uint8Array, signal: AbortSignal) {
+    const image = this.elements.image;
+    if (this.pendingUrl) URL.revokeObjectURL(this.pendingUrl);
+    const url = URL.createObjectURL(new Blob([jpeg], { type: 'image/jpeg' }));
+    this.pendingUrl = url;
+    image.onload = () => {
+      if (signal.aborted || this.pendingUrl !== url) return;
+      if (this.shownUrl) URL.revokeObjectURL(this.shownUrl);
+      this.shownUrl = url;
+      this.pendingUrl = null;
+      this.recordFrame();
+    };
+    image.src = url;
+  }
+
+  // --- HEALTH ---
+
+  private recordFrame() {
+    const now = Date.now();
+    this.frameTimes.push(now);
+    this.failures = 0;
+    this.health = { ...this.health, lastFrameAt: now, frames: this.health.frames + 1, nextRetryAt: null };
+    if (this.health.state !== 'live') this.setState('live');
+  }
+
+  /** Runs on the watchdog interval: updates fps and treats a silent connection as stalled. */
+  private checkHealth() {
+    const now = Date.now();
+    this.frameTimes = this.frameTimes.filter(t => now - t <= FPS_WINDOW_MS);
+    const span = Math.min(FPS_WINDOW_MS, now - this.startedAt);
+    this.health = { ...this.health, fps: span > 0 ? Math.round((this.frameTimes.length / span) * 10000) / 10 : 0 };
+
+    const { state, lastFrameAt } = this.health;
+    if (state === 'live' && lastFrameAt !== null && now - lastFrameAt > this.options.stallTimeoutMs) {
+      this.health = { ...this.health, stalls: this.health.stalls + 1 };
+      this.setState('stalled');
+      this.fail(`No frame for ${Math.round((now - lastFrameAt) / 1000)} s.`);
+    } else if ((state === 'connecting' || state === 'reconnecting') && this.controller && now - this.connectedAt > this.options.stallTimeoutMs * 2) {
+      this.fail("No frame after connecting.");
+    } else {
+      this.onHealth(this.health);
+    }
+  }
+
+  private setState(state: StreamState, error: string | null = state === 'live' ? null : this.health.error) {
+    this.health = { ...this.health, state, error };
+    this.onHealth(this.health);
+  }
+}
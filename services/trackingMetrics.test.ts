@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { buildDemoFixtures } from './visionProvider';
+import { evaluateIdSwitches, framesFromFixtures, LabelledDetection, RecordedFrame } from './trackingMetrics';
+import { ObjectTracker } from './trackingService';
+
+const car = (gtId: number, y: number, x: number): LabelledDetection => ({
+  object: 'car', type: 'vehicle', count: 1, confidence: 0.9, box_2d: [y, x, y + 80, x + 60], gtId,
+});
+
+/**
+ * Two cars in adjacent lanes passing each other head-on, plus a third that is missed
+ * by the detector for two frames mid-sequence.
+ */
+const passingSequence = (): RecordedFrame[] => Array.from({ length: 20 }, (_, i) => ({
+  timestamp: i * 1000,
+  detections: [
+    car(1, 100 + i * 40, 400),
+    car(2, 900 - i * 40, 470),
+    ...(i === 8 || i === 9 ? [] : [car(3, 500, 100 + i * 20)]),
+  ],
+}));
+
+describe('ID switches on recorded sequences', () => {
+  it('keeps demo identities except where actors wrap around the frame', () => {
+    // Actor 1 leaves the bottom edge and re-enters at the top on frame 39; actor 3 wraps on frame 46
+    expect(evaluateIdSwitches(framesFromFixtures(buildDemoFixtures(38)))).toMatchObject({ frames: 38, groundTruthObjects: 4, idSwitches: 0 });
+    expect(evaluateIdSwitches(framesFromFixtures(buildDemoFixtures(40)))).toMatchObject({ idSwitches: 1, switchesByGtId: { 1: 1 } });
+    expect(evaluateIdSwitches(framesFromFixtures(buildDemoFixtures(60)))).toMatchObject({ idSwitches: 2, switchesByGtId: { 1: 1, 3: 1 } });
+  });
+
+  it('does not depend on the sampling interval', () => {
+    [500, 2000].forEach(interval => {
+      expect(evaluateIdSwitches(framesFromFixtures(buildDemoFixtures(40), interval)).idSwitches).toBe(1);
+    });
+  });
+
+  it('keeps identities of passing and briefly missed objects', () => {
+    const report = evaluateIdSwitches(passingSequence());
+    expect(report).toMatchObject({ frames: 20, groundTruthObjects: 3, matchedDetections: 58, idSwitches: 0 });
+  });
+
+  it('counts switches when the tracker cannot follow the motion', () => {
+    const tight = new ObjectTracker({ maxCentroidDistance: 0.01, minIoU: 0.9 });
+    const report = evaluateIdSwitches(passingSequence(), tight);
+    expect(report.idSwitches).toBeGreaterThan(0);
+    expect(Object.keys(report.switchesByGtId).map(Number).sort()).toEqual([1, 2, 3]);
+  });
+
+  it('does not mutate the recording', () => {
+    const frames = passingSequence();
+    evaluateIdSwitches(frames);
+    expect(frames[0].detections[0].trackId).toBeUndefined();
+  });
+});
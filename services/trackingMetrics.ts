@@ -0,0 +1,77 @@
+import { DetectionItem } from "../types";
+import { ObjectTracker } from "./trackingService";
+import { VisionFixture } from "./visionProvider";
+
+// --- ID SWITCH EVALUATION ---
+
+/** A detection from a recorded sequence annotated with its ground-truth identity. */
+export interface LabelledDetection extends DetectionItem {
+  gtId: number;
+}
+
+export interface RecordedFrame {
+  timestamp: number; // ms
+  detections: LabelledDetection[];
+}
+
+export interface IdSwitchReport {
+  frames: number;
+  groundTruthObjects: number;
+  matchedDetections: number;
+  idSwitches: number;        // Ground-truth object picked up a different trackId than before
+  switchesByGtId: Record<number, number>;
+}
+
+/**
+ * Replays a labelled sequence through a tracker and counts identity switches
+ * (CLEAR-MOT style): every time a ground-truth object is reported under a trackId
+ * different from the last one it had, that is one switch.
+ */
+export const evaluateIdSwitches = (frames: RecordedFrame[], tracker: ObjectTracker = new ObjectTracker()): IdSwitchReport => {
+  tracker.reset();
+  const lastTrackId = new Map<number, number>();
+  const switchesByGtId: Record<number, number> = {};
+  let matchedDetections = 0;
+  let idSwitches = 0;
+
+  frames.forEach(frame => {
+    // Copy so the recording itself is never mutated by the tracker
+    const detections = frame.detections.map(d => ({ ...d }));
+    tracker.update(detections, frame.timestamp);
+
+    detections.forEach(d => {
+      if (d.trackId === undefined) return;
+      matchedDetections++;
+      const previous = lastTrackId.get(d.gtId);
+      if (previous !== undefined && previous !== d.trackId) {
+        idSwitches++;
+        switchesByGtId[d.gtId] = (switchesByGtId[d.gtId] || 0) + 1;
+      }
+      lastTrackId.set(d.gtId, d.trackId);
+    });
+  });
+
+  return {
+    frames: frames.length,
+    groundTruthObjects: new Set(frames.flatMap(f => f.detections.map(d => d.gtId))).size,
+    matchedDetections,
+    idSwitches,
+    switchesByGtId,
+  };
+};
+
+/**
+ * Turns recorded 'fast' fixtures into a labelled sequence. Detections must carry a
+ * `gtId`; frames are spaced `intervalMs` apart like the camera loop.
+ */
+export const framesFromFixtures = (fixtures: VisionFixture[], intervalMs = 1000): RecordedFrame[] => {
+  return fixtures
+    .filter(f => f.task === 'fast')
+    .map((f, i) => {
+      const data = JSON.parse(f.response);
+      return {
+        timestamp: i * intervalMs,
+        detections: (data.detections || []).filter((d: any) => typeof d.gtId === 'number')
+      };
+    });
+};
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { DetectionItem, Zone } from '../types';
+import { ObjectTracker, getTrackCategory } from './trackingService';
+
+const detection = (object: string, type: DetectionItem['type'], box_2d?: DetectionItem['box_2d']): DetectionItem =>
+  ({ object, type, count: 1, confidence: 0.9, box_2d });
+
+/** A car box centred at normalized `x` (0-1) on a fixed row, 100 units wide and tall. */
+const carAt = (x: number) => detection('car', 'vehicle', [400, x * 1000 - 50, 500, x * 1000 + 50]);
+
+/** Runs a car across the frame at `speed` normalized units/s, one update every `stepMs`. */
+const driveAcross = (tracker: ObjectTracker, speed: number, frames: number, stepMs = 200) => {
+  let last: DetectionItem | undefined;
+  for (let i = 0; i < frames; i++) {
+    [last] = tracker.update([carAt(0.2 + speed * (i * stepMs) / 1000)], i * stepMs);
+  }
+  return last!;
+};
+
+describe('getTrackCategory', () => {
+  it('maps detections to their motion model', () => {
+    expect(getTrackCategory(detection('car', 'vehicle'))).toBe('vehicle');
+    expect(getTrackCategory(detection('motorcycle', 'vehicle'))).toBe('vehicle');
+    expect(getTrackCategory(detection('bicycle', 'vehicle'))).toBe('cyclist');
+    expect(getTrackCategory(detection('cyclist', 'pedestrian'))).toBe('cyclist');
+    expect(getTrackCategory(detection('person', 'pedestrian'))).toBe('pedestrian');
+    expect(getTrackCategory(detection('traffic light', 'infrastructure'))).toBeNull();
+  });
+});
+
+describe('ObjectTracker', () => {
+  it('converges the Kalman velocity on a horizontal mover', () => {
+    const tracker = new ObjectTracker();
+    const last = driveAcross(tracker, 0.1, 25);
+    expect(last.trackId).toBe(1);
+    expect(last.trackCategory).toBe('vehicle');
+    const [vx, vy] = last.velocityVector!;
+    expect(vx).toBeCloseTo(0.1, 2);
+    expect(Math.abs(vy)).toBeLessThan(1e-3);
+  });
+
+  it('tracks pedestrians and cyclists under their own category', () => {
+    const tracker = new ObjectTracker();
+    const person = detection('person', 'pedestrian', [300, 100, 500, 150]);
+    const cyclist = detection('bicycle', 'vehicle', [300, 600, 500, 700]);
+    tracker.update([person, cyclist], 0);
+    expect(person.trackCategory).toBe('pedestrian');
+    expect(cyclist.trackCategory).toBe('cyclist');
+    expect(tracker.getActiveTrackIds()).toHaveLength(2);
+  });
+
+  it('starts new tracks at rest and leaves untracked or unboxed detections alone', () => {
+    const tracker = new ObjectTracker();
+    const sign = detection('sign', 'infrastructure', [100, 100, 200, 200]);
+    const unboxed = detection('car', 'vehicle');
+    const [car] = tracker.update([carAt(0.5), sign, unboxed], 0);
+    expect(car.velocityVector).toEqual([0, 0]);
+    expect(sign.trackId).toBeUndefined();
+    expect(unboxed.trackId).toBeUndefined();
+    expect(tracker.getActiveTrackIds()).toEqual([1]);
+  });
+
+  it('predicts boxes forward along the filtered velocity without stepping the filter', () => {
+    const tracker = new ObjectTracker();
+    driveAcross(tracker, 0.1, 25);
+    const lastAt = 24 * 200;
+    const [predicted] = tracker.predict(lastAt + 1000);
+    const [, xmin, , xmax] = predicted.detection.box_2d!;
+    expect((xmin + xmax) / 2000).toBeCloseTo(0.2 + 0.1 * (lastAt / 1000) + 0.1, 2);
+    expect(tracker.getUncertainty(lastAt)).toBe(0);
+    expect(tracker.getUncertainty(lastAt + 1000)).toBeGreaterThan(0);
+  });
+});
+
+describe('ObjectTracker zones', () => {
+  const rect = (x0: number, y0: number, x1: number, y1: number): [number, number][] => [[x0, y0], [x1, y0], [x1, y1], [x0, y1]];
+
+  it('records a gate crossing once, with the side the track ended up on', () => {
+    const tracker = new ObjectTracker();
+    tracker.setZones([{ id: 'gate', kind: 'entry_gate', label: 'East gate', points: [[0.51, 0], [0.51, 1]], approach: 'E' }]);
+    driveAcross(tracker, 0.1, 25); // 0.2 -> 0.68
+    const crossings = tracker.drainZoneCrossings();
+    expect(crossings).toHaveLength(1);
+    expect(crossings[0]).toMatchObject({ zoneId: 'gate', trackId: 1, category: 'vehicle', objectClass: 'car', side: -1 });
+    expect(crossings[0].previousTimestamp).toBeLessThan(crossings[0].timestamp);
+    expect(tracker.drainZoneCrossings()).toEqual([]);
+  });
+
+  it('flags pedestrians in a lane outside a crosswalk from the second frame', () => {
+    const lane: Zone = { id: 'lane', kind: 'lane', label: 'Lane 1', points: rect(0, 0.4, 1, 0.6) };
+    const walker = () => detection('person', 'pedestrian', [350, 290, 500, 310]); // Feet at [0.3, 0.5]
+
+    const tracker = new ObjectTracker();
+    tracker.setZones([lane]);
+    const [first] = tracker.update([walker()], 0);
+    const [second] = tracker.update([walker()], 200);
+    expect(first.zoneViolations).toBeUndefined();
+    expect(second.zoneViolations).toEqual([expect.objectContaining({ zoneId: 'lane', type: 'Jaywalking' })]);
+
+    const crossing = new ObjectTracker();
+    crossing.setZones([lane, { id: 'walk', kind: 'crosswalk', label: 'Crosswalk', points: rect(0.25, 0.3, 0.35, 0.7) }]);
+    crossing.update([walker()], 0);
+    expect(crossing.update([walker()], 200)[0].zoneViolations).toBeUndefined();
+  });
+
+  it('flags vehicles stopped in a restricted zone for the dwell time', () => {
+    const tracker = new ObjectTracker();
+    tracker.setZones([{ id: 'box', kind: 'restricted', label: 'Yellow box', points: rect(0.3, 0.3, 0.7, 0.7) }]);
+    const parked = () => carAt(0.5); // Feet at [0.5, 0.5]
+    expect(tracker.update([parked()], 0)[0].zoneViolations).toBeUndefined();
+    expect(tracker.update([parked()], 5000)[0].zoneViolations).toBeUndefined();
+    expect(tracker.update([parked()], 10000)[0].zoneViolations).toEqual([expect.objectContaining({ zoneId: 'box', type: 'Restricted Zone' })]);
+  });
+
+  it('flags vehicles driving against a lane direction for three frames', () => {
+    const tracker = new ObjectTracker();
+    tracker.setZones([{ id: 'lane', kind: 'lane', label: 'Lane 1', points: rect(0, 0.4, 1, 0.6), direction: [-1, 0] }]);
+    const last = driveAcross(tracker, 0.1, 10);
+    expect(last.zoneViolations).toEqual([expect.objectContaining({ zoneId: 'lane', type: 'Wrong Lane' })]);
+  });
+});
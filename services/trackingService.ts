@@ -1,33 +1,80 @@
-import { DetectionItem } from "../types";
+import { CameraCalibration, DetectionItem, SpeedLimits, TrackCategory, TrackMatch, Zone, ZoneCrossing, ZoneViolation } from "../types";
+import { GATED_COST, solveAssignment } from "./assignment";
+import { Matrix3, projectToGround } from "./homography";
+import { boxGroundPoint, isLineZone, pointInPolygon, segmentsIntersect, sideOfLine } from "./geometry";
+
+export interface TrackerConfig {
+  maxMissingFrames: number;
+  minIoU: number;              // Gate: below this overlap a pair must be close by centroid instead
+  maxCentroidDistance: number; // Gate: normalized distance from the predicted centroid
+  maxCost: number;             // Pairs costlier than this stay unmatched
+  iouWeight: number;
+  distanceWeight: number;
+  classWeight: number;
+}
 
-interface KalmanState {
-  y: number;    // Position (normalized 0-1)
+export const DEFAULT_TRACKER_CONFIG: TrackerConfig = {
+  maxMissingFrames: 5,
+  minIoU: 0.25,
+  maxCentroidDistance: 0.15,
+  maxCost: 0.85,
+  iouWeight: 0.5,
+  distanceWeight: 0.35,
+  classWeight: 0.15,
+};
+
+/** A track drawn between model calls: its last detection with the box moved to the prediction. */
+export interface PredictedTrack {
+  detection: DetectionItem;
+  missingFrames: number; // Updates in a row without a match; above 0 the track is coasting
+}
+
+interface AxisState {
+  pos: number;  // Position (normalized 0-1)
   v: number;    // Velocity (normalized units / s)
-  p11: number;  // Variance y
-  p12: number;  // Covariance y,v
-  p21: number;  // Covariance v,y
+  p11: number;  // Variance pos
+  p12: number;  // Covariance pos,v
+  p21: number;  // Covariance v,pos
   p22: number;  // Variance v
 }
 
+// Constant-velocity model over centroid x, centroid y and box scale (height).
+// The axes are decoupled, so the 6x6 covariance is block-diagonal and each
+// axis runs its own 2x2 filter.
+interface KalmanState {
+  x: AxisState;
+  y: AxisState;
+  s: AxisState;
+}
+
 interface TrackedObject {
   id: number;
   class: string;
+  category: TrackCategory;
   box: [number, number, number, number]; // [ymin, xmin, ymax, xmax]
   centroid: [number, number]; // [x, y] normalized
-  avgHeight: number; // Smoothed normalized height for depth scaling
-  laneHistory: number[]; // Store recent X positions for lane analysis
+  aspect: number; // Smoothed width / height ratio
+  lateralHistory: number[]; // Recent lateral speed (normalized units / s) relative to heading
   speedHistory: number[]; // Store recent speeds for smoothing
   missingFrames: number;
   speed: number;    // km/h (Absolute)
-  velocity: number; // km/h (Signed)
+  velocity: number; // km/h (Signed, + = moving down the frame)
   laneStatus: 'Stable' | 'Lane Change' | 'Merging';
   createdAt: number;
   updatedAt: number; // Last update timestamp
   // Violation counters
   wrongWayFrames: number;
   speedingFrames: number;
+  jaywalkFrames: number;
+  nearMissWith?: number; // Track ID of the other party in the latest near miss
+  // Zone State
+  groundPoint: [number, number]; // Bottom-centre of the box at the last update
+  groundPointAt: number; // Timestamp of groundPoint
+  zoneFrames: Record<string, number>; // Consecutive frames in violation, per zone
+  zoneDwellSince: Record<string, number>; // Timestamp a vehicle stopped inside a restricted zone
   // Filter State
   kalman: KalmanState;
+  lastDetection?: DetectionItem; // As emitted by the last update that matched or created the track
 }
 
 // Typical lengths in meters used for auto-calibration (Virtual Ruler)
@@ -49,69 +96,103 @@ const REFERENCE_LENGTHS_METERS: Record<string, number> = {
   'default': 4.5
 };
 
+// Standing heights in meters. Pedestrians and cyclists are measured against their
+// upright height, which is far more stable in a box than their depth.
+const REFERENCE_HEIGHTS_METERS: Record<string, number> = {
+  'bicycle': 1.7,
+  'bike': 1.7,
+  'cyclist': 1.7,
+  'person': 1.7,
+  'pedestrian': 1.7,
+  'human': 1.7,
+  'default': 1.7
+};
+
+interface MotionModel {
+  qVel: number;          // Process noise on velocity: how sharply the class can manoeuvre
+  stationaryMps: number; // Speeds below this are treated as standing still
+}
+
+const MOTION_MODELS: Record<TrackCategory, MotionModel> = {
+  vehicle: { qVel: 0.8, stationaryMps: 0.8 },
+  cyclist: { qVel: 1.2, stationaryMps: 0.5 },
+  pedestrian: { qVel: 2.0, stationaryMps: 0.3 },
+};
+
+/** Maps a detection to the motion class it is tracked under, or null if it is not tracked. */
+export const getTrackCategory = (det: DetectionItem): TrackCategory | null => {
+  const name = (det.object || '').toLowerCase();
+  if (det.type === 'pedestrian') return name.includes('cycl') || name.includes('bicycle') ? 'cyclist' : 'pedestrian';
+  if (det.type !== 'vehicle') return null;
+  if (name.includes('motor')) return 'vehicle';
+  if (name.includes('bicycle') || name.includes('cycl') || name.includes('bike')) return 'cyclist';
+  return 'vehicle';
+};
+
+export const DEFAULT_SPEED_LIMITS: SpeedLimits = { default: 80, heavy: 60, light: 50 };
+
 export class ObjectTracker {
   private tracks: TrackedObject[] = [];
   private nextId = 1;
+  private lastMatches: TrackMatch[] = [];
   
-  // Tracking Parameters
-  private maxMissingFrames = 5; 
-  private iouThreshold = 0.25; 
-  private centroidDistanceThreshold = 0.15; 
+  private config: TrackerConfig;
   
   // Violation Thresholds
-  public SPEED_LIMIT_DEFAULT = 80; 
-  public SPEED_LIMIT_HEAVY = 60; 
-  public SPEED_LIMIT_LIGHT = 50; 
+  public SPEED_LIMIT_DEFAULT = DEFAULT_SPEED_LIMITS.default;
+  public SPEED_LIMIT_HEAVY = DEFAULT_SPEED_LIMITS.heavy;
+  public SPEED_LIMIT_LIGHT = DEFAULT_SPEED_LIMITS.light;
+
+  // User-drawn zones and the line crossings seen since the last drain
+  private zones: Zone[] = [];
+  private zoneCrossings: ZoneCrossing[] = [];
+  private restrictedDwellMs = 10000;
+
+  // Ground-plane calibration (normalized image -> meters), null = virtual ruler
+  private homography: Matrix3 | null = null;
+  private groundSpeedHorizon = 0.5; // Seconds
 
   // Kalman Filter Tuning
   private R = 0.005;     // Measurement Noise
   private Q_pos = 0.001; // Process Noise Position
-  private Q_vel = 0.8;   // Process Noise Velocity
+  private Q_scale_vel = 0.05; // Boxes grow/shrink far slower than they move
+
+  // Motion Analysis
+  private flowRadius = 0.25;        // Neighbourhood used to estimate local traffic direction
+  private laneChangeAngle = 0.22;   // ~12.5 deg sustained drift off the traffic direction
+  private minMotion = 0.01;         // Normalized units / s below which heading is meaningless
 
-  constructor() {}
+  // Vulnerable Road Users
+  private nearMissHorizon = 1.5;    // Seconds of constant-velocity look-ahead
+  private nearMissDistance = 0.04;  // Normalized closest-approach distance counted as a near miss
+  private crossingCos = 0.5;        // |cos| below this = walking across the traffic direction
+
+  constructor(config: Partial<TrackerConfig> = {}) {
+    this.config = { ...DEFAULT_TRACKER_CONFIG, ...config };
+  }
 
   public update(detections: DetectionItem[], timestamp: number): DetectionItem[] {
-    const validDetections = detections.filter(d => d.box_2d && d.type === 'vehicle');
+    const validDetections = detections.filter(d => d.box_2d && getTrackCategory(d) !== null);
     
     // 1. Prediction Step (Age Tracks)
     this.tracks.forEach(t => t.missingFrames++);
 
-    // 2. Matching Step
+    // 2. Matching Step (optimal global assignment over the track x detection cost matrix)
+    const costs = this.buildCostMatrix(validDetections, timestamp);
+    const assignment = solveAssignment(costs);
     const unmatchedDetections = new Set(validDetections.map((_, i) => i));
+    this.lastMatches = [];
     
-    this.tracks.forEach(track => {
-      let bestMatchIndex = -1;
-      let bestScore = -1;
+    this.tracks.forEach((track, trackIndex) => {
+      const matchIndex = assignment[trackIndex];
 
-      validDetections.forEach((det, index) => {
-        if (!unmatchedDetections.has(index) || !det.box_2d) return;
-        
-        const iou = this.calculateIoU(track.box, det.box_2d);
-        if (iou > this.iouThreshold && iou > bestScore) {
-          bestScore = iou;
-          bestMatchIndex = index;
-        }
-        
-        if (bestMatchIndex === -1) {
-            const detCentroid = this.getCentroid(det.box_2d);
-            const dist = Math.sqrt(
-                Math.pow(detCentroid[0] - track.centroid[0], 2) + 
-                Math.pow(detCentroid[1] - track.centroid[1], 2)
-            );
-            
-            if (dist < this.centroidDistanceThreshold) {
-                const score = (1 - dist) * 0.5; 
-                if (score > bestScore) {
-                    bestScore = score;
-                    bestMatchIndex = index;
-                }
-            }
-        }
-      });
-
-      if (bestMatchIndex !== -1) {
-        unmatchedDetections.delete(bestMatchIndex);
-        const match = validDetections[bestMatchIndex];
+      if (matchIndex === -1) {
+        const outcome = track.missingFrames > this.config.maxMissingFrames ? 'dropped' : 'missed';
+        this.lastMatches.push({ trackId: track.id, object: track.class, outcome });
+      } else {
+        this.lastMatches.push({ trackId: track.id, object: track.class, outcome: 'matched', cost: costs[trackIndex][matchIndex] });
+        unmatchedDetections.delete(matchIndex);
+        const match = validDetections[matchIndex];
         
         track.missingFrames = 0;
         
@@ -120,43 +201,38 @@ export class ObjectTracker {
         
         const newCentroid = this.getCentroid(match.box_2d!);
         const currentHeight = (match.box_2d![2] - match.box_2d![0]) / 1000;
+        const currentWidth = (match.box_2d![3] - match.box_2d![1]) / 1000;
 
         // Kalman Filter Update
         if (dt > 0.001) {
-           this.updateKalman(track.kalman, newCentroid[1], dt);
+           this.updateKalman(track.kalman, newCentroid, currentHeight, dt, MOTION_MODELS[track.category].qVel);
         } else {
-           track.kalman.y = newCentroid[1];
+           track.kalman.x.pos = newCentroid[0];
+           track.kalman.y.pos = newCentroid[1];
+           track.kalman.s.pos = currentHeight;
         }
 
         // Update State
         track.box = match.box_2d!;
         track.centroid = newCentroid;
-        track.avgHeight = track.avgHeight * 0.9 + currentHeight * 0.1;
+        if (currentHeight > 0) track.aspect = track.aspect * 0.9 + (currentWidth / currentHeight) * 0.1;
         
         // --- PRECISION SPEED CALIBRATION ---
         
-        // 1. Base Velocity (Screens/sec) from Kalman
-        const v_norm_per_sec = track.kalman.v;
-
-        // 2. Virtual Ruler: Use known object length to establish scale
-        //    (e.g., if a 4.5m car is 0.1 screens high, then 1 screen = 45m at that depth)
-        const refLength = this.getReferenceLength(track.class);
-        const safeHeight = Math.max(track.avgHeight, 0.02);
-        
-        // 3. Perspective Correction (Depth Compensation)
-        //    Objects near horizon (y=0) move slower in pixels for same real speed vs objects near bottom (y=1).
-        //    We apply a linear boost based on Y position to normalize this perspective distortion.
-        //    Formula: Scale increases as Y decreases (further away).
-        //    Base Factor 1.2 (for close objects) + up to 1.0 (for far objects)
-        const perspectiveCorrection = 1.2 + (1.0 - newCentroid[1]) * 0.8; 
-
-        // 4. Calculate Raw Speed (m/s)
-        let speedMps = (Math.abs(v_norm_per_sec) / safeHeight) * refLength * perspectiveCorrection;
+        // 1. Base Velocity Vector (Screens/sec) from Kalman
+        const vx = track.kalman.x.v;
+        const vy = track.kalman.y.v;
+
+        // 2. Raw Speed (m/s): ground-plane projection when the camera is calibrated,
+        //    otherwise the virtual ruler estimate
+        let speedMps = this.homography
+          ? this.estimateGroundSpeed(track)
+          : this.estimateRulerSpeed(track, newCentroid);
         
-        // 5. Stationary Filter (Zero out noise < 3 km/h)
-        if (speedMps < 0.8) speedMps = 0;
+        // 3. Stationary Filter (e.g. zero out vehicle noise < 3 km/h)
+        if (speedMps < MOTION_MODELS[track.category].stationaryMps) speedMps = 0;
 
-        // 6. Temporal Smoothing (EMA + Buffer)
+        // 4. Temporal Smoothing (EMA + Buffer)
         track.speedHistory.push(speedMps * 3.6); // Convert to km/h
         if (track.speedHistory.length > 20) track.speedHistory.shift(); // Keep more history for sparklines
         
@@ -164,20 +240,17 @@ export class ObjectTracker {
         const shortTermHistory = track.speedHistory.slice(-5);
         const avgSpeed = shortTermHistory.reduce((a, b) => a + b, 0) / shortTermHistory.length;
         
-        // 7. Update Track Physics
+        // 5. Update Track Physics
         track.speed = Math.floor(avgSpeed);
-        track.velocity = avgSpeed * Math.sign(v_norm_per_sec);
-
-        // Lane Logic
-        track.laneHistory.push(newCentroid[0]);
-        if (track.laneHistory.length > 10) track.laneHistory.shift();
-        this.updateLaneStatus(track);
+        track.velocity = avgSpeed * Math.sign(vy);
 
         // Sync to Detection
         match.trackId = track.id;
+        match.trackCategory = track.category;
         match.estimatedSpeed = track.speed;
         match.velocity = track.velocity; // Export signed velocity
-        match.laneEvent = track.laneStatus;
+        match.velocityVector = [vx, vy];
+        match.speedCalibrated = !!this.homography;
         match.speedHistory = [...track.speedHistory]; // Export history for UI
       }
     });
@@ -188,14 +261,16 @@ export class ObjectTracker {
       if (det.box_2d) {
         const newCentroid = this.getCentroid(det.box_2d);
         const newHeight = (det.box_2d[2] - det.box_2d[0]) / 1000;
+        const newWidth = (det.box_2d[3] - det.box_2d[1]) / 1000;
         
         const newTrack: TrackedObject = {
           id: this.nextId++,
           class: det.object,
+          category: getTrackCategory(det)!,
           box: det.box_2d,
           centroid: newCentroid,
-          avgHeight: newHeight,
-          laneHistory: [newCentroid[0]],
+          aspect: newHeight > 0 ? newWidth / newHeight : 1,
+          lateralHistory: [],
           speedHistory: [0],
           missingFrames: 0,
           speed: 0,
@@ -205,20 +280,37 @@ export class ObjectTracker {
           updatedAt: timestamp,
           wrongWayFrames: 0,
           speedingFrames: 0,
-          kalman: this.initKalman(newCentroid[1])
+          jaywalkFrames: 0,
+          groundPoint: boxGroundPoint(det.box_2d),
+          groundPointAt: timestamp,
+          zoneFrames: {},
+          zoneDwellSince: {},
+          kalman: this.initKalman(newCentroid, newHeight)
         };
         this.tracks.push(newTrack);
+        this.lastMatches.push({ trackId: newTrack.id, object: det.object, outcome: 'created' });
         
         det.trackId = newTrack.id;
+        det.trackCategory = newTrack.category;
         det.estimatedSpeed = 0;
         det.velocity = 0;
+        det.velocityVector = [0, 0];
         det.laneEvent = 'Stable';
         det.speedHistory = [0];
       }
     });
 
+    this.updateLaneStatus(validDetections);
     this.checkViolations(validDetections);
-    this.tracks = this.tracks.filter(t => t.missingFrames <= this.maxMissingFrames);
+    this.checkVulnerableRoadUsers(validDetections);
+    this.evaluateZones(validDetections, timestamp);
+    this.tracks = this.tracks.filter(t => t.missingFrames <= this.config.maxMissingFrames);
+
+    const byId = new Map(this.tracks.map(t => [t.id, t]));
+    validDetections.forEach(det => {
+      const track = det.trackId !== undefined ? byId.get(det.trackId) : undefined;
+      if (track) track.lastDetection = det;
+    });
 
     return detections;
   }
@@ -226,6 +318,164 @@ export class ObjectTracker {
   public reset() {
     this.tracks = [];
     this.nextId = 1;
+    this.lastMatches = [];
+  }
+
+  /** Drops every track but keeps the id counter, so ids stay unique after a jump in media time. */
+  public dropTracks() {
+    this.tracks = [];
+    this.lastMatches = [];
+  }
+
+  /** How each track was matched, created, missed or dropped by the last update(). */
+  public getLastMatches(): TrackMatch[] {
+    return this.lastMatches;
+  }
+
+  /** IDs of the tracks currently held, including ones coasting through missed frames. */
+  public getActiveTrackIds(): number[] {
+    return this.tracks.map(t => t.id);
+  }
+
+  /**
+   * Every track's last detection moved to `timestamp` along its Kalman motion. Read-only:
+   * the filter is not stepped, so extrapolating between model calls leaves tracking as is.
+   */
+  public predict(timestamp: number): PredictedTrack[] {
+    return this.tracks.filter(t => t.lastDetection).map(track => {
+      const dt = Math.max(0, (timestamp - track.updatedAt) / 1000);
+      return { detection: { ...track.lastDetection!, box_2d: this.predictBox(track, dt) }, missingFrames: track.missingFrames };
+    });
+  }
+
+  public getMaxMissingFrames(): number {
+    return this.config.maxMissingFrames;
+  }
+
+  /**
+   * How uncertain the tracks have become by `timestamp`: the largest growth of predicted
+   * position spread (std dev) since a track's last update, in multiples of its box height.
+   * 0 with no tracks or right after an update; new tracks, whose velocity is still
+   * unknown, grow fastest.
+   */
+  public getUncertainty(timestamp: number): number {
+    return this.tracks.reduce((worst, track) => {
+      const dt = Math.max(0, (timestamp - track.updatedAt) / 1000);
+      const { x, y, s } = track.kalman;
+      const spread = Math.sqrt(this.predictedVarianceGrowth(x, dt) + this.predictedVarianceGrowth(y, dt));
+      return Math.max(worst, spread / Math.max(0.01, s.pos));
+    }, 0);
+  }
+
+  /** Switches speed estimation to the camera's ground-plane homography (null reverts to the virtual ruler). */
+  public setCalibration(calibration: CameraCalibration | null | undefined) {
+    this.homography = calibration ? calibration.homography : null;
+  }
+
+  public setSpeedLimits(limits: SpeedLimits | undefined) {
+    const l = limits || DEFAULT_SPEED_LIMITS;
+    this.SPEED_LIMIT_DEFAULT = l.default;
+    this.SPEED_LIMIT_HEAVY = l.heavy;
+    this.SPEED_LIMIT_LIGHT = l.light;
+  }
+
+  public setZones(zones: Zone[] | undefined) {
+    this.zones = zones || [];
+  }
+
+  /** Returns and clears the stop-line and gate crossings recorded since the previous call. */
+  public drainZoneCrossings(): ZoneCrossing[] {
+    const crossings = this.zoneCrossings;
+    this.zoneCrossings = [];
+    return crossings;
+  }
+
+  // --- Speed Estimation ---
+
+  /**
+   * Virtual ruler: known object size establishes scale per axis
+   * (e.g., if a 4.5m car is 0.1 screens high, then 1 vertical screen = 45m at that depth).
+   */
+  private estimateRulerSpeed(track: TrackedObject, centroid: [number, number]): number {
+    const vx = track.kalman.x.v;
+    const vy = track.kalman.y.v;
+    const ref = this.getReferenceSize(track);
+    const height = Math.max(track.kalman.s.pos, 0.02);
+    const width = Math.max(height * track.aspect, 0.02);
+
+    // Perspective Correction (Depth Compensation)
+    // Objects near horizon (y=0) move slower in pixels for same real speed vs objects near bottom (y=1).
+    // We apply a linear boost based on Y position to normalize this perspective distortion.
+    // Formula: Scale increases as Y decreases (further away).
+    // Base Factor 1.2 (for close objects) + up to 1.0 (for far objects)
+    const perspectiveCorrection = 1.2 + (1.0 - centroid[1]) * 0.8;
+
+    return Math.hypot((vx / width) * ref.width, (vy / height) * ref.height) * perspectiveCorrection;
+  }
+
+  /**
+   * Calibrated speed: projects the box's ground contact point (bottom centre) now and
+   * `groundSpeedHorizon` seconds ahead along the Kalman velocity, and measures the
+   * distance covered on the ground plane.
+   */
+  private estimateGroundSpeed(track: TrackedObject): number {
+    const H = this.homography!;
+    const { x, y, s } = track.kalman;
+    const tau = this.groundSpeedHorizon;
+    const now: [number, number] = [x.pos, y.pos + s.pos / 2];
+    const ahead: [number, number] = [x.pos + x.v * tau, y.pos + y.v * tau + (s.pos + s.v * tau) / 2];
+    const g0 = projectToGround(H, now);
+    const g1 = projectToGround(H, ahead);
+    const meters = Math.hypot(g1[0] - g0[0], g1[1] - g0[1]);
+    return Number.isFinite(meters) ? meters / tau : 0;
+  }
+
+  // --- Association ---
+
+  /**
+   * Rows are tracks, columns are detections. Each cost blends box overlap with the
+   * Kalman-predicted box, distance to the predicted centroid and class agreement;
+   * pairs outside both the IoU and distance gates are marked GATED_COST.
+   */
+  private buildCostMatrix(detections: DetectionItem[], timestamp: number): number[][] {
+    const { minIoU, maxCentroidDistance, maxCost, iouWeight, distanceWeight, classWeight } = this.config;
+
+    return this.tracks.map(track => {
+      const dt = Math.max(0, (timestamp - track.updatedAt) / 1000);
+      const predictedBox = this.predictBox(track, dt);
+      const predictedCentroid = this.getCentroid(predictedBox);
+
+      return detections.map(det => {
+        if (getTrackCategory(det) !== track.category) return GATED_COST;
+        const iou = this.calculateIoU(predictedBox, det.box_2d!);
+        const detCentroid = this.getCentroid(det.box_2d!);
+        const dist = Math.hypot(detCentroid[0] - predictedCentroid[0], detCentroid[1] - predictedCentroid[1]);
+        if (iou < minIoU && dist > maxCentroidDistance) return GATED_COST;
+
+        const cost = iouWeight * (1 - iou)
+          + distanceWeight * Math.min(1, dist / maxCentroidDistance)
+          + classWeight * this.classDisagreement(track.class, det.object);
+        return cost > maxCost ? GATED_COST : cost;
+      });
+    });
+  }
+
+  /** 0 for identical labels, partial for the same size family (e.g. 'car' vs 'taxi'), 1 otherwise. */
+  private classDisagreement(trackClass: string, detClass: string): number {
+    const a = (trackClass || '').toLowerCase();
+    const b = (detClass || '').toLowerCase();
+    if (a === b) return 0;
+    return this.getReferenceLength(a) === this.getReferenceLength(b) ? 0.3 : 1;
+  }
+
+  /** Box extrapolated `dt` seconds ahead with the constant-velocity model. */
+  private predictBox(track: TrackedObject, dt: number): [number, number, number, number] {
+    const { x, y, s } = track.kalman;
+    const cx = x.pos + x.v * dt;
+    const cy = y.pos + y.v * dt;
+    const h = Math.max(0.005, s.pos + s.v * dt);
+    const w = h * track.aspect;
+    return [(cy - h / 2) * 1000, (cx - w / 2) * 1000, (cy + h / 2) * 1000, (cx + w / 2) * 1000];
   }
 
   // --- Helpers ---
@@ -238,18 +488,56 @@ export class ObjectTracker {
       return REFERENCE_LENGTHS_METERS['default'];
   }
 
-  private checkViolations(detections: DetectionItem[]) {
-      const movingTracks = this.tracks.filter(t => t.speed > 5);
-      let flowDir = 0;
-      if (movingTracks.length > 0) {
-          const sumV = movingTracks.reduce((acc, t) => acc + t.velocity, 0);
-          flowDir = sumV / movingTracks.length;
+  /**
+   * Real-world size of the box edges. Vehicles use their length on both axes (box
+   * width when crossing, foreshortened height when approaching); people and bikes use
+   * upright height vertically and their depth / frame length horizontally.
+   */
+  private getReferenceSize(track: TrackedObject): { width: number; height: number } {
+      const length = this.getReferenceLength(track.class);
+      if (track.category === 'vehicle') return { width: length, height: length };
+
+      const t = track.class.toLowerCase();
+      let height = REFERENCE_HEIGHTS_METERS['default'];
+      for (const key in REFERENCE_HEIGHTS_METERS) {
+          if (t.includes(key)) { height = REFERENCE_HEIGHTS_METERS[key]; break; }
       }
+      const width = track.category === 'cyclist' ? Math.max(length, REFERENCE_LENGTHS_METERS['bicycle']) : length;
+      return { width, height };
+  }
+
+  private getVelocityVector(track: TrackedObject): [number, number] {
+      return [track.kalman.x.v, track.kalman.y.v];
+  }
 
+  /**
+   * Mean velocity of the other moving tracks around `track`.
+   * Local rather than global so two-way roads and cross-traffic at intersections
+   * each get their own reference direction.
+   */
+  private getLocalFlow(track: TrackedObject): [number, number] | null {
+      let sumX = 0;
+      let sumY = 0;
+      let count = 0;
+      this.tracks.forEach(other => {
+          if (other.id === track.id || other.category !== 'vehicle' || other.missingFrames > 0 || other.speed <= 5) return;
+          const dist = Math.hypot(other.centroid[0] - track.centroid[0], other.centroid[1] - track.centroid[1]);
+          if (dist > this.flowRadius) return;
+          const [vx, vy] = this.getVelocityVector(other);
+          sumX += vx;
+          sumY += vy;
+          count++;
+      });
+      if (count === 0) return null;
+      const flow: [number, number] = [sumX / count, sumY / count];
+      return Math.hypot(flow[0], flow[1]) > this.minMotion ? flow : null;
+  }
+
+  private checkViolations(detections: DetectionItem[]) {
       detections.forEach(d => {
           if (!d.trackId) return;
           const track = this.tracks.find(t => t.id === d.trackId);
-          if (!track) return;
+          if (!track || track.category === 'pedestrian') return;
 
           let limit = this.SPEED_LIMIT_DEFAULT;
           const type = (track.class || '').toLowerCase();
@@ -270,8 +558,14 @@ export class ObjectTracker {
                d.isSpeeding = true;
           }
 
-          if (Math.abs(flowDir) > 10 && track.speed > 10) {
-               if (Math.sign(track.velocity) !== Math.sign(flowDir)) {
+          // Wrong way: heading opposes the local flow (cos < -0.5, i.e. more than 120 deg off).
+          // Perpendicular cross-traffic is not flagged.
+          const flow = this.getLocalFlow(track);
+          const [vx, vy] = this.getVelocityVector(track);
+          const vMag = Math.hypot(vx, vy);
+          if (flow && track.speed > 10 && vMag > this.minMotion) {
+               const cos = (vx * flow[0] + vy * flow[1]) / (vMag * Math.hypot(flow[0], flow[1]));
+               if (cos < -0.5) {
                    track.wrongWayFrames++;
                } else {
                    track.wrongWayFrames = 0;
@@ -283,17 +577,158 @@ export class ObjectTracker {
       });
   }
 
-  private updateLaneStatus(track: TrackedObject) {
-      if (track.laneHistory.length < 5) return;
-      const recent = track.laneHistory.slice(-5);
-      const minX = Math.min(...recent);
-      const maxX = Math.max(...recent);
-      const variance = maxX - minX;
-      if (variance > 0.05) {
-         track.laneStatus = 'Lane Change';
-      } else {
-         track.laneStatus = 'Stable';
-      }
+  /**
+   * Lane changes show up as sustained velocity perpendicular to the traffic direction.
+   * The reference is the local flow when there is one, otherwise the track's own
+   * smoothed heading is taken as the lane axis.
+   */
+  private updateLaneStatus(detections: DetectionItem[]) {
+      detections.forEach(d => {
+          if (!d.trackId) return;
+          const track = this.tracks.find(t => t.id === d.trackId);
+          if (!track || track.category !== 'vehicle' || track.missingFrames > 0) return;
+
+          const [vx, vy] = this.getVelocityVector(track);
+          const vMag = Math.hypot(vx, vy);
+          const flow = this.getLocalFlow(track) || (vMag > this.minMotion ? [vx, vy] as [number, number] : null);
+          if (!flow || vMag < this.minMotion) {
+              track.lateralHistory.push(0);
+          } else {
+              const flowMag = Math.hypot(flow[0], flow[1]);
+              // |v x f| / |f| = velocity component perpendicular to the flow
+              track.lateralHistory.push(Math.abs(vx * flow[1] - vy * flow[0]) / flowMag);
+          }
+          if (track.lateralHistory.length > 10) track.lateralHistory.shift();
+
+          if (track.lateralHistory.length >= 3) {
+              const recent = track.lateralHistory.slice(-3);
+              const lateral = recent.reduce((a, b) => a + b, 0) / recent.length;
+              track.laneStatus = vMag > this.minMotion && lateral / vMag > this.laneChangeAngle ? 'Lane Change' : 'Stable';
+          }
+          d.laneEvent = track.laneStatus;
+      });
+  }
+
+  /**
+   * Track-derived pedestrian / cyclist events:
+   * - Jaywalking: a pedestrian walking across the local vehicle flow for 3+ frames.
+   * - Near miss: a pedestrian or cyclist and a moving vehicle whose constant-velocity
+   *   paths pass within `nearMissDistance` of each other inside the look-ahead horizon.
+   */
+  private checkVulnerableRoadUsers(detections: DetectionItem[]) {
+      const vehicles = this.tracks.filter(t => t.category === 'vehicle' && t.missingFrames === 0 && t.speed > 5);
+
+      detections.forEach(d => {
+          if (!d.trackId) return;
+          const track = this.tracks.find(t => t.id === d.trackId);
+          if (!track || track.category === 'vehicle' || track.missingFrames > 0) return;
+
+          const [vx, vy] = this.getVelocityVector(track);
+          const vMag = Math.hypot(vx, vy);
+
+          if (track.category === 'pedestrian') {
+              const flow = this.getLocalFlow(track);
+              if (flow && track.speed > 1 && vMag > this.minMotion) {
+                  const cos = (vx * flow[0] + vy * flow[1]) / (vMag * Math.hypot(flow[0], flow[1]));
+                  track.jaywalkFrames = Math.abs(cos) < this.crossingCos ? track.jaywalkFrames + 1 : 0;
+              } else {
+                  track.jaywalkFrames = Math.max(0, track.jaywalkFrames - 1);
+              }
+              if (track.jaywalkFrames >= 3) d.isJaywalking = true;
+          }
+
+          track.nearMissWith = undefined;
+          let closest = this.nearMissDistance;
+          vehicles.forEach(vehicle => {
+              const [wx, wy] = this.getVelocityVector(vehicle);
+              // Relative motion of the vehicle as seen from the road user
+              const rx = vehicle.centroid[0] - track.centroid[0];
+              const ry = vehicle.centroid[1] - track.centroid[1];
+              const ux = wx - vx;
+              const uy = wy - vy;
+              const uu = ux * ux + uy * uy;
+              const tStar = uu > 0 ? Math.min(this.nearMissHorizon, Math.max(0, -(rx * ux + ry * uy) / uu)) : 0;
+              const dMin = Math.hypot(rx + ux * tStar, ry + uy * tStar);
+              if (dMin < closest) {
+                  closest = dMin;
+                  track.nearMissWith = vehicle.id;
+              }
+          });
+          if (track.nearMissWith !== undefined) d.nearMissWith = track.nearMissWith;
+      });
+  }
+
+  /**
+   * Tests each updated track's ground contact point against the user-drawn zones:
+   * - stop_line / entry_gate / exit_gate: records a crossing when the point moves across the line
+   * - lane (with direction): vehicles travelling against it for 3+ frames -> Wrong Lane
+   * - lane: pedestrians inside it and outside every crosswalk for 2+ frames -> Jaywalking
+   * - restricted: vehicles stopped inside longer than restrictedDwellMs -> Restricted Zone
+   * When crosswalks are drawn, flow-based jaywalking inside a crosswalk is cleared.
+   */
+  private evaluateZones(detections: DetectionItem[], timestamp: number) {
+      const crosswalks = this.zones.filter(z => z.kind === 'crosswalk' && z.points.length >= 3);
+
+      detections.forEach(d => {
+          if (!d.trackId) return;
+          const track = this.tracks.find(t => t.id === d.trackId);
+          if (!track || track.missingFrames > 0) return;
+
+          const previous = track.groundPoint;
+          const previousAt = track.groundPointAt;
+          const current = boxGroundPoint(track.box);
+          track.groundPoint = current;
+          track.groundPointAt = timestamp;
+
+          const [vx, vy] = this.getVelocityVector(track);
+          const vMag = Math.hypot(vx, vy);
+          const inCrosswalk = crosswalks.some(z => pointInPolygon(current, z.points));
+          if (inCrosswalk) d.isJaywalking = false;
+
+          const violations: ZoneViolation[] = [];
+          const countFrames = (zone: Zone, active: boolean): number => {
+              track.zoneFrames[zone.id] = active ? (track.zoneFrames[zone.id] || 0) + 1 : 0;
+              return track.zoneFrames[zone.id];
+          };
+
+          this.zones.forEach(zone => {
+              if (isLineZone(zone.kind)) {
+                  if (zone.points.length < 2) return;
+                  const [a, b] = zone.points;
+                  if (segmentsIntersect(previous, current, a, b)) {
+                      this.zoneCrossings.push({ zoneId: zone.id, trackId: track.id, category: track.category, objectClass: track.class, timestamp, previousTimestamp: previousAt, side: sideOfLine(current, a, b) });
+                  }
+                  return;
+              }
+
+              if (zone.points.length < 3) return;
+              const inside = pointInPolygon(current, zone.points);
+
+              if (zone.kind === 'lane' && track.category !== 'pedestrian' && zone.direction) {
+                  const against = inside && track.speed > 5 && vMag > this.minMotion
+                      && (vx * zone.direction[0] + vy * zone.direction[1]) / vMag < -0.5;
+                  if (countFrames(zone, against) >= 3) {
+                      violations.push({ zoneId: zone.id, type: 'Wrong Lane', severity: 'High', description: `${track.class} #${track.id} travelling against the direction of ${zone.label}` });
+                  }
+              } else if (zone.kind === 'lane' && track.category === 'pedestrian') {
+                  if (countFrames(zone, inside && !inCrosswalk) >= 2) {
+                      violations.push({ zoneId: zone.id, type: 'Jaywalking', severity: 'Medium', description: `Pedestrian #${track.id} in ${zone.label} outside a crosswalk` });
+                  }
+              } else if (zone.kind === 'restricted' && track.category === 'vehicle') {
+                  if (inside && track.speed < 3) {
+                      const since = track.zoneDwellSince[zone.id] ?? timestamp;
+                      track.zoneDwellSince[zone.id] = since;
+                      if (timestamp - since >= this.restrictedDwellMs) {
+                          violations.push({ zoneId: zone.id, type: 'Restricted Zone', severity: 'Medium', description: `${track.class} #${track.id} stopped in ${zone.label} for ${Math.round((timestamp - since) / 1000)}s` });
+                      }
+                  } else {
+                      delete track.zoneDwellSince[zone.id];
+                  }
+              }
+          });
+
+          if (violations.length > 0) d.zoneViolations = violations;
+      });
   }
 
   private getCentroid(box: [number, number, number, number]): [number, number] {
@@ -315,26 +750,41 @@ export class ObjectTracker {
   }
 
   // --- Kalman Filter ---
-  private initKalman(y: number): KalmanState {
-    return { y: y, v: 0, p11: 1, p12: 0, p21: 0, p22: 1 };
+  private initAxis(pos: number): AxisState {
+    return { pos: pos, v: 0, p11: 1, p12: 0, p21: 0, p22: 1 };
+  }
+
+  private initKalman(centroid: [number, number], height: number): KalmanState {
+    return { x: this.initAxis(centroid[0]), y: this.initAxis(centroid[1]), s: this.initAxis(height) };
+  }
+
+  /** Growth of the position variance over a prediction of `dt` seconds (the p11 term of updateAxis). */
+  private predictedVarianceGrowth(state: AxisState, dt: number): number {
+    return Math.max(0, dt * (state.p12 + state.p21) + dt * dt * state.p22 + this.Q_pos * dt);
+  }
+
+  private updateKalman(state: KalmanState, centroid: [number, number], height: number, dt: number, qVel: number) {
+    this.updateAxis(state.x, centroid[0], dt, qVel);
+    this.updateAxis(state.y, centroid[1], dt, qVel);
+    this.updateAxis(state.s, height, dt, this.Q_scale_vel);
   }
 
-  private updateKalman(state: KalmanState, measurement: number, dt: number) {
-    const pred_y = state.y + state.v * dt;
+  private updateAxis(state: AxisState, measurement: number, dt: number, qVel: number) {
+    const pred_pos = state.pos + state.v * dt;
     const pred_v = state.v;
     const dt2 = dt * dt;
     const pp11 = state.p11 + dt * (state.p12 + state.p21) + dt2 * state.p22 + (this.Q_pos * dt);
     const pp12 = state.p12 + dt * state.p22;
     const pp21 = state.p21 + dt * state.p22;
-    const pp22 = state.p22 + (this.Q_vel * dt);
+    const pp22 = state.p22 + (qVel * dt);
 
-    const y_innov = measurement - pred_y;
+    const innov = measurement - pred_pos;
     const s = pp11 + this.R;
     const k1 = pp11 / s;
     const k2 = pp21 / s; 
 
-    state.y = pred_y + k1 * y_innov;
-    state.v = pred_v + k2 * y_innov;
+    state.pos = pred_pos + k1 * innov;
+    state.v = pred_v + k2 * innov;
 
     const p11_new = (1 - k1) * pp11;
     const p12_new = (1 - k1) * pp12;
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { DetectionItem } from '../types';
+import { TrajectoryStore } from './trajectoryStore';
+
+const car = (trackId: number): DetectionItem => ({
+  object: 'car', type: 'vehicle', count: 1, confidence: 0.9, box_2d: [100, 100, 200, 200], trackId, trackCategory: 'vehicle',
+});
+
+describe('TrajectoryStore', () => {
+  it('hands over each trajectory once as it completes', () => {
+    const store = new TrajectoryStore();
+    store.record([car(1), car(2)], 0);
+    expect(store.markCompleted([2]).map(t => t.trackId)).toEqual([1]);
+    expect(store.markCompleted([2])).toEqual([]);
+    expect(store.completeAll().map(t => t.trackId)).toEqual([2]);
+  });
+
+  it('keeps every completed trajectory for the session', () => {
+    const store = new TrajectoryStore();
+    for (let id = 1; id <= 600; id++) {
+      store.record([car(id), car(10000)], id * 1000);
+      store.markCompleted([10000]);
+    }
+    const ids = store.getAll().map(t => t.trackId);
+    expect(ids).toHaveLength(601);
+    expect(ids).toContain(1);
+    expect(store.getAll().filter(t => t.completed)).toHaveLength(600);
+  });
+});
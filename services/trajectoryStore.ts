@@ -0,0 +1,87 @@
+import { DetectionItem, TrackTrajectory, Violation } from "../types";
+
+/**
+ * Session trajectory log, fed with the tracker's output every frame.
+ * Unlike ObjectTracker's own state it keeps tracks after they age out, so
+ * paths can be drawn as trails, replayed from the dashboard and exported.
+ * Every track is kept for the whole session; only its points are capped.
+ */
+export class TrajectoryStore {
+  private trajectories = new Map<number, TrackTrajectory>();
+  private activeViolations = new Map<number, Set<string>>(); // Keys seen in the previous frame, per track
+  private maxPointsPerTrack = 5000;
+
+  public record(detections: DetectionItem[], timestamp: number) {
+    detections.forEach(d => {
+      if (d.trackId === undefined || !d.box_2d || !d.trackCategory) return;
+      let trajectory = this.trajectories.get(d.trackId);
+      if (!trajectory) {
+        trajectory = { trackId: d.trackId, category: d.trackCategory, objectClass: d.object, points: [], violations: [] };
+        this.trajectories.set(d.trackId, trajectory);
+      }
+      const [ymin, xmin, ymax, xmax] = d.box_2d;
+      trajectory.points.push({
+        timestamp,
+        box: [...d.box_2d] as [number, number, number, number],
+        centroid: [(xmin + xmax) / 2 / 1000, (ymin + ymax) / 2 / 1000],
+        speed: d.estimatedSpeed || 0
+      });
+      if (trajectory.points.length > this.maxPointsPerTrack) trajectory.points.shift();
+    });
+  }
+
+  /**
+   * Attaches track-derived violations to their trajectories. A violation that stays
+   * active over consecutive frames is stored once, at its first occurrence.
+   */
+  public recordViolations(violations: Violation[], timestamp: number) {
+    const current = new Map<number, Set<string>>();
+    violations.forEach(v => {
+      if (v.trackId === undefined) return;
+      const key = `${v.type}|${v.zoneId || ''}`;
+      if (!current.has(v.trackId)) current.set(v.trackId, new Set());
+      current.get(v.trackId)!.add(key);
+
+      const trajectory = this.trajectories.get(v.trackId);
+      if (trajectory && !this.activeViolations.get(v.trackId)?.has(key)) {
+        trajectory.violations.push({ ...v, timestamp: v.timestamp ?? timestamp });
+      }
+    });
+    this.activeViolations = current;
+  }
+
+  /** Marks every trajectory whose track the tracker no longer holds as completed; returns the newly completed ones. */
+  public markCompleted(activeTrackIds: number[]): TrackTrajectory[] {
+    const active = new Set(activeTrackIds);
+    return this.complete(t => !active.has(t.trackId));
+  }
+
+  /** Called when the session ends or media time jumps: tracks still alive are final as they are. */
+  public completeAll(): TrackTrajectory[] {
+    return this.complete(() => true);
+  }
+
+  private complete(predicate: (t: TrackTrajectory) => boolean): TrackTrajectory[] {
+    const completed: TrackTrajectory[] = [];
+    this.trajectories.forEach(t => {
+      if (t.completed || !predicate(t)) return;
+      t.completed = true;
+      completed.push(t);
+    });
+    return completed;
+  }
+
+  /** Most recent `count` points of a track, oldest first. */
+  public getTail(trackId: number, count: number) {
+    return this.trajectories.get(trackId)?.points.slice(-count) || [];
+  }
+
+  public getAll(): TrackTrajectory[] {
+    return Array.from(this.trajectories.values());
+  }
+
+  public reset() {
+    this.trajectories.clear();
+    this.activeViolations.clear();
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { TrackCategory, Zone, ZoneCrossing } from '../types';
+import { BIN_MS, TurningMovementCounter, formatBinLabel, getMovement, toCountSheetCsv } from './turningMovementService';
+
+const gate = (id: string, kind: 'entry_gate' | 'exit_gate', approach: Zone['approach']): Zone =>
+  ({ id, kind, label: id, points: [[0, 0], [1, 0]], approach });
+
+const ZONES = [gate('in-N', 'entry_gate', 'N'), gate('in-W', 'entry_gate', 'W'), gate('out-E', 'exit_gate', 'E'), gate('out-S', 'exit_gate', 'S')];
+
+const crossing = (zoneId: string, trackId: number, timestamp: number, objectClass = 'car', category: TrackCategory = 'vehicle'): ZoneCrossing =>
+  ({ zoneId, trackId, category, objectClass, timestamp, previousTimestamp: timestamp - 200, side: 1 });
+
+describe('getMovement', () => {
+  it('names the turn by how far clockwise the exit leg is from the entry leg', () => {
+    expect(getMovement('N', 'E')).toBe('Left');
+    expect(getMovement('N', 'S')).toBe('Through');
+    expect(getMovement('N', 'W')).toBe('Right');
+    expect(getMovement('N', 'N')).toBe('U-Turn');
+  });
+});
+
+describe('TurningMovementCounter', () => {
+  it('counts entry-exit pairs per track in the 15-minute bin of the entry', () => {
+    const counter = new TurningMovementCounter();
+    counter.setZones(ZONES);
+    counter.ingest([
+      crossing('in-N', 1, BIN_MS - 5000),
+      crossing('in-N', 2, 60000),
+      crossing('out-S', 2, 65000),
+      crossing('out-E', 1, BIN_MS + 5000), // Left after the bin ended: still counted in the first
+      crossing('out-S', 3, 70000),         // Exit without an entry
+      crossing('in-W', 4, BIN_MS + 1000, 'bus'),
+      crossing('out-S', 4, BIN_MS + 9000, 'bus'),
+    ]);
+    expect(counter.getCounts()).toEqual([
+      { binStart: 0, approach: 'N', movement: 'Through', vehicleClass: 'Car', count: 1 },
+      { binStart: 0, approach: 'N', movement: 'Left', vehicleClass: 'Car', count: 1 },
+      { binStart: BIN_MS, approach: 'W', movement: 'Right', vehicleClass: 'Bus', count: 1 },
+    ]);
+  });
+
+  it('forgets pending entries on restart but keeps counts', () => {
+    const counter = new TurningMovementCounter();
+    counter.setZones(ZONES);
+    counter.ingest([crossing('in-N', 1, 0), crossing('out-S', 1, 1000), crossing('in-N', 2, 2000)]);
+    counter.restart();
+    counter.ingest([crossing('out-S', 2, 3000)]);
+    expect(counter.getCounts().map(c => c.count)).toEqual([1]);
+  });
+});
+
+describe('toCountSheetCsv', () => {
+  it('writes one block per class plus an all-classes block, one row per bin', () => {
+    const csv = toCountSheetCsv([
+      { binStart: 0, approach: 'N', movement: 'Through', vehicleClass: 'Car', count: 3 },
+      { binStart: BIN_MS, approach: 'W', movement: 'Right', vehicleClass: 'Bus', count: 1 },
+    ]);
+    const blocks = csv.trimEnd().split('\n\n').map(b => b.split('\n'));
+    expect(blocks.map(b => b[0])).toEqual(['Class: Bus', 'Class: Car', 'Class: All Classes']);
+
+    const header = blocks[0][1].split(',');
+    expect(header[0]).toBe('Interval Start');
+    expect(header.slice(1, 5)).toEqual(['SB Left', 'SB Thru', 'SB Right', 'SB U']);
+    expect(header).toHaveLength(1 + 16 + 1);
+
+    const all = blocks[2].slice(2).map(row => row.split(','));
+    expect(all.map(r => r[0])).toEqual([formatBinLabel(0), formatBinLabel(BIN_MS)]);
+    expect(all[0][header.indexOf('SB Thru')]).toBe('3');
+    expect(all[1][header.indexOf('EB Right')]).toBe('1');
+    expect(all.map(r => r[r.length - 1])).toEqual(['3', '1']);
+  });
+
+  it('labels media-time bins from the start of the video', () => {
+    expect(formatBinLabel(0)).toBe('+00:00');
+    expect(formatBinLabel(5 * BIN_MS)).toBe('+01:15');
+  });
+});
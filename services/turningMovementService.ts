@@ -0,0 +1,123 @@
+import { Approach, Movement, TrackCategory, TurningMovementCount, Zone, ZoneCrossing } from "../types";
+
+export const BIN_MS = 15 * 60 * 1000;
+
+// Legs in clockwise order; the turn is given by how far clockwise the exit leg is
+// from the entry leg (e.g. entering from N and leaving by E is a left turn).
+const LEG_ORDER: Approach[] = ['N', 'E', 'S', 'W'];
+const MOVEMENT_BY_OFFSET: Movement[] = ['U-Turn', 'Left', 'Through', 'Right'];
+
+export const APPROACH_ORDER: Approach[] = ['N', 'E', 'S', 'W'];
+export const MOVEMENT_ORDER: Movement[] = ['Left', 'Through', 'Right', 'U-Turn'];
+
+// Count-sheet convention: traffic entering from the north leg is southbound, etc.
+export const APPROACH_BOUND: Record<Approach, string> = { N: 'SB', E: 'WB', S: 'NB', W: 'EB' };
+
+export const getMovement = (entry: Approach, exit: Approach): Movement => {
+  const offset = (LEG_ORDER.indexOf(exit) - LEG_ORDER.indexOf(entry) + 4) % 4;
+  return MOVEMENT_BY_OFFSET[offset];
+};
+
+/** Count-sheet class buckets. */
+export const getCountClass = (category: TrackCategory, objectClass: string): string => {
+  if (category === 'pedestrian') return 'Pedestrian';
+  if (category === 'cyclist') return 'Bicycle';
+  const c = objectClass.toLowerCase();
+  if (c.includes('motor')) return 'Motorcycle';
+  if (c.includes('bus')) return 'Bus';
+  if (c.includes('truck') || c.includes('lorry')) return 'Truck';
+  return 'Car';
+};
+
+/**
+ * Turns gate crossings into turning-movement counts. A track that crosses an entry
+ * gate is remembered with its leg; when the same track later crosses an exit gate the
+ * movement is counted in the 15-minute bin of the entry time.
+ */
+export class TurningMovementCounter {
+  private zones = new Map<string, Zone>();
+  private pendingEntries = new Map<number, { approach: Approach; timestamp: number }>();
+  private counts = new Map<string, TurningMovementCount>();
+
+  public setZones(zones: Zone[] | undefined) {
+    this.zones = new Map((zones || []).map(z => [z.id, z]));
+  }
+
+  public ingest(crossings: ZoneCrossing[]) {
+    crossings.forEach(crossing => {
+      const zone = this.zones.get(crossing.zoneId);
+      if (!zone || !zone.approach) return;
+
+      if (zone.kind === 'entry_gate') {
+        this.pendingEntries.set(crossing.trackId, { approach: zone.approach, timestamp: crossing.timestamp });
+      } else if (zone.kind === 'exit_gate') {
+        const entry = this.pendingEntries.get(crossing.trackId);
+        if (!entry) return;
+        this.pendingEntries.delete(crossing.trackId);
+
+        const binStart = Math.floor(entry.timestamp / BIN_MS) * BIN_MS;
+        const movement = getMovement(entry.approach, zone.approach);
+        const vehicleClass = getCountClass(crossing.category, crossing.objectClass);
+        const key = `${binStart}|${entry.approach}|${movement}|${vehicleClass}`;
+        const existing = this.counts.get(key);
+        if (existing) existing.count++;
+        else this.counts.set(key, { binStart, approach: entry.approach, movement, vehicleClass, count: 1 });
+      }
+    });
+  }
+
+  public getCounts(): TurningMovementCount[] {
+    return Array.from(this.counts.values(), c => ({ ...c })).sort((a, b) => a.binStart - b.binStart);
+  }
+
+  /** Forgets entries still waiting for an exit, after a jump in media time ended their tracks; counts are kept. */
+  public restart() {
+    this.pendingEntries.clear();
+  }
+
+  public reset() {
+    this.pendingEntries.clear();
+    this.counts.clear();
+  }
+}
+
+/** Bin label: media time (mm:ss from start) for video sessions, clock time for live ones. */
+export const formatBinLabel = (binStart: number): string => {
+  if (binStart < 1e11) {
+    const totalMinutes = Math.floor(binStart / 60000);
+    const h = Math.floor(totalMinutes / 60);
+    const m = totalMinutes % 60;
+    return `+${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+  }
+  return new Date(binStart).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+};
+
+/**
+ * Standard turning-movement count sheet: one block per class, one row per 15-minute
+ * interval, columns grouped by bound (SB, WB, NB, EB) with Left / Thru / Right / U each,
+ * followed by the interval total. A final block sums all classes.
+ */
+export const toCountSheetCsv = (counts: TurningMovementCount[]): string => {
+  const header = ['Interval Start'];
+  APPROACH_ORDER.forEach(a => MOVEMENT_ORDER.forEach(m => header.push(`${APPROACH_BOUND[a]} ${m === 'Through' ? 'Thru' : m === 'U-Turn' ? 'U' : m}`)));
+  header.push('Total');
+
+  const bins = Array.from(new Set<number>(counts.map(c => c.binStart))).sort((a, b) => a - b);
+  const classes = Array.from(new Set(counts.map(c => c.vehicleClass))).sort();
+
+  const block = (title: string, rows: TurningMovementCount[]): string[] => {
+    const lines = [`Class: ${title}`, header.join(',')];
+    bins.forEach(bin => {
+      const cells: number[] = [];
+      APPROACH_ORDER.forEach(a => MOVEMENT_ORDER.forEach(m => {
+        cells.push(rows.filter(c => c.binStart === bin && c.approach === a && c.movement === m).reduce((s, c) => s + c.count, 0));
+      }));
+      lines.push([formatBinLabel(bin), ...cells, cells.reduce((s, c) => s + c, 0)].join(','));
+    });
+    return lines;
+  };
+
+  const sections = classes.map(cls => block(cls, counts.filter(c => c.vehicleClass === cls)));
+  sections.push(block('All Classes', counts));
+  return sections.map(lines => lines.join('\n')).join('\n\n') + '\n';
+};
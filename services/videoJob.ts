@@ -0,0 +1,391 @@
+import { AgentStageState, FullAnalysisResult, LocationContextData } from "../types";
+import { CapturedFrame, captureFrame } from "./frameCapture";
+import { createFrameSignature } from "./frameDifference";
+import { AdaptiveSampler } from "./adaptiveSampler";
+import { runAgentPipeline, TrackingOutput } from "./agentOrchestrator";
+import { PerceptionOutput } from "./perceptionAgent";
+import { createAbortError, getRequestScheduler, isAbortError } from "./requestScheduler";
+
+// Analysis of an uploaded video as a resumable job. A hidden <video> element walks a grid
+// of media times (the sampling step); selected frames go to the agent pipeline with
+// several requests in flight. Responses arrive out of order, so tracking is serialised
+// back into media-time order through a gate before analytics runs.
+
+const VIDEO_JOB_STORAGE_KEY = 'multi_ai_agent_video_job';
+
+// adaptive: scene change, or the tracks have become too uncertain to extrapolate
+export type FrameSelection = 'interval' | 'scene' | 'adaptive';
+
+export interface VideoJobOptions {
+  selection: FrameSelection;
+  stepSec: number;        // interval: analysis step; scene: probe step
+  sceneThreshold: number; // scene, adaptive: signature difference (0-1) that counts as a new scene
+  maxGapSec: number;      // scene, adaptive: analyse at least this often without a change
+  uncertaintyThreshold: number; // adaptive: ObjectTracker.getUncertainty() score that asks for a frame
+  maxInFlight: number;    // Frames analysed in parallel; the request scheduler's budget still applies
+}
+
+export const DEFAULT_VIDEO_JOB_OPTIONS: VideoJobOptions = {
+  selection: 'interval',
+  stepSec: 0.5,
+  sceneThreshold: 0.06,
+  maxGapSec: 5,
+  uncertaintyThreshold: 20,
+  maxInFlight: 2,
+};
+
+export type VideoJobState = 'running' | 'paused' | 'done' | 'cancelled';
+
+export interface VideoJobProgress {
+  state: VideoJobState;
+  durationSec: number;
+  positionSec: number; // Scan head
+  visited: number;     // Grid slots probed or analysed
+  total: number;       // Grid slots in the video
+  inFlight: number;
+  analyzed: number;
+  skipped: number;     // Probed by scene or adaptive selection and not analysed
+  failed: number;
+}
+
+export interface VideoJobHandlers {
+  track: (perception: PerceptionOutput, timestamp: number) => TrackingOutput;
+  resetTracking: () => void; // Before the first frame after a jump in media time
+  uncertainty?: (timestamp: number) => number; // Tracker uncertainty at a media time (ms), for adaptive selection
+  history: () => FullAnalysisResult[];
+  locationContext?: () => LocationContextData | undefined;
+  onResult: (result: FullAnalysisResult, frame: CapturedFrame) => void; // `mediaTime` is set
+  onStages?: (stages: AgentStageState[]) => void;
+  onProgress: (progress: VideoJobProgress) => void;
+}
+
+const SEEK_TIMEOUT_MS = 3000;
+const SLOT_POLL_MS = 250; // Rechecks the scheduler while it is saturated
+
+export const loadVideoJobOptions = (): VideoJobOptions => {
+  try {
+    const saved = localStorage.getItem(VIDEO_JOB_STORAGE_KEY);
+    if (saved) return { ...DEFAULT_VIDEO_JOB_OPTIONS, ...JSON.parse(saved) };
+  } catch (e) {
+    console.error(e);
+  }
+  return { ...DEFAULT_VIDEO_JOB_OPTIONS };
+};
+
+export const saveVideoJobOptions = (options: VideoJobOptions) => {
+  localStorage.setItem(VIDEO_JOB_STORAGE_KEY, JSON.stringify(options));
+};
+
+/** Lets frames through one at a time in sequence order, whatever order they arrive in. */
+class OrderedGate {
+  private next = 0;
+  private waiting = new Map<number, () => void>();
+
+  public turn(seq: number): Promise<void> {
+    if (seq === this.next) return Promise.resolve();
+    return new Promise(resolve => this.waiting.set(seq, resolve));
+  }
+
+  /** Called by the holder of the current turn. */
+  public release() {
+    this.next++;
+    const resolve = this.waiting.get(this.next);
+    if (resolve) {
+      this.waiting.delete(this.next);
+      resolve();
+    }
+  }
+}
+
+export class VideoJob {
+  private video = document.createElement('video');
+  private captureCanvas = document.createElement('canvas');
+  private signatureCanvas = document.createElement('canvas');
+  private options: VideoJobOptions;
+  private state: VideoJobState = 'paused';
+  private controller = new AbortController(); // Aborted by cancel()
+  private gate = new OrderedGate();
+  private nextSeq = 0;
+
+  private cursor = 0;                       // Next grid slot to visit
+  private visited = new Set<number>();      // Grid slots probed or analysed
+  private analyzedTimes = new Set<number>(); // Media times (ms) with a result or in flight
+  private jumpEpoch = 0;                    // Bumped by seeks; frames sampled across one are dropped
+  private loopToken = 0;                    // Identifies the current scan loop
+  private resetPending = true;              // The next dispatched frame restarts tracking
+  private sampler = new AdaptiveSampler();  // Scene and adaptive selection
+  private slotWaiters: (() => void)[] = [];
+  private counts = { inFlight: 0, analyzed: 0, skipped: 0, failed: 0 };
+
+  constructor(private url: string, private handlers: VideoJobHandlers, options: Partial<VideoJobOptions> = {}) {
+    this.options = { ...DEFAULT_VIDEO_JOB_OPTIONS, ...options };
+    this.video.muted = true;
+    this.video.preload = 'auto';
+    this.video.playsInline = true;
+  }
+
+  /** Loads the video's metadata and first frame. Rejects when the file cannot be decoded. */
+  public load(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.video.onloadeddata = () => resolve();
+      this.video.onerror = () => reject(new Error("Failed to load video file."));
+      this.video.src = this.url;
+      this.video.load();
+    });
+  }
+
+  public get durationSec(): number {
+    return Number.isFinite(this.video.duration) ? this.video.duration : 0;
+  }
+
+  public getOptions(): VideoJobOptions {
+    return this.options;
+  }
+
+  public getProgress(): VideoJobProgress {
+    return {
+      state: this.state,
+      durationSec: this.durationSec,
+      positionSec: Math.min(this.durationSec, this.cursor * this.options.stepSec),
+      visited: this.visited.size,
+      total: this.slotCount(),
+      ...this.counts,
+    };
+  }
+
+  public start() {
+    this.resume();
+  }
+
+  public resume() {
+    if (this.state === 'running' || this.state === 'cancelled') return;
+    this.state = 'running';
+    this.emit();
+    this.loop(++this.loopToken);
+  }
+
+  /** Stops sampling new frames; requests already in flight still complete. */
+  public pause() {
+    if (this.state !== 'running') return;
+    this.state = 'paused';
+    this.loopToken++;
+    this.emit();
+  }
+
+  /** Moves the scan head. Tracks restart there, since objects cannot be followed across the jump. */
+  public seek(timeSec: number) {
+    if (this.state === 'cancelled') return;
+    this.cursor = this.slotAt(timeSec);
+    this.markJump();
+    if (this.state === 'done') this.resume();
+    else this.emit();
+  }
+
+  /**
+   * Applies new options. A new step re-grids the video: slots that already have a
+   * result count as visited, others (including unchanged scene probes) are scanned again.
+   */
+  public setOptions(options: VideoJobOptions) {
+    const positionSec = this.cursor * this.options.stepSec;
+    const regrid = options.stepSec !== this.options.stepSec || options.selection !== this.options.selection;
+    this.options = options;
+    if (regrid) {
+      this.visited = new Set([...this.analyzedTimes].map(ms => this.slotAt(ms / 1000)));
+      this.cursor = this.slotAt(positionSec);
+      this.markJump();
+      if (this.state === 'done') this.resume();
+    }
+    this.wakeSlotWaiters();
+    this.emit();
+  }
+
+  public cancel() {
+    this.state = 'cancelled';
+    this.loopToken++;
+    this.controller.abort();
+    this.wakeSlotWaiters();
+    this.video.removeAttribute('src');
+    this.video.load();
+  }
+
+  // --- SCAN LOOP ---
+
+  private slotCount() {
+    return Math.floor(this.durationSec / this.options.stepSec) + 1;
+  }
+
+  private slotAt(timeSec: number) {
+    return Math.max(0, Math.min(this.slotCount() - 1, Math.floor(timeSec / this.options.stepSec + 1e-6)));
+  }
+
+  private markJump() {
+    this.jumpEpoch++;
+    this.resetPending = true;
+    this.sampler.restart();
+  }
+
+  /** The slot at the cursor if unvisited, else the next gap after it, wrapping to the start. */
+  private nextUnvisited(): number | null {
+    const total = this.slotCount();
+    for (let i = 0; i < total; i++) {
+      const slot = (this.cursor + i) % total;
+      if (!this.visited.has(slot)) return slot;
+    }
+    return null;
+  }
+
+  private async loop(token: number) {
+    const isCurrent = () => token === this.loopToken && this.state === 'running';
+
+    while (isCurrent()) {
+      const slot = this.nextUnvisited();
+      if (slot === null) {
+        while (this.counts.inFlight > 0 && isCurrent()) await this.waitForSlot();
+        if (isCurrent()) {
+          this.state = 'done';
+          this.emit();
+        }
+        return;
+      }
+      if (this.counts.inFlight >= this.options.maxInFlight || getRequestScheduler().isSaturated()) {
+        await this.waitForSlot();
+        continue;
+      }
+      if (slot !== this.cursor) {
+        // Jumped over visited slots to a gap
+        this.cursor = slot;
+        this.markJump();
+      }
+
+      const epoch = this.jumpEpoch;
+      const timeSec = slot * this.options.stepSec;
+      await this.seekVideo(timeSec);
+      if (!isCurrent()) return;
+      if (epoch !== this.jumpEpoch) continue; // Seeked while the frame was loading
+
+      this.visited.add(slot);
+      this.cursor = slot + 1;
+      if (this.shouldAnalyze(timeSec)) {
+        try {
+          const frame = captureFrame(this.video, this.captureCanvas);
+          if (frame) this.dispatch(frame, timeSec);
+        } catch (e) {
+          console.warn("Video frame capture failed", e);
+          this.counts.failed++;
+        }
+      } else {
+        this.counts.skipped++;
+      }
+      this.emit();
+    }
+  }
+
+  private seekVideo(timeSec: number): Promise<void> {
+    const video = this.video;
+    if (Math.abs(video.currentTime - timeSec) < 1e-3 && video.readyState >= 2) return Promise.resolve();
+    return new Promise(resolve => {
+      const done = () => {
+        clearTimeout(timer);
+        video.removeEventListener('seeked', done);
+        resolve();
+      };
+      const timer = setTimeout(done, SEEK_TIMEOUT_MS);
+      video.addEventListener('seeked', done);
+      video.currentTime = timeSec;
+    });
+  }
+
+  /**
+   * Interval selection takes every slot. Scene selection takes frames that changed, or
+   * after `maxGapSec`; adaptive selection also takes frames once the tracks have become
+   * too uncertain to extrapolate to this time.
+   */
+  private shouldAnalyze(timeSec: number): boolean {
+    const { selection, sceneThreshold, maxGapSec, uncertaintyThreshold } = this.options;
+    if (selection === 'interval') return true;
+    this.sampler.setOptions({
+      enabled: true,
+      changeThreshold: sceneThreshold,
+      uncertaintyThreshold: selection === 'adaptive' ? uncertaintyThreshold : Infinity,
+      minIntervalMs: 0, // The grid step is the minimum
+      maxIntervalMs: maxGapSec * 1000,
+    });
+    const timeMs = timeSec * 1000;
+    const uncertainty = selection === 'adaptive' ? this.handlers.uncertainty?.(timeMs) ?? 0 : 0;
+    return this.sampler.decide(createFrameSignature(this.video, this.signatureCanvas), uncertainty, timeMs).analyze;
+  }
+
+  private waitForSlot(): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(done, SLOT_POLL_MS);
+      function done() {
+        clearTimeout(timer);
+        resolve();
+      }
+      this.slotWaiters.push(done);
+    });
+  }
+
+  private wakeSlotWaiters() {
+    const waiters = this.slotWaiters;
+    this.slotWaiters = [];
+    waiters.forEach(w => w());
+  }
+
+  // --- ANALYSIS ---
+
+  private dispatch(frame: CapturedFrame, timeSec: number) {
+    const seq = this.nextSeq++;
+    const resetBefore = this.resetPending;
+    this.resetPending = false;
+    const mediaTime = Math.round(timeSec * 1000);
+    const signal = this.controller.signal;
+    this.analyzedTimes.add(mediaTime);
+    this.counts.inFlight++;
+
+    // Every frame takes its turn exactly once, even when perception failed, so the reset
+    // it carries still happens and later frames are not held up.
+    let hasTurn = false;
+    const takeTurn = async () => {
+      await this.gate.turn(seq);
+      hasTurn = true;
+      if (resetBefore && !signal.aborted) this.handlers.resetTracking();
+    };
+
+    runAgentPipeline(
+      { image: frame.data, mimeType: frame.mime, depth: 'fast', timestamp: mediaTime },
+      {
+        track: async (perception, timestamp) => {
+          await takeTurn();
+          if (signal.aborted) throw createAbortError();
+          return this.handlers.track(perception, timestamp);
+        },
+        history: this.handlers.history(),
+        locationContext: this.handlers.locationContext?.(),
+      },
+      stages => { if (!signal.aborted) this.handlers.onStages?.(stages); },
+      signal
+    )
+      .then(run => {
+        this.counts.analyzed++;
+        if (!signal.aborted) this.handlers.onResult({ ...run.result, mediaTime }, frame);
+      })
+      .catch(error => {
+        if (isAbortError(error)) return;
+        console.warn(`Video frame at ${timeSec.toFixed(2)} s failed`, error);
+        this.analyzedTimes.delete(mediaTime);
+        this.counts.failed++;
+      })
+      .finally(async () => {
+        if (!hasTurn) await takeTurn();
+        this.gate.release();
+        this.counts.inFlight--;
+        this.wakeSlotWaiters();
+        if (!signal.aborted) this.emit();
+      });
+  }
+
+  private emit() {
+    this.handlers.onProgress(this.getProgress());
+  }
+}
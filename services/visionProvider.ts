@@ -0,0 +1,228 @@
+import { GenerateContentConfig, GoogleGenAI, Part } from "@google/genai";
+import { TokenUsage } from "../types";
+import { createAbortError } from "./requestScheduler";
+
+// --- PROVIDER CONTRACT ---
+
+export type VisionTask = 'fast' | 'full' | 'analytics' | 'report' | 'location';
+
+export interface VisionRequest {
+  task: VisionTask;
+  prompt: string;
+  image?: { mimeType: string; data: string }; // Raw base64 (no data URI prefix)
+  systemInstruction?: string;
+  responseSchema?: object;
+  temperature?: number;
+  location?: { latitude: number; longitude: number };
+  signal?: AbortSignal; // Set by the request scheduler; providers stop work when it fires
+}
+
+export interface VisionResponse {
+  text: string;
+  modelId: string;
+  usage?: TokenUsage; // When the backend reports it
+}
+
+/**
+ * A backend capable of answering the prompts built by the agents.
+ * Providers only transport requests; schemas, parsing and NMS stay with the agents.
+ */
+export interface VisionProvider {
+  readonly kind: VisionProviderKind;
+  readonly modelId: string;
+  generate(request: VisionRequest): Promise<VisionResponse>;
+}
+
+export type VisionProviderKind = 'gemini' | 'fixture';
+
+export interface VisionProviderConfig {
+  kind: VisionProviderKind;
+  model: string;
+  apiKey?: string;
+}
+
+export const GEMINI_MODELS = ['gemini-2.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.5-pro'];
+
+export const DEFAULT_PROVIDER_CONFIG: VisionProviderConfig = {
+  kind: 'gemini',
+  model: 'gemini-2.5-flash',
+};
+
+// --- GEMINI ---
+
+export class GeminiVisionProvider implements VisionProvider {
+  public readonly kind = 'gemini' as const;
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string, public readonly modelId: string = DEFAULT_PROVIDER_CONFIG.model) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  public async generate(request: VisionRequest): Promise<VisionResponse> {
+    const parts: Part[] = [];
+    if (request.image) parts.push({ inlineData: { mimeType: request.image.mimeType, data: request.image.data } });
+    parts.push({ text: request.prompt });
+
+    const config: GenerateContentConfig = {};
+    if (request.systemInstruction) config.systemInstruction = request.systemInstruction;
+    if (request.responseSchema) {
+      config.responseMimeType = "application/json";
+      config.responseSchema = request.responseSchema;
+    }
+    if (request.temperature !== undefined) config.temperature = request.temperature;
+    if (request.signal) config.abortSignal = request.signal;
+    if (request.location) {
+      config.tools = [{ googleMaps: {} }];
+      config.toolConfig = { retrievalConfig: { latLng: request.location } };
+    }
+
+    const response = await this.ai.models.generateContent({
+      model: this.modelId,
+      contents: request.image ? { parts } : { text: request.prompt },
+      config
+    });
+
+    const usage = response.usageMetadata;
+    return {
+      text: response.text || "",
+      modelId: this.modelId,
+      usage: usage ? { promptTokens: usage.promptTokenCount, responseTokens: usage.candidatesTokenCount, totalTokens: usage.totalTokenCount } : undefined,
+    };
+  }
+}
+
+// --- FIXTURE REPLAY ---
+
+/** One recorded model answer. Frames for the same task are replayed in order and wrap around. */
+export interface VisionFixture {
+  task: VisionTask;
+  response: string; // Raw response text exactly as the model would return it
+}
+
+export class FixtureVisionProvider implements VisionProvider {
+  public readonly kind = 'fixture' as const;
+  private cursors: Record<VisionTask, number> = { fast: 0, full: 0, analytics: 0, report: 0, location: 0 };
+
+  constructor(private fixtures: VisionFixture[], public readonly modelId: string = 'fixture-replay') {}
+
+  public async generate(request: VisionRequest): Promise<VisionResponse> {
+    if (request.signal?.aborted) throw createAbortError();
+    const candidates = this.fixtures.filter(f => f.task === request.task);
+    if (candidates.length === 0) throw new Error(`No fixture recorded for task '${request.task}'`);
+
+    const fixture = candidates[this.cursors[request.task] % candidates.length];
+    this.cursors[request.task]++;
+    return { text: fixture.response, modelId: this.modelId };
+  }
+
+  public rewind() {
+    this.cursors = { fast: 0, full: 0, analytics: 0, report: 0, location: 0 };
+  }
+}
+
+/**
+ * Deterministic demo scene: a few vehicles moving at constant velocity, a pedestrian
+ * crossing and one signal head cycling green/yellow/red, so the tracker and the signal
+ * timeline produce stable output without network access.
+ */
+export const buildDemoFixtures = (frameCount = 40): VisionFixture[] => {
+  const actors = [
+    { object: 'car', type: 'vehicle', y: 150, x: 420, vy: 22, vx: 0, h: 90, w: 70 },
+    { object: 'truck', type: 'vehicle', y: 80, x: 560, vy: 14, vx: 2, h: 140, w: 90 },
+    { object: 'car', type: 'vehicle', y: 820, x: 250, vy: -18, vx: 0, h: 110, w: 80 },
+    { object: 'person', type: 'pedestrian', y: 600, x: 100, vy: 0, vx: 9, h: 60, w: 20 },
+  ];
+
+  const fixtures: VisionFixture[] = [];
+  for (let frame = 0; frame < frameCount; frame++) {
+    const detections = actors
+      .map((a, actorIndex) => {
+        const ymin = Math.round((a.y + a.vy * frame + 1000) % 1000);
+        const xmin = Math.round((a.x + a.vx * frame + 1000) % 1000);
+        return {
+          object: a.object,
+          count: 1,
+          confidence: 0.9,
+          type: a.type,
+          box_2d: [ymin, xmin, Math.min(1000, ymin + a.h), Math.min(1000, xmin + a.w)],
+          gtId: actorIndex + 1 // Ground truth for ID-switch evaluation
+        };
+      });
+    const vehicles = detections.filter(d => d.type === 'vehicle').length;
+    const congestionLevel = 20 + (frame % 10) * 3;
+    const cycle = frame % 20;
+    const signalState = cycle < 8 ? 'Green' : cycle < 10 ? 'Yellow' : 'Red';
+
+    fixtures.push({
+      task: 'fast',
+      response: JSON.stringify({ detections, trafficLights: [{ state: signalState, box_2d: [40, 880, 120, 910] }], congestionLevel, trafficFlowStatus: 'Moderate' })
+    });
+
+    if (frame % 4 === 0) {
+      fixtures.push({
+        task: 'full',
+        response: JSON.stringify({
+          detections,
+          trafficLights: [{ state: signalState, box_2d: [40, 880, 120, 910] }],
+          congestionLevel,
+          trafficFlowStatus: 'Moderate',
+          sceneType: 'City Street',
+          observedViolations: []
+        })
+      });
+      fixtures.push({
+        task: 'analytics',
+        response: JSON.stringify({ congestionLevel, trafficFlowStatus: 'Moderate', estimatedAverageSpeed: 35, detectedViolations: [], trend: 'Stable', riskNotes: [] })
+      });
+      fixtures.push({
+        task: 'report',
+        response: JSON.stringify({
+          summary: `Replay frame ${frame}: ${vehicles} vehicles moving steadily.`,
+          recommendations: ['Maintain current signal timing.'],
+          priorityScore: 3
+        })
+      });
+    }
+  }
+
+  fixtures.push({ task: 'location', response: 'Fixture replay location: no live map data.' });
+  return fixtures;
+};
+
+// --- RUNTIME SELECTION ---
+
+const PROVIDER_STORAGE_KEY = 'multi_ai_agent_provider';
+
+export const createVisionProvider = (config: VisionProviderConfig, fixtures?: VisionFixture[]): VisionProvider => {
+  if (config.kind === 'fixture') {
+    return new FixtureVisionProvider(fixtures || buildDemoFixtures(), config.model || 'fixture-replay');
+  }
+  if (!config.apiKey) throw new Error("Gemini API key missing. Add it under Vision Backend on the home screen.");
+  return new GeminiVisionProvider(config.apiKey, config.model || DEFAULT_PROVIDER_CONFIG.model);
+};
+
+export const loadProviderConfig = (): VisionProviderConfig => {
+  try {
+    const saved = localStorage.getItem(PROVIDER_STORAGE_KEY);
+    if (saved) return { ...DEFAULT_PROVIDER_CONFIG, ...JSON.parse(saved) };
+  } catch (e) {
+    console.error(e);
+  }
+  return { ...DEFAULT_PROVIDER_CONFIG };
+};
+
+export const saveProviderConfig = (config: VisionProviderConfig) => {
+  localStorage.setItem(PROVIDER_STORAGE_KEY, JSON.stringify(config));
+};
+
+let activeProvider: VisionProvider | null = null;
+
+/** Replaces the backend used by every geminiService call. */
+export const setVisionProvider = (provider: VisionProvider | null) => {
+  activeProvider = provider;
+};
+
+export const getVisionProvider = (): VisionProvider => {
+  if (!activeProvider) activeProvider = createVisionProvider(loadProviderConfig());
+  return activeProvider;
+};
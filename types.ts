@@ -8,6 +8,23 @@ export enum AgentStatus {
   ERROR = 'ERROR'
 }
 
+export type AgentId = 'perception' | 'analytics' | 'reporting';
+
+/** Progress and outcome of one agent for the frame being processed. */
+export interface AgentStageState {
+  agent: AgentId;
+  status: 'pending' | 'running' | 'done' | 'fallback' | 'error'; // fallback: model call failed, local rules used
+  strategy?: 'model' | 'local'; // Model call, or deterministic rules (real-time loops and fallbacks)
+  modelId?: string;
+  startedAt?: number;
+  durationMs?: number;
+  summary?: string; // One line describing the output
+  details?: string[]; // Notable intermediate output (observed violations, risk notes, recommendations)
+  error?: string;
+}
+
+export type TrackCategory = 'vehicle' | 'pedestrian' | 'cyclist';
+
 export interface DetectionItem {
   object: string;
   count: number;
@@ -16,23 +33,81 @@ export interface DetectionItem {
   // New Tracking Fields
   box_2d?: [number, number, number, number]; // [ymin, xmin, ymax, xmax] (Normalized 0-1000)
   trackId?: number;
+  trackCategory?: TrackCategory; // Motion class the tracker assigned
   estimatedSpeed?: number; // km/h (Absolute magnitude)
-  velocity?: number; // Normalized units/sec (Signed direction)
+  speedCalibrated?: boolean; // Speed measured on the calibrated ground plane, not the virtual ruler
+  velocity?: number; // km/h, signed by vertical direction (+ = moving down the frame)
+  velocityVector?: [number, number]; // [vx, vy] Kalman velocity in normalized screen units/sec
   laneEvent?: 'Stable' | 'Lane Change' | 'Merging';
   isSpeeding?: boolean; // New: Tracking derived
   isWrongWay?: boolean; // New: Tracking derived
   speedHistory?: number[]; // New: For visualization
+  isJaywalking?: boolean; // Pedestrian crossing against the vehicle flow
+  nearMissWith?: number; // trackId of the vehicle in a predicted near miss
+  zoneViolations?: ZoneViolation[]; // Geometric violations against user-drawn zones
 }
 
 export interface TrafficLight {
   state: 'Red' | 'Yellow' | 'Green' | 'Off';
   count: number;
+  box_2d?: [number, number, number, number]; // Signal head, when the model localizes it (Normalized 0-1000)
+}
+
+/** Debounced state of one signal head over an interval (ms; media time for video). */
+export interface SignalPhase {
+  lightId: string;
+  state: TrafficLight['state'];
+  start: number;
+  end?: number; // Open while the phase is current
+}
+
+export interface ViolationEvidence {
+  signalId: string;
+  signalState: TrafficLight['state'];
+  phaseStart: number;        // When the governing light turned to signalState
+  frameTimestamps: number[]; // Frames bracketing the crossing: last before, first after
 }
 
 export interface Violation {
-  type: 'Red Light' | 'Jaywalking' | 'Wrong Lane' | 'Speeding' | 'Other';
+  type: 'Red Light' | 'Jaywalking' | 'Wrong Lane' | 'Speeding' | 'Restricted Zone' | 'Other';
   description: string;
   severity: 'Low' | 'Medium' | 'High';
+  trackId?: number; // Set when derived from a tracked object rather than the LLM
+  zoneId?: string;  // Set when derived from a user-drawn zone
+  timestamp?: number; // When it was observed (ms; media time for video)
+  evidence?: ViolationEvidence; // Red-light runs: signal state and frames backing the call
+}
+
+export type ZoneKind = 'lane' | 'stop_line' | 'crosswalk' | 'restricted' | 'entry_gate' | 'exit_gate';
+
+export type Approach = 'N' | 'E' | 'S' | 'W'; // Intersection leg, named by compass position
+
+export interface Zone {
+  id: string;
+  kind: ZoneKind;
+  label: string;
+  points: [number, number][]; // Normalized image [x, y]; 2 points for lines (stop lines, gates), 3+ for polygons
+  direction?: [number, number]; // Lanes only: permitted direction of travel (unit vector, image coordinates)
+  approach?: Approach; // Gates only: intersection leg the gate sits on
+  signalId?: string; // Stop lines only: governing light (defaults to the nearest one)
+  approachSide?: 1 | -1; // Stop lines only: sideOfLine() of the side traffic approaches from (defaults to the side away from the light)
+}
+
+export interface ZoneViolation {
+  zoneId: string;
+  type: Violation['type'];
+  description: string;
+  severity: Violation['severity'];
+}
+
+export interface ZoneCrossing {
+  zoneId: string;
+  trackId: number;
+  category: TrackCategory;
+  objectClass: string;
+  timestamp: number;
+  side: number; // sideOfLine() of the ground point after crossing (1 = left, -1 = right)
+  previousTimestamp: number; // Frame before the crossing
 }
 
 export interface TrafficAnalysis {
@@ -64,8 +139,65 @@ export interface LocationContextData {
   trafficInfluencers: string[];
 }
 
+/** A field in a model response that failed validation and was repaired instead of rejected. */
+export interface ResponseCoercion {
+  path: string;  // e.g. "detections[3].box_2d"
+  from: unknown; // Value as the model returned it
+  to: unknown;   // Value used instead (undefined when the field or item was dropped)
+  reason: string;
+}
+
+export interface TokenUsage {
+  promptTokens?: number;
+  responseTokens?: number;
+  totalTokens?: number;
+}
+
+/** One model request an agent made, as sent and as received. */
+export interface ModelCallTrace {
+  task: string; // VisionTask
+  modelId: string;
+  systemInstruction?: string;
+  prompt: string;
+  image?: { mimeType: string; bytes: number }; // The image itself is not kept
+  queuedMs: number;  // Waiting for a scheduler slot, budget or retry backoff
+  latencyMs: number; // Final attempt, request to response
+  attempts: number;
+  usage?: TokenUsage;
+  rawResponse?: string; // Response text, cut to a fixed length when long
+  rawResponseTruncated?: boolean;
+  error?: string;
+}
+
+/** How the tracker treated one track on this frame. */
+export interface TrackMatch {
+  trackId: number;
+  object: string;
+  outcome: 'matched' | 'created' | 'missed' | 'dropped'; // missed: coasting without a detection; dropped: missed too long
+  cost?: number; // Assignment cost of a match (0 = perfect overlap and class agreement)
+}
+
+export interface AgentTraceStep extends AgentStageState {
+  calls: ModelCallTrace[];
+  coercions?: ResponseCoercion[];
+  nms?: { input: number; kept: number; dropped: number; unboxed?: number }; // Perception: boxed detections before and after NMS, and ones without a box passed through
+  trackerMatches?: TrackMatch[];                         // Analytics: tracking step that fed it
+}
+
+/** Everything the agents received and returned for one analysis, for debugging after the fact. */
+export interface AgentTrace {
+  depth: 'fast' | 'full';
+  startedAt: number;
+  durationMs: number;
+  steps: AgentTraceStep[];
+}
+
 export interface FullAnalysisResult {
   timestamp: number;
+  mediaTime?: number; // Position in the source video (ms), for video results
+  modelId?: string; // Model (or fixture set) that produced the detections
+  coercions?: ResponseCoercion[]; // Repairs applied to the model response, when any
+  trace?: AgentTrace; // Per-agent record of the run that produced this result
   detections: DetectionItem[];
   analysis: TrafficAnalysis;
   report: TrafficReport;
@@ -75,4 +207,95 @@ export interface FullAnalysisResult {
 export interface HistoryItem extends FullAnalysisResult {
   id: string;
   thumbnail: string; // Base64 thumbnail
-}
\ No newline at end of file
+}
+export interface CalibrationPoint {
+  image: [number, number]; // [x, y] normalized 0-1
+  world: [number, number]; // [X, Y] meters on the ground plane
+}
+
+export interface CameraCalibration {
+  points: CalibrationPoint[];
+  homography: number[]; // Row-major 3x3, normalized image -> ground plane (m)
+  reprojectionError: number; // RMS meters
+  updatedAt: number;
+}
+
+/** Speed limits in km/h, by vehicle class as the tracker groups them. */
+export interface SpeedLimits {
+  default: number;
+  heavy: number; // Buses, trucks
+  light: number; // Bikes, auto-rickshaws
+}
+
+export interface CameraLocation {
+  label: string; // e.g. "5th Ave & Main St, northbound"
+  latitude?: number;
+  longitude?: number;
+}
+
+/** Where a camera wall tile reads frames from. Files cannot be reopened after a reload and are picked again. */
+export interface CameraSource {
+  kind: 'webcam' | 'file' | 'url';
+  deviceId?: string;         // webcam: MediaDeviceInfo.deviceId; empty = default camera
+  url?: string;              // url
+  format?: 'video' | 'mjpeg'; // url: played in a <video> element, or an MJPEG <img>
+  fileName?: string;         // file: last file chosen, shown as a hint
+}
+
+export interface CameraProfile {
+  id: string;
+  name: string;
+  location?: CameraLocation;
+  speedLimits?: SpeedLimits; // Tracker defaults when unset
+  source?: CameraSource;     // Set for cameras on the wall
+  calibration?: CameraCalibration;
+  zones?: Zone[];
+}
+
+export type Movement = 'Left' | 'Through' | 'Right' | 'U-Turn';
+
+export interface TurningMovementCount {
+  binStart: number; // ms, start of the 15-minute interval (media time for video, epoch for live)
+  approach: Approach; // Leg the object entered from
+  movement: Movement;
+  vehicleClass: string;
+  count: number;
+}
+
+export interface TrajectoryPoint {
+  timestamp: number; // ms (media time for video)
+  box: [number, number, number, number]; // [ymin, xmin, ymax, xmax] (Normalized 0-1000)
+  centroid: [number, number]; // [x, y] normalized 0-1
+  speed: number; // km/h
+}
+
+export interface TrackTrajectory {
+  trackId: number;
+  category: TrackCategory;
+  objectClass: string;
+  points: TrajectoryPoint[];
+  violations: Violation[]; // Each first occurrence, with timestamp
+  completed?: boolean; // Set once the tracker has dropped the track or the session ended
+}
+
+export interface OriginDestinationFlow {
+  origin: string;      // Entry gate, zone label or image edge
+  destination: string;
+  count: number;
+  trackIds: number[];
+}
+
+export interface MovementCluster {
+  id: number;
+  prototype: [number, number][]; // Mean resampled path, normalized 0-1
+  trackIds: number[];
+  origin: string;      // Most common origin among members
+  destination: string;
+  meanSpeed: number;   // km/h
+}
+
+export interface OriginDestinationAnalysis {
+  flows: OriginDestinationFlow[];
+  clusters: MovementCluster[];
+  trajectoryCount: number; // Completed trajectories considered (stationary ones excluded)
+}